@@ -0,0 +1,31 @@
+// Type-checks every Edge Function with Deno, each against its own deno.json. `deno test` only
+// checks what the tests import, so this is what fails when a function, or the _shared code it
+// uses, no longer matches the generated Database and ChartData types.
+//
+//   node scripts/check-functions.mjs
+
+import { spawnSync } from 'node:child_process';
+import { existsSync, readdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '../..');
+const functionsDir = resolve(root, 'supabase/functions');
+
+const functions = readdirSync(functionsDir, { withFileTypes: true })
+  .filter(entry => entry.isDirectory() && existsSync(resolve(functionsDir, entry.name, 'index.ts')))
+  .map(entry => entry.name);
+
+const failed = functions.filter(name => {
+  const { status } = spawnSync('deno', ['check', '--no-lock', '--config', 'deno.json', 'index.ts'], {
+    cwd: resolve(functionsDir, name),
+    stdio: 'inherit',
+  });
+  return status !== 0;
+});
+
+if (failed.length > 0) {
+  process.stderr.write(`deno check failed for ${failed.join(', ')}\n`);
+  process.exit(1);
+}
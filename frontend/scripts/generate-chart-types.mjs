@@ -0,0 +1,217 @@
+// Generates the ChartData types and schema constants for the frontend and the Edge Functions
+// from the one JSON Schema both read charts with:
+//   supabase/functions/_shared/schema/chart-data.schema.json
+// and copies the Edge Functions' validator, which upgrades and checks charts against it, into
+// the frontend:
+//   supabase/functions/_shared/schema/chartData.ts
+//
+//   node scripts/generate-chart-types.mjs          write all three files
+//   node scripts/generate-chart-types.mjs --check  fail if any is out of date
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, relative, resolve } from 'node:path';
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+import { format, resolveConfig } from 'prettier';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '../..');
+const schemaPath = resolve(root, 'supabase/functions/_shared/schema/chart-data.schema.json');
+const validatorPath = resolve(root, 'supabase/functions/_shared/schema/chartData.ts');
+const validatorTarget = resolve(root, 'frontend/src/lib/chartData.generated.ts');
+
+// Each tree keeps its own statement style: semicolons in the frontend, none in Deno
+const targets = [
+  { path: resolve(root, 'frontend/src/types/chartData.generated.ts'), semicolons: true },
+  { path: resolve(root, 'supabase/functions/_shared/schema/chartData.generated.ts'), semicolons: false },
+];
+
+const MAX_LINE = 100;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function refName(ref) {
+  return ref.replace('#/$defs/', '');
+}
+
+function literal(value) {
+  return typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+function comment(text, indent) {
+  const lines = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    if (line && indent.length + 3 + line.length + 1 + word.length > MAX_LINE) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.map(l => `${indent}// ${l}\n`).join('');
+}
+
+function union(types) {
+  return types.join(' | ');
+}
+
+function typeOf(schema, indent) {
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.anyOf) return union(schema.anyOf.map(option => typeOf(option, indent)));
+  if (schema.const !== undefined) return literal(schema.const);
+  if (schema.enum) return union(schema.enum.map(literal));
+
+  switch (schema.type) {
+    case 'array': {
+      if (schema.prefixItems) return `[${schema.prefixItems.map(item => typeOf(item, indent)).join(', ')}]`;
+      const item = typeOf(schema.items ?? {}, indent);
+      return item.includes(' | ') ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object':
+      return schema.properties ? `{\n${members(schema, `${indent}  `)}${indent}}` : 'Record<string, unknown>';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'string':
+    case 'boolean':
+    case 'null':
+      return schema.type;
+    default:
+      return 'unknown';
+  }
+}
+
+function members(schema, indent) {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties).map(([key, property]) => {
+    const name = `${IDENTIFIER.test(key) ? key : literal(key)}${required.has(key) ? '' : '?'}`;
+    const type = typeOf(property, indent);
+    // Comments on nested objects go above them; on anything else, after the member
+    if (type.includes('\n')) {
+      return `${property.description ? comment(capitalize(property.description), indent) : ''}${indent}${name}: ${type};\n`;
+    }
+    const line = `${indent}${name}: ${type};`;
+    return `${line}${property.description ? ` // ${property.description}` : ''}\n`;
+  }).join('');
+}
+
+function capitalize(text) {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function definition(name, schema, end) {
+  const header = schema.description ? comment(schema.description, '') : '';
+  if (schema.type === 'object' && schema.properties) {
+    return `${header}export interface ${name} {\n${members(schema, '  ')}}\n`;
+  }
+  const type = typeOf(schema, '');
+  const oneLine = `export type ${name} = ${type}${end}`;
+  if (oneLine.length <= MAX_LINE) return `${header}${oneLine}\n`;
+  return `${header}export type ${name} =\n${type.split(' | ').map(part => `  | ${part}`).join('\n')}${end}\n`;
+}
+
+const JSON_SCHEMA_INTERFACE = `// The subset of JSON Schema (draft 2020-12) the chart schema is written in
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  enum?: readonly (string | number | boolean | null)[];
+  const?: string | number | boolean | null;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  format?: string;
+  anyOf?: JsonSchema[];
+}
+`;
+
+function generate(schema, semicolons) {
+  const end = semicolons ? ';' : '';
+  const version = schema.$defs?.ChartData?.properties?.schema_version?.const;
+  if (!Number.isInteger(version)) {
+    throw new Error('$defs.ChartData.properties.schema_version needs an integer const');
+  }
+  if (!schema.$id.endsWith(`:v${version}`)) {
+    throw new Error(`$id ${schema.$id} does not end in :v${version}, the ChartData schema_version`);
+  }
+
+  return [
+    `// Generated from ${relative(root, schemaPath)} by`,
+    '// frontend/scripts/generate-chart-types.mjs; edit the schema and run',
+    '// `npm run generate:chart-types` in frontend/ rather than changing this file.',
+    '',
+    `export const CHART_DATA_SCHEMA_ID = ${literal(schema.$id)}${end}`,
+    '',
+    `export const CHART_DATA_SCHEMA_VERSION = ${version}${end}`,
+    '',
+    `export type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'${end}`,
+    '',
+    JSON_SCHEMA_INTERFACE,
+    `export const CHART_DATA_SCHEMA: JsonSchema = ${JSON.stringify(schema, null, 2)}${end}`,
+    '',
+    Object.entries(schema.$defs).map(([name, def]) => definition(name, def, end)).join('\n'),
+  ].join('\n');
+}
+
+// The Deno validator in the frontend's style: its types imported through the @/ alias, and
+// reformatted by Prettier with the frontend's settings, which puts the semicolons back
+async function copyValidator() {
+  const source = readFileSync(validatorPath, 'utf8').replace(
+    "from './chartData.generated.ts'",
+    "from '@/types/chartData.generated'"
+  );
+  const header = [
+    `// Generated from ${relative(root, validatorPath)} by`,
+    '// frontend/scripts/generate-chart-types.mjs; edit that file and run',
+    '// `npm run generate:chart-types` in frontend/ rather than changing this file.',
+    '',
+    '',
+  ].join('\n');
+  const options = await resolveConfig(validatorTarget);
+  return format(header + source, { ...options, filepath: validatorTarget });
+}
+
+const schema = JSON.parse(readFileSync(schemaPath, 'utf8'));
+const check = process.argv.includes('--check');
+const stale = [];
+
+const outputs = [
+  ...targets.map(target => ({ path: target.path, output: generate(schema, target.semicolons) })),
+  { path: validatorTarget, output: await copyValidator() },
+];
+
+for (const { path, output } of outputs) {
+  let current = null;
+  try {
+    current = readFileSync(path, 'utf8');
+  } catch {
+    // Not generated yet
+  }
+  if (current === output) continue;
+  if (check) {
+    stale.push(relative(root, path));
+  } else {
+    writeFileSync(path, output);
+    process.stdout.write(`Wrote ${relative(root, path)}\n`);
+  }
+}
+
+if (stale.length > 0) {
+  process.stderr.write(
+    `Out of date with ${relative(root, schemaPath)} or ${relative(root, validatorPath)}: ` +
+      `${stale.join(', ')}\n` +
+      'Run `npm run generate:chart-types` in frontend/ and commit the result.\n'
+  );
+  process.exit(1);
+}
@@ -0,0 +1,381 @@
+// Generates the Database types the Supabase clients are typed with, for the frontend and the
+// Edge Functions, by replaying the migrations in supabase/migrations in order. Code that reads
+// or writes a column the migrations do not define then fails the type-check.
+//
+//   node scripts/generate-database-types.mjs          write both files
+//   node scripts/generate-database-types.mjs --check  fail if either is out of date
+
+import { readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { dirname, relative, resolve } from 'node:path';
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '../..');
+const migrationsDir = resolve(root, 'supabase/migrations');
+
+// Each tree keeps its own statement style: semicolons in the frontend, none in Deno
+const targets = [
+  {
+    path: resolve(root, 'frontend/src/types/database.generated.ts'),
+    typesModule: './astrology',
+    semicolons: true,
+  },
+  {
+    path: resolve(root, 'supabase/functions/_shared/database.generated.ts'),
+    typesModule: './types.ts',
+    semicolons: false,
+  },
+];
+
+// JSON columns whose shape the app knows; the rest are typed as Json. `write` is the type
+// accepted on insert and update when it differs from what is read back.
+const JSON_COLUMNS = {
+  'users.birth_location': { row: 'Location' },
+  'users.preferences': { row: 'UserPreferences' },
+  'horary_queries.location': { row: 'Location' },
+  // Charts of any schema_version are stored, so rows are read as Json and upgraded on read
+  'horary_queries.chart_data': { row: 'Json', write: 'ChartData' },
+  'horary_queries.interpretation': { row: 'StoredInterpretation' },
+  'horary_queries.metadata': { row: 'Record<string, unknown>' },
+};
+
+const COLUMN_TYPES = [
+  [/^(uuid|text|varchar|character varying|char|character|citext|date|time|timetz|timestamp|timestamptz|interval)\b/, 'string'],
+  [/^(smallint|integer|int|int2|int4|int8|bigint|decimal|numeric|real|double precision|float|float4|float8|serial|bigserial)\b/, 'number'],
+  [/^(boolean|bool)\b/, 'boolean'],
+  [/^(jsonb|json)\b/, 'Json'],
+];
+
+const TABLE_CONSTRAINT = /^(CONSTRAINT|PRIMARY KEY|UNIQUE|CHECK|FOREIGN KEY|EXCLUDE)\b/i;
+
+// --- Reading the migrations ---
+
+function stripComments(sql) {
+  let result = '';
+  let quoted = false;
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+    if (char === "'") quoted = !quoted;
+    if (!quoted && char === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+      result += '\n';
+      continue;
+    }
+    result += char;
+  }
+  return result;
+}
+
+// Statements split at semicolons outside quotes and $$ function bodies
+function statements(sql) {
+  const result = [];
+  let current = '';
+  let quoted = false;
+  let dollarQuoted = false;
+  const text = stripComments(sql);
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (!quoted && char === '$' && text[i + 1] === '$') {
+      dollarQuoted = !dollarQuoted;
+      current += '$$';
+      i++;
+      continue;
+    }
+    if (!dollarQuoted && char === "'") quoted = !quoted;
+    if (!quoted && !dollarQuoted && char === ';') {
+      if (current.trim()) result.push(current.trim().replace(/\s+/g, ' '));
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) result.push(current.trim().replace(/\s+/g, ' '));
+  return result;
+}
+
+// Parts of a list split at commas outside parentheses and quotes
+function splitTopLevel(text) {
+  const parts = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (const char of text) {
+    if (char === "'") quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+// Tables outside the public schema (auth.users) are not part of the generated types
+function publicName(name) {
+  const parts = name.replace(/"/g, '').split('.');
+  if (parts.length === 1) return parts[0];
+  return parts[0] === 'public' ? parts[1] : null;
+}
+
+// The values a CHECK (column IN (...)) constraint allows, or null for any other check
+function checkValues(expression) {
+  const match = /^\(\s*"?(\w+)"?\s+IN\s*\(([^)]*)\)\s*\)$/i.exec(expression.trim());
+  if (!match) return null;
+  const values = match[2].split(',').map(value => value.trim().replace(/^'(.*)'$/, '$1'));
+  return { column: match[1], values };
+}
+
+function columnType(table, name, type) {
+  const lower = type.toLowerCase();
+  const entry = COLUMN_TYPES.find(([pattern]) => pattern.test(lower));
+  if (!entry) throw new Error(`${table}.${name}: no TypeScript type for column type "${type}"`);
+  return entry[1];
+}
+
+// e.g. `status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'completed'))`
+function parseColumn(tableName, table, definition) {
+  const match = /^"?(\w+)"?\s+(.+)$/.exec(definition);
+  if (!match) throw new Error(`${tableName}: cannot read column "${definition}"`);
+  const [, name, rest] = match;
+  const column = {
+    name,
+    type: columnType(tableName, name, rest),
+    nullable: !/\bNOT NULL\b|\bPRIMARY KEY\b/i.test(rest),
+    hasDefault: /\bDEFAULT\b/i.test(rest) || /^(big)?serial\b/i.test(rest),
+    values: null,
+  };
+
+  const check = /\bCHECK\s*(\((?:[^()]|\([^()]*\))*\))/i.exec(rest);
+  const allowed = check && checkValues(check[1]);
+  if (allowed) {
+    column.values = allowed.values;
+    table.checks.set(`${tableName}_${name}_check`, name);
+  }
+
+  const reference = /\bREFERENCES\s+([\w."]+)\s*\(\s*"?(\w+)"?\s*\)/i.exec(rest);
+  if (reference && publicName(reference[1])) {
+    table.relationships.push({
+      foreignKeyName: `${tableName}_${name}_fkey`,
+      column: name,
+      referencedRelation: publicName(reference[1]),
+      referencedColumn: reference[2],
+    });
+  }
+  return column;
+}
+
+function findColumn(tableName, table, name) {
+  const column = table.columns.find(c => c.name === name);
+  if (!column) throw new Error(`${tableName}.${name} is altered but was never created`);
+  return column;
+}
+
+function addConstraint(tableName, table, definition) {
+  const match = /^(?:CONSTRAINT\s+"?(\w+)"?\s+)?CHECK\s*(\(.*\))$/i.exec(definition);
+  const allowed = match && checkValues(match[2]);
+  if (!allowed) return;
+  findColumn(tableName, table, allowed.column).values = allowed.values;
+  table.checks.set(match[1] ?? `${tableName}_${allowed.column}_check`, allowed.column);
+}
+
+function alterTable(tables, tableName, actions) {
+  const table = tables.get(tableName);
+  if (!table) throw new Error(`ALTER TABLE ${tableName} before it is created`);
+
+  for (const action of splitTopLevel(actions)) {
+    let match;
+    if ((match = /^RENAME (?:COLUMN )?"?(\w+)"? TO "?(\w+)"?$/i.exec(action))) {
+      findColumn(tableName, table, match[1]).name = match[2];
+      for (const relationship of table.relationships) {
+        if (relationship.column === match[1]) relationship.column = match[2];
+      }
+    } else if ((match = /^ADD (?:COLUMN )?(?:IF NOT EXISTS )?(?!CONSTRAINT\b|CHECK\b|PRIMARY\b|UNIQUE\b|FOREIGN\b)(.+)$/i.exec(action))) {
+      const column = parseColumn(tableName, table, match[1]);
+      if (!table.columns.some(c => c.name === column.name)) table.columns.push(column);
+    } else if ((match = /^ADD (.+)$/i.exec(action))) {
+      addConstraint(tableName, table, match[1]);
+    } else if ((match = /^DROP COLUMN (?:IF EXISTS )?"?(\w+)"?/i.exec(action))) {
+      table.columns = table.columns.filter(c => c.name !== match[1]);
+      table.relationships = table.relationships.filter(r => r.column !== match[1]);
+    } else if ((match = /^DROP CONSTRAINT (?:IF EXISTS )?"?(\w+)"?/i.exec(action))) {
+      const column = table.checks.get(match[1]);
+      const existing = column && table.columns.find(c => c.name === column);
+      if (existing) existing.values = null;
+      table.checks.delete(match[1]);
+    } else if ((match = /^ALTER (?:COLUMN )?"?(\w+)"? (.+)$/i.exec(action))) {
+      const column = findColumn(tableName, table, match[1]);
+      const change = match[2];
+      if (/^SET NOT NULL$/i.test(change)) column.nullable = false;
+      else if (/^DROP NOT NULL$/i.test(change)) column.nullable = true;
+      else if (/^SET DEFAULT\b/i.test(change)) column.hasDefault = true;
+      else if (/^DROP DEFAULT$/i.test(change)) column.hasDefault = false;
+      else if ((match = /^(?:SET DATA )?TYPE (.+?)(?: USING .*)?$/i.exec(change))) {
+        column.type = columnType(tableName, column.name, match[1]);
+      }
+    }
+    // Anything else (row level security, owners, storage) does not change the types
+  }
+}
+
+function readSchema() {
+  const tables = new Map();
+  const files = readdirSync(migrationsDir).filter(name => name.endsWith('.sql')).sort();
+  for (const file of files) {
+    for (const statement of statements(readFileSync(resolve(migrationsDir, file), 'utf8'))) {
+      let match;
+      if ((match = /^CREATE TABLE (?:IF NOT EXISTS )?([\w."]+) \((.*)\)$/i.exec(statement))) {
+        const name = publicName(match[1]);
+        if (!name || tables.has(name)) continue;
+        const table = { columns: [], relationships: [], checks: new Map() };
+        for (const definition of splitTopLevel(match[2])) {
+          if (TABLE_CONSTRAINT.test(definition)) addConstraint(name, table, definition);
+          else table.columns.push(parseColumn(name, table, definition));
+        }
+        tables.set(name, table);
+      } else if ((match = /^ALTER TABLE (?:IF EXISTS )?(?:ONLY )?([\w."]+) (.+)$/i.exec(statement))) {
+        const name = publicName(match[1]);
+        const rename = /^RENAME TO "?(\w+)"?$/i.exec(match[2]);
+        if (!name) continue;
+        if (rename) {
+          tables.set(rename[1], tables.get(name));
+          tables.delete(name);
+        } else {
+          alterTable(tables, name, match[2]);
+        }
+      } else if ((match = /^DROP TABLE (?:IF EXISTS )?([\w."]+)/i.exec(statement))) {
+        const name = publicName(match[1]);
+        if (name) tables.delete(name);
+      }
+    }
+  }
+  return { tables, files };
+}
+
+// --- Writing the types ---
+
+function quote(value) {
+  return `'${value}'`;
+}
+
+function memberType(tableName, column, mode) {
+  const json = column.type === 'Json' ? JSON_COLUMNS[`${tableName}.${column.name}`] : undefined;
+  const base = column.values
+    ? column.values.map(quote).join(' | ')
+    : (mode === 'write' ? json?.write ?? json?.row : json?.row) ?? column.type;
+  return column.nullable ? `${base} | null` : base;
+}
+
+function members(tableName, table, mode, indent) {
+  return table.columns.map(column => {
+    const optional = mode === 'update' || (mode === 'insert' && (column.nullable || column.hasDefault));
+    const type = memberType(tableName, column, mode === 'row' ? 'row' : 'write');
+    return `${indent}${column.name}${optional ? '?' : ''}: ${type};\n`;
+  }).join('');
+}
+
+function relationships(table, indent) {
+  if (table.relationships.length === 0) return '[];\n';
+  const items = table.relationships.map(r => [
+    `${indent}  {\n`,
+    `${indent}    foreignKeyName: ${quote(r.foreignKeyName)};\n`,
+    `${indent}    columns: [${quote(r.column)}];\n`,
+    `${indent}    isOneToOne: false;\n`,
+    `${indent}    referencedRelation: ${quote(r.referencedRelation)};\n`,
+    `${indent}    referencedColumns: [${quote(r.referencedColumn)}];\n`,
+    `${indent}  },\n`,
+  ].join(''));
+  return `[\n${items.join('')}${indent}];\n`;
+}
+
+function usedTypes(tables) {
+  const used = new Set();
+  for (const [tableName, table] of tables) {
+    for (const column of table.columns) {
+      const json = JSON_COLUMNS[`${tableName}.${column.name}`];
+      for (const type of [json?.row, json?.write]) {
+        if (type && type !== 'Json' && /^\w+$/.test(type)) used.add(type);
+      }
+    }
+  }
+  return [...used].sort();
+}
+
+function generate({ tables, files }, target) {
+  const end = target.semicolons ? ';' : '';
+  const pad = '      ';
+  const tableTypes = [...tables].map(([name, table]) => [
+    `${pad}${name}: {\n`,
+    `${pad}  Row: {\n${members(name, table, 'row', `${pad}    `)}${pad}  };\n`,
+    `${pad}  Insert: {\n${members(name, table, 'insert', `${pad}    `)}${pad}  };\n`,
+    `${pad}  Update: {\n${members(name, table, 'update', `${pad}    `)}${pad}  };\n`,
+    `${pad}  Relationships: ${relationships(table, `${pad}  `)}`,
+    `${pad}};\n`,
+  ].join('')).join('');
+  const imports = usedTypes(tables);
+
+  return [
+    `// Generated from the ${files.length} migrations in supabase/migrations by`,
+    '// frontend/scripts/generate-database-types.mjs; add a migration and run',
+    '// `npm run generate:database-types` in frontend/ rather than changing this file.',
+    '',
+    ...(imports.length > 0 ? [`import type { ${imports.join(', ')} } from '${target.typesModule}'${end}`, ''] : []),
+    'export type Json =',
+    '  | string',
+    '  | number',
+    '  | boolean',
+    '  | null',
+    '  | { [key: string]: Json | undefined }',
+    `  | Json[]${end}`,
+    '',
+    'export interface Database {',
+    '  public: {',
+    '    Tables: {',
+    `${tableTypes}    };`,
+    '    Views: { [_ in never]: never };',
+    '    Functions: { [_ in never]: never };',
+    '    Enums: { [_ in never]: never };',
+    '    CompositeTypes: { [_ in never]: never };',
+    '  };',
+    '}',
+    '',
+    "type PublicTables = Database['public']['Tables']" + end,
+    '',
+    `export type Tables<T extends keyof PublicTables> = PublicTables[T]['Row']${end}`,
+    `export type TablesInsert<T extends keyof PublicTables> = PublicTables[T]['Insert']${end}`,
+    `export type TablesUpdate<T extends keyof PublicTables> = PublicTables[T]['Update']${end}`,
+    '',
+  ].join('\n');
+}
+
+const schema = readSchema();
+const check = process.argv.includes('--check');
+const stale = [];
+
+for (const target of targets) {
+  const output = generate(schema, target);
+  let current = null;
+  try {
+    current = readFileSync(target.path, 'utf8');
+  } catch {
+    // Not generated yet
+  }
+  if (current === output) continue;
+  if (check) {
+    stale.push(relative(root, target.path));
+  } else {
+    writeFileSync(target.path, output);
+    process.stdout.write(`Wrote ${relative(root, target.path)}\n`);
+  }
+}
+
+if (stale.length > 0) {
+  process.stderr.write(
+    `Out of date with supabase/migrations: ${stale.join(', ')}\n` +
+      'Run `npm run generate:database-types` in frontend/ and commit the result.\n'
+  );
+  process.exit(1);
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import { ChartWheel } from '@/components/chart/ChartWheel';
 import { VoiceInterface } from '@/components/voice/VoiceInterface';
 import { MicTestComponent } from '@/components/voice/MicTestComponent';
 
@@ -22,6 +23,9 @@ export default function VoicePage() {
           {/* Voice Interface */}
           <VoiceInterface className="w-full" />
 
+          {/* Current chart, redrawn whenever a new chart is set in the store */}
+          <ChartWheel className="w-full" />
+
           {/* Microphone Test */}
           <MicTestComponent />
 
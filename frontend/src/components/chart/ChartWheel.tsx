@@ -0,0 +1,294 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ASPECT_LINE_STYLES,
+  CHART_CONFIG,
+  PLANET_GLYPHS,
+  SIGN_GLYPHS,
+  ZODIAC_SIGNS,
+} from '@/constants';
+import {
+  describeDignity,
+  describeSolarCondition,
+  formatDegrees,
+  formatMinutes,
+  formatPlanet,
+  formatPosition,
+  formatScore,
+  ordinal,
+} from '@/lib/chartFormat';
+import { cn } from '@/lib/utils';
+import { useCurrentChart } from '@/store/appStore';
+import type { ChartData, EssentialDignity, Planet, PlanetaryPosition } from '@/types/astrology';
+import { CircleDot } from 'lucide-react';
+import { useState } from 'react';
+import { polarPoint, spreadLongitudes, wheelAngle } from './wheelLayout';
+
+interface ChartWheelProps {
+  // Defaults to the current chart in the app store, so setCurrentChart redraws the wheel
+  chart?: ChartData | null;
+  className?: string;
+}
+
+// Closest two planet glyphs may sit, in degrees of arc
+const MIN_GLYPH_GAP = 8;
+
+const SIZE = CHART_CONFIG.WHEEL_SIZE;
+const CENTER = SIZE / 2;
+const OUTER_RADIUS = CENTER - 2;
+const ZODIAC_RADIUS = OUTER_RADIUS - 28;
+const PLANET_RADIUS = ZODIAC_RADIUS - 20;
+const LABEL_RADIUS = ZODIAC_RADIUS - 40;
+const ASPECT_RADIUS = SIZE * 0.25;
+
+function PlanetDetails({ planet, dignity }: { planet: PlanetaryPosition; dignity?: EssentialDignity }) {
+  // Charts from schema version 1 recorded no speed or accidental dignities
+  const motion = [
+    planet.retrograde ? 'retrograde' : 'direct',
+    ...(planet.swift === null ? [] : [planet.swift ? 'swift' : 'slow']),
+  ];
+
+  return (
+    <div className="space-y-1 text-sm">
+      <p className="font-medium">
+        {formatPlanet(planet.name)} {formatPosition(planet)},{' '}
+        {ordinal(planet.house)} house{planet.house_strength && ` (${planet.house_strength})`}
+      </p>
+      <p className="text-muted-foreground">{motion.join(', ')}</p>
+      {dignity && (
+        <>
+          <p>Essential: {describeDignity(dignity)}</p>
+          <p className="text-muted-foreground">
+            Rulers: domicile {dignity.rulers.domicile}
+            {dignity.rulers.exaltation && `, exaltation ${dignity.rulers.exaltation}`}
+            , triplicity {dignity.rulers.triplicity}, term {dignity.rulers.term}, face{' '}
+            {dignity.rulers.face}
+          </p>
+        </>
+      )}
+      {planet.accidental_score !== null && (
+        <p>
+          Accidental: {formatScore(planet.accidental_score)}
+          {planet.solar_condition && `, ${describeSolarCondition(planet.solar_condition)}`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function ChartWheel({ chart: chartProp, className }: ChartWheelProps) {
+  const currentChart = useCurrentChart();
+  const chart = chartProp === undefined ? currentChart : chartProp;
+  const [hovered, setHovered] = useState<Planet | null>(null);
+  const [pinned, setPinned] = useState<Planet | null>(null);
+
+  if (!chart) {
+    return (
+      <Card className={className}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CircleDot className="h-5 w-5" />
+            Chart
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            Ask a horary question and the chart will be drawn here.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { ascendant } = chart;
+  const at = (radius: number, longitude: number) =>
+    polarPoint(CENTER, radius, wheelAngle(longitude, ascendant));
+
+  // A planet that is no longer in the chart (e.g. after a new chart arrives) is ignored
+  const activeName = hovered ?? pinned;
+  const active = chart.planets.find(p => p.name === activeName) ?? null;
+  const glyphLongitudes = spreadLongitudes(chart.planets.map(p => p.longitude), MIN_GLYPH_GAP);
+
+  const select = (name: Planet) => setPinned(current => (current === name ? null : name));
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CircleDot className="h-5 w-5" />
+          Chart
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <svg
+          viewBox={`0 0 ${SIZE} ${SIZE}`}
+          className="w-full max-w-[400px] mx-auto text-foreground"
+          role="img"
+          aria-label={`Horary chart for ${chart.timestamp}`}
+        >
+          <g fill="none" stroke={CHART_CONFIG.DEFAULT_STROKE_COLOR}>
+            <circle cx={CENTER} cy={CENTER} r={OUTER_RADIUS} />
+            <circle cx={CENTER} cy={CENTER} r={ZODIAC_RADIUS} />
+            <circle cx={CENTER} cy={CENTER} r={ASPECT_RADIUS} />
+          </g>
+
+          {/* Zodiac band */}
+          {ZODIAC_SIGNS.map((sign, i) => {
+            const from = at(OUTER_RADIUS, i * 30);
+            const to = at(ZODIAC_RADIUS, i * 30);
+            const glyph = at((OUTER_RADIUS + ZODIAC_RADIUS) / 2, i * 30 + 15);
+            return (
+              <g key={sign}>
+                <line
+                  x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                  stroke={CHART_CONFIG.DEFAULT_STROKE_COLOR}
+                />
+                <text
+                  x={glyph.x} y={glyph.y}
+                  fontSize={16} textAnchor="middle" dominantBaseline="central" fill="currentColor"
+                >
+                  <title>{sign}</title>
+                  {SIGN_GLYPHS[sign]}
+                </text>
+              </g>
+            );
+          })}
+
+          {/* House cusps; the Ascendant and Midheaven axes are drawn heavier */}
+          {chart.houses.map((house, i) => {
+            const angular = house.number % 3 === 1;
+            const from = at(ZODIAC_RADIUS, house.cusp);
+            const to = at(ASPECT_RADIUS, house.cusp);
+            const nextCusp = chart.houses[(i + 1) % chart.houses.length]?.cusp ?? house.cusp;
+            const width = ((nextCusp - house.cusp) % 360 + 360) % 360;
+            const label = at(ASPECT_RADIUS + 10, house.cusp + width / 2);
+            return (
+              <g key={house.number}>
+                <line
+                  x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                  stroke={CHART_CONFIG.DEFAULT_STROKE_COLOR}
+                  strokeWidth={angular ? CHART_CONFIG.HOUSE_LINE_WIDTH : 1}
+                />
+                <text
+                  x={label.x} y={label.y}
+                  fontSize={9} textAnchor="middle" dominantBaseline="central"
+                  fill={CHART_CONFIG.DEFAULT_STROKE_COLOR}
+                >
+                  {house.number}
+                </text>
+              </g>
+            );
+          })}
+
+          {/* Aspect lines between the planets' true positions */}
+          {chart.aspects
+            .filter(aspect => aspect.type !== 'conjunction')
+            .map(aspect => {
+              const first = chart.planets.find(p => p.name === aspect.planet1);
+              const second = chart.planets.find(p => p.name === aspect.planet2);
+              if (!first || !second) return null;
+              const from = at(ASPECT_RADIUS, first.longitude);
+              const to = at(ASPECT_RADIUS, second.longitude);
+              const style = ASPECT_LINE_STYLES[aspect.type];
+              const dimmed = active !== null && active.name !== first.name && active.name !== second.name;
+              return (
+                <line
+                  key={`${aspect.planet1}-${aspect.planet2}`}
+                  x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                  stroke={style.color}
+                  strokeDasharray={style.dash || undefined}
+                  strokeWidth={CHART_CONFIG.ASPECT_LINE_WIDTH}
+                  opacity={dimmed ? 0.15 : 0.8}
+                >
+                  <title>{`${aspect.planet1} ${aspect.type} ${aspect.planet2}`}</title>
+                </line>
+              );
+            })}
+
+          {/* Planets: a tick at the true position, the glyph where there is room for it */}
+          {chart.planets.map((planet, i) => {
+            const glyphLongitude = glyphLongitudes[i] ?? planet.longitude;
+            const tickOuter = at(ZODIAC_RADIUS, planet.longitude);
+            const tickInner = at(ZODIAC_RADIUS - 6, planet.longitude);
+            const leader = at(PLANET_RADIUS + 9, glyphLongitude);
+            const glyph = at(PLANET_RADIUS, glyphLongitude);
+            const label = at(LABEL_RADIUS, glyphLongitude);
+            const highlighted = active?.name === planet.name;
+            const color = highlighted ? CHART_CONFIG.HIGHLIGHT_COLOR : 'currentColor';
+            return (
+              <g
+                key={planet.name}
+                role="button"
+                tabIndex={0}
+                aria-label={`${planet.name} ${formatPosition(planet)}`}
+                aria-pressed={pinned === planet.name}
+                className="cursor-pointer outline-none"
+                onMouseEnter={() => setHovered(planet.name)}
+                onMouseLeave={() => setHovered(null)}
+                onFocus={() => setHovered(planet.name)}
+                onBlur={() => setHovered(null)}
+                onClick={() => select(planet.name)}
+                onKeyDown={event => {
+                  if (event.key === 'Enter' || event.key === ' ') {
+                    event.preventDefault();
+                    select(planet.name);
+                  }
+                }}
+              >
+                <line
+                  x1={tickOuter.x} y1={tickOuter.y} x2={tickInner.x} y2={tickInner.y}
+                  stroke={color}
+                />
+                <line
+                  x1={tickInner.x} y1={tickInner.y} x2={leader.x} y2={leader.y}
+                  stroke={CHART_CONFIG.DEFAULT_STROKE_COLOR} strokeWidth={0.5}
+                />
+                <text
+                  x={glyph.x} y={glyph.y}
+                  fontSize={CHART_CONFIG.PLANET_SYMBOL_SIZE}
+                  textAnchor="middle" dominantBaseline="central" fill={color}
+                >
+                  {PLANET_GLYPHS[planet.name]}
+                </text>
+                {/* Degrees above minutes, so labels in a cluster stay as narrow as the glyphs */}
+                <text
+                  x={label.x} y={label.y - 5}
+                  fontSize={8} textAnchor="middle" dominantBaseline="central" fill={color}
+                >
+                  {formatDegrees(planet.degree)}
+                </text>
+                <text
+                  x={label.x} y={label.y + 5}
+                  fontSize={7} textAnchor="middle" dominantBaseline="central" fill={color}
+                >
+                  {formatMinutes(planet.minute)}
+                  {planet.retrograde && <tspan fill="#DC2626">℞</tspan>}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+
+        <div
+          className={cn(
+            'p-3 rounded-lg bg-gray-50 dark:bg-gray-800 min-h-[6rem]',
+            !active && 'flex items-center'
+          )}
+          aria-live="polite"
+        >
+          {active ? (
+            <PlanetDetails
+              planet={active}
+              dignity={chart.dignities?.planets.find(d => d.planet === active.name)}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Hover over or tap a planet to see its dignities.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
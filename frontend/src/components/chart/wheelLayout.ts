@@ -0,0 +1,98 @@
+// Chart wheel geometry: where a longitude falls on screen and how crowded glyphs are spread
+// NO astrology calculations - positions come from the Edge Functions
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+// Screen angle, counter-clockwise from 3 o'clock, with the Ascendant at 9 o'clock
+export function wheelAngle(longitude: number, ascendant: number): number {
+  return normalizeDegrees(180 + longitude - ascendant);
+}
+
+// SVG y grows downwards, so the sine is subtracted
+export function polarPoint(center: number, radius: number, angle: number): Point {
+  const radians = (angle * Math.PI) / 180;
+  return {
+    x: center + radius * Math.cos(radians),
+    y: center - radius * Math.sin(radians),
+  };
+}
+
+interface Cluster {
+  members: number[]; // positions along the unwrapped circle, in order
+  center: number;
+}
+
+function clusterStart(cluster: Cluster, gap: number): number {
+  return cluster.center - ((cluster.members.length - 1) * gap) / 2;
+}
+
+function clusterEnd(cluster: Cluster, gap: number): number {
+  return cluster.center + ((cluster.members.length - 1) * gap) / 2;
+}
+
+// Longitudes to draw glyphs at, so that neighbours are at least minGap degrees apart.
+// Crowded planets are merged into clusters, each fanned out evenly around the mean of
+// its members, so a glyph only moves as far as its neighbours force it to.
+export function spreadLongitudes(longitudes: number[], minGap: number): number[] {
+  const count = longitudes.length;
+  if (count < 2) return [...longitudes];
+  const gap = Math.min(minGap, 360 / count);
+
+  const order = longitudes
+    .map((longitude, index) => ({ longitude: normalizeDegrees(longitude), index }))
+    .sort((a, b) => a.longitude - b.longitude);
+
+  // Cut the circle at its widest empty arc so no cluster straddles the cut
+  let cut = 0;
+  let widest = -1;
+  order.forEach((entry, i) => {
+    const next = order[(i + 1) % count];
+    if (!next) return;
+    const arc = next.longitude - entry.longitude + (i === count - 1 ? 360 : 0);
+    if (arc > widest) {
+      widest = arc;
+      cut = (i + 1) % count;
+    }
+  });
+  const sequence = [...order.slice(cut), ...order.slice(0, cut)];
+  const first = sequence[0]?.longitude ?? 0;
+  const positions = sequence.map(entry => first + normalizeDegrees(entry.longitude - first));
+
+  let clusters: Cluster[] = positions.map(position => ({ members: [position], center: position }));
+  let merged = true;
+  while (merged) {
+    merged = false;
+    const next: Cluster[] = [];
+    for (const cluster of clusters) {
+      const previous = next[next.length - 1];
+      if (previous && clusterStart(cluster, gap) - clusterEnd(previous, gap) < gap) {
+        const members = [...previous.members, ...cluster.members];
+        next[next.length - 1] = {
+          members,
+          center: members.reduce((sum, m) => sum + m, 0) / members.length,
+        };
+        merged = true;
+      } else {
+        next.push(cluster);
+      }
+    }
+    clusters = next;
+  }
+
+  const spread = clusters.flatMap(cluster =>
+    cluster.members.map((_, i) => normalizeDegrees(clusterStart(cluster, gap) + i * gap))
+  );
+  const result = new Array<number>(count);
+  sequence.forEach((entry, i) => {
+    result[entry.index] = spread[i] ?? entry.longitude;
+  });
+  return result;
+}
@@ -2,9 +2,35 @@
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DEFAULT_TURN_DETECTION, SEMANTIC_VAD_EAGERNESS, TURN_DETECTION_MODES } from '@/constants';
 import { useRealtimeVoice } from '@/hooks/useRealtimeVoice';
+import { supabaseApi } from '@/lib/supabase';
+import { useAppStore, useCurrentChart, useUser } from '@/store/appStore';
+import type { SemanticVadEagerness, TurnDetectionMode, TurnDetectionPreference } from '@/types/realtime';
 import { Mic, MicOff, Phone, PhoneCall, Volume2 } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+
+const TURN_DETECTION_LABELS: Record<TurnDetectionMode, string> = {
+  server_vad: 'Pause detection',
+  semantic_vad: 'Smart detection',
+  push_to_talk: 'Push to talk'
+};
+
+// The key held to talk in push-to-talk mode
+const PUSH_TO_TALK_KEY = 'Space';
+
+function isTurnDetectionPreference(value: unknown): value is TurnDetectionPreference {
+  if (typeof value !== 'object' || value === null) return false;
+  const { mode, eagerness } = value as Record<string, unknown>;
+  return TURN_DETECTION_MODES.includes(mode as TurnDetectionMode) &&
+    (eagerness === undefined || SEMANTIC_VAD_EAGERNESS.includes(eagerness as SemanticVadEagerness));
+}
+
+// Typing a space into a field should not start talking
+function isEditable(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
 
 interface VoiceInterfaceProps {
   className?: string;
@@ -13,18 +39,38 @@ interface VoiceInterfaceProps {
 export function VoiceInterface({ className }: VoiceInterfaceProps) {
   const [isMuted, setIsMuted] = useState(false);
   const [responses, setResponses] = useState<string[]>([]);
+  const currentChart = useCurrentChart();
+  const user = useUser();
+  const setCurrentChart = useAppStore((state) => state.setCurrentChart);
+  const setCurrentQueryId = useAppStore((state) => state.setCurrentQueryId);
+
+  const [turnDetection, setTurnDetection] = useState<TurnDetectionPreference>({ ...DEFAULT_TURN_DETECTION });
+  const transcriptRef = useRef<HTMLDivElement>(null);
 
   const {
+    state,
     connect,
     disconnect,
     toggleMute,
+    startTalking,
+    stopTalking,
     clearConversation,
     isConnected,
     isConnecting,
     isListening,
     isSpeaking,
+    reconnectStatus,
     error
   } = useRealtimeVoice({
+    strictures: currentChart?.strictures,
+    userId: user?.id ?? null,
+    turnDetection,
+    // Charts the assistant casts become the current chart, so the wheel shows what it is reading
+    onChartGenerated: (response) => {
+      setCurrentChart(response.chart_data);
+      setCurrentQueryId(response.query_id);
+      setResponses(prev => [...prev, `Chart cast: ${response.judgement.summary}`]);
+    },
     onConnected: () => {
       setResponses(prev => [...prev, 'Connected to horary astrology assistant']);
     },
@@ -34,17 +80,81 @@ export function VoiceInterface({ className }: VoiceInterfaceProps) {
     onResponseReceived: (response) => {
       setResponses(prev => [...prev, `Assistant: ${response}`]);
     },
-    onSpeechStarted: () => {
-      setResponses(prev => [...prev, 'Listening...']);
-    },
-    onSpeechStopped: () => {
-      setResponses(prev => [...prev, 'Speech detected']);
-    },
     onError: (errorMessage) => {
       setResponses(prev => [...prev, `Error: ${errorMessage}`]);
     }
   });
 
+  const isReconnecting = reconnectStatus === 'reconnecting';
+  const isPushToTalk = turnDetection.mode === 'push_to_talk';
+
+  // The signed-in user's saved turn detection mode; anyone else gets the default
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+    supabaseApi.getUserDetails(user.id)
+      .then((details) => {
+        const saved = details?.preferences.voice_turn_detection;
+        if (!cancelled && isTurnDetectionPreference(saved)) setTurnDetection(saved);
+      })
+      .catch(() => {
+        // Keep the default mode
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  // Hold the push-to-talk key to talk, as with the button
+  useEffect(() => {
+    if (!isConnected || !isPushToTalk) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== PUSH_TO_TALK_KEY || isEditable(event.target)) return;
+      event.preventDefault();
+      if (!event.repeat) startTalking();
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== PUSH_TO_TALK_KEY || isEditable(event.target)) return;
+      event.preventDefault();
+      stopTalking();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      stopTalking();
+    };
+  }, [isConnected, isPushToTalk, startTalking, stopTalking]);
+
+  // Applies to the session straight away; saved for signed-in users
+  const handleTurnDetectionChange = (preference: TurnDetectionPreference) => {
+    setTurnDetection(preference);
+    if (!user?.id) return;
+    supabaseApi.updateUserPreferences(user.id, { voice_turn_detection: preference }).catch((err) => {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setResponses(prev => [...prev, `Error: turn detection mode not saved: ${message}`]);
+    });
+  };
+
+  const connectionLabel = isConnected
+    ? reconnectStatus === 'resumed' ? 'Connected (session resumed)' : 'Connected'
+    : isReconnecting
+    ? `Reconnecting (attempt ${state.reconnectAttempt ?? 1})...`
+    : isConnecting
+    ? 'Connecting...'
+    : reconnectStatus === 'failed'
+    ? 'Connection lost'
+    : 'Disconnected';
+
+  // Keep the latest turn in view as the transcript streams in
+  useEffect(() => {
+    const container = transcriptRef.current;
+    if (container) container.scrollTop = container.scrollHeight;
+  }, [state.transcript]);
+
   const handleToggleMute = () => {
     toggleMute();
     setIsMuted(!isMuted);
@@ -71,13 +181,15 @@ export function VoiceInterface({ className }: VoiceInterfaceProps) {
               className={`w-3 h-3 rounded-full ${
                 isConnected 
                   ? 'bg-green-500 animate-pulse' 
-                  : isConnecting 
+                  : isConnecting || isReconnecting
                   ? 'bg-yellow-500 animate-pulse' 
+                  : reconnectStatus === 'failed'
+                  ? 'bg-red-500'
                   : 'bg-gray-400'
               }`} 
             />
             <span className="text-sm font-medium">
-              {isConnected ? 'Connected' : isConnecting ? 'Connecting...' : 'Disconnected'}
+              {connectionLabel}
             </span>
           </div>
           
@@ -108,7 +220,7 @@ export function VoiceInterface({ className }: VoiceInterfaceProps) {
 
         {/* Control Buttons */}
         <div className="flex flex-wrap gap-2">
-          {!isConnected ? (
+          {!isConnected && !isReconnecting ? (
             <Button 
               onClick={connect} 
               disabled={isConnecting}
@@ -139,6 +251,20 @@ export function VoiceInterface({ className }: VoiceInterfaceProps) {
                 {isMuted ? 'Unmute' : 'Mute'}
               </Button>
 
+              {isPushToTalk && (
+                <Button
+                  onPointerDown={startTalking}
+                  onPointerUp={stopTalking}
+                  onPointerLeave={stopTalking}
+                  onPointerCancel={stopTalking}
+                  variant={isListening ? 'default' : 'outline'}
+                  className="flex items-center gap-2 select-none touch-none"
+                >
+                  <Mic className={`h-4 w-4 ${isListening ? 'animate-pulse' : ''}`} />
+                  {isListening ? 'Release to send' : 'Hold to talk (Space)'}
+                </Button>
+              )}
+
               <Button 
                 onClick={handleClearConversation} 
                 variant="outline"
@@ -150,6 +276,38 @@ export function VoiceInterface({ className }: VoiceInterfaceProps) {
           )}
         </div>
 
+        {/* Turn Detection */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Turn detection:</h4>
+          <div className="flex flex-wrap gap-2">
+            {TURN_DETECTION_MODES.map((mode) => (
+              <Button
+                key={mode}
+                onClick={() => handleTurnDetectionChange({ ...turnDetection, mode })}
+                variant={turnDetection.mode === mode ? 'default' : 'outline'}
+                size="sm"
+              >
+                {TURN_DETECTION_LABELS[mode]}
+              </Button>
+            ))}
+          </div>
+          {turnDetection.mode === 'semantic_vad' && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs text-gray-600 dark:text-gray-400">Eagerness:</span>
+              {SEMANTIC_VAD_EAGERNESS.map((eagerness) => (
+                <Button
+                  key={eagerness}
+                  onClick={() => handleTurnDetectionChange({ ...turnDetection, eagerness })}
+                  variant={(turnDetection.eagerness ?? DEFAULT_TURN_DETECTION.eagerness) === eagerness ? 'default' : 'outline'}
+                  size="sm"
+                >
+                  {eagerness}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Instructions */}
         <div className="p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800">
           <h4 className="text-sm font-medium text-blue-900 dark:text-blue-100 mb-1">
@@ -158,11 +316,42 @@ export function VoiceInterface({ className }: VoiceInterfaceProps) {
           <ul className="text-xs text-blue-700 dark:text-blue-300 space-y-1">
             <li>• Click &quot;Start Voice Session&quot; to connect</li>
             <li>• Ask your horary astrology question naturally</li>
+            <li>• In push-to-talk mode, hold the button or the space bar while you speak</li>
             <li>• The AI will interpret charts and provide guidance</li>
             <li>• Use voice interaction for a natural consultation experience</li>
           </ul>
         </div>
 
+        {/* Transcript */}
+        {state.transcript.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Transcript:</h4>
+            <div
+              ref={transcriptRef}
+              className="max-h-64 overflow-y-auto space-y-2 p-2 rounded-lg bg-gray-50 dark:bg-gray-800"
+            >
+              {state.transcript.map((entry) => (
+                <div
+                  key={entry.itemId}
+                  className={`flex ${entry.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                >
+                  <div
+                    className={`max-w-[80%] text-sm p-2 rounded-lg ${
+                      entry.role === 'user'
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white dark:bg-gray-700 border'
+                    } ${entry.status === 'in_progress' ? 'opacity-70' : ''}`}
+                  >
+                    {entry.status === 'failed'
+                      ? <span className="italic">Speech could not be transcribed</span>
+                      : entry.text || <span className="italic">...</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Conversation History */}
         {responses.length > 0 && (
           <div className="space-y-2">
@@ -23,18 +23,49 @@ export const HOUSES = [
   '9th House', '10th House', '11th House', '12th House'
 ] as const;
 
+export const HOUSE_SYSTEMS = [
+  'regiomontanus', 'placidus', 'alcabitius', 'whole_sign', 'equal', 'porphyry'
+] as const;
+
+// Regiomontanus is the traditional choice for horary; Placidus falls back to
+// Porphyry at latitudes where it is undefined
+export const DEFAULT_HOUSE_SYSTEM = 'regiomontanus' as const;
+
+export const TERM_SYSTEMS = ['egyptian', 'ptolemaic'] as const;
+
+export const DEFAULT_TERM_SYSTEM = 'egyptian' as const;
+
+export const VOID_OF_COURSE_RULES = ['classical', 'modern'] as const;
+
+export const DEFAULT_VOID_OF_COURSE_RULE = 'classical' as const;
+
+// Cazimi within 17', combust within 8°30', under the beams within 17°
+export const DEFAULT_SOLAR_ORBS = {
+  cazimi: 17 / 60,
+  combust: 8.5,
+  under_beams: 17,
+} as const;
+
+// Conjunctions to fixed stars and antiscial contacts within a degree
+export const DEFAULT_CONTACT_ORBS = {
+  fixed_star: 1,
+  antiscia: 1,
+} as const;
+
 // UI Constants
 export const THEME_OPTIONS = ['light', 'dark', 'auto'] as const;
 
-export const QUERY_STATUS_OPTIONS = ['processing', 'completed', 'failed'] as const;
+export const QUERY_STATUS_OPTIONS = ['pending', 'completed', 'failed'] as const;
 
 // API Constants
 export const API_ENDPOINTS = {
   TEST_FUNCTION: 'test-function',
-  PLANETARY_POSITIONS: 'planetary-positions', // planned
-  HORARY_CHART: 'horary-chart', // planned
+  PLANETARY_POSITIONS: 'planetary-positions',
+  HORARY_CHART: 'horary-chart',
   ZODIAC_INSIGHTS: 'zodiac-insights', // planned
-  ASTRO_DATA: 'astro-data', // planned
+  ASTRO_DATA: 'astro-data',
+  CHART_EXPORT: 'chart-export',
+  CHART_IMPORT: 'chart-import',
 } as const;
 
 // Default values
@@ -57,6 +88,28 @@ export const DEFAULT_ASPECT_ORBS = {
   sesquiquadrate: 2
 } as const;
 
+export const ORB_MODELS = ['per_aspect', 'moiety', 'within_degree'] as const;
+
+export const DEFAULT_ORB_MODEL = 'per_aspect' as const;
+
+export const INTERCHANGE_FORMATS = ['aaf', 'astrolog', 'json'] as const;
+
+export const EXPORT_FORMATS = ['svg', 'png', 'pdf', 'aspectarian', ...INTERCHANGE_FORMATS] as const;
+
+// Lilly's orbs of the planets; the 'moiety' model allows half of each, summed
+export const PLANET_ORBS = {
+  Sun: 17,
+  Moon: 12.5,
+  Mercury: 7,
+  Venus: 8,
+  Mars: 7.5,
+  Jupiter: 12,
+  Saturn: 10,
+  Uranus: 5,
+  Neptune: 5,
+  Pluto: 5
+} as const;
+
 // Validation constants
 export const VALIDATION_RULES = {
   MIN_QUESTION_LENGTH: 10,
@@ -114,9 +167,17 @@ export const OPENAI_CONFIG = {
   MODEL: 'gpt-4o-realtime-preview-2024-10-01',
   MAX_TOKENS: 4000,
   TEMPERATURE: 0.7,
-  VOICE: 'alloy'
+  VOICE: 'alloy',
+  TRANSCRIPTION_MODEL: 'gpt-4o-mini-transcribe'
 } as const;
 
+// How the voice assistant tells the user has finished speaking
+export const TURN_DETECTION_MODES = ['server_vad', 'semantic_vad', 'push_to_talk'] as const;
+
+export const SEMANTIC_VAD_EAGERNESS = ['low', 'medium', 'high', 'auto'] as const;
+
+export const DEFAULT_TURN_DETECTION = { mode: 'server_vad', eagerness: 'auto' } as const;
+
 // Chart display constants
 export const CHART_CONFIG = {
   WHEEL_SIZE: 400,
@@ -126,3 +187,45 @@ export const CHART_CONFIG = {
   DEFAULT_STROKE_COLOR: '#4B5563',
   HIGHLIGHT_COLOR: '#3B82F6'
 } as const;
+
+// Glyphs drawn on the chart wheel; U+FE0E asks for the text form rather than emoji
+export const SIGN_GLYPHS = {
+  Aries: '\u2648\uFE0E',
+  Taurus: '\u2649\uFE0E',
+  Gemini: '\u264A\uFE0E',
+  Cancer: '\u264B\uFE0E',
+  Leo: '\u264C\uFE0E',
+  Virgo: '\u264D\uFE0E',
+  Libra: '\u264E\uFE0E',
+  Scorpio: '\u264F\uFE0E',
+  Sagittarius: '\u2650\uFE0E',
+  Capricorn: '\u2651\uFE0E',
+  Aquarius: '\u2652\uFE0E',
+  Pisces: '\u2653\uFE0E'
+} as const;
+
+export const PLANET_GLYPHS = {
+  Sun: '\u2609',
+  Moon: '\u263D',
+  Mercury: '\u263F',
+  Venus: '\u2640',
+  Mars: '\u2642',
+  Jupiter: '\u2643',
+  Saturn: '\u2644',
+  Uranus: '\u2645',
+  Neptune: '\u2646',
+  Pluto: '\u2647'
+} as const;
+
+// Aspect lines on the wheel: hard aspects red, soft aspects blue, minor aspects dashed
+export const ASPECT_LINE_STYLES = {
+  conjunction: { color: '#A855F7', dash: '' },
+  opposition: { color: '#DC2626', dash: '' },
+  square: { color: '#DC2626', dash: '' },
+  trine: { color: '#2563EB', dash: '' },
+  sextile: { color: '#2563EB', dash: '4 2' },
+  quincunx: { color: '#16A34A', dash: '2 2' },
+  semisextile: { color: '#9CA3AF', dash: '2 2' },
+  semisquare: { color: '#F97316', dash: '2 2' },
+  sesquiquadrate: { color: '#F97316', dash: '2 2' }
+} as const;
@@ -7,8 +7,18 @@ import {
   type RealtimeServerEvent,
   type VoiceInterfaceState,
   type ConversationItem,
-  type EphemeralTokenResponse
+  type EphemeralTokenResponse,
+  type TranscriptEntry,
+  type ReconnectStatus,
+  type TurnDetection,
+  type TurnDetectionPreference
 } from '@/types/realtime';
+import type { Stricture } from '@/types/astrology';
+import type { GenerateHoraryChartResponse } from '@/types/api';
+import { DEFAULT_TURN_DETECTION, OPENAI_CONFIG } from '@/constants';
+import { ReconnectionManager, resumeSummary, tokenExpiresSoon } from '@/lib/realtimeReconnection';
+import { REALTIME_TOOLS, runRealtimeTool } from '@/lib/realtimeTools';
+import { VoiceSessionRecorder } from '@/lib/voiceSessionRecorder';
 
 interface UseRealtimeVoiceOptions {
   onError?: (error: string) => void;
@@ -18,6 +28,15 @@ interface UseRealtimeVoiceOptions {
   onSpeechStarted?: () => void;
   onSpeechStopped?: () => void;
   autoConnect?: boolean;
+  // Considerations before judgement for the current chart, passed into the assistant's instructions
+  strictures?: Stricture[];
+  // The signed-in user the assistant's tool calls act for; their sessions are saved to
+  // voice_sessions and voice_conversations
+  userId?: string | null;
+  // Called with each chart the assistant casts through the generateHoraryChart tool
+  onChartGenerated?: (response: GenerateHoraryChartResponse) => void;
+  // How the end of the user's turn is detected; changes apply to a connected session in place
+  turnDetection?: TurnDetectionPreference;
 }
 
 interface UseRealtimeVoiceReturn {
@@ -26,14 +45,76 @@ interface UseRealtimeVoiceReturn {
   disconnect: () => void;
   sendMessage: (message: string) => void;
   toggleMute: () => void;
+  // Push-to-talk: the user's turn runs from startTalking to stopTalking
+  startTalking: () => void;
+  stopTalking: () => void;
   clearConversation: () => void;
   isConnected: boolean;
   isConnecting: boolean;
   isListening: boolean;
   isSpeaking: boolean;
+  // Set while the connection is being restored after a drop, and after it has been or could not be
+  reconnectStatus: ReconnectStatus | null;
   error: string | null;
 }
 
+// How long ICE may stay disconnected before the connection counts as lost
+const ICE_DISCONNECT_GRACE_MS = 3000;
+
+// Shorter push-to-talk presses are dropped: the API will not commit under 100ms of audio
+const MIN_PUSH_TO_TALK_MS = 200;
+
+// The session's turn_detection for a mode; push-to-talk turns detection off
+function turnDetectionConfig({ mode, eagerness }: TurnDetectionPreference): TurnDetection | null {
+  switch (mode) {
+    case 'server_vad':
+      return { type: 'server_vad' };
+    case 'semantic_vad':
+      return { type: 'semantic_vad', eagerness: eagerness ?? DEFAULT_TURN_DETECTION.eagerness };
+    case 'push_to_talk':
+      return null;
+  }
+}
+
+// The session's instructions with the current chart's considerations before judgement, e.g. a
+// void-of-course Moon, so the assistant qualifies its answer by them
+function sessionInstructions(
+  instructions: string | undefined,
+  strictures: Stricture[] | undefined
+): string | undefined {
+  if (!strictures?.length) return instructions;
+  return [
+    instructions,
+    [
+      '# Considerations before judgement',
+      'The current chart has these warnings. Mention them briefly before you answer the question, ' +
+        'and say how they qualify the judgement:',
+      ...strictures.map(({ message }) => `- ${message}`),
+    ].join('\n'),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// The transcript with the entry for itemId changed, or added at the end when it has none yet
+function updateTranscript(
+  transcript: TranscriptEntry[],
+  itemId: string,
+  role: TranscriptEntry['role'],
+  update: (entry: TranscriptEntry) => TranscriptEntry
+): TranscriptEntry[] {
+  const index = transcript.findIndex(entry => entry.itemId === itemId);
+  if (index === -1) return [...transcript, update({ itemId, role, text: '', status: 'in_progress' })];
+  return transcript.map((entry, i) => (i === index ? update(entry) : entry));
+}
+
+function itemText(item: ConversationItem): string {
+  return (item.content ?? [])
+    .map(part => part.text ?? part.transcript)
+    .filter(Boolean)
+    .join(' ');
+}
+
 export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseRealtimeVoiceReturn {
   const {
     onError,
@@ -42,8 +123,14 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
     onResponseReceived,
     onSpeechStarted,
     onSpeechStopped,
-    autoConnect = false
+    autoConnect = false,
+    strictures,
+    userId,
+    onChartGenerated,
+    turnDetection
   } = options;
+  const turnDetectionMode = turnDetection?.mode ?? DEFAULT_TURN_DETECTION.mode;
+  const turnDetectionEagerness = turnDetection?.eagerness ?? DEFAULT_TURN_DETECTION.eagerness;
 
   // State
   const [state, setState] = useState<VoiceInterfaceState>({
@@ -52,7 +139,8 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
     isConnecting: false,
     isSpeaking: false,
     hasPermission: false,
-    conversationHistory: []
+    conversationHistory: [],
+    transcript: []
   });
 
   // Refs for WebRTC connection
@@ -70,6 +158,35 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
   const onResponseReceivedRef = useRef<((text: string) => void) | undefined>(onResponseReceived);
   const onSpeechStartedRef = useRef<(() => void) | undefined>(onSpeechStarted);
   const onSpeechStoppedRef = useRef<(() => void) | undefined>(onSpeechStopped);
+  const stricturesRef = useRef<Stricture[] | undefined>(strictures);
+  // The instructions the token was minted with, before the current chart's strictures are added
+  const baseInstructionsRef = useRef<string | undefined>(undefined);
+  const userIdRef = useRef<string | null | undefined>(userId);
+  const onChartGeneratedRef = useRef<((response: GenerateHoraryChartResponse) => void) | undefined>(onChartGenerated);
+  // Tool calls of the response in progress, answered together once it is done
+  const pendingToolCallsRef = useRef<Promise<ConversationItem>[]>([]);
+  // Tool names by call_id, from the function_call items the server announces
+  const toolCallNamesRef = useRef(new Map<string, string>());
+  // Saves the session while connected, for signed-in users
+  const recorderRef = useRef<VoiceSessionRecorder | null>(null);
+  // Reconnection: the last token, the attempts so far, and the conversation to replay
+  const tokenRef = useRef<EphemeralTokenResponse | null>(null);
+  const reconnectionRef = useRef(new ReconnectionManager());
+  const resumeSummaryRef = useRef<string | null>(null);
+  const transcriptRef = useRef<TranscriptEntry[]>([]);
+  // Push-to-talk: the mode in use, whether the user is holding to talk and since when, and
+  // whether a response is running that a new turn would interrupt
+  const turnDetectionRef = useRef<TurnDetectionPreference>({
+    mode: turnDetectionMode,
+    eagerness: turnDetectionEagerness
+  });
+  const isTalkingRef = useRef(false);
+  const talkStartedAtRef = useRef(0);
+  const responseActiveRef = useRef(false);
+  // Bumped for each connection opened or closed, so handlers of an old one do nothing
+  const connectionIdRef = useRef(0);
+  // True from the first connection of a session until the user ends it or it fails
+  const sessionActiveRef = useRef(false);
 
   useEffect(() => {
     onConnectedRef.current = onConnected;
@@ -78,7 +195,14 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
     onResponseReceivedRef.current = onResponseReceived;
     onSpeechStartedRef.current = onSpeechStarted;
     onSpeechStoppedRef.current = onSpeechStopped;
-  }, [onConnected, onDisconnected, onError, onResponseReceived, onSpeechStarted, onSpeechStopped]);
+    stricturesRef.current = strictures;
+    userIdRef.current = userId;
+    onChartGeneratedRef.current = onChartGenerated;
+  }, [onConnected, onDisconnected, onError, onResponseReceived, onSpeechStarted, onSpeechStopped, strictures, userId, onChartGenerated]);
+
+  useEffect(() => {
+    transcriptRef.current = state.transcript;
+  }, [state.transcript]);
 
   // Helper to send client events
   const sendClientEvent = useCallback((event: RealtimeClientEvent) => {
@@ -105,18 +229,50 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
         break;
 
       case 'conversation.item.created':
-        setState(prev => ({
-          ...prev,
-          conversationHistory: [...prev.conversationHistory, event.item]
-        }));
+        if (event.item.type === 'function_call' && event.item.call_id && event.item.name) {
+          toolCallNamesRef.current.set(event.item.call_id, event.item.name);
+        }
+        recorderRef.current?.itemCreated(event.item);
+        setState(prev => {
+          const { id, role } = event.item;
+          const conversationHistory = [...prev.conversationHistory, event.item];
+          if (event.item.type !== 'message' || !id || (role !== 'user' && role !== 'assistant')) {
+            return { ...prev, conversationHistory };
+          }
+          // Spoken turns start empty: their text follows in transcription and transcript events
+          const text = itemText(event.item);
+          const spoken = event.item.content?.some(part => part.type === 'input_audio') ?? false;
+          return {
+            ...prev,
+            conversationHistory,
+            transcript: updateTranscript(prev.transcript, id, role, entry => ({
+              ...entry,
+              text,
+              status: role === 'user' && !spoken ? 'completed' : 'in_progress'
+            }))
+          };
+        });
         break;
 
       case 'response.created':
+        responseActiveRef.current = true;
         setState(prev => ({ ...prev, isSpeaking: true }));
         break;
 
       case 'response.done':
+        responseActiveRef.current = false;
         setState(prev => ({ ...prev, isSpeaking: false }));
+        recorderRef.current?.responseDone(event.response);
+        setState(prev => ({
+          ...prev,
+          transcript: event.response.output
+            .filter(item => item.type === 'message' && item.role === 'assistant' && item.id)
+            .reduce((transcript, item) => updateTranscript(transcript, item.id ?? '', 'assistant', entry => ({
+              ...entry,
+              text: itemText(item) || entry.text,
+              status: 'completed'
+            })), prev.transcript)
+        }));
         
         // Extract text from response if available
         const textContent = event.response.output
@@ -126,6 +282,91 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
         if (textContent && onResponseReceivedRef.current) {
           onResponseReceivedRef.current(textContent);
         }
+
+        // A response that called tools ends without an answer: send the results back and ask
+        // for a new response, which can then use them. Only one response runs at a time, so
+        // this waits for response.done rather than answering each call as it arrives.
+        if (pendingToolCallsRef.current.length > 0) {
+          const toolCalls = pendingToolCallsRef.current;
+          const { dataChannel } = connectionRef.current;
+          pendingToolCallsRef.current = [];
+          void Promise.all(toolCalls).then(outputs => {
+            // A session resumed on a new connection knows nothing of these calls
+            if (connectionRef.current.dataChannel !== dataChannel) return;
+            outputs.forEach(item => sendClientEvent({ type: 'conversation.item.create', item }));
+            sendClientEvent({ type: 'response.create' });
+          });
+        }
+        break;
+
+      case 'response.function_call_arguments.done': {
+        const name = event.name ?? toolCallNamesRef.current.get(event.call_id) ?? '';
+        toolCallNamesRef.current.delete(event.call_id);
+        pendingToolCallsRef.current.push(
+          runRealtimeTool(name, event.arguments, {
+            userId: userIdRef.current ?? null,
+            onChartGenerated: onChartGeneratedRef.current
+          }).then((output): ConversationItem => ({
+            type: 'function_call_output',
+            call_id: event.call_id,
+            output
+          }))
+        );
+        break;
+      }
+
+      case 'conversation.item.input_audio_transcription.delta':
+        setState(prev => ({
+          ...prev,
+          transcript: updateTranscript(prev.transcript, event.item_id, 'user', entry => ({
+            ...entry,
+            text: entry.text + event.delta
+          }))
+        }));
+        break;
+
+      case 'conversation.item.input_audio_transcription.completed':
+        recorderRef.current?.transcriptionDone(event.item_id, event.transcript);
+        setState(prev => ({
+          ...prev,
+          transcript: updateTranscript(prev.transcript, event.item_id, 'user', entry => ({
+            ...entry,
+            text: event.transcript,
+            status: 'completed'
+          }))
+        }));
+        break;
+
+      case 'conversation.item.input_audio_transcription.failed':
+        recorderRef.current?.transcriptionDone(event.item_id, null);
+        setState(prev => ({
+          ...prev,
+          transcript: updateTranscript(prev.transcript, event.item_id, 'user', entry => ({
+            ...entry,
+            status: 'failed'
+          }))
+        }));
+        break;
+
+      case 'response.output_audio_transcript.delta':
+        setState(prev => ({
+          ...prev,
+          transcript: updateTranscript(prev.transcript, event.item_id, 'assistant', entry => ({
+            ...entry,
+            text: entry.text + event.delta
+          }))
+        }));
+        break;
+
+      case 'response.output_audio_transcript.done':
+        setState(prev => ({
+          ...prev,
+          transcript: updateTranscript(prev.transcript, event.item_id, 'assistant', entry => ({
+            ...entry,
+            text: event.transcript,
+            status: 'completed'
+          }))
+        }));
         break;
 
       case 'response.text.delta':
@@ -137,11 +378,13 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
 
       case 'input_audio_buffer.speech_started':
         setState(prev => ({ ...prev, isListening: true }));
+        recorderRef.current?.speechStarted(event.item_id, event.audio_start_ms);
         onSpeechStartedRef.current?.();
         break;
 
       case 'input_audio_buffer.speech_stopped':
         setState(prev => ({ ...prev, isListening: false }));
+        recorderRef.current?.speechStopped(event.item_id, event.audio_end_ms);
         onSpeechStoppedRef.current?.();
         break;
 
@@ -151,6 +394,15 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
         onErrorRef.current?.(errorMessage);
         break;
     }
+  }, [sendClientEvent]);
+
+  // The microphone sends audio unless it is muted, or push-to-talk is on and not held
+  const applyMicrophone = useCallback(() => {
+    const audioTrack = connectionRef.current.localStream?.getAudioTracks()[0];
+    if (audioTrack) {
+      audioTrack.enabled = !isMutedRef.current &&
+        (turnDetectionRef.current.mode !== 'push_to_talk' || isTalkingRef.current);
+    }
   }, []);
 
   // Get ephemeral token from Supabase function
@@ -171,19 +423,121 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
     return response.json();
   };
 
-  // Initialize WebRTC connection
-  const connect = useCallback(async () => {
-    if (connectionRef.current.connecting || connectionRef.current.connected) {
+  // Close the peer connection, data channel and microphone. Handlers of the closed connection
+  // ignore anything it does afterwards.
+  const closeConnection = useCallback(() => {
+    connectionIdRef.current++;
+    const { peerConnection, dataChannel, localStream, audioElement } = connectionRef.current;
+
+    // Close data channel
+    if (dataChannel) {
+      dataChannel.close();
+    }
+
+    // Close peer connection
+    if (peerConnection) {
+      peerConnection.close();
+    }
+
+    // Stop local stream
+    if (localStream) {
+      localStream.getTracks().forEach(track => track.stop());
+    }
+
+    // Clean up audio element
+    if (audioElement) {
+      audioElement.srcObject = null;
+    }
+
+    isTalkingRef.current = false;
+    responseActiveRef.current = false;
+
+    // Results of tool calls still running have no session to go back to
+    pendingToolCallsRef.current = [];
+    toolCallNamesRef.current.clear();
+
+    // Reset connection state
+    connectionRef.current = {
+      connected: false,
+      connecting: false
+    };
+  }, []);
+
+  // The session is over for good: reconnecting failed, or there was nothing to resume
+  const failSession = useCallback((errorMessage: string) => {
+    reconnectionRef.current.reset();
+    resumeSummaryRef.current = null;
+    void recorderRef.current?.close('error', errorMessage);
+    recorderRef.current = null;
+    const wasActive = sessionActiveRef.current;
+    sessionActiveRef.current = false;
+
+    setState(prev => ({
+      ...prev,
+      isConnected: false,
+      isConnecting: false,
+      isListening: false,
+      isSpeaking: false,
+      reconnectStatus: wasActive ? 'failed' : undefined,
+      reconnectAttempt: undefined,
+      error: errorMessage
+    }));
+    onErrorRef.current?.(errorMessage);
+    if (wasActive) onDisconnectedRef.current?.();
+  }, []);
+
+  // Try again after the next backoff delay, or give up once every attempt has been used
+  const scheduleReconnect = useCallback((reason: string) => {
+    const scheduled = reconnectionRef.current.schedule(() => {
+      void openConnectionRef.current(true);
+    });
+    if (!scheduled) {
+      failSession(`Connection lost: ${reason}`);
+      return;
+    }
+
+    setState(prev => ({
+      ...prev,
+      isConnected: false,
+      isConnecting: false,
+      isListening: false,
+      isSpeaking: false,
+      reconnectStatus: 'reconnecting',
+      reconnectAttempt: reconnectionRef.current.attempts
+    }));
+  }, [failSession]);
+
+  // The connection dropped under a session the user has not ended: reconnect and resume it
+  const handleConnectionLost = useCallback((reason: string) => {
+    // eslint-disable-next-line no-console
+    console.warn('Realtime connection lost:', reason);
+    closeConnection();
+    if (!sessionActiveRef.current) {
+      failSession(reason);
       return;
     }
+    resumeSummaryRef.current = resumeSummary(transcriptRef.current);
+    scheduleReconnect(reason);
+  }, [closeConnection, failSession, scheduleReconnect]);
+
+  // Open a WebRTC connection to the Realtime API: for a new session, or to resume the current one
+  const openConnection = useCallback(async (resume: boolean) => {
+    const connectionId = ++connectionIdRef.current;
+    // Handlers of a connection that has since been closed or replaced do nothing
+    const isCurrent = () => connectionId === connectionIdRef.current;
 
     try {
-      setState(prev => ({ ...prev, isConnecting: true, error: undefined }));
+      setState(prev => ({ ...prev, isConnecting: !resume, error: undefined }));
       connectionRef.current.connecting = true;
 
-      // Get ephemeral token
-      const tokenData = await getEphemeralToken();
+      // Get ephemeral token; a reconnection reuses the last one unless it is about to expire
+      const cachedToken = tokenRef.current;
+      const tokenData = resume && cachedToken && !tokenExpiresSoon(cachedToken.expires_at)
+        ? cachedToken
+        : await getEphemeralToken();
+      tokenRef.current = tokenData;
       const ephemeralKey = tokenData.value; // Fix: use tokenData.value instead of tokenData.client_secret.value
+      if (!isCurrent()) return;
 
       // Create peer connection
       const pc = new RTCPeerConnection();
@@ -203,6 +557,27 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
         }
       };
 
+      // Watch for the connection dropping
+      pc.onconnectionstatechange = () => {
+        if (isCurrent() && pc.connectionState === 'failed') {
+          handleConnectionLost('Peer connection failed');
+        }
+      };
+
+      pc.oniceconnectionstatechange = () => {
+        if (!isCurrent()) return;
+        if (pc.iceConnectionState === 'failed') {
+          handleConnectionLost('ICE connection failed');
+        } else if (pc.iceConnectionState === 'disconnected') {
+          // A brief network change often recovers by itself
+          setTimeout(() => {
+            if (isCurrent() && pc.iceConnectionState === 'disconnected') {
+              handleConnectionLost('ICE connection interrupted');
+            }
+          }, ICE_DISCONNECT_GRACE_MS);
+        }
+      };
+
       // Ensure we have an audio transceiver for bidirectional audio
       pc.addTransceiver('audio', { direction: 'sendrecv' });
 
@@ -218,10 +593,11 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
         });
 
         connectionRef.current.localStream = stream;
-        
-        // Add local audio track
+
+        // Add local audio track, muted if the user had muted the connection this one replaces
         const audioTrack = stream.getAudioTracks()[0];
         if (audioTrack && pc.signalingState !== 'closed') {
+          applyMicrophone();
           pc.addTrack(audioTrack, stream);
         }
 
@@ -229,12 +605,8 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
       } catch (err) {
         // eslint-disable-next-line no-console
         console.error('Failed to get user media:', err);
-        setState(prev => ({ 
-          ...prev,
-          error: 'Microphone permission denied or not available',
-          hasPermission: false 
-        }));
-        return;
+        setState(prev => ({ ...prev, hasPermission: false }));
+        throw new Error('Microphone permission denied or not available');
       }
 
       // Set up data channel for events
@@ -242,40 +614,57 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
       connectionRef.current.dataChannel = dc;
 
       dc.onopen = () => {
+        if (!isCurrent()) return;
         // eslint-disable-next-line no-console
         console.log('Data channel opened');
         connectionRef.current.connected = true;
         connectionRef.current.connecting = false;
-        
-        setState(prev => ({ 
+        sessionActiveRef.current = true;
+        reconnectionRef.current.reset();
+
+        setState(prev => ({
           ...prev,
-          isConnected: true, 
+          isConnected: true,
           isConnecting: false,
-          error: undefined 
+          reconnectStatus: resume ? 'resumed' : undefined,
+          reconnectAttempt: undefined,
+          error: undefined
         }));
-        
-        onConnectedRef.current?.();
+
+        if (!resume) {
+          onConnectedRef.current?.();
+
+          void recorderRef.current?.close('completed');
+          recorderRef.current = null;
+          if (userIdRef.current) {
+            recorderRef.current = new VoiceSessionRecorder({
+              userId: userIdRef.current,
+              ephemeralToken: ephemeralKey,
+              model: tokenData.session_config?.model
+            });
+          }
+        }
 
         // Send initial session update for horary astrology
+        baseInstructionsRef.current = tokenData.session_config?.instructions;
         sendClientEvent({
           type: 'session.update',
           session: {
             type: 'realtime',
             model: tokenData.session_config?.model || 'gpt-realtime',
-            instructions: tokenData.session_config?.instructions,
+            instructions: sessionInstructions(baseInstructionsRef.current, stricturesRef.current),
+            tools: REALTIME_TOOLS,
+            tool_choice: 'auto',
             audio: {
               input: {
                 format: {
                   type: 'audio/pcm',
                   rate: 24000,
                  },
-                // turn_detection: {
-                //   type: 'semantic_vad',
-                //   threshold: 0.6,
-                //   prefix_padding_ms: 300,
-                //   silence_duration_ms: 500,
-                //   create_response: true
-                // }
+                transcription: {
+                  model: OPENAI_CONFIG.TRANSCRIPTION_MODEL
+                },
+                turn_detection: turnDetectionConfig(turnDetectionRef.current)
               },
               output: {
                 format: {
@@ -288,9 +677,23 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
             }
           }
         });
+
+        // A resumed session starts empty: tell the assistant what has been said so far
+        if (resume && resumeSummaryRef.current) {
+          sendClientEvent({
+            type: 'conversation.item.create',
+            item: {
+              type: 'message',
+              role: 'system',
+              content: [{ type: 'input_text', text: resumeSummaryRef.current }]
+            }
+          });
+        }
+        resumeSummaryRef.current = null;
       };
 
       dc.onmessage = (e) => {
+        if (!isCurrent()) return;
         try {
           const serverEvent: RealtimeServerEvent = JSON.parse(e.data);
           handleServerEvent(serverEvent);
@@ -301,17 +704,19 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
       };
 
       dc.onerror = (err) => {
+        if (!isCurrent()) return;
         // eslint-disable-next-line no-console
         console.error('Data channel error:', err);
         setState(prev => ({ ...prev, error: 'Data channel error' }));
       };
 
       dc.onclose = () => {
+        // disconnect() and closeConnection() retire the connection first, so a current one
+        // closing here has dropped
+        if (!isCurrent()) return;
         // eslint-disable-next-line no-console
         console.log('Data channel closed');
-        connectionRef.current.connected = false;
-        setState(prev => ({ ...prev, isConnected: false }));
-        onDisconnectedRef.current?.();
+        handleConnectionLost('Data channel closed');
       };
 
       // Create offer and set local description
@@ -330,6 +735,7 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
           pc.addEventListener('icegatheringstatechange', checkState);
         });
       }
+      if (!isCurrent()) return;
 
       // Send offer to OpenAI Realtime API
       const baseUrl = "https://api.openai.com/v1/realtime/calls";
@@ -347,6 +753,8 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
       });
 
       if (!sdpResponse.ok) {
+        // A rejected token is not tried again
+        if (sdpResponse.status === 401) tokenRef.current = null;
         const errText = await sdpResponse.text().catch(() => '');
         throw new Error(`Failed to connect to OpenAI: ${sdpResponse.status}${errText ? ` - ${errText}` : ''}`);
       }
@@ -357,15 +765,21 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
         sdp: answerSdp,
       };
 
+      if (!isCurrent()) return;
       await pc.setRemoteDescription(answer);
 
     } catch (error) {
+      if (!isCurrent()) return;
       // eslint-disable-next-line no-console
       console.error('Connection error:', error);
-      connectionRef.current.connecting = false;
-      connectionRef.current.connected = false;
-      
       const errorMessage = error instanceof Error ? error.message : 'Connection failed';
+      closeConnection();
+
+      if (resume) {
+        scheduleReconnect(errorMessage);
+        return;
+      }
+
       setState(prev => ({ 
         ...prev,
         isConnecting: false, 
@@ -374,37 +788,34 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
       }));
       onErrorRef.current?.(errorMessage);
     }
-  }, [sendClientEvent, handleServerEvent]);
-
-  // Disconnect from WebRTC
-  const disconnect = useCallback(() => {
-    const { peerConnection, dataChannel, localStream, audioElement } = connectionRef.current;
-
-    // Close data channel
-    if (dataChannel) {
-      dataChannel.close();
-    }
+  }, [sendClientEvent, handleServerEvent, handleConnectionLost, closeConnection, scheduleReconnect, applyMicrophone]);
 
-    // Close peer connection
-    if (peerConnection) {
-      peerConnection.close();
-    }
+  // Keep a stable reference for reconnection attempts scheduled by the manager
+  const openConnectionRef = useRef<(resume: boolean) => Promise<void>>(async () => {});
+  useEffect(() => {
+    openConnectionRef.current = openConnection;
+  }, [openConnection]);
 
-    // Stop local stream
-    if (localStream) {
-      localStream.getTracks().forEach(track => track.stop());
+  // Initialize WebRTC connection for a new session
+  const connect = useCallback(async () => {
+    if (connectionRef.current.connecting || connectionRef.current.connected) {
+      return;
     }
+    reconnectionRef.current.reset();
+    setState(prev => ({ ...prev, reconnectStatus: undefined, reconnectAttempt: undefined }));
+    await openConnection(false);
+  }, [openConnection]);
 
-    // Clean up audio element
-    if (audioElement) {
-      audioElement.srcObject = null;
-    }
+  // Disconnect from WebRTC
+  const disconnect = useCallback(() => {
+    // Saving the rest of the session carries on after the connection has gone
+    void recorderRef.current?.close('completed');
+    recorderRef.current = null;
 
-    // Reset connection state
-    connectionRef.current = {
-      connected: false,
-      connecting: false
-    };
+    sessionActiveRef.current = false;
+    reconnectionRef.current.reset();
+    resumeSummaryRef.current = null;
+    closeConnection();
 
     // Reset auto-connect attempt flag so it can try again if needed
     autoConnectAttemptedRef.current = false;
@@ -415,11 +826,13 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
       isConnecting: false,
       isListening: false,
       isSpeaking: false,
+      reconnectStatus: undefined,
+      reconnectAttempt: undefined,
       error: undefined
     }));
 
     onDisconnectedRef.current?.();
-  }, []);
+  }, [closeConnection]);
 
   // Send text message
   const sendMessage = useCallback((message: string) => {
@@ -461,16 +874,85 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
       const audioTrack = localStream.getAudioTracks()[0];
       if (audioTrack) {
         isMutedRef.current = !isMutedRef.current;
-        audioTrack.enabled = !isMutedRef.current;
+        applyMicrophone();
       }
     }
-  }, []);
+  }, [applyMicrophone]);
+
+  // A new turn detection mode applies to the connected session in place, without reconnecting
+  useEffect(() => {
+    turnDetectionRef.current = { mode: turnDetectionMode, eagerness: turnDetectionEagerness };
+    isTalkingRef.current = false;
+    if (!connectionRef.current.connected) return;
+
+    sendClientEvent({
+      type: 'session.update',
+      session: {
+        type: 'realtime',
+        audio: {
+          input: { turn_detection: turnDetectionConfig(turnDetectionRef.current) }
+        }
+      }
+    });
+    applyMicrophone();
+  }, [turnDetectionMode, turnDetectionEagerness, sendClientEvent, applyMicrophone]);
+
+  // With turn detection off, the client marks out the user's turn: audio picked up before it is
+  // cleared, and at its end the audio is committed and a response asked for
+  const startTalking = useCallback(() => {
+    if (
+      !connectionRef.current.connected ||
+      turnDetectionRef.current.mode !== 'push_to_talk' ||
+      isTalkingRef.current
+    ) {
+      return;
+    }
+    isTalkingRef.current = true;
+    talkStartedAtRef.current = Date.now();
+
+    // Talking over the assistant interrupts it, as it would with voice activity detection
+    if (responseActiveRef.current) sendClientEvent({ type: 'response.cancel' });
+    sendClientEvent({ type: 'input_audio_buffer.clear' });
+    applyMicrophone();
+
+    setState(prev => ({ ...prev, isListening: true }));
+    onSpeechStartedRef.current?.();
+  }, [sendClientEvent, applyMicrophone]);
+
+  const stopTalking = useCallback(() => {
+    if (!isTalkingRef.current) return;
+    isTalkingRef.current = false;
+    applyMicrophone();
+
+    setState(prev => ({ ...prev, isListening: false }));
+    onSpeechStoppedRef.current?.();
+
+    if (Date.now() - talkStartedAtRef.current < MIN_PUSH_TO_TALK_MS) {
+      sendClientEvent({ type: 'input_audio_buffer.clear' });
+      return;
+    }
+    sendClientEvent({ type: 'input_audio_buffer.commit' });
+    sendClientEvent({ type: 'response.create' });
+  }, [sendClientEvent, applyMicrophone]);
+
+  // A chart cast during the session, by the assistant or on screen, brings its own strictures
+  useEffect(() => {
+    if (!connectionRef.current.connected) return;
+    sendClientEvent({
+      type: 'session.update',
+      session: {
+        type: 'realtime',
+        instructions: sessionInstructions(baseInstructionsRef.current, strictures)
+      }
+    });
+  }, [strictures, sendClientEvent]);
 
   // Clear conversation
   const clearConversation = useCallback(() => {
     setState(prev => ({
       ...prev,
       conversationHistory: [],
+      transcript: [],
       currentResponse: undefined
     }));
   }, []);
@@ -508,11 +990,14 @@ export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseReal
     disconnect,
     sendMessage,
     toggleMute,
+    startTalking,
+    stopTalking,
     clearConversation,
     isConnected: state.isConnected,
     isConnecting: state.isConnecting,
     isListening: state.isListening,
     isSpeaking: state.isSpeaking,
+    reconnectStatus: state.reconnectStatus ?? null,
     error: state.error || null
   };
 }
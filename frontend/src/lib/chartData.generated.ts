@@ -0,0 +1,200 @@
+// Generated from supabase/functions/_shared/schema/chartData.ts by
+// frontend/scripts/generate-chart-types.mjs; edit that file and run
+// `npm run generate:chart-types` in frontend/ rather than changing this file.
+
+// Reading ChartData that comes from outside this code (the database, imported documents, Edge
+// Function responses): charts written with an older schema_version are upgraded, then checked
+// against the schema. frontend/scripts/generate-chart-types.mjs copies this file into the
+// frontend as src/lib/chartData.generated.ts.
+
+import {
+  CHART_DATA_SCHEMA,
+  CHART_DATA_SCHEMA_VERSION,
+  type ChartData,
+  type JsonSchema,
+  type JsonType,
+} from '@/types/chartData.generated';
+
+const CHART_DATA: JsonSchema = { $ref: '#/$defs/ChartData' };
+
+// Problems quoted in an error message; the rest are usually knock-on effects of the first few
+const MAX_REPORTED_ERRORS = 5;
+
+export class ChartDataError extends Error {
+  constructor(
+    message: string,
+    public errors: string[] = []
+  ) {
+    super(message);
+    this.name = 'ChartDataError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+}
+
+function resolve(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  if (!schema.$ref) return schema;
+  const target = root.$defs?.[schema.$ref.replace('#/$defs/', '')];
+  if (!target) throw new Error(`Unknown schema reference ${schema.$ref}`);
+  return resolve(target, root);
+}
+
+function matchesType(value: unknown, schema: JsonSchema): boolean {
+  if (!schema.type) return true;
+  const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const actual = typeOf(value);
+  return allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+}
+
+// Problems with `value` against `schema`, each prefixed with its JSON path; empty when valid.
+// Properties the schema does not list are allowed, so newer documents still read.
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = CHART_DATA_SCHEMA,
+  path = '$'
+): string[] {
+  const resolved = resolve(schema, root);
+
+  if (resolved.anyOf) {
+    const matches = resolved.anyOf.some(
+      option => validateJsonSchema(value, option, root, path).length === 0
+    );
+    return matches ? [] : [`${path} does not match any of the allowed shapes`];
+  }
+  if (!matchesType(value, resolved)) {
+    return [`${path} must be ${[resolved.type].flat().join(' or ')}, not ${typeOf(value)}`];
+  }
+  if (resolved.const !== undefined && value !== resolved.const) {
+    return [`${path} must be ${JSON.stringify(resolved.const)}`];
+  }
+  if (resolved.enum && !resolved.enum.includes(value as string)) {
+    return [`${path} must be one of: ${resolved.enum.join(', ')}`];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === 'number') {
+    if (resolved.minimum !== undefined && value < resolved.minimum)
+      errors.push(`${path} must be at least ${resolved.minimum}`);
+    if (resolved.maximum !== undefined && value > resolved.maximum)
+      errors.push(`${path} must be at most ${resolved.maximum}`);
+  }
+  if (
+    typeof value === 'string' &&
+    resolved.format === 'date-time' &&
+    Number.isNaN(Date.parse(value))
+  ) {
+    errors.push(`${path} must be a date-time`);
+  }
+  if (Array.isArray(value)) {
+    if (resolved.minItems !== undefined && value.length < resolved.minItems)
+      errors.push(`${path} needs at least ${resolved.minItems} items`);
+    if (resolved.maxItems !== undefined && value.length > resolved.maxItems)
+      errors.push(`${path} allows at most ${resolved.maxItems} items`);
+    value.forEach((item, i) => {
+      const itemSchema = resolved.prefixItems?.[i] ?? resolved.items;
+      if (itemSchema) errors.push(...validateJsonSchema(item, itemSchema, root, `${path}[${i}]`));
+    });
+  }
+  if (isRecord(value)) {
+    for (const key of resolved.required ?? []) {
+      if (!(key in value)) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, property] of Object.entries(resolved.properties ?? {})) {
+      if (key in value)
+        errors.push(...validateJsonSchema(value[key], property, root, `${path}.${key}`));
+    }
+  }
+  return errors;
+}
+
+// A copy of `value` with the schema's defaults filled in wherever a property is missing:
+// this is how charts from before a property was added are brought up to date
+function withDefaults(value: unknown, schema: JsonSchema): unknown {
+  const resolved = resolve(schema, CHART_DATA_SCHEMA);
+  if (resolved.anyOf) {
+    const option = resolved.anyOf.find(o => matchesType(value, resolve(o, CHART_DATA_SCHEMA)));
+    return option ? withDefaults(value, option) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => {
+      const itemSchema = resolved.prefixItems?.[i] ?? resolved.items;
+      return itemSchema ? withDefaults(item, itemSchema) : item;
+    });
+  }
+  if (!isRecord(value) || !resolved.properties) return value;
+
+  const result: Record<string, unknown> = { ...value };
+  for (const [key, property] of Object.entries(resolved.properties)) {
+    if (key in value) {
+      result[key] = withDefaults(value[key], property);
+    } else if (property.default !== undefined) {
+      result[key] = structuredClone(property.default);
+    }
+  }
+  return result;
+}
+
+// Problems with a chart against the current schema, paths starting at `field`; empty when valid
+export function chartDataErrors(value: unknown, field = 'chart_data'): string[] {
+  return validateJsonSchema(value, CHART_DATA, CHART_DATA_SCHEMA, field);
+}
+
+function schemaError(field: string, errors: string[]): ChartDataError {
+  return new ChartDataError(
+    `${field} does not match chart schema version ${CHART_DATA_SCHEMA_VERSION}: ` +
+      errors.slice(0, MAX_REPORTED_ERRORS).join('; '),
+    errors
+  );
+}
+
+// A stored or received chart as current ChartData; charts from before versioning count as
+// version 1. Throws ChartDataError when the chart is newer than this code or cannot be upgraded.
+export function upgradeChartData(value: unknown, field = 'chart_data'): ChartData {
+  if (!isRecord(value)) throw new ChartDataError(`${field} must be an object`);
+
+  const version = typeof value.schema_version === 'number' ? value.schema_version : 1;
+  if (version > CHART_DATA_SCHEMA_VERSION) {
+    throw new ChartDataError(
+      `${field} uses schema version ${version}; this app reads up to ${CHART_DATA_SCHEMA_VERSION}`
+    );
+  }
+
+  const upgraded: unknown =
+    version < CHART_DATA_SCHEMA_VERSION
+      ? {
+          ...(withDefaults(value, CHART_DATA) as Record<string, unknown>),
+          schema_version: CHART_DATA_SCHEMA_VERSION,
+        }
+      : value;
+  const errors = chartDataErrors(upgraded, field);
+  if (errors.length > 0) throw schemaError(field, errors);
+  return upgraded as ChartData;
+}
+
+// The upgraded chart, or null when there is none or it cannot be read; for lists where one
+// unreadable chart should not hide the rest
+export function tryUpgradeChartData(value: unknown): ChartData | null {
+  if (value === null || value === undefined) return null;
+  try {
+    return upgradeChartData(value);
+  } catch (error) {
+    if (error instanceof ChartDataError) return null;
+    throw error;
+  }
+}
+
+// Throws ChartDataError unless `chart` matches the current schema, e.g. before it is stored
+export function assertChartData(chart: ChartData, field = 'chart_data'): void {
+  const errors = chartDataErrors(chart, field);
+  if (errors.length > 0) throw schemaError(field, errors);
+}
@@ -0,0 +1,64 @@
+// How chart positions, dignities and glyphs are written out for display. Mirrors
+// supabase/functions/_shared/horary/format.ts and formatLongitude in _shared/astro/zodiac.ts.
+
+import { PLANET_GLYPHS } from '@/constants';
+import type {
+  EssentialDignity,
+  Planet,
+  PlanetaryPosition,
+  SolarCondition,
+} from '@/types/astrology';
+
+// In the order a dignity is described, strongest first
+const ESSENTIAL_DIGNITIES = [
+  'domicile', 'exaltation', 'triplicity', 'term', 'face', 'detriment', 'fall', 'peregrine',
+] as const;
+
+const SOLAR_CONDITION_LABELS: Record<SolarCondition, string> = {
+  cazimi: 'cazimi',
+  combust: 'combust',
+  under_beams: 'under the beams',
+  free: 'free of the beams',
+};
+
+export function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13
+    ? 'th'
+    : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+// Dignity points with an explicit sign, e.g. "+7" or "-5"
+export function formatScore(score: number): string {
+  return score > 0 ? `+${score}` : `${score}`;
+}
+
+export function formatDegrees(degree: number): string {
+  return `${degree}°`;
+}
+
+export function formatMinutes(minute: number): string {
+  return `${String(minute).padStart(2, '0')}'`;
+}
+
+type ZodiacPosition = Pick<PlanetaryPosition, 'sign' | 'degree' | 'minute'>;
+
+// e.g. 18°39' Leo
+export function formatPosition({ sign, degree, minute }: ZodiacPosition): string {
+  return `${formatDegrees(degree)}${formatMinutes(minute)} ${sign}`;
+}
+
+// e.g. ☉ Sun
+export function formatPlanet(planet: Planet): string {
+  return `${PLANET_GLYPHS[planet]} ${planet}`;
+}
+
+export function describeSolarCondition(condition: SolarCondition): string {
+  return SOLAR_CONDITION_LABELS[condition];
+}
+
+// Short label such as "domicile, term (+7)" or "peregrine (-5)"
+export function describeDignity(dignity: EssentialDignity): string {
+  const labels = ESSENTIAL_DIGNITIES.filter(key => dignity[key]);
+  return `${labels.join(', ')} (${formatScore(dignity.score)})`;
+}
@@ -0,0 +1,72 @@
+// Reconnecting the realtime voice connection after it drops: when to try again, when to give up,
+// whether the ephemeral token can be reused, and what the new session is told about the old one.
+
+import type { TranscriptEntry } from '@/types/realtime';
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 16000;
+const MAX_ATTEMPTS = 6;
+// A token this close to expiry is replaced rather than risk it expiring mid-handshake
+const TOKEN_EXPIRY_MARGIN_MS = 30000;
+// Longest conversation replayed into a resumed session; older turns are left out
+const MAX_SUMMARY_LENGTH = 4000;
+
+// Schedules reconnection attempts with exponential backoff, one at a time
+export class ReconnectionManager {
+  private attempt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  get attempts(): number {
+    return this.attempt;
+  }
+
+  // Runs `reconnect` after the next delay. Returns false once every attempt has been used.
+  schedule(reconnect: (attempt: number) => void): boolean {
+    if (this.timer) return true;
+    if (this.attempt >= MAX_ATTEMPTS) return false;
+
+    const attempt = ++this.attempt;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      reconnect(attempt);
+    }, Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS));
+    return true;
+  }
+
+  // After a successful reconnection, or when the user ends the session
+  reset() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.attempt = 0;
+  }
+}
+
+// expires_at is in seconds, as EphemeralTokenResponse carries it
+export function tokenExpiresSoon(expiresAt: number): boolean {
+  return expiresAt * 1000 - Date.now() < TOKEN_EXPIRY_MARGIN_MS;
+}
+
+// The conversation so far, as a system message for the session that replaces a dropped one:
+// the new session starts empty, and the assistant should carry on rather than start over
+export function resumeSummary(transcript: TranscriptEntry[]): string | null {
+  const lines = transcript
+    .filter(entry => entry.status !== 'failed' && entry.text.trim())
+    .map(entry => `${entry.role === 'user' ? 'User' : 'Assistant'}: ${entry.text.trim()}`);
+  if (lines.length === 0) return null;
+
+  const kept: string[] = [];
+  let length = 0;
+  for (const line of [...lines].reverse()) {
+    length += line.length + 1;
+    if (length > MAX_SUMMARY_LENGTH && kept.length > 0) break;
+    kept.unshift(line);
+  }
+
+  return [
+    kept.length < lines.length
+      ? 'The connection dropped and was restored. The latest part of the conversation so far:'
+      : 'The connection dropped and was restored. The conversation so far:',
+    ...kept,
+    'Carry on from here: do not greet the user again or repeat what you have already said.',
+  ].join('\n');
+}
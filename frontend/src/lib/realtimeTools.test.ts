@@ -0,0 +1,50 @@
+import { runRealtimeTool } from '@/lib/realtimeTools';
+import { supabaseApi } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseApi: { updateQueryInterpretation: jest.fn() },
+}));
+
+const updateQueryInterpretation = jest.mocked(supabaseApi.updateQueryInterpretation);
+
+async function saveQueryHistory(args: object, userId: string | null = 'user-1') {
+  return JSON.parse(await runRealtimeTool('saveQueryHistory', JSON.stringify(args), { userId }));
+}
+
+describe('saveQueryHistory', () => {
+  beforeEach(() => updateQueryInterpretation.mockReset());
+
+  it('saves the reading to the query the chart was cast for', async () => {
+    updateQueryInterpretation.mockResolvedValue(true);
+
+    const result = await saveQueryHistory({ query_id: 'query-1', response: 'Yes, within weeks' });
+
+    expect(result).toEqual({ saved: true, query_id: 'query-1' });
+    expect(updateQueryInterpretation).toHaveBeenCalledWith('query-1', 'Yes, within weeks');
+  });
+
+  it('reports nothing saved when no query of the user has that id', async () => {
+    updateQueryInterpretation.mockResolvedValue(false);
+
+    const result = await saveQueryHistory({ query_id: 'made-up', response: 'Yes, within weeks' });
+
+    expect(result).toEqual({
+      saved: false,
+      reason: "No query made-up in the user's history to save to",
+    });
+  });
+
+  it('saves nothing for a signed-out user', async () => {
+    const result = await saveQueryHistory({ query_id: 'query-1', response: 'No' }, null);
+
+    expect(result).toMatchObject({ saved: false });
+    expect(updateQueryInterpretation).not.toHaveBeenCalled();
+  });
+
+  it('needs the query id of a cast chart', async () => {
+    const result = await saveQueryHistory({ response: 'No' });
+
+    expect(result).toEqual({ error: 'query_id is required' });
+    expect(updateQueryInterpretation).not.toHaveBeenCalled();
+  });
+});
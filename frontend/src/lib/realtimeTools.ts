@@ -0,0 +1,251 @@
+// Tools the voice assistant can call in the middle of a conversation, and the bridge that runs
+// them through SupabaseApiClient. Calls act for the signed-in user: no tool takes a user id from
+// the model.
+
+import { HOUSE_SYSTEMS } from '@/constants';
+import { supabaseApi } from '@/lib/supabase';
+import type { GenerateHoraryChartResponse } from '@/types/api';
+import type { AstroDataType, HouseSystem, Location } from '@/types/astrology';
+import type { RealtimeTool } from '@/types/realtime';
+
+export interface RealtimeToolContext {
+  userId: string | null;
+  // Called with each chart the assistant casts, so the app can show it
+  onChartGenerated?: (response: GenerateHoraryChartResponse) => void;
+}
+
+type ToolArguments = Record<string, unknown>;
+
+interface RealtimeToolDefinition {
+  description: string;
+  parameters: RealtimeTool['parameters'];
+  run: (args: ToolArguments, context: RealtimeToolContext) => Promise<unknown>;
+}
+
+const ASTRO_DATA_TYPES: AstroDataType[] = ['void_of_course', 'planetary_hours', 'all'];
+
+const LOCATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    lat: { type: 'number', description: 'Latitude in degrees, north positive' },
+    lon: { type: 'number', description: 'Longitude in degrees, east positive' },
+    city: { type: 'string' },
+    country: { type: 'string' },
+  },
+  required: ['lat', 'lon'],
+};
+
+const HOUSE_SYSTEM_SCHEMA = {
+  type: 'string',
+  enum: HOUSE_SYSTEMS,
+  description: "Omit to use the user's preference",
+};
+
+class ToolArgumentError extends Error {}
+
+function readString(args: ToolArguments, key: string): string | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new ToolArgumentError(`${key} must be a string`);
+  return value;
+}
+
+function requireString(args: ToolArguments, key: string): string {
+  const value = readString(args, key);
+  if (!value) throw new ToolArgumentError(`${key} is required`);
+  return value;
+}
+
+function readLocation(args: ToolArguments, key: string): Location | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  const { lat, lon, city, country } = value as Record<string, unknown>;
+  if (typeof lat !== 'number' || typeof lon !== 'number' || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    throw new ToolArgumentError(`${key} needs lat between -90 and 90 and lon between -180 and 180`);
+  }
+  const location: Location = { lat, lon };
+  if (typeof city === 'string' && city) location.city = city;
+  if (typeof country === 'string' && country) location.country = country;
+  return location;
+}
+
+function readOneOf<T extends string>(args: ToolArguments, key: string, allowed: readonly T[]): T | undefined {
+  const value = readString(args, key);
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) throw new ToolArgumentError(`${key} must be one of: ${allowed.join(', ')}`);
+  return value as T;
+}
+
+// What the assistant needs to read the chart aloud; the full ChartData (fixed stars, antiscia,
+// every dignity table) would cost far more tokens than it adds to the conversation
+function summarizeChart(response: GenerateHoraryChartResponse) {
+  const chart = response.chart_data;
+  return {
+    query_id: response.query_id,
+    timestamp: chart.timestamp,
+    location: chart.location,
+    house_system: chart.house_system,
+    ascendant: chart.ascendant,
+    midheaven: chart.midheaven,
+    planets: chart.planets.map(({ name, sign, degree, minute, house, retrograde }) => ({
+      name, sign, degree, minute, house, retrograde,
+    })),
+    aspects: chart.aspects.map(({ planet1, planet2, type, orb, applying }) => ({
+      planet1, planet2, type, orb, applying,
+    })),
+    void_of_course: chart.void_of_course,
+    strictures: chart.strictures,
+    significators: response.significators,
+    judgement: response.judgement,
+    timing: response.timing,
+    significance_factors: response.significance_factors,
+    interpretation_prompt: response.interpretation_prompt,
+  };
+}
+
+const REALTIME_TOOL_REGISTRY = {
+  getUserDetails: {
+    description:
+      "The signed-in user's birth date, time and place, zodiac sign, timezone and chart preferences.",
+    parameters: { type: 'object', properties: {} },
+    run: async (_args, { userId }) => {
+      if (!userId) return { signed_in: false };
+      const details = await supabaseApi.getUserDetails(userId);
+      return details ? { signed_in: true, ...details } : { signed_in: true, profile: null };
+    },
+  },
+
+  getCurrentPlanetaryPositions: {
+    description:
+      'Planetary positions, houses, ascendant and midheaven for a moment and place, calculated ' +
+      'from the ephemeris. Use this rather than estimating where a planet is.',
+    parameters: {
+      type: 'object',
+      properties: {
+        timestamp: { type: 'string', description: 'ISO 8601 date and time; omit for now' },
+        location: { ...LOCATION_SCHEMA, description: 'Omit for London' },
+        house_system: HOUSE_SYSTEM_SCHEMA,
+      },
+    },
+    run: args => supabaseApi.getPlanetaryPositions(
+      readString(args, 'timestamp'),
+      readLocation(args, 'location'),
+      readOneOf(args, 'house_system', HOUSE_SYSTEMS)
+    ),
+  },
+
+  generateHoraryChart: {
+    description:
+      'Cast and judge a horary chart for a question, for the moment it was asked and where the ' +
+      'querent is. Returns the positions, strictures (considerations before judgement), ' +
+      'significators, judgement and timing, and saves the query.',
+    parameters: {
+      type: 'object',
+      properties: {
+        question: { type: 'string', description: "The querent's question in their own words" },
+        question_time: {
+          type: 'string',
+          description: 'ISO 8601 moment the question was asked; omit for now',
+        },
+        location: { ...LOCATION_SCHEMA, description: 'Where the querent is' },
+        house_system: HOUSE_SYSTEM_SCHEMA,
+      },
+      required: ['question', 'location'],
+    },
+    run: async (args, { userId, onChartGenerated }) => {
+      const location = readLocation(args, 'location');
+      if (!location) throw new ToolArgumentError('location is required');
+      const response = await supabaseApi.generateHoraryChart(
+        requireString(args, 'question'),
+        readString(args, 'question_time') ?? new Date().toISOString(),
+        location,
+        userId ?? undefined,
+        readOneOf<HouseSystem>(args, 'house_system', HOUSE_SYSTEMS)
+      );
+      onChartGenerated?.(response);
+      return summarizeChart(response);
+    },
+  },
+
+  getCurrentAstroData: {
+    description: "Whether the Moon is void of course now, and the current planetary day and hour.",
+    parameters: {
+      type: 'object',
+      properties: {
+        data_type: { type: 'string', enum: ASTRO_DATA_TYPES },
+        location: { ...LOCATION_SCHEMA, description: 'For the planetary hour; omit for London' },
+      },
+      required: ['data_type'],
+    },
+    run: async args => {
+      const dataType = readOneOf(args, 'data_type', ASTRO_DATA_TYPES);
+      if (!dataType) throw new ToolArgumentError('data_type is required');
+      return supabaseApi.getCurrentAstroData(dataType, undefined, readLocation(args, 'location'));
+    },
+  },
+
+  saveQueryHistory: {
+    description:
+      "Save your reading of a question to the user's history, with the chart generateHoraryChart " +
+      'cast for it. A question answered without a chart cannot be saved.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query_id: { type: 'string', description: 'From generateHoraryChart' },
+        response: { type: 'string', description: 'Your reading, as you gave it' },
+      },
+      required: ['query_id', 'response'],
+    },
+    run: async (args, { userId }) => {
+      if (!userId) return { saved: false, reason: 'Only signed-in users have a query history' };
+      // The history keeps the moment and place each question was asked, which only a cast chart has
+      const queryId = requireString(args, 'query_id');
+      const saved = await supabaseApi.updateQueryInterpretation(
+        queryId,
+        requireString(args, 'response')
+      );
+      if (!saved) {
+        return { saved: false, reason: `No query ${queryId} in the user's history to save to` };
+      }
+      return { saved: true, query_id: queryId };
+    },
+  },
+} satisfies Record<string, RealtimeToolDefinition>;
+
+export type RealtimeToolName = keyof typeof REALTIME_TOOL_REGISTRY;
+
+function isRealtimeToolName(name: string): name is RealtimeToolName {
+  return Object.hasOwn(REALTIME_TOOL_REGISTRY, name);
+}
+
+// Registered with the session in session.update
+export const REALTIME_TOOLS: RealtimeTool[] = Object.entries(REALTIME_TOOL_REGISTRY).map(
+  ([name, { description, parameters }]) => ({ type: 'function', name, description, parameters })
+);
+
+// Run a tool call and return its output as the JSON string a function_call_output item carries.
+// Failures come back as { error } so the assistant can tell the user instead of stalling.
+export async function runRealtimeTool(
+  name: string,
+  rawArguments: string,
+  context: RealtimeToolContext
+): Promise<string> {
+  try {
+    if (!isRealtimeToolName(name)) return JSON.stringify({ error: `Unknown tool ${name}` });
+    let args: unknown = {};
+    if (rawArguments.trim()) {
+      try {
+        args = JSON.parse(rawArguments);
+      } catch {
+        throw new ToolArgumentError('Arguments are not valid JSON');
+      }
+    }
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      throw new ToolArgumentError('Arguments must be a JSON object');
+    }
+    const tool: RealtimeToolDefinition = REALTIME_TOOL_REGISTRY[name];
+    return JSON.stringify(await tool.run(args as ToolArguments, context));
+  } catch (error) {
+    return JSON.stringify({ error: error instanceof Error ? error.message : 'Tool call failed' });
+  }
+}
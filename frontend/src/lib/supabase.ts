@@ -2,13 +2,29 @@
 // NO astrology calculations here - all done in Edge Functions
 
 import { createBrowserClient } from '@supabase/ssr';
+import { ChartDataError, tryUpgradeChartData, upgradeChartData } from '@/lib/chartData.generated';
 import { ApiError, EdgeFunctionError } from '@/types/api';
 import type {
+  AstroDataType,
+  ExportFormat,
+  HoraryQuery,
+  HouseSystem,
+  InterchangeFormat,
+  Location,
+  OrbModel,
+  TermSystem,
+  UserPreferences,
+  VoidOfCourseRule,
+} from '@/types/astrology';
+import type {
+  ChartImportResponse,
   GetPlanetaryPositionsResponse,
   GenerateHoraryChartResponse,
   GetZodiacInsightsResponse,
   GetCurrentAstroDataResponse,
+  UserDetails,
 } from '@/types/api';
+import type { Database, Tables, TablesInsert } from '@/types/database.generated';
 
 // Environment variables validation
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -18,8 +34,8 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-// Client-side Supabase client (simplified types for now)
-export const supabaseClient = createBrowserClient(supabaseUrl, supabaseAnonKey);
+// Client-side Supabase client, typed with the tables the migrations define
+export const supabaseClient = createBrowserClient<Database>(supabaseUrl, supabaseAnonKey);
 
 // API client with error handling - NO astro calculations here
 export class SupabaseApiClient {
@@ -28,11 +44,12 @@ export class SupabaseApiClient {
   // Call Edge Function for planetary calculations
   async getPlanetaryPositions(
     timestamp?: string,
-    location?: { lat: number; lon: number }
+    location?: { lat: number; lon: number },
+    houseSystem?: HouseSystem
   ): Promise<GetPlanetaryPositionsResponse> {
     try {
       const { data, error } = await this.client.functions.invoke('planetary-positions', {
-        body: { timestamp, location },
+        body: { timestamp, location, house_system: houseSystem },
       });
 
       if (error) throw new EdgeFunctionError(error.message, 'planetary-positions');
@@ -72,27 +89,39 @@ export class SupabaseApiClient {
     }
   }
 
-  // Call Edge Function for horary chart generation (planned)
+  // Call Edge Function for horary chart generation
   async generateHoraryChart(
     question: string,
     questionTime: string,
     location: { lat: number; lon: number; city?: string; country?: string },
-    userId?: string
+    userId?: string,
+    houseSystem?: HouseSystem,
+    termSystem?: TermSystem,
+    voidOfCourseRule?: VoidOfCourseRule,
+    orbModel?: OrbModel
   ): Promise<GenerateHoraryChartResponse> {
     try {
+      // house_system, term_system, void_of_course_rule and orb_model are optional: the Edge
+      // Function falls back to the user's preferences
       const { data, error } = await this.client.functions.invoke('horary-chart', {
         body: {
           question,
           question_time: questionTime,
           location,
           user_id: userId,
+          house_system: houseSystem,
+          term_system: termSystem,
+          void_of_course_rule: voidOfCourseRule,
+          orb_model: orbModel,
         },
       });
 
       if (error) throw new EdgeFunctionError(error.message, 'horary-chart');
-      return data as GenerateHoraryChartResponse;
+      const response = data as GenerateHoraryChartResponse;
+      return { ...response, chart_data: upgradeChartData(response.chart_data) };
     } catch (error) {
       if (error instanceof EdgeFunctionError) throw error;
+      if (error instanceof ChartDataError) throw new ApiError(error.message, 502, 'INVALID_CHART_DATA');
       throw new ApiError(
         error instanceof Error ? error.message : 'Unknown error',
         500,
@@ -129,11 +158,17 @@ export class SupabaseApiClient {
   }
 
   // Call Edge Function for current astro data
-  async getCurrentAstroData(dataType: string): Promise<GetCurrentAstroDataResponse> {
+  async getCurrentAstroData(
+    dataType: AstroDataType,
+    voidOfCourseRule?: VoidOfCourseRule,
+    location?: Location
+  ): Promise<GetCurrentAstroDataResponse> {
     try {
       const { data, error } = await this.client.functions.invoke('astro-data', {
         body: {
           data_type: dataType,
+          void_of_course_rule: voidOfCourseRule,
+          location,
         },
       });
 
@@ -149,17 +184,81 @@ export class SupabaseApiClient {
     }
   }
 
-  // Database operations (simplified for now)
-  async createQuery(queryData: {
-    user_id: string;
-    question: string;
-    question_time: string;
-    location: { lat: number; lon: number; city?: string; country?: string };
-    chart_data?: Record<string, unknown> | null;
-    ai_interpretation?: string | null;
-    status?: 'processing' | 'completed' | 'failed';
-    metadata?: Record<string, unknown>;
-  }) {
+  // Download a saved query's chart. functions.invoke would decode PNG and PDF bodies as
+  // text, so the Edge Function is fetched directly and the bytes come back as a Blob.
+  async exportChart(queryId: string, format: ExportFormat): Promise<Blob> {
+    try {
+      const {
+        data: { session },
+      } = await this.client.auth.getSession();
+      const response = await fetch(`${supabaseUrl}/functions/v1/chart-export`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          apikey: supabaseAnonKey ?? '',
+          Authorization: `Bearer ${session?.access_token ?? supabaseAnonKey}`,
+        },
+        body: JSON.stringify({ query_id: queryId, format }),
+      });
+
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as { error?: string } | null;
+        throw new EdgeFunctionError(body?.error ?? response.statusText, 'chart-export');
+      }
+      return await response.blob();
+    } catch (error) {
+      if (error instanceof EdgeFunctionError) throw error;
+      throw new ApiError(
+        error instanceof Error ? error.message : 'Unknown error',
+        500,
+        'EDGE_FUNCTION_CALL_FAILED'
+      );
+    }
+  }
+
+  // Cast charts from an AAF or Astrolog file, or read a JSON chart document. A house system
+  // named in the request overrides one in the file; the rest fall back to the user's preferences.
+  async importCharts(
+    format: InterchangeFormat,
+    content: string,
+    houseSystem?: HouseSystem,
+    termSystem?: TermSystem,
+    voidOfCourseRule?: VoidOfCourseRule,
+    orbModel?: OrbModel
+  ): Promise<ChartImportResponse> {
+    try {
+      const { data, error } = await this.client.functions.invoke('chart-import', {
+        body: {
+          format,
+          content,
+          house_system: houseSystem,
+          term_system: termSystem,
+          void_of_course_rule: voidOfCourseRule,
+          orb_model: orbModel,
+        },
+      });
+
+      if (error) throw new EdgeFunctionError(error.message, 'chart-import');
+      const { charts } = data as ChartImportResponse;
+      return {
+        charts: charts.map((chart, i) => ({
+          ...chart,
+          chart_data: upgradeChartData(chart.chart_data, `charts[${i}].chart_data`),
+        })),
+      };
+    } catch (error) {
+      if (error instanceof EdgeFunctionError) throw error;
+      if (error instanceof ChartDataError) throw new ApiError(error.message, 502, 'INVALID_CHART_DATA');
+      throw new ApiError(
+        error instanceof Error ? error.message : 'Unknown error',
+        500,
+        'EDGE_FUNCTION_CALL_FAILED'
+      );
+    }
+  }
+
+  // Database operations
+  async createQuery(queryData: TablesInsert<'horary_queries'>) {
     try {
       const { data, error } = await this.client
         .from('horary_queries')
@@ -179,7 +278,61 @@ export class SupabaseApiClient {
     }
   }
 
-  async getUserQueries(userId: string, limit = 50) {
+  // A user's birth data, zodiac sign and preferences, or null when they have no profile row
+  async getUserDetails(userId: string): Promise<UserDetails | null> {
+    try {
+      const { data, error } = await this.client
+        .from('users')
+        .select('birth_date, birth_time, birth_location, zodiac_sign, preferences, timezone')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) throw new ApiError(error.message, 400, 'SUPABASE_ERROR');
+      return data;
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      throw new ApiError(
+        error instanceof Error ? error.message : 'Unknown error',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+  }
+
+  // Merges `preferences` into the user's stored preferences, keeping the keys it does not name
+  async updateUserPreferences(
+    userId: string,
+    preferences: Partial<UserPreferences>
+  ): Promise<UserPreferences> {
+    try {
+      const { data, error: readError } = await this.client
+        .from('users')
+        .select('preferences')
+        .eq('id', userId)
+        .single();
+
+      if (readError) throw new ApiError(readError.message, 400, 'SUPABASE_ERROR');
+      const merged: UserPreferences = { ...data.preferences, ...preferences };
+
+      const { error } = await this.client
+        .from('users')
+        .update({ preferences: merged })
+        .eq('id', userId);
+
+      if (error) throw new ApiError(error.message, 400, 'SUPABASE_ERROR');
+      return merged;
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      throw new ApiError(
+        error instanceof Error ? error.message : 'Unknown error',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+  }
+
+  // Saved charts are upgraded to the current schema; one that cannot be read comes back as null
+  async getUserQueries(userId: string, limit = 50): Promise<HoraryQuery[]> {
     try {
       const { data, error } = await this.client
         .from('horary_queries')
@@ -189,7 +342,7 @@ export class SupabaseApiClient {
         .limit(limit);
 
       if (error) throw new ApiError(error.message, 400, 'SUPABASE_ERROR');
-      return data;
+      return data.map(row => ({ ...row, chart_data: tryUpgradeChartData(row.chart_data) }));
     } catch (error) {
       if (error instanceof ApiError) throw error;
       throw new ApiError(
@@ -200,16 +353,85 @@ export class SupabaseApiClient {
     }
   }
 
-  async updateQueryInterpretation(queryId: string, interpretation: string) {
+  // False when no row was updated: there is no such query, or row-level security hides it
+  async updateQueryInterpretation(queryId: string, interpretation: string): Promise<boolean> {
     try {
-      const { error } = await this.client
+      const { data, error } = await this.client
         .from('horary_queries')
         .update({
           ai_interpretation: interpretation,
           status: 'completed' as const,
           updated_at: new Date().toISOString(),
         })
-        .eq('id', queryId);
+        .eq('id', queryId)
+        .select('id');
+
+      if (error) throw new ApiError(error.message, 400, 'SUPABASE_ERROR');
+      return data.length > 0;
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      throw new ApiError(
+        error instanceof Error ? error.message : 'Unknown error',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+  }
+
+  // Voice sessions: one row per realtime connection, with its conversation items in order
+  async createVoiceSession(session: TablesInsert<'voice_sessions'>): Promise<Tables<'voice_sessions'>> {
+    try {
+      const { data, error } = await this.client
+        .from('voice_sessions')
+        .insert(session)
+        .select()
+        .single();
+
+      if (error) throw new ApiError(error.message, 400, 'SUPABASE_ERROR');
+      return data;
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      throw new ApiError(
+        error instanceof Error ? error.message : 'Unknown error',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+  }
+
+  // Items already saved under the same (session_id, sequence_number) are left as they are, so a
+  // batch that failed part way can be sent again as a whole
+  async saveVoiceConversationItems(items: TablesInsert<'voice_conversations'>[]): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('voice_conversations')
+        .upsert(items, { onConflict: 'session_id,sequence_number', ignoreDuplicates: true });
+
+      if (error) throw new ApiError(error.message, 400, 'SUPABASE_ERROR');
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      throw new ApiError(
+        error instanceof Error ? error.message : 'Unknown error',
+        500,
+        'DATABASE_ERROR'
+      );
+    }
+  }
+
+  async endVoiceSession(
+    sessionId: string,
+    status: 'completed' | 'error',
+    errorMessage?: string
+  ): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('voice_sessions')
+        .update({
+          status,
+          error_message: errorMessage ?? null,
+          ended_at: new Date().toISOString(),
+        })
+        .eq('id', sessionId);
 
       if (error) throw new ApiError(error.message, 400, 'SUPABASE_ERROR');
     } catch (error) {
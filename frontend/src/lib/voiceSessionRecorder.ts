@@ -0,0 +1,235 @@
+// Saves a realtime voice session to voice_sessions and its conversation items to
+// voice_conversations. Items are numbered in the order the server creates them and written in
+// batches; a batch that fails is kept and sent again, and the unique (session_id,
+// sequence_number) constraint turns a batch that was saved but not acknowledged into a no-op.
+
+import { supabaseApi } from '@/lib/supabase';
+import type { Json, TablesInsert } from '@/types/database.generated';
+import type { ConversationItem, RealtimeResponse } from '@/types/realtime';
+
+type VoiceConversationRow = TablesInsert<'voice_conversations'>;
+type VoiceItemType = VoiceConversationRow['item_type'];
+
+// How long an item waits for others to share its batch
+const FLUSH_INTERVAL_MS = 2000;
+const MAX_BATCH_SIZE = 20;
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+// Once the session has ended, writes are tried this many times before the rest is given up
+const CLOSE_ATTEMPTS = 3;
+
+export interface VoiceSessionStart {
+  userId: string;
+  // Stored as a SHA-256 hash, to match a session to the token it was started with
+  ephemeralToken?: string;
+  model?: string;
+}
+
+type RecordedRow = Omit<VoiceConversationRow, 'session_id'>;
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// null for system messages, which voice_conversations has no type for
+function itemType(item: ConversationItem): VoiceItemType | null {
+  switch (item.type) {
+    case 'function_call':
+      return 'function_call';
+    case 'function_call_output':
+      return 'function_result';
+    case 'message': {
+      const audio = item.content?.some(part => part.type === 'input_audio' || part.type === 'audio');
+      if (item.role === 'user') return audio ? 'user_audio' : 'user_text';
+      if (item.role === 'assistant') return audio ? 'assistant_audio' : 'assistant_text';
+      return null;
+    }
+  }
+}
+
+// The item without its audio, which is too large to keep; the transcript stands in for it
+function storedContent(item: ConversationItem): Json {
+  return {
+    type: item.type,
+    role: item.role,
+    status: item.status,
+    name: item.name,
+    call_id: item.call_id,
+    arguments: item.arguments,
+    output: item.output,
+    content: item.content?.map(part => ({ type: part.type, text: part.text, transcript: part.transcript })),
+  };
+}
+
+function transcriptOf(item: ConversationItem): string | null {
+  const text = item.content
+    ?.map(part => part.text ?? part.transcript)
+    .filter(Boolean)
+    .join(' ');
+  return text || null;
+}
+
+export class VoiceSessionRecorder {
+  private sessionId: Promise<string | null>;
+  private nextSequence = 0;
+  private seen = new Set<string>();
+  // Items written once they are finished: a response's when it is done, with their final content
+  // and its usage, and the user's speech when its transcription is
+  private unfinished = new Map<string, RecordedRow>();
+  private ready: RecordedRow[] = [];
+  private speechStarts = new Map<string, number>();
+  private audioDurations = new Map<string, number>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor({ userId, ephemeralToken, model }: VoiceSessionStart) {
+    this.sessionId = this.retry(async () => {
+      const session = await supabaseApi.createVoiceSession({
+        user_id: userId,
+        session_token_hash: ephemeralToken ? await sha256(ephemeralToken) : null,
+        status: 'active',
+        metadata: { model: model ?? null },
+      });
+      return session.id;
+    }).catch(error => {
+      // eslint-disable-next-line no-console
+      console.error('Failed to create voice session:', error);
+      return null;
+    });
+  }
+
+  // From input_audio_buffer.speech_started and speech_stopped, which name the item the speech
+  // becomes before it is created
+  speechStarted(itemId: string, audioStartMs: number) {
+    this.speechStarts.set(itemId, audioStartMs);
+  }
+
+  speechStopped(itemId: string, audioEndMs: number) {
+    const start = this.speechStarts.get(itemId);
+    if (start === undefined) return;
+    this.speechStarts.delete(itemId);
+    this.audioDurations.set(itemId, audioEndMs - start);
+  }
+
+  // From conversation.item.created
+  itemCreated(item: ConversationItem) {
+    const type = itemType(item);
+    if (this.closed || !item.id || !type || this.seen.has(item.id)) return;
+    this.seen.add(item.id);
+
+    const row: RecordedRow = {
+      item_type: type,
+      content: storedContent(item),
+      transcript: transcriptOf(item),
+      audio_duration_ms: this.audioDurations.get(item.id) ?? null,
+      sequence_number: this.nextSequence++,
+    };
+    this.audioDurations.delete(item.id);
+
+    if (item.role === 'assistant' || item.type === 'function_call' || type === 'user_audio') {
+      this.unfinished.set(item.id, row);
+    } else {
+      this.enqueue(row);
+    }
+  }
+
+  // From response.done: the response's items as they finished, and the tokens it used, which
+  // are counted against its last item
+  responseDone(response: RealtimeResponse) {
+    const outputs = response.output.filter(item => item.id && this.unfinished.has(item.id));
+    outputs.forEach((item, i) => {
+      const id = item.id ?? '';
+      const row = this.unfinished.get(id);
+      if (!row) return;
+      this.unfinished.delete(id);
+      this.enqueue({
+        ...row,
+        item_type: itemType(item) ?? row.item_type,
+        content: storedContent(item),
+        transcript: transcriptOf(item),
+        tokens_used: i === outputs.length - 1 ? response.usage?.total_tokens ?? null : null,
+      });
+    });
+  }
+
+  // From conversation.item.input_audio_transcription.completed, or .failed with no transcript
+  transcriptionDone(itemId: string, transcript: string | null) {
+    const row = this.unfinished.get(itemId);
+    if (!row) return;
+    this.unfinished.delete(itemId);
+    this.enqueue({ ...row, transcript });
+  }
+
+  // Writes what is left and closes the session row. Items that never finished are written as
+  // they were created.
+  async close(status: 'completed' | 'error', errorMessage?: string): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.ready.push(...this.unfinished.values());
+    this.unfinished.clear();
+
+    try {
+      await this.flush();
+      const sessionId = await this.sessionId;
+      if (sessionId) await this.retry(() => supabaseApi.endVoiceSession(sessionId, status, errorMessage));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to save voice session; ${this.ready.length} items were not written:`, error);
+    }
+  }
+
+  private enqueue(row: RecordedRow) {
+    this.ready.push(row);
+    if (this.ready.length >= MAX_BATCH_SIZE) {
+      this.flushInBackground();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flushInBackground(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  // Failures are left for close() to report, with the items they kept back
+  private flushInBackground() {
+    this.flush().catch(() => undefined);
+  }
+
+  // Writes ready items in batches until none are left. Flushes run one after another, so a
+  // batch is never sent twice at once and items that become ready during one are not missed.
+  private flush(): Promise<void> {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    this.flushing = this.flushing.catch(() => undefined).then(() => this.writeReady());
+    return this.flushing;
+  }
+
+  private async writeReady() {
+    const sessionId = await this.sessionId;
+    if (!sessionId) throw new Error('The voice session was not created');
+
+    while (this.ready.length > 0) {
+      const batch = this.ready.slice(0, MAX_BATCH_SIZE);
+      await this.retry(() =>
+        supabaseApi.saveVoiceConversationItems(batch.map(row => ({ ...row, session_id: sessionId })))
+      );
+      this.ready.splice(0, batch.length);
+    }
+  }
+
+  // Retries with exponential backoff: for as long as the session is open, then up to
+  // CLOSE_ATTEMPTS attempts in all once it has closed
+  private async retry<T>(operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (this.closed && attempt >= CLOSE_ATTEMPTS) throw error;
+        await delay(Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS));
+      }
+    }
+  }
+}
@@ -1,5 +1,21 @@
 // API response types for all backend communications
 
+import type {
+  ChartData,
+  HouseStrength,
+  HouseSystem,
+  Judgement,
+  Location,
+  PlanetaryDay,
+  PlanetaryHour,
+  Significators,
+  SolarCondition,
+  Timing,
+  UserPreferences,
+  VoidOfCourse,
+} from './astrology';
+import type { Tables } from './database.generated';
+
 export interface ApiResponse<T> {
   data: T | null;
   error: string | null;
@@ -22,7 +38,7 @@ export interface GetUserDetailsResponse {
     country?: string;
   } | null;
   zodiac_sign: string | null;
-  preferences: Record<string, unknown>;
+  preferences: UserPreferences;
   timezone: string | null;
 }
 
@@ -41,6 +57,11 @@ export interface GetPlanetaryPositionsResponse {
     minute: number;
     house: number;
     retrograde: boolean;
+    speed: number;
+    swift: boolean;
+    house_strength: HouseStrength;
+    solar_condition: SolarCondition | null;
+    accidental_score: number;
   }>;
   houses: Array<{
     number: number;
@@ -49,49 +70,32 @@ export interface GetPlanetaryPositionsResponse {
   }>;
   ascendant: number;
   midheaven: number;
+  house_system: HouseSystem;
 }
 
 export interface GenerateHoraryChartResponse {
   query_id: string;
-  chart_data: {
-    timestamp: string;
-    location: {
-      lat: number;
-      lon: number;
-      city?: string;
-      country?: string;
-    };
-    planets: Array<{
-      name: string;
-      longitude: number;
-      latitude: number;
-      sign: string;
-      degree: number;
-      minute: number;
-      house: number;
-      retrograde: boolean;
-    }>;
-    houses: Array<{
-      number: number;
-      cusp: number;
-      sign: string;
-    }>;
-    aspects: Array<{
-      planet1: string;
-      planet2: string;
-      type: string;
-      orb: number;
-      exact_degree: number;
-      applying: boolean;
-      separating: boolean;
-    }>;
-    ascendant: number;
-    midheaven: number;
-  };
+  chart_data: ChartData; // upgraded to the current schema by the API client
+  significators: Significators;
+  judgement: Judgement;
+  timing: Timing | null; // null when the significators do not perfect
   interpretation_prompt: string;
   significance_factors: string[];
 }
 
+// The profile fields the voice assistant may read
+export type UserDetails = Pick<
+  Tables<'users'>,
+  'birth_date' | 'birth_time' | 'birth_location' | 'zodiac_sign' | 'preferences' | 'timezone'
+>;
+
+export interface ChartImportResponse {
+  charts: {
+    name: string;
+    chart_data: ChartData;
+  }[];
+}
+
 export interface GetZodiacInsightsResponse {
   sign: string;
   type: string;
@@ -105,6 +109,7 @@ export interface GetZodiacInsightsResponse {
 
 export interface GetCurrentAstroDataResponse {
   timestamp: string;
+  location: Location;
   moon_phase?: {
     phase: string;
     illumination: number;
@@ -112,10 +117,9 @@ export interface GetCurrentAstroDataResponse {
     next_full_moon: string;
   };
   retrograde_planets?: string[];
-  void_of_course?: {
-    is_void: boolean;
-    void_until?: string;
-  };
+  void_of_course?: VoidOfCourse;
+  planetary_hours?: PlanetaryDay | null; // null during polar day or night
+  planetary_hour?: PlanetaryHour | null;
   daily_aspects?: Array<{
     time: string;
     planet1: string;
@@ -1,74 +1,173 @@
 // Core astrology types - these match the Edge Function responses
+// ChartData and the types it is built from are generated from the chart JSON Schema
 
-export type ZodiacSign = 
-  | 'Aries' | 'Taurus' | 'Gemini' | 'Cancer' 
-  | 'Leo' | 'Virgo' | 'Libra' | 'Scorpio' 
-  | 'Sagittarius' | 'Capricorn' | 'Aquarius' | 'Pisces';
-
-export type Planet = 
-  | 'Sun' | 'Moon' | 'Mercury' | 'Venus' | 'Mars' 
-  | 'Jupiter' | 'Saturn' | 'Uranus' | 'Neptune' | 'Pluto';
-
-export type AspectType = 
-  | 'conjunction' | 'opposition' | 'trine' | 'square' 
-  | 'sextile' | 'quincunx' | 'semisextile' | 'semisquare' | 'sesquiquadrate';
-
-export interface PlanetaryPosition {
-  name: Planet;
-  longitude: number;
-  latitude: number;
-  sign: ZodiacSign;
-  degree: number;
-  minute: number;
+import type {
+  AspectType,
+  ChartData,
+  ContactOrbs,
+  HouseStrength,
+  HouseSystem,
+  Location,
+  OrbModel,
+  Planet,
+  PlanetaryHour,
+  TermSystem,
+  VoidOfCourseRule,
+} from './chartData.generated';
+import type { TurnDetectionPreference } from './realtime';
+
+export type * from './chartData.generated';
+
+export type Modality = 'cardinal' | 'fixed' | 'mutable';
+
+// Chart interchange: AAF and Astrolog files for desktop software, or ChartData as versioned JSON
+export type InterchangeFormat = 'aaf' | 'astrolog' | 'json';
+
+// Chart export: the wheel as SVG or PNG, a PDF report, a plain-text aspectarian, or an
+// interchange file
+export type ExportFormat = 'svg' | 'png' | 'pdf' | 'aspectarian' | InterchangeFormat;
+
+export interface SolarOrbs {
+  cazimi: number;
+  combust: number;
+  under_beams: number;
+}
+
+// Points a Lot can be cast from: planets, angles, house cusps such as 'house_8', or the
+// Lots of Fortune and Spirit, which other Lots are built on
+export type LotPoint = Planet | 'Ascendant' | 'Midheaven' | 'Fortune' | 'Spirit' | `house_${number}`;
+
+// Ascendant + add - subtract; by night the two are swapped when reverse_at_night is set
+export interface LotDefinition {
+  name: string;
+  add: LotPoint;
+  subtract: LotPoint;
+  reverse_at_night: boolean;
+}
+
+// Sunrise to the next sunrise, ruled by the planet of its weekday
+export interface PlanetaryDay {
+  day_ruler: Planet;
+  sunrise: string;
+  sunset: string;
+  next_sunrise: string;
+  hours: PlanetaryHour[];
+}
+
+export type ClassificationMethod = 'rules' | 'llm' | 'default';
+
+export interface Significator {
   house: number;
-  retrograde: boolean;
+  ruler: Planet;
+  co_significators: Planet[];
 }
 
-export interface HousePosition {
-  number: number;
-  cusp: number;
-  sign: ZodiacSign;
+// How the question was mapped to houses, and the planets that result
+export interface Significators {
+  querent: Significator;
+  quesited: Significator;
+  topic: string;
+  derivation: number[];
+  moon: 'querent' | 'quesited';
+  method: ClassificationMethod;
+  explanation: string[];
 }
 
-export interface Aspect {
-  planet1: Planet;
-  planet2: Planet;
-  type: AspectType;
-  orb: number;
-  exact_degree: number;
-  applying: boolean;
-  separating: boolean;
+export type PerfectionKind = 'aspect' | 'translation' | 'collection';
+
+export type ObstructionKind = 'prohibition' | 'frustration' | 'refranation' | 'no_application';
+
+export interface Perfection {
+  kind: PerfectionKind;
+  aspect: AspectType;
+  planets: [Planet, Planet];
+  via: Planet | null;
+  degrees: number;
+  exact_at: string;
 }
 
-export interface Location {
-  lat: number;
-  lon: number;
-  city?: string;
-  country?: string;
+export interface Obstruction {
+  kind: ObstructionKind;
+  planet: Planet | null;
+  aspect: AspectType | null;
+  at: string | null;
+  description: string;
 }
 
-export interface ChartData {
-  timestamp: string;
-  location: Location;
-  planets: PlanetaryPosition[];
-  houses: HousePosition[];
-  aspects: Aspect[];
-  ascendant: number;
-  midheaven: number;
+export interface Station {
+  planet: Planet;
+  at: string;
+  direction: 'retrograde' | 'direct';
+}
+
+// Whether and how the significators perfect, from the horary-chart Edge Function
+export interface Judgement {
+  querent: Planet;
+  quesited: Planet;
+  perfects: boolean;
+  perfection: Perfection | null;
+  obstruction: Obstruction | null;
+  stations: Station[];
+  summary: string;
+}
+
+export type TimeUnit = 'days' | 'weeks' | 'months' | 'years';
+
+// Degrees to perfection read as units of time, from one significator's sign and house
+export interface TimingEstimate {
+  planet: Planet;
+  modality: Modality;
+  house_strength: HouseStrength;
+  unit: TimeUnit; // each degree to perfection counts as one of these
+  date: string;
 }
 
+export interface Timing {
+  degrees: number;
+  estimates: TimingEstimate[]; // the applying planet first
+  earliest: string;
+  latest: string;
+  perfects_at: string; // when the aspect is exact in the ephemeris
+  reasoning: string[];
+}
+
+// Stored in users.preferences
+export interface UserPreferences {
+  house_system?: HouseSystem;
+  term_system?: TermSystem;
+  solar_orbs?: Partial<SolarOrbs>;
+  void_of_course_rule?: VoidOfCourseRule;
+  lots?: LotDefinition[]; // cast alongside the traditional catalogue
+  contact_orbs?: Partial<ContactOrbs>;
+  orb_model?: OrbModel;
+  voice_turn_detection?: TurnDetectionPreference; // read by the voice interface only
+  [key: string]: unknown;
+}
+
+// What horary-chart stores in horary_queries.interpretation
+export interface StoredInterpretation {
+  significators: Significators;
+  judgement: Judgement;
+  timing: Timing | null;
+  significance_factors: string[];
+}
+
+export type HoraryQueryStatus = 'pending' | 'completed' | 'failed';
+
+// A row of horary_queries with its chart upgraded to the current schema
 export interface HoraryQuery {
   id: string;
-  user_id: string;
+  user_id: string | null;
   question: string;
   question_time: string;
   location: Location;
   chart_data: ChartData | null;
+  interpretation: StoredInterpretation | null;
   ai_interpretation: string | null;
-  status: 'processing' | 'completed' | 'failed';
+  status: HoraryQueryStatus;
   metadata: Record<string, unknown>;
-  created_at: string;
-  updated_at: string;
+  created_at: string | null;
+  updated_at: string | null;
 }
 
 export interface MoonPhase {
@@ -78,10 +177,7 @@ export interface MoonPhase {
   next_full_moon: string;
 }
 
-export interface VoidOfCourse {
-  is_void: boolean;
-  void_until?: string;
-}
+export type AstroDataType = 'void_of_course' | 'planetary_hours' | 'all';
 
 export interface DailyAspect {
   time: string;
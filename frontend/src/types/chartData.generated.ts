@@ -0,0 +1,1319 @@
+// Generated from supabase/functions/_shared/schema/chart-data.schema.json by
+// frontend/scripts/generate-chart-types.mjs; edit the schema and run
+// `npm run generate:chart-types` in frontend/ rather than changing this file.
+
+export const CHART_DATA_SCHEMA_ID = 'urn:horary-astrology:chart-data:v2';
+
+export const CHART_DATA_SCHEMA_VERSION = 2;
+
+export type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+// The subset of JSON Schema (draft 2020-12) the chart schema is written in
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  enum?: readonly (string | number | boolean | null)[];
+  const?: string | number | boolean | null;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  format?: string;
+  anyOf?: JsonSchema[];
+}
+
+export const CHART_DATA_SCHEMA: JsonSchema = {
+  "$schema": "https://json-schema.org/draft/2020-12/schema",
+  "$id": "urn:horary-astrology:chart-data:v2",
+  "title": "Horary chart document",
+  "description": "A cast horary chart, as exported by chart-export and read by chart-import. ChartData is also what horary_queries.chart_data stores. Bump ChartData.schema_version (and this $id) whenever ChartData changes shape, and give every property added to an existing object a default, which older charts are upgraded with when read.",
+  "$ref": "#/$defs/ChartDocument",
+  "$defs": {
+    "ZodiacSign": {
+      "type": "string",
+      "enum": [
+        "Aries",
+        "Taurus",
+        "Gemini",
+        "Cancer",
+        "Leo",
+        "Virgo",
+        "Libra",
+        "Scorpio",
+        "Sagittarius",
+        "Capricorn",
+        "Aquarius",
+        "Pisces"
+      ]
+    },
+    "Planet": {
+      "type": "string",
+      "enum": [
+        "Sun",
+        "Moon",
+        "Mercury",
+        "Venus",
+        "Mars",
+        "Jupiter",
+        "Saturn",
+        "Uranus",
+        "Neptune",
+        "Pluto"
+      ]
+    },
+    "AspectType": {
+      "type": "string",
+      "enum": [
+        "conjunction",
+        "opposition",
+        "trine",
+        "square",
+        "sextile",
+        "quincunx",
+        "semisextile",
+        "semisquare",
+        "sesquiquadrate"
+      ]
+    },
+    "HouseSystem": {
+      "type": "string",
+      "enum": [
+        "regiomontanus",
+        "placidus",
+        "alcabitius",
+        "whole_sign",
+        "equal",
+        "porphyry"
+      ]
+    },
+    "TermSystem": {
+      "type": "string",
+      "enum": [
+        "egyptian",
+        "ptolemaic"
+      ]
+    },
+    "HouseStrength": {
+      "type": "string",
+      "enum": [
+        "angular",
+        "succedent",
+        "cadent"
+      ]
+    },
+    "VoidOfCourseRule": {
+      "description": "Classical: Ptolemaic aspects to the seven traditional planets; modern: the outer planets as well",
+      "type": "string",
+      "enum": [
+        "classical",
+        "modern"
+      ]
+    },
+    "OrbModel": {
+      "description": "How far from exact an aspect may be: a fixed orb per aspect type, Lilly's planetary moieties, or strictly within one degree",
+      "type": "string",
+      "enum": [
+        "per_aspect",
+        "moiety",
+        "within_degree"
+      ]
+    },
+    "SolarCondition": {
+      "type": "string",
+      "enum": [
+        "cazimi",
+        "combust",
+        "under_beams",
+        "free"
+      ]
+    },
+    "ContactOrbs": {
+      "description": "Orbs, in degrees, for conjunctions to fixed stars and for antiscial contacts",
+      "type": "object",
+      "properties": {
+        "fixed_star": {
+          "type": "number",
+          "minimum": 0
+        },
+        "antiscia": {
+          "type": "number",
+          "minimum": 0
+        }
+      },
+      "required": [
+        "fixed_star",
+        "antiscia"
+      ]
+    },
+    "Location": {
+      "type": "object",
+      "properties": {
+        "lat": {
+          "type": "number",
+          "minimum": -90,
+          "maximum": 90
+        },
+        "lon": {
+          "type": "number",
+          "minimum": -180,
+          "maximum": 180
+        },
+        "city": {
+          "type": "string"
+        },
+        "country": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "lat",
+        "lon"
+      ]
+    },
+    "PlanetaryPosition": {
+      "description": "Speed and the accidental fields after it are null in charts from version 1",
+      "type": "object",
+      "properties": {
+        "name": {
+          "$ref": "#/$defs/Planet"
+        },
+        "longitude": {
+          "type": "number",
+          "minimum": 0,
+          "maximum": 360
+        },
+        "latitude": {
+          "type": "number"
+        },
+        "sign": {
+          "$ref": "#/$defs/ZodiacSign"
+        },
+        "degree": {
+          "type": "integer",
+          "minimum": 0,
+          "maximum": 29
+        },
+        "minute": {
+          "type": "integer",
+          "minimum": 0,
+          "maximum": 59
+        },
+        "house": {
+          "type": "integer",
+          "minimum": 1,
+          "maximum": 12
+        },
+        "retrograde": {
+          "type": "boolean"
+        },
+        "speed": {
+          "anyOf": [
+            {
+              "type": "number"
+            },
+            {
+              "type": "null"
+            }
+          ],
+          "default": null,
+          "description": "degrees per day"
+        },
+        "swift": {
+          "anyOf": [
+            {
+              "type": "boolean"
+            },
+            {
+              "type": "null"
+            }
+          ],
+          "default": null,
+          "description": "faster than its mean daily motion"
+        },
+        "house_strength": {
+          "anyOf": [
+            {
+              "$ref": "#/$defs/HouseStrength"
+            },
+            {
+              "type": "null"
+            }
+          ],
+          "default": null
+        },
+        "solar_condition": {
+          "anyOf": [
+            {
+              "$ref": "#/$defs/SolarCondition"
+            },
+            {
+              "type": "null"
+            }
+          ],
+          "default": null,
+          "description": "null for the Sun itself"
+        },
+        "accidental_score": {
+          "anyOf": [
+            {
+              "type": "number"
+            },
+            {
+              "type": "null"
+            }
+          ],
+          "default": null,
+          "description": "Lilly's points for house, motion and the Sun's beams"
+        }
+      },
+      "required": [
+        "name",
+        "longitude",
+        "latitude",
+        "sign",
+        "degree",
+        "minute",
+        "house",
+        "retrograde",
+        "speed",
+        "swift",
+        "house_strength",
+        "solar_condition",
+        "accidental_score"
+      ]
+    },
+    "HousePosition": {
+      "type": "object",
+      "properties": {
+        "number": {
+          "type": "integer",
+          "minimum": 1,
+          "maximum": 12
+        },
+        "cusp": {
+          "type": "number",
+          "minimum": 0,
+          "maximum": 360
+        },
+        "sign": {
+          "$ref": "#/$defs/ZodiacSign"
+        }
+      },
+      "required": [
+        "number",
+        "cusp",
+        "sign"
+      ]
+    },
+    "DignityKind": {
+      "type": "string",
+      "enum": [
+        "domicile",
+        "exaltation",
+        "triplicity",
+        "term",
+        "face"
+      ]
+    },
+    "Reception": {
+      "description": "Reception between two planets: one receives the other when the other stands in its dignity",
+      "type": "object",
+      "properties": {
+        "planets": {
+          "type": "array",
+          "prefixItems": [
+            {
+              "$ref": "#/$defs/Planet"
+            },
+            {
+              "$ref": "#/$defs/Planet"
+            }
+          ],
+          "minItems": 2,
+          "maxItems": 2
+        },
+        "first_receives": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/DignityKind"
+          },
+          "description": "dignities of the first planet that the second stands in"
+        },
+        "second_receives": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/DignityKind"
+          }
+        },
+        "mutual": {
+          "type": "boolean"
+        },
+        "mixed": {
+          "type": "boolean",
+          "description": "mutual, but only by different dignities, e.g. domicile one way and exaltation the other"
+        }
+      },
+      "required": [
+        "planets",
+        "first_receives",
+        "second_receives",
+        "mutual",
+        "mixed"
+      ]
+    },
+    "Aspect": {
+      "type": "object",
+      "properties": {
+        "planet1": {
+          "$ref": "#/$defs/Planet"
+        },
+        "planet2": {
+          "$ref": "#/$defs/Planet"
+        },
+        "type": {
+          "$ref": "#/$defs/AspectType"
+        },
+        "orb": {
+          "type": "number"
+        },
+        "exact_degree": {
+          "type": "number"
+        },
+        "applying": {
+          "type": "boolean"
+        },
+        "separating": {
+          "type": "boolean"
+        },
+        "reception": {
+          "anyOf": [
+            {
+              "$ref": "#/$defs/Reception"
+            },
+            {
+              "type": "null"
+            }
+          ],
+          "default": null
+        }
+      },
+      "required": [
+        "planet1",
+        "planet2",
+        "type",
+        "orb",
+        "exact_degree",
+        "applying",
+        "separating",
+        "reception"
+      ]
+    },
+    "EssentialDignity": {
+      "type": "object",
+      "properties": {
+        "planet": {
+          "$ref": "#/$defs/Planet"
+        },
+        "sign": {
+          "$ref": "#/$defs/ZodiacSign"
+        },
+        "domicile": {
+          "type": "boolean"
+        },
+        "exaltation": {
+          "type": "boolean"
+        },
+        "triplicity": {
+          "type": "boolean"
+        },
+        "term": {
+          "type": "boolean"
+        },
+        "face": {
+          "type": "boolean"
+        },
+        "detriment": {
+          "type": "boolean"
+        },
+        "fall": {
+          "type": "boolean"
+        },
+        "peregrine": {
+          "type": "boolean"
+        },
+        "score": {
+          "type": "number",
+          "description": "Lilly's points: +5 domicile ... -5 peregrine"
+        },
+        "rulers": {
+          "type": "object",
+          "description": "planets holding each dignity at this degree (the dispositors)",
+          "properties": {
+            "domicile": {
+              "$ref": "#/$defs/Planet"
+            },
+            "exaltation": {
+              "anyOf": [
+                {
+                  "$ref": "#/$defs/Planet"
+                },
+                {
+                  "type": "null"
+                }
+              ]
+            },
+            "triplicity": {
+              "$ref": "#/$defs/Planet"
+            },
+            "term": {
+              "$ref": "#/$defs/Planet"
+            },
+            "face": {
+              "$ref": "#/$defs/Planet"
+            }
+          },
+          "required": [
+            "domicile",
+            "exaltation",
+            "triplicity",
+            "term",
+            "face"
+          ]
+        }
+      },
+      "required": [
+        "planet",
+        "sign",
+        "domicile",
+        "exaltation",
+        "triplicity",
+        "term",
+        "face",
+        "detriment",
+        "fall",
+        "peregrine",
+        "score",
+        "rulers"
+      ]
+    },
+    "ChartDignities": {
+      "type": "object",
+      "properties": {
+        "term_system": {
+          "$ref": "#/$defs/TermSystem"
+        },
+        "day_chart": {
+          "type": "boolean"
+        },
+        "planets": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/EssentialDignity"
+          }
+        }
+      },
+      "required": [
+        "term_system",
+        "day_chart",
+        "planets"
+      ]
+    },
+    "MoonAspect": {
+      "type": "object",
+      "properties": {
+        "planet": {
+          "$ref": "#/$defs/Planet"
+        },
+        "aspect": {
+          "$ref": "#/$defs/AspectType"
+        },
+        "at": {
+          "type": "string",
+          "format": "date-time"
+        }
+      },
+      "required": [
+        "planet",
+        "aspect",
+        "at"
+      ]
+    },
+    "VoidOfCourse": {
+      "type": "object",
+      "properties": {
+        "rule": {
+          "$ref": "#/$defs/VoidOfCourseRule"
+        },
+        "is_void": {
+          "type": "boolean"
+        },
+        "void_from": {
+          "type": "string",
+          "format": "date-time",
+          "description": "the Moon's last aspect in her sign, or her entry into it if she makes none"
+        },
+        "void_until": {
+          "type": "string",
+          "format": "date-time",
+          "description": "her entry into the next sign"
+        },
+        "last_aspect": {
+          "anyOf": [
+            {
+              "$ref": "#/$defs/MoonAspect"
+            },
+            {
+              "type": "null"
+            }
+          ]
+        },
+        "next_aspect": {
+          "anyOf": [
+            {
+              "$ref": "#/$defs/MoonAspect"
+            },
+            {
+              "type": "null"
+            }
+          ],
+          "description": "next aspect she perfects before leaving her sign"
+        },
+        "next_sign": {
+          "$ref": "#/$defs/ZodiacSign"
+        }
+      },
+      "required": [
+        "rule",
+        "is_void",
+        "void_from",
+        "void_until",
+        "last_aspect",
+        "next_aspect",
+        "next_sign"
+      ]
+    },
+    "PlanetaryHour": {
+      "type": "object",
+      "properties": {
+        "ruler": {
+          "$ref": "#/$defs/Planet"
+        },
+        "number": {
+          "type": "integer",
+          "minimum": 1,
+          "maximum": 24,
+          "description": "1-12 by day, 13-24 by night"
+        },
+        "daytime": {
+          "type": "boolean"
+        },
+        "start": {
+          "type": "string",
+          "format": "date-time"
+        },
+        "end": {
+          "type": "string",
+          "format": "date-time"
+        }
+      },
+      "required": [
+        "ruler",
+        "number",
+        "daytime",
+        "start",
+        "end"
+      ]
+    },
+    "Lot": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string"
+        },
+        "longitude": {
+          "type": "number",
+          "minimum": 0,
+          "maximum": 360
+        },
+        "sign": {
+          "$ref": "#/$defs/ZodiacSign"
+        },
+        "house": {
+          "type": "integer",
+          "minimum": 1,
+          "maximum": 12
+        },
+        "ruler": {
+          "$ref": "#/$defs/Planet"
+        },
+        "formula": {
+          "type": "string",
+          "description": "as applied to this chart, e.g. \"Ascendant + Sun - Moon\" by night"
+        },
+        "custom": {
+          "type": "boolean",
+          "description": "defined in the user's preferences"
+        }
+      },
+      "required": [
+        "name",
+        "longitude",
+        "sign",
+        "house",
+        "ruler",
+        "formula",
+        "custom"
+      ]
+    },
+    "NodeKind": {
+      "type": "string",
+      "enum": [
+        "mean",
+        "true"
+      ]
+    },
+    "LunarNode": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string",
+          "enum": [
+            "North Node",
+            "South Node"
+          ]
+        },
+        "kind": {
+          "$ref": "#/$defs/NodeKind"
+        },
+        "longitude": {
+          "type": "number",
+          "minimum": 0,
+          "maximum": 360
+        },
+        "sign": {
+          "$ref": "#/$defs/ZodiacSign"
+        },
+        "degree": {
+          "type": "integer",
+          "minimum": 0,
+          "maximum": 29
+        },
+        "minute": {
+          "type": "integer",
+          "minimum": 0,
+          "maximum": 59
+        },
+        "house": {
+          "type": "integer",
+          "minimum": 1,
+          "maximum": 12
+        }
+      },
+      "required": [
+        "name",
+        "kind",
+        "longitude",
+        "sign",
+        "degree",
+        "minute",
+        "house"
+      ]
+    },
+    "ChartPoint": {
+      "anyOf": [
+        {
+          "$ref": "#/$defs/Planet"
+        },
+        {
+          "type": "string",
+          "enum": [
+            "Ascendant",
+            "Midheaven"
+          ]
+        }
+      ]
+    },
+    "StarConjunction": {
+      "description": "A planet or angle conjunct a catalogue star precessed to the chart date",
+      "type": "object",
+      "properties": {
+        "star": {
+          "type": "string"
+        },
+        "star_longitude": {
+          "type": "number",
+          "minimum": 0,
+          "maximum": 360
+        },
+        "magnitude": {
+          "type": "number"
+        },
+        "nature": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/Planet"
+          },
+          "description": "Ptolemy's planetary natures"
+        },
+        "point": {
+          "$ref": "#/$defs/ChartPoint"
+        },
+        "orb": {
+          "type": "number",
+          "description": "degrees in longitude"
+        }
+      },
+      "required": [
+        "star",
+        "star_longitude",
+        "magnitude",
+        "nature",
+        "point",
+        "orb"
+      ]
+    },
+    "Antiscion": {
+      "description": "Reflections of a planet across the solstitial axis (antiscion) and the equinoctial axis",
+      "type": "object",
+      "properties": {
+        "planet": {
+          "$ref": "#/$defs/Planet"
+        },
+        "antiscion": {
+          "type": "number",
+          "minimum": 0,
+          "maximum": 360
+        },
+        "contra_antiscion": {
+          "type": "number",
+          "minimum": 0,
+          "maximum": 360
+        }
+      },
+      "required": [
+        "planet",
+        "antiscion",
+        "contra_antiscion"
+      ]
+    },
+    "AntiscionKind": {
+      "type": "string",
+      "enum": [
+        "antiscion",
+        "contra_antiscion"
+      ]
+    },
+    "AntiscialContact": {
+      "description": "The antiscion of one planet falling on another; the relation is symmetric",
+      "type": "object",
+      "properties": {
+        "planet1": {
+          "$ref": "#/$defs/Planet"
+        },
+        "planet2": {
+          "$ref": "#/$defs/Planet"
+        },
+        "type": {
+          "$ref": "#/$defs/AntiscionKind"
+        },
+        "orb": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "planet1",
+        "planet2",
+        "type",
+        "orb"
+      ]
+    },
+    "StrictureKind": {
+      "type": "string",
+      "enum": [
+        "early_ascendant",
+        "late_ascendant",
+        "void_of_course_moon",
+        "via_combusta",
+        "saturn_in_first",
+        "saturn_in_seventh",
+        "hour_ruler_disagrees"
+      ]
+    },
+    "Stricture": {
+      "description": "A consideration before judgement: a reason the chart may not be fit to judge",
+      "type": "object",
+      "properties": {
+        "kind": {
+          "$ref": "#/$defs/StrictureKind"
+        },
+        "message": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "kind",
+        "message"
+      ]
+    },
+    "ChartData": {
+      "type": "object",
+      "properties": {
+        "schema_version": {
+          "type": "integer",
+          "const": 2,
+          "description": "charts stored before versioning count as version 1"
+        },
+        "timestamp": {
+          "type": "string",
+          "format": "date-time"
+        },
+        "location": {
+          "$ref": "#/$defs/Location"
+        },
+        "planets": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/PlanetaryPosition"
+          }
+        },
+        "houses": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/HousePosition"
+          },
+          "minItems": 12,
+          "maxItems": 12
+        },
+        "aspects": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/Aspect"
+          }
+        },
+        "ascendant": {
+          "type": "number",
+          "minimum": 0,
+          "maximum": 360
+        },
+        "midheaven": {
+          "type": "number",
+          "minimum": 0,
+          "maximum": 360
+        },
+        "house_system": {
+          "$ref": "#/$defs/HouseSystem",
+          "default": "regiomontanus"
+        },
+        "dignities": {
+          "anyOf": [
+            {
+              "$ref": "#/$defs/ChartDignities"
+            },
+            {
+              "type": "null"
+            }
+          ],
+          "default": null,
+          "description": "null in charts from version 1"
+        },
+        "void_of_course": {
+          "anyOf": [
+            {
+              "$ref": "#/$defs/VoidOfCourse"
+            },
+            {
+              "type": "null"
+            }
+          ],
+          "default": null,
+          "description": "null in charts from version 1"
+        },
+        "planetary_hour": {
+          "anyOf": [
+            {
+              "$ref": "#/$defs/PlanetaryHour"
+            },
+            {
+              "type": "null"
+            }
+          ],
+          "default": null,
+          "description": "null where the Sun does not rise or set that day"
+        },
+        "lots": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/Lot"
+          },
+          "default": []
+        },
+        "nodes": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/LunarNode"
+          },
+          "default": [],
+          "description": "mean and true, North then South"
+        },
+        "fixed_stars": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/StarConjunction"
+          },
+          "default": []
+        },
+        "antiscia": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/Antiscion"
+          },
+          "default": []
+        },
+        "antiscial_contacts": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/AntiscialContact"
+          },
+          "default": []
+        },
+        "contact_orbs": {
+          "$ref": "#/$defs/ContactOrbs",
+          "default": {
+            "fixed_star": 1,
+            "antiscia": 1
+          },
+          "description": "the orbs fixed_stars and antiscial_contacts were found with"
+        },
+        "orb_model": {
+          "$ref": "#/$defs/OrbModel",
+          "default": "per_aspect",
+          "description": "the model aspects were found with"
+        },
+        "strictures": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/Stricture"
+          },
+          "default": []
+        }
+      },
+      "required": [
+        "schema_version",
+        "timestamp",
+        "location",
+        "planets",
+        "houses",
+        "aspects",
+        "ascendant",
+        "midheaven",
+        "house_system",
+        "dignities",
+        "void_of_course",
+        "planetary_hour",
+        "lots",
+        "nodes",
+        "fixed_stars",
+        "antiscia",
+        "antiscial_contacts",
+        "contact_orbs",
+        "orb_model",
+        "strictures"
+      ]
+    },
+    "ChartDocument": {
+      "description": "The versioned JSON document the 'json' interchange format reads and writes",
+      "type": "object",
+      "properties": {
+        "$schema": {
+          "type": "string",
+          "description": "the $id of the schema it was written against"
+        },
+        "name": {
+          "type": "string"
+        },
+        "chart_data": {
+          "$ref": "#/$defs/ChartData"
+        }
+      },
+      "required": [
+        "$schema",
+        "name",
+        "chart_data"
+      ]
+    }
+  }
+};
+
+export type ZodiacSign =
+  | 'Aries'
+  | 'Taurus'
+  | 'Gemini'
+  | 'Cancer'
+  | 'Leo'
+  | 'Virgo'
+  | 'Libra'
+  | 'Scorpio'
+  | 'Sagittarius'
+  | 'Capricorn'
+  | 'Aquarius'
+  | 'Pisces';
+
+export type Planet =
+  | 'Sun'
+  | 'Moon'
+  | 'Mercury'
+  | 'Venus'
+  | 'Mars'
+  | 'Jupiter'
+  | 'Saturn'
+  | 'Uranus'
+  | 'Neptune'
+  | 'Pluto';
+
+export type AspectType =
+  | 'conjunction'
+  | 'opposition'
+  | 'trine'
+  | 'square'
+  | 'sextile'
+  | 'quincunx'
+  | 'semisextile'
+  | 'semisquare'
+  | 'sesquiquadrate';
+
+export type HouseSystem =
+  | 'regiomontanus'
+  | 'placidus'
+  | 'alcabitius'
+  | 'whole_sign'
+  | 'equal'
+  | 'porphyry';
+
+export type TermSystem = 'egyptian' | 'ptolemaic';
+
+export type HouseStrength = 'angular' | 'succedent' | 'cadent';
+
+// Classical: Ptolemaic aspects to the seven traditional planets; modern: the outer planets as well
+export type VoidOfCourseRule = 'classical' | 'modern';
+
+// How far from exact an aspect may be: a fixed orb per aspect type, Lilly's planetary moieties, or
+// strictly within one degree
+export type OrbModel = 'per_aspect' | 'moiety' | 'within_degree';
+
+export type SolarCondition = 'cazimi' | 'combust' | 'under_beams' | 'free';
+
+// Orbs, in degrees, for conjunctions to fixed stars and for antiscial contacts
+export interface ContactOrbs {
+  fixed_star: number;
+  antiscia: number;
+}
+
+export interface Location {
+  lat: number;
+  lon: number;
+  city?: string;
+  country?: string;
+}
+
+// Speed and the accidental fields after it are null in charts from version 1
+export interface PlanetaryPosition {
+  name: Planet;
+  longitude: number;
+  latitude: number;
+  sign: ZodiacSign;
+  degree: number;
+  minute: number;
+  house: number;
+  retrograde: boolean;
+  speed: number | null; // degrees per day
+  swift: boolean | null; // faster than its mean daily motion
+  house_strength: HouseStrength | null;
+  solar_condition: SolarCondition | null; // null for the Sun itself
+  accidental_score: number | null; // Lilly's points for house, motion and the Sun's beams
+}
+
+export interface HousePosition {
+  number: number;
+  cusp: number;
+  sign: ZodiacSign;
+}
+
+export type DignityKind = 'domicile' | 'exaltation' | 'triplicity' | 'term' | 'face';
+
+// Reception between two planets: one receives the other when the other stands in its dignity
+export interface Reception {
+  planets: [Planet, Planet];
+  first_receives: DignityKind[]; // dignities of the first planet that the second stands in
+  second_receives: DignityKind[];
+  mutual: boolean;
+  mixed: boolean; // mutual, but only by different dignities, e.g. domicile one way and exaltation the other
+}
+
+export interface Aspect {
+  planet1: Planet;
+  planet2: Planet;
+  type: AspectType;
+  orb: number;
+  exact_degree: number;
+  applying: boolean;
+  separating: boolean;
+  reception: Reception | null;
+}
+
+export interface EssentialDignity {
+  planet: Planet;
+  sign: ZodiacSign;
+  domicile: boolean;
+  exaltation: boolean;
+  triplicity: boolean;
+  term: boolean;
+  face: boolean;
+  detriment: boolean;
+  fall: boolean;
+  peregrine: boolean;
+  score: number; // Lilly's points: +5 domicile ... -5 peregrine
+  // Planets holding each dignity at this degree (the dispositors)
+  rulers: {
+    domicile: Planet;
+    exaltation: Planet | null;
+    triplicity: Planet;
+    term: Planet;
+    face: Planet;
+  };
+}
+
+export interface ChartDignities {
+  term_system: TermSystem;
+  day_chart: boolean;
+  planets: EssentialDignity[];
+}
+
+export interface MoonAspect {
+  planet: Planet;
+  aspect: AspectType;
+  at: string;
+}
+
+export interface VoidOfCourse {
+  rule: VoidOfCourseRule;
+  is_void: boolean;
+  void_from: string; // the Moon's last aspect in her sign, or her entry into it if she makes none
+  void_until: string; // her entry into the next sign
+  last_aspect: MoonAspect | null;
+  next_aspect: MoonAspect | null; // next aspect she perfects before leaving her sign
+  next_sign: ZodiacSign;
+}
+
+export interface PlanetaryHour {
+  ruler: Planet;
+  number: number; // 1-12 by day, 13-24 by night
+  daytime: boolean;
+  start: string;
+  end: string;
+}
+
+export interface Lot {
+  name: string;
+  longitude: number;
+  sign: ZodiacSign;
+  house: number;
+  ruler: Planet;
+  formula: string; // as applied to this chart, e.g. "Ascendant + Sun - Moon" by night
+  custom: boolean; // defined in the user's preferences
+}
+
+export type NodeKind = 'mean' | 'true';
+
+export interface LunarNode {
+  name: 'North Node' | 'South Node';
+  kind: NodeKind;
+  longitude: number;
+  sign: ZodiacSign;
+  degree: number;
+  minute: number;
+  house: number;
+}
+
+export type ChartPoint = Planet | 'Ascendant' | 'Midheaven';
+
+// A planet or angle conjunct a catalogue star precessed to the chart date
+export interface StarConjunction {
+  star: string;
+  star_longitude: number;
+  magnitude: number;
+  nature: Planet[]; // Ptolemy's planetary natures
+  point: ChartPoint;
+  orb: number; // degrees in longitude
+}
+
+// Reflections of a planet across the solstitial axis (antiscion) and the equinoctial axis
+export interface Antiscion {
+  planet: Planet;
+  antiscion: number;
+  contra_antiscion: number;
+}
+
+export type AntiscionKind = 'antiscion' | 'contra_antiscion';
+
+// The antiscion of one planet falling on another; the relation is symmetric
+export interface AntiscialContact {
+  planet1: Planet;
+  planet2: Planet;
+  type: AntiscionKind;
+  orb: number;
+}
+
+export type StrictureKind =
+  | 'early_ascendant'
+  | 'late_ascendant'
+  | 'void_of_course_moon'
+  | 'via_combusta'
+  | 'saturn_in_first'
+  | 'saturn_in_seventh'
+  | 'hour_ruler_disagrees';
+
+// A consideration before judgement: a reason the chart may not be fit to judge
+export interface Stricture {
+  kind: StrictureKind;
+  message: string;
+}
+
+export interface ChartData {
+  schema_version: 2; // charts stored before versioning count as version 1
+  timestamp: string;
+  location: Location;
+  planets: PlanetaryPosition[];
+  houses: HousePosition[];
+  aspects: Aspect[];
+  ascendant: number;
+  midheaven: number;
+  house_system: HouseSystem;
+  dignities: ChartDignities | null; // null in charts from version 1
+  void_of_course: VoidOfCourse | null; // null in charts from version 1
+  planetary_hour: PlanetaryHour | null; // null where the Sun does not rise or set that day
+  lots: Lot[];
+  nodes: LunarNode[]; // mean and true, North then South
+  fixed_stars: StarConjunction[];
+  antiscia: Antiscion[];
+  antiscial_contacts: AntiscialContact[];
+  contact_orbs: ContactOrbs; // the orbs fixed_stars and antiscial_contacts were found with
+  orb_model: OrbModel; // the model aspects were found with
+  strictures: Stricture[];
+}
+
+// The versioned JSON document the 'json' interchange format reads and writes
+export interface ChartDocument {
+  $schema: string; // the $id of the schema it was written against
+  name: string;
+  chart_data: ChartData;
+}
@@ -0,0 +1,371 @@
+// Generated from the 3 migrations in supabase/migrations by
+// frontend/scripts/generate-database-types.mjs; add a migration and run
+// `npm run generate:database-types` in frontend/ rather than changing this file.
+
+import type { ChartData, Location, StoredInterpretation, UserPreferences } from './astrology';
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export interface Database {
+  public: {
+    Tables: {
+      users: {
+        Row: {
+          id: string;
+          email: string;
+          full_name: string | null;
+          avatar_url: string | null;
+          created_at: string | null;
+          updated_at: string | null;
+          birth_date: string | null;
+          birth_time: string | null;
+          birth_location: Location | null;
+          timezone: string | null;
+          zodiac_sign: string | null;
+          preferences: UserPreferences;
+        };
+        Insert: {
+          id?: string;
+          email: string;
+          full_name?: string | null;
+          avatar_url?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+          birth_date?: string | null;
+          birth_time?: string | null;
+          birth_location?: Location | null;
+          timezone?: string | null;
+          zodiac_sign?: string | null;
+          preferences?: UserPreferences;
+        };
+        Update: {
+          id?: string;
+          email?: string;
+          full_name?: string | null;
+          avatar_url?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+          birth_date?: string | null;
+          birth_time?: string | null;
+          birth_location?: Location | null;
+          timezone?: string | null;
+          zodiac_sign?: string | null;
+          preferences?: UserPreferences;
+        };
+        Relationships: [];
+      };
+      horary_queries: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          question: string;
+          chart_data: Json | null;
+          interpretation: StoredInterpretation | null;
+          question_time: string;
+          status: 'pending' | 'completed' | 'failed';
+          created_at: string | null;
+          updated_at: string | null;
+          location: Location;
+          ai_interpretation: string | null;
+          metadata: Record<string, unknown>;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          question: string;
+          chart_data?: ChartData | null;
+          interpretation?: StoredInterpretation | null;
+          question_time: string;
+          status?: 'pending' | 'completed' | 'failed';
+          created_at?: string | null;
+          updated_at?: string | null;
+          location: Location;
+          ai_interpretation?: string | null;
+          metadata?: Record<string, unknown>;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          question?: string;
+          chart_data?: ChartData | null;
+          interpretation?: StoredInterpretation | null;
+          question_time?: string;
+          status?: 'pending' | 'completed' | 'failed';
+          created_at?: string | null;
+          updated_at?: string | null;
+          location?: Location;
+          ai_interpretation?: string | null;
+          metadata?: Record<string, unknown>;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'horary_queries_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      planetary_positions: {
+        Row: {
+          id: string;
+          query_id: string | null;
+          planet_name: string;
+          longitude: number;
+          latitude: number;
+          zodiac_sign: string;
+          degree: number;
+          minute: number;
+          second: number;
+          retrograde: boolean | null;
+          house_number: number;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          query_id?: string | null;
+          planet_name: string;
+          longitude: number;
+          latitude: number;
+          zodiac_sign: string;
+          degree: number;
+          minute: number;
+          second: number;
+          retrograde?: boolean | null;
+          house_number: number;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          query_id?: string | null;
+          planet_name?: string;
+          longitude?: number;
+          latitude?: number;
+          zodiac_sign?: string;
+          degree?: number;
+          minute?: number;
+          second?: number;
+          retrograde?: boolean | null;
+          house_number?: number;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'planetary_positions_query_id_fkey';
+            columns: ['query_id'];
+            isOneToOne: false;
+            referencedRelation: 'horary_queries';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      aspects: {
+        Row: {
+          id: string;
+          query_id: string | null;
+          planet1: string;
+          planet2: string;
+          aspect_type: string;
+          orb: number;
+          exact: boolean | null;
+          applying: boolean | null;
+          separating: boolean | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          query_id?: string | null;
+          planet1: string;
+          planet2: string;
+          aspect_type: string;
+          orb: number;
+          exact?: boolean | null;
+          applying?: boolean | null;
+          separating?: boolean | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          query_id?: string | null;
+          planet1?: string;
+          planet2?: string;
+          aspect_type?: string;
+          orb?: number;
+          exact?: boolean | null;
+          applying?: boolean | null;
+          separating?: boolean | null;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'aspects_query_id_fkey';
+            columns: ['query_id'];
+            isOneToOne: false;
+            referencedRelation: 'horary_queries';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      voice_sessions: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          session_token_hash: string | null;
+          status: 'active' | 'completed' | 'error' | null;
+          started_at: string | null;
+          ended_at: string | null;
+          error_message: string | null;
+          metadata: Json | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          session_token_hash?: string | null;
+          status?: 'active' | 'completed' | 'error' | null;
+          started_at?: string | null;
+          ended_at?: string | null;
+          error_message?: string | null;
+          metadata?: Json | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          session_token_hash?: string | null;
+          status?: 'active' | 'completed' | 'error' | null;
+          started_at?: string | null;
+          ended_at?: string | null;
+          error_message?: string | null;
+          metadata?: Json | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      voice_conversations: {
+        Row: {
+          id: string;
+          session_id: string | null;
+          item_type: 'user_audio' | 'user_text' | 'assistant_audio' | 'assistant_text' | 'function_call' | 'function_result';
+          content: Json;
+          transcript: string | null;
+          audio_duration_ms: number | null;
+          tokens_used: number | null;
+          sequence_number: number;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          session_id?: string | null;
+          item_type: 'user_audio' | 'user_text' | 'assistant_audio' | 'assistant_text' | 'function_call' | 'function_result';
+          content: Json;
+          transcript?: string | null;
+          audio_duration_ms?: number | null;
+          tokens_used?: number | null;
+          sequence_number: number;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          session_id?: string | null;
+          item_type?: 'user_audio' | 'user_text' | 'assistant_audio' | 'assistant_text' | 'function_call' | 'function_result';
+          content?: Json;
+          transcript?: string | null;
+          audio_duration_ms?: number | null;
+          tokens_used?: number | null;
+          sequence_number?: number;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'voice_conversations_session_id_fkey';
+            columns: ['session_id'];
+            isOneToOne: false;
+            referencedRelation: 'voice_sessions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      voice_horary_questions: {
+        Row: {
+          id: string;
+          session_id: string | null;
+          conversation_id: string | null;
+          question_text: string;
+          question_datetime: string | null;
+          location: Json | null;
+          querent_info: Json | null;
+          chart_data: Json | null;
+          interpretation: string | null;
+          status: 'pending' | 'interpreted' | 'completed' | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          session_id?: string | null;
+          conversation_id?: string | null;
+          question_text: string;
+          question_datetime?: string | null;
+          location?: Json | null;
+          querent_info?: Json | null;
+          chart_data?: Json | null;
+          interpretation?: string | null;
+          status?: 'pending' | 'interpreted' | 'completed' | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          session_id?: string | null;
+          conversation_id?: string | null;
+          question_text?: string;
+          question_datetime?: string | null;
+          location?: Json | null;
+          querent_info?: Json | null;
+          chart_data?: Json | null;
+          interpretation?: string | null;
+          status?: 'pending' | 'interpreted' | 'completed' | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'voice_horary_questions_session_id_fkey';
+            columns: ['session_id'];
+            isOneToOne: false;
+            referencedRelation: 'voice_sessions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'voice_horary_questions_conversation_id_fkey';
+            columns: ['conversation_id'];
+            isOneToOne: false;
+            referencedRelation: 'voice_conversations';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: { [_ in never]: never };
+    Functions: { [_ in never]: never };
+    Enums: { [_ in never]: never };
+    CompositeTypes: { [_ in never]: never };
+  };
+}
+
+type PublicTables = Database['public']['Tables'];
+
+export type Tables<T extends keyof PublicTables> = PublicTables[T]['Row'];
+export type TablesInsert<T extends keyof PublicTables> = PublicTables[T]['Insert'];
+export type TablesUpdate<T extends keyof PublicTables> = PublicTables[T]['Update'];
@@ -1,3 +1,5 @@
+import type { Significators, Timing } from './astrology';
+
 // OpenAI Realtime API Types
 export interface RealtimeSession {
   type: 'realtime';
@@ -9,15 +11,17 @@ export interface RealtimeSession {
   input_audio_transcription?: {
     model: string;
   };
-  turn_detection?: TurnDetection;
+  turn_detection?: TurnDetection | null;
   tools?: RealtimeTool[];
   tool_choice?: string | 'auto' | 'none';
   temperature?: number;
   max_response_output_tokens?: number;
   audio?: {
     input?: {
-      format: AudioFormat;
-      // turn_detection?: TurnDetection;
+      format?: AudioFormat;
+      // Transcribes the user's speech alongside the conversation; off when absent
+      transcription?: InputAudioTranscription | null;
+      turn_detection?: TurnDetection | null;
     };
     output?: {
       format: AudioFormat;
@@ -34,12 +38,41 @@ export interface AudioFormat {
     rate: number,
 }
 
-export interface TurnDetection {
-  type: 'semantic_vad' | 'none';
+export interface InputAudioTranscription {
+  model: string;
+  language?: string; // ISO-639-1, e.g. 'en'
+  prompt?: string;
+}
+
+// server_vad ends the user's turn after a pause; semantic_vad when what they said sounds finished
+export interface ServerVadTurnDetection {
+  type: 'server_vad';
   threshold?: number;
   prefix_padding_ms?: number;
   silence_duration_ms?: number;
   create_response?: boolean;
+  interrupt_response?: boolean;
+}
+
+export interface SemanticVadTurnDetection {
+  type: 'semantic_vad';
+  eagerness?: SemanticVadEagerness;
+  create_response?: boolean;
+  interrupt_response?: boolean;
+}
+
+// null turns detection off: the client commits the audio buffer itself, as push-to-talk does
+export type TurnDetection = ServerVadTurnDetection | SemanticVadTurnDetection;
+
+// How soon semantic_vad decides the user has finished; auto is medium
+export type SemanticVadEagerness = 'low' | 'medium' | 'high' | 'auto';
+
+export type TurnDetectionMode = 'server_vad' | 'semantic_vad' | 'push_to_talk';
+
+// Stored in users.preferences.voice_turn_detection
+export interface TurnDetectionPreference {
+  mode: TurnDetectionMode;
+  eagerness?: SemanticVadEagerness; // for semantic_vad
 }
 
 export interface RealtimeTool {
@@ -81,6 +114,11 @@ export interface ResponseCreateEvent {
   };
 }
 
+export interface ResponseCancelEvent {
+  type: 'response.cancel';
+  response_id?: string; // the response in progress when absent
+}
+
 export interface InputAudioBufferAppendEvent {
   type: 'input_audio_buffer.append';
   audio: string; // Base64-encoded audio
@@ -98,6 +136,7 @@ export type RealtimeClientEvent =
   | SessionUpdateEvent
   | ConversationItemCreateEvent
   | ResponseCreateEvent
+  | ResponseCancelEvent
   | InputAudioBufferAppendEvent
   | InputAudioBufferCommitEvent
   | InputAudioBufferClearEvent;
@@ -154,6 +193,70 @@ export interface ResponseTextDeltaEvent {
   delta: string;
 }
 
+// The model has finished writing the arguments of a tool call; `name` is also on the
+// function_call item announced by conversation.item.created
+export interface ResponseFunctionCallArgumentsDoneEvent {
+  type: 'response.function_call_arguments.done';
+  event_id: string;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  call_id: string;
+  name?: string;
+  arguments: string; // JSON
+}
+
+// Transcription of the user's speech, which arrives after the item it belongs to is created
+export interface InputAudioTranscriptionDeltaEvent {
+  type: 'conversation.item.input_audio_transcription.delta';
+  event_id: string;
+  item_id: string;
+  content_index: number;
+  delta: string;
+}
+
+export interface InputAudioTranscriptionCompletedEvent {
+  type: 'conversation.item.input_audio_transcription.completed';
+  event_id: string;
+  item_id: string;
+  content_index: number;
+  transcript: string;
+}
+
+export interface InputAudioTranscriptionFailedEvent {
+  type: 'conversation.item.input_audio_transcription.failed';
+  event_id: string;
+  item_id: string;
+  content_index: number;
+  error: {
+    type: string;
+    code?: string;
+    message: string;
+    param?: string;
+  };
+}
+
+// Transcript of the assistant's spoken answer, streamed with its audio
+export interface ResponseOutputAudioTranscriptDeltaEvent {
+  type: 'response.output_audio_transcript.delta';
+  event_id: string;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  delta: string;
+}
+
+export interface ResponseOutputAudioTranscriptDoneEvent {
+  type: 'response.output_audio_transcript.done';
+  event_id: string;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  transcript: string;
+}
+
 export interface InputAudioBufferSpeechStartedEvent {
   type: 'input_audio_buffer.speech_started';
   event_id: string;
@@ -187,6 +290,12 @@ export type RealtimeServerEvent =
   | ResponseDoneEvent
   | ResponseAudioDeltaEvent
   | ResponseTextDeltaEvent
+  | ResponseFunctionCallArgumentsDoneEvent
+  | InputAudioTranscriptionDeltaEvent
+  | InputAudioTranscriptionCompletedEvent
+  | InputAudioTranscriptionFailedEvent
+  | ResponseOutputAudioTranscriptDeltaEvent
+  | ResponseOutputAudioTranscriptDoneEvent
   | InputAudioBufferSpeechStartedEvent
   | InputAudioBufferSpeechStoppedEvent
   | ErrorEvent;
@@ -276,15 +385,23 @@ export interface HoraryChart {
   question_id?: string;
   chart_data: Record<string, unknown>; // Will contain astrological chart data
   interpretation?: string;
-  significators?: {
-    querent?: string;
-    quesited?: string;
-  };
+  significators?: Significators; // from the horary-chart Edge Function
   aspects?: Record<string, unknown>[];
-  timing?: string;
+  timing?: Timing | null; // from the horary-chart Edge Function
   created_at?: string;
 }
 
+// One turn of the spoken conversation, keyed by the conversation item it transcribes
+export interface TranscriptEntry {
+  itemId: string;
+  role: 'user' | 'assistant';
+  text: string;
+  // in_progress while deltas are still arriving
+  status: 'in_progress' | 'completed' | 'failed';
+}
+
+export type ReconnectStatus = 'reconnecting' | 'resumed' | 'failed';
+
 // Voice Interface State
 export interface VoiceInterfaceState {
   isListening: boolean;
@@ -293,6 +410,10 @@ export interface VoiceInterfaceState {
   isSpeaking: boolean;
   hasPermission: boolean;
   error?: string;
+  reconnectStatus?: ReconnectStatus;
+  reconnectAttempt?: number; // while reconnecting
   currentResponse?: string;
   conversationHistory: ConversationItem[];
+  // In conversation order
+  transcript: TranscriptEntry[];
 }
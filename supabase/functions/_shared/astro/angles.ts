@@ -0,0 +1,40 @@
+// Angle helpers shared by the ephemeris and chart modules
+
+export const DEG_TO_RAD = Math.PI / 180
+export const RAD_TO_DEG = 180 / Math.PI
+export const ARCSEC_TO_DEG = 1 / 3600
+
+// Reduce an angle to [0, 360)
+export function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360
+  return result < 0 ? result + 360 : result
+}
+
+// Signed shortest distance from `from` to `to`, in (-180, 180]
+export function angleDifference(from: number, to: number): number {
+  const diff = normalizeDegrees(to - from)
+  return diff > 180 ? diff - 360 : diff
+}
+
+export function sinDeg(degrees: number): number {
+  return Math.sin(degrees * DEG_TO_RAD)
+}
+
+export function cosDeg(degrees: number): number {
+  return Math.cos(degrees * DEG_TO_RAD)
+}
+
+export function tanDeg(degrees: number): number {
+  return Math.tan(degrees * DEG_TO_RAD)
+}
+
+export function atan2Deg(y: number, x: number): number {
+  return normalizeDegrees(Math.atan2(y, x) * RAD_TO_DEG)
+}
+
+// Format an arc as degrees and minutes, e.g. 1°05'
+export function formatArc(degrees: number): string {
+  const totalMinutes = Math.round(Math.abs(degrees) * 60)
+  const minutes = totalMinutes % 60
+  return `${degrees < 0 ? '-' : ''}${Math.floor(totalMinutes / 60)}°${String(minutes).padStart(2, '0')}'`
+}
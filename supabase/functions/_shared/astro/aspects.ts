@@ -0,0 +1,95 @@
+// Aspect finder: which bodies are in aspect, how close, and whether applying
+
+import {
+  ASPECT_ANGLES,
+  DEFAULT_ASPECT_ORBS,
+  DEFAULT_ORB_MODEL,
+  MAJOR_ASPECTS,
+  PLANET_ORBS,
+  WITHIN_DEGREE_ORB,
+} from '../constants.ts'
+import type { Aspect, AspectType, OrbModel, Planet } from '../types.ts'
+import { angleDifference } from './angles.ts'
+
+export interface AspectBody {
+  name: Planet;
+  longitude: number;
+  speed: number; // degrees per day
+}
+
+// Time step used to tell whether an aspect is tightening, in days
+const MOTION_STEP_DAYS = 0.01
+
+// Angular separation between two longitudes, in [0, 180]
+export function separation(a: number, b: number): number {
+  return Math.abs(angleDifference(a, b))
+}
+
+// Closest aspect type within orb for a given separation, if any
+export function matchAspect(
+  angle: number,
+  orbs: Record<AspectType, number> = DEFAULT_ASPECT_ORBS
+): { type: AspectType; orb: number } | null {
+  let best: { type: AspectType; orb: number } | null = null
+  for (const type of Object.keys(ASPECT_ANGLES) as AspectType[]) {
+    const orb = Math.abs(angle - ASPECT_ANGLES[type])
+    if (orb <= orbs[type] && (!best || orb < best.orb)) {
+      best = { type, orb }
+    }
+  }
+  return best
+}
+
+// Orb allowed for each aspect type between two planets. Moieties apply to the Ptolemaic
+// aspects only; the minor aspects keep their fixed orbs, as Lilly gives them none.
+export function aspectOrbs(model: OrbModel, a: Planet, b: Planet): Record<AspectType, number> {
+  if (model === 'per_aspect') return DEFAULT_ASPECT_ORBS
+
+  const types = Object.keys(ASPECT_ANGLES) as AspectType[]
+  const moieties = (PLANET_ORBS[a] + PLANET_ORBS[b]) / 2
+  return Object.fromEntries(types.map(type => [
+    type,
+    model === 'within_degree'
+      ? WITHIN_DEGREE_ORB
+      : MAJOR_ASPECTS.includes(type) ? moieties : DEFAULT_ASPECT_ORBS[type],
+  ])) as Record<AspectType, number>
+}
+
+// `exact_degree` is the measured separation between the two bodies; `orb` is its
+// distance from the exact aspect angle. An aspect is applying while the orb shrinks.
+// Reception needs the chart's dignities, so it is filled in later (horary/reception.ts).
+export function findAspects(
+  bodies: AspectBody[],
+  orbModel: OrbModel = DEFAULT_ORB_MODEL
+): Aspect[] {
+  const aspects: Aspect[] = []
+
+  for (let i = 0; i < bodies.length; i++) {
+    for (let j = i + 1; j < bodies.length; j++) {
+      const first = bodies[i] as AspectBody
+      const second = bodies[j] as AspectBody
+      const angle = separation(first.longitude, second.longitude)
+      const match = matchAspect(angle, aspectOrbs(orbModel, first.name, second.name))
+      if (!match) continue
+
+      const nextAngle = separation(
+        first.longitude + first.speed * MOTION_STEP_DAYS,
+        second.longitude + second.speed * MOTION_STEP_DAYS
+      )
+      const nextOrb = Math.abs(nextAngle - ASPECT_ANGLES[match.type])
+
+      aspects.push({
+        planet1: first.name,
+        planet2: second.name,
+        type: match.type,
+        orb: match.orb,
+        exact_degree: angle,
+        applying: nextOrb < match.orb,
+        separating: nextOrb > match.orb,
+        reception: null,
+      })
+    }
+  }
+
+  return aspects.sort((a, b) => a.orb - b.orb)
+}
@@ -0,0 +1,166 @@
+// Chart assembly: planetary positions placed in houses, plus aspects
+
+import {
+  DEFAULT_CONTACT_ORBS,
+  DEFAULT_HOUSE_SYSTEM,
+  DEFAULT_ORB_MODEL,
+  DEFAULT_SOLAR_ORBS,
+  DEFAULT_TERM_SYSTEM,
+  DEFAULT_VOID_OF_COURSE_RULE,
+  PLANETS,
+} from '../constants.ts'
+import { accidentalDignity } from '../horary/accidental.ts'
+import { calculateAntiscia, findAntiscialContacts, findStarConjunctions } from '../horary/contacts.ts'
+import { calculateDignities } from '../horary/dignities.ts'
+import { calculateLots } from '../horary/lots.ts'
+import { planetaryHourAt } from '../horary/planetaryHours.ts'
+import { withReceptions } from '../horary/reception.ts'
+import { checkStrictures } from '../horary/strictures.ts'
+import { voidOfCourse } from '../horary/voidOfCourse.ts'
+import { CHART_DATA_SCHEMA_VERSION } from '../schema/chartData.generated.ts'
+import type {
+  ChartData,
+  ContactOrbs,
+  HouseSystem,
+  Location,
+  LotDefinition,
+  OrbModel,
+  Planet,
+  PlanetaryPosition,
+  PlanetaryPositionsResponse,
+  SolarOrbs,
+  TermSystem,
+  VoidOfCourseRule,
+} from '../types.ts'
+import { findAspects } from './aspects.ts'
+import { type BodyPosition, bodyPosition } from './ephemeris.ts'
+import { fixedStarPositionsTT } from './fixedStars.ts'
+import { type HouseCusps, calculateHouses, houseOf, toHousePositions } from './houses.ts'
+import { lunarNodesTT, toLunarNodes } from './nodes.ts'
+import { createLongitudeCache } from './search.ts'
+import { julianDayTT, julianDayUT } from './time.ts'
+import { zodiacPosition } from './zodiac.ts'
+
+// Chart data plus the raw ephemeris values later analysis needs (speeds, RAMC...)
+export interface ChartCalculation {
+  chart: ChartData;
+  bodies: Record<Planet, BodyPosition>;
+  houses: HouseCusps;
+}
+
+export interface ChartOptions {
+  houseSystem?: HouseSystem;
+  termSystem?: TermSystem;
+  solarOrbs?: SolarOrbs;
+  voidOfCourseRule?: VoidOfCourseRule;
+  customLots?: LotDefinition[];
+  contactOrbs?: ContactOrbs;
+  orbModel?: OrbModel;
+}
+
+export function toPlanetaryPosition(
+  name: Planet,
+  position: BodyPosition,
+  cusps: number[],
+  sunLongitude: number,
+  solarOrbs: SolarOrbs = DEFAULT_SOLAR_ORBS
+): PlanetaryPosition {
+  const { sign, degree, minute } = zodiacPosition(position.longitude)
+  const house = houseOf(position.longitude, cusps)
+  return {
+    name,
+    longitude: position.longitude,
+    latitude: position.latitude,
+    sign,
+    degree,
+    minute,
+    house,
+    retrograde: position.speed < 0,
+    ...accidentalDignity(name, position, house, sunLongitude, solarOrbs),
+  }
+}
+
+export function calculateChart(
+  date: Date,
+  location: Location,
+  options: ChartOptions = {}
+): ChartCalculation {
+  const jd = julianDayUT(date)
+  const jdTT = julianDayTT(jd)
+  const houses = calculateHouses(jd, location, options.houseSystem ?? DEFAULT_HOUSE_SYSTEM)
+  const { angles, cusps } = houses
+
+  const bodies = Object.fromEntries(
+    PLANETS.map(name => [name, bodyPosition(name, date)])
+  ) as Record<Planet, BodyPosition>
+
+  const planets = PLANETS.map(name =>
+    toPlanetaryPosition(name, bodies[name], cusps, bodies.Sun.longitude, options.solarOrbs)
+  )
+
+  const dignities = calculateDignities(
+    planets,
+    angles.ascendant,
+    options.termSystem ?? DEFAULT_TERM_SYSTEM
+  )
+  const orbModel = options.orbModel ?? DEFAULT_ORB_MODEL
+  const aspects = findAspects(PLANETS.map(name => ({ name, ...bodies[name] })), orbModel)
+  const housePositions = toHousePositions(cusps)
+  const contactOrbs = options.contactOrbs ?? DEFAULT_CONTACT_ORBS
+  const starPoints = [
+    ...planets.map(p => ({ name: p.name, longitude: p.longitude })),
+    { name: 'Ascendant' as const, longitude: angles.ascendant },
+    { name: 'Midheaven' as const, longitude: angles.midheaven },
+  ]
+
+  const base: Omit<ChartData, 'strictures'> = {
+    schema_version: CHART_DATA_SCHEMA_VERSION,
+    timestamp: date.toISOString(),
+    location,
+    planets,
+    houses: housePositions,
+    aspects: withReceptions(aspects, { planets, dignities }),
+    ascendant: angles.ascendant,
+    midheaven: angles.midheaven,
+    house_system: houses.system,
+    dignities,
+    void_of_course: voidOfCourse(
+      createLongitudeCache(),
+      jd,
+      options.voidOfCourseRule ?? DEFAULT_VOID_OF_COURSE_RULE
+    ),
+    planetary_hour: planetaryHourAt(date, location),
+    lots: calculateLots(
+      { ascendant: angles.ascendant, midheaven: angles.midheaven, planets, houses: housePositions },
+      dignities.day_chart,
+      options.customLots
+    ),
+    nodes: toLunarNodes(lunarNodesTT(jdTT), cusps),
+    fixed_stars: findStarConjunctions(starPoints, fixedStarPositionsTT(jdTT), contactOrbs.fixed_star),
+    antiscia: calculateAntiscia(planets),
+    antiscial_contacts: findAntiscialContacts(planets, contactOrbs.antiscia),
+    contact_orbs: contactOrbs,
+    orb_model: orbModel,
+  }
+  const chart: ChartData = { ...base, strictures: checkStrictures(base) }
+
+  return { chart, bodies, houses }
+}
+
+export function calculatePlanetaryPositions(
+  date: Date,
+  location: Location,
+  options: ChartOptions = {}
+): PlanetaryPositionsResponse {
+  const { chart } = calculateChart(date, location, options)
+
+  return {
+    timestamp: chart.timestamp,
+    location: { lat: location.lat, lon: location.lon },
+    planets: chart.planets,
+    houses: chart.houses,
+    ascendant: chart.ascendant,
+    midheaven: chart.midheaven,
+    house_system: chart.house_system,
+  }
+}
@@ -0,0 +1,100 @@
+// Coordinate conversions and precession
+
+import {
+  ARCSEC_TO_DEG,
+  DEG_TO_RAD,
+  RAD_TO_DEG,
+  atan2Deg,
+  cosDeg,
+  normalizeDegrees,
+  sinDeg,
+} from './angles.ts'
+import { julianCenturies } from './time.ts'
+
+export interface EclipticCoordinates {
+  longitude: number; // degrees
+  latitude: number; // degrees
+}
+
+export interface EquatorialCoordinates {
+  rightAscension: number; // degrees
+  declination: number; // degrees
+}
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export function sphericalToRectangular(longitude: number, latitude: number, radius: number): Vector3 {
+  const cosLat = cosDeg(latitude)
+  return {
+    x: radius * cosLat * cosDeg(longitude),
+    y: radius * cosLat * sinDeg(longitude),
+    z: radius * sinDeg(latitude),
+  }
+}
+
+export function rectangularToSpherical(v: Vector3): EclipticCoordinates & { radius: number } {
+  const radius = Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z)
+  return {
+    longitude: atan2Deg(v.y, v.x),
+    latitude: Math.atan2(v.z, Math.sqrt(v.x * v.x + v.y * v.y)) * RAD_TO_DEG,
+    radius,
+  }
+}
+
+export function eclipticToEquatorial(
+  longitude: number,
+  latitude: number,
+  obliquity: number
+): EquatorialCoordinates {
+  const sinLon = sinDeg(longitude)
+  const rightAscension = atan2Deg(
+    sinLon * cosDeg(obliquity) - Math.tan(latitude * DEG_TO_RAD) * sinDeg(obliquity),
+    cosDeg(longitude)
+  )
+  const declination = Math.asin(
+    sinDeg(latitude) * cosDeg(obliquity) + cosDeg(latitude) * sinDeg(obliquity) * sinLon
+  ) * RAD_TO_DEG
+  return { rightAscension, declination }
+}
+
+export function equatorialToEcliptic(
+  rightAscension: number,
+  declination: number,
+  obliquity: number
+): EclipticCoordinates {
+  const sinRa = sinDeg(rightAscension)
+  const longitude = atan2Deg(
+    sinRa * cosDeg(obliquity) + Math.tan(declination * DEG_TO_RAD) * sinDeg(obliquity),
+    cosDeg(rightAscension)
+  )
+  const latitude = Math.asin(
+    sinDeg(declination) * cosDeg(obliquity) - cosDeg(declination) * sinDeg(obliquity) * sinRa
+  ) * RAD_TO_DEG
+  return { longitude, latitude }
+}
+
+// Precess ecliptic coordinates from the J2000.0 ecliptic and equinox to those of date
+// (Meeus, Astronomical Algorithms eq. 21.5 with T = 0)
+export function precessEclipticFromJ2000(
+  longitude: number,
+  latitude: number,
+  jdTT: number
+): EclipticCoordinates {
+  const t = julianCenturies(jdTT)
+  const eta = (47.0029 * t - 0.03302 * t * t + 0.00006 * t ** 3) * ARCSEC_TO_DEG
+  const pi = 174.876384 - (869.8089 * t - 0.03536 * t * t) * ARCSEC_TO_DEG
+  const p = (5029.0966 * t + 1.11113 * t * t - 0.000006 * t ** 3) * ARCSEC_TO_DEG
+
+  const a = cosDeg(eta) * cosDeg(latitude) * sinDeg(pi - longitude) - sinDeg(eta) * sinDeg(latitude)
+  const b = cosDeg(latitude) * cosDeg(pi - longitude)
+  const c = cosDeg(eta) * sinDeg(latitude) + sinDeg(eta) * cosDeg(latitude) * sinDeg(pi - longitude)
+
+  return {
+    longitude: normalizeDegrees(p + pi - Math.atan2(a, b) * RAD_TO_DEG),
+    latitude: Math.asin(c) * RAD_TO_DEG,
+  }
+}
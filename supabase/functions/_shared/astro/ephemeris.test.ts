@@ -0,0 +1,158 @@
+// Golden values for the ephemeris: the worked examples of Meeus, Astronomical Algorithms (2nd ed.),
+// and a table of apparent positions at several epochs, to an arc-minute
+
+import assert from 'node:assert/strict'
+import type { Planet } from '../types.ts'
+import { angleDifference } from './angles.ts'
+import { precessEclipticFromJ2000 } from './coordinates.ts'
+import { bodyPosition, bodyPositionTT } from './ephemeris.ts'
+import { moonPosition } from './moon.ts'
+import { plutoHeliocentricPosition } from './pluto.ts'
+import { dateFromJulianDayUT, deltaT, julianDayTT, julianDayUT } from './time.ts'
+import { heliocentricPosition } from './vsop87.ts'
+import { VENUS } from './vsop87Data.ts'
+
+const ARCMINUTE = 1 / 60
+
+function assertAngle(actual: number, expected: number, label: string, tolerance = ARCMINUTE) {
+  const error = Math.abs(angleDifference(expected, actual))
+  assert.ok(error <= tolerance, `${label}: ${actual} is ${(error * 60).toFixed(2)}' from ${expected}`)
+}
+
+function assertClose(actual: number, expected: number, tolerance: number, label: string) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${label}: ${actual}, expected ${expected}`)
+}
+
+Deno.test('julianDayUT matches Meeus table 7.a', () => {
+  const cases: [string, number][] = [
+    ['2000-01-01T12:00:00Z', 2451545.0],
+    ['1999-01-01T00:00:00Z', 2451179.5],
+    ['1987-01-27T00:00:00Z', 2446822.5],
+    ['1987-06-19T12:00:00Z', 2446966.0],
+    ['1988-01-27T00:00:00Z', 2447187.5],
+    ['1988-06-19T12:00:00Z', 2447332.0],
+    ['1900-01-01T00:00:00Z', 2415020.5],
+    ['1600-01-01T00:00:00Z', 2305447.5],
+    ['1600-12-31T00:00:00Z', 2305812.5],
+    // Example 7.a: 1957 October 4.81
+    ['1957-10-04T19:26:24Z', 2436116.31],
+  ]
+  for (const [iso, jd] of cases) {
+    assertClose(julianDayUT(new Date(iso)), jd, 1e-6, iso)
+    assert.equal(dateFromJulianDayUT(jd).toISOString(), new Date(iso).toISOString())
+  }
+})
+
+Deno.test('deltaT follows the observed values to within a second', () => {
+  // Espenak & Meeus, NASA Five Millennium Canon, table of observed Delta T
+  const cases: [number, number][] = [
+    [1800, 13.7],
+    [1850, 7.1],
+    [1900, -2.8],
+    [1950, 29.1],
+    [1960, 33.2],
+    [1970, 40.2],
+    [1980, 50.5],
+    [1990, 56.9],
+    [2000, 63.8],
+    [2005, 64.7],
+  ]
+  for (const [year, seconds] of cases) {
+    assertClose(deltaT(year), seconds, 1, `Delta T ${year}`)
+  }
+})
+
+Deno.test('julianDayTT adds Delta T to UT', () => {
+  const jdUT = 2451545.0
+  assertClose((julianDayTT(jdUT) - jdUT) * 86400, deltaT(2000), 0.01, 'TT - UT')
+})
+
+Deno.test('Sun matches Meeus example 25.b', () => {
+  // 1992 October 13.0 TD: apparent λ = 199°54'21.818", R = 0.99760775 AU
+  const sun = bodyPositionTT('Sun', 2448908.5)
+  assertAngle(sun.longitude, 199 + 54 / 60 + 21.818 / 3600, 'Sun longitude')
+  assertClose(sun.distance, 0.99760775, 1e-5, 'Sun distance')
+})
+
+Deno.test('Moon matches Meeus example 47.a', () => {
+  // 1992 April 12.0 TD: apparent λ = 133.167265°, β = -3.229126°, Δ = 368409.7 km
+  const moon = bodyPositionTT('Moon', 2448724.5)
+  assertAngle(moon.longitude, 133.167265, 'Moon longitude')
+  assertAngle(moon.latitude, -3.229126, 'Moon latitude')
+  assertClose(moonPosition(2448724.5).distance, 368409.7, 1, 'Moon distance')
+})
+
+Deno.test('Venus matches Meeus examples 32.a and 33.a', () => {
+  // 1992 December 20.0 TD, heliocentric: L = 26.11428°, B = -2.62070°, R = 0.724603 AU
+  const heliocentric = heliocentricPosition(VENUS, 2448976.5)
+  assertAngle(heliocentric.longitude, 26.11428, 'Venus heliocentric longitude')
+  assertAngle(heliocentric.latitude, -2.6207, 'Venus heliocentric latitude')
+  assertClose(heliocentric.radius, 0.724603, 1e-5, 'Venus radius')
+
+  // Apparent: λ = 313.08102°, β = -2.08474°
+  const venus = bodyPositionTT('Venus', 2448976.5)
+  assertAngle(venus.longitude, 313.08102, 'Venus longitude')
+  assertAngle(venus.latitude, -2.08474, 'Venus latitude')
+})
+
+Deno.test('Pluto matches Meeus example 37.a', () => {
+  // 1992 October 13.0 TD, heliocentric J2000: l = 232.74009°, b = 14.58782°, r = 29.711383 AU
+  const jdTT = 2448908.5
+  const expected = precessEclipticFromJ2000(232.74009, 14.58782, jdTT)
+  const pluto = plutoHeliocentricPosition(jdTT)
+  assertAngle(pluto.longitude, expected.longitude, 'Pluto heliocentric longitude')
+  assertAngle(pluto.latitude, expected.latitude, 'Pluto heliocentric latitude')
+  assertClose(pluto.radius, 29.711383, 1e-3, 'Pluto radius')
+})
+
+Deno.test('apparent positions match a reference ephemeris at several epochs', () => {
+  // Apparent geocentric ecliptic longitude and latitude of date, from Astronomy Engine 2.1.19
+  // (an independent implementation checked against JPL DE405)
+  const cases: [string, Planet, number, number][] = [
+    ['1950-01-01T00:00:00Z', 'Sun', 280.0047, -0.0001],
+    ['1950-01-01T00:00:00Z', 'Moon', 61.4154, 3.7818],
+    ['1950-01-01T00:00:00Z', 'Mercury', 299.447, -1.2246],
+    ['1950-01-01T00:00:00Z', 'Venus', 316.9793, 0.6317],
+    ['1950-01-01T00:00:00Z', 'Mars', 182.2123, 2.5123],
+    ['1950-01-01T00:00:00Z', 'Jupiter', 306.5035, -0.5849],
+    ['1950-01-01T00:00:00Z', 'Saturn', 169.437, 2.0007],
+    ['1950-01-01T00:00:00Z', 'Uranus', 92.6829, 0.2737],
+    ['1950-01-01T00:00:00Z', 'Neptune', 197.2642, 1.5927],
+    ['1950-01-01T00:00:00Z', 'Pluto', 137.7988, 8.2014],
+    ['2000-01-01T12:00:00Z', 'Sun', 280.3687, 0],
+    ['2000-01-01T12:00:00Z', 'Moon', 223.3239, 5.1708],
+    ['2000-01-01T12:00:00Z', 'Mercury', 271.8889, -0.9951],
+    ['2000-01-01T12:00:00Z', 'Venus', 241.5652, 2.066],
+    ['2000-01-01T12:00:00Z', 'Mars', 327.9639, -1.0681],
+    ['2000-01-01T12:00:00Z', 'Jupiter', 25.2542, -1.2605],
+    ['2000-01-01T12:00:00Z', 'Saturn', 40.3961, -2.4448],
+    ['2000-01-01T12:00:00Z', 'Uranus', 314.8061, -0.6597],
+    ['2000-01-01T12:00:00Z', 'Neptune', 303.1954, 0.2371],
+    ['2000-01-01T12:00:00Z', 'Pluto', 251.4547, 10.8552],
+    ['2024-03-20T03:06:00Z', 'Sun', 359.9997, 0.0001],
+    ['2024-03-20T03:06:00Z', 'Moon', 123.8156, 5.0063],
+    ['2024-03-20T03:06:00Z', 'Mercury', 17.4419, 1.4774],
+    ['2024-03-20T03:06:00Z', 'Venus', 340.1714, -1.2899],
+    ['2024-03-20T03:06:00Z', 'Mars', 327.7735, -1.1734],
+    ['2024-03-20T03:06:00Z', 'Jupiter', 44.8846, -0.8534],
+    ['2024-03-20T03:06:00Z', 'Saturn', 342.224, -1.6469],
+    ['2024-03-20T03:06:00Z', 'Uranus', 50.2537, -0.2755],
+    ['2024-03-20T03:06:00Z', 'Neptune', 357.4635, -1.2144],
+    ['2024-03-20T03:06:00Z', 'Pluto', 301.6603, -2.9108],
+    ['2050-07-01T00:00:00Z', 'Sun', 99.3988, 0.0001],
+    ['2050-07-01T00:00:00Z', 'Moon', 230.816, 0.0852],
+    ['2050-07-01T00:00:00Z', 'Mercury', 111.9697, 1.8937],
+    ['2050-07-01T00:00:00Z', 'Venus', 141.5286, 1.7438],
+    ['2050-07-01T00:00:00Z', 'Mars', 325.4253, -4.6755],
+    ['2050-07-01T00:00:00Z', 'Jupiter', 127.3188, 0.5829],
+    ['2050-07-01T00:00:00Z', 'Saturn', 307.5006, -0.5084],
+    ['2050-07-01T00:00:00Z', 'Uranus', 167.2265, 0.7535],
+    ['2050-07-01T00:00:00Z', 'Neptune', 57.3975, -1.673],
+    ['2050-07-01T00:00:00Z', 'Pluto', 340.6053, -13.131],
+  ]
+  for (const [iso, planet, longitude, latitude] of cases) {
+    const position = bodyPosition(planet, new Date(iso))
+    assertAngle(position.longitude, longitude, `${planet} longitude ${iso}`)
+    assertAngle(position.latitude, latitude, `${planet} latitude ${iso}`)
+  }
+})
@@ -0,0 +1,133 @@
+// Geocentric apparent positions of the ten chart bodies
+// Planets: VSOP87D, Moon: ELP-2000/82 (Meeus), Pluto: Meeus ch. 37
+
+import type { Planet } from '../types.ts'
+import { ARCSEC_TO_DEG, angleDifference, cosDeg, normalizeDegrees } from './angles.ts'
+import { rectangularToSpherical, sphericalToRectangular } from './coordinates.ts'
+import { moonPosition } from './moon.ts'
+import { nutation } from './nutation.ts'
+import { plutoHeliocentricPosition } from './pluto.ts'
+import { julianDayTT, julianDayUT } from './time.ts'
+import { type HeliocentricPosition, heliocentricPosition } from './vsop87.ts'
+import {
+  EARTH,
+  JUPITER,
+  MARS,
+  MERCURY,
+  NEPTUNE,
+  SATURN,
+  URANUS,
+  VENUS,
+  type VsopBody,
+} from './vsop87Data.ts'
+
+export interface BodyPosition {
+  longitude: number; // apparent geocentric ecliptic longitude, degrees (true equinox of date)
+  latitude: number; // degrees
+  distance: number; // AU
+  speed: number; // degrees per day in longitude, negative when retrograde
+}
+
+const AU_KM = 149597870.7
+// Light travel time for 1 AU, in days
+const LIGHT_TIME_DAYS_PER_AU = 0.0057755183
+// Constant of aberration, in arcseconds
+const ABERRATION = 20.49552
+// Step used for the numerical derivative of longitude, in days
+const SPEED_STEP_DAYS = 1 / 24
+
+const VSOP_PLANETS: Partial<Record<Planet, VsopBody>> = {
+  Mercury: MERCURY,
+  Venus: VENUS,
+  Mars: MARS,
+  Jupiter: JUPITER,
+  Saturn: SATURN,
+  Uranus: URANUS,
+  Neptune: NEPTUNE,
+}
+
+function heliocentric(planet: Planet, jdTT: number): HeliocentricPosition {
+  if (planet === 'Pluto') return plutoHeliocentricPosition(jdTT)
+
+  const body = VSOP_PLANETS[planet]
+  if (!body) throw new Error(`No heliocentric theory for ${planet}`)
+  return heliocentricPosition(body, jdTT)
+}
+
+// Longitude, latitude and distance before nutation, for a Julian Ephemeris Day
+function geocentricOfDate(planet: Planet, jdTT: number): Omit<BodyPosition, 'speed'> {
+  if (planet === 'Moon') {
+    const moon = moonPosition(jdTT)
+    return { longitude: moon.longitude, latitude: moon.latitude, distance: moon.distance / AU_KM }
+  }
+
+  const earth = heliocentricPosition(EARTH, jdTT)
+  const sunLongitude = normalizeDegrees(earth.longitude + 180)
+
+  if (planet === 'Sun') {
+    // Annual aberration of the Sun: -20.4898" / R
+    return {
+      longitude: normalizeDegrees(sunLongitude - (20.4898 / earth.radius) * ARCSEC_TO_DEG),
+      latitude: -earth.latitude,
+      distance: earth.radius,
+    }
+  }
+
+  const earthVector = sphericalToRectangular(earth.longitude, earth.latitude, earth.radius)
+
+  const geocentricAt = (jd: number) => {
+    const helio = heliocentric(planet, jd)
+    const planetVector = sphericalToRectangular(helio.longitude, helio.latitude, helio.radius)
+    return rectangularToSpherical({
+      x: planetVector.x - earthVector.x,
+      y: planetVector.y - earthVector.y,
+      z: planetVector.z - earthVector.z,
+    })
+  }
+
+  // Iterate for light travel time so we see the planet where it was when the light left it
+  let geocentric = geocentricAt(jdTT)
+  for (let i = 0; i < 2; i++) {
+    geocentric = geocentricAt(jdTT - LIGHT_TIME_DAYS_PER_AU * geocentric.radius)
+  }
+
+  // Annual aberration (Meeus eq. 23.2, ignoring the small eccentricity term)
+  const aberration = (-ABERRATION * cosDeg(sunLongitude - geocentric.longitude)) /
+    cosDeg(geocentric.latitude)
+
+  return {
+    longitude: normalizeDegrees(geocentric.longitude + aberration * ARCSEC_TO_DEG),
+    latitude: geocentric.latitude,
+    distance: geocentric.radius,
+  }
+}
+
+function apparentPosition(planet: Planet, jdTT: number): Omit<BodyPosition, 'speed'> {
+  const position = geocentricOfDate(planet, jdTT)
+  return {
+    ...position,
+    longitude: normalizeDegrees(position.longitude + nutation(jdTT).longitude),
+  }
+}
+
+// Apparent geocentric position of a body for a Julian Ephemeris Day
+export function bodyPositionTT(planet: Planet, jdTT: number): BodyPosition {
+  const position = apparentPosition(planet, jdTT)
+  const before = apparentPosition(planet, jdTT - SPEED_STEP_DAYS)
+  const after = apparentPosition(planet, jdTT + SPEED_STEP_DAYS)
+
+  return {
+    ...position,
+    speed: angleDifference(before.longitude, after.longitude) / (2 * SPEED_STEP_DAYS),
+  }
+}
+
+// Apparent longitude alone, for searches that sample many instants
+export function apparentLongitudeTT(planet: Planet, jdTT: number): number {
+  return apparentPosition(planet, jdTT).longitude
+}
+
+// Apparent geocentric position of a body at a given instant (UTC)
+export function bodyPosition(planet: Planet, date: Date): BodyPosition {
+  return bodyPositionTT(planet, julianDayTT(julianDayUT(date)))
+}
@@ -0,0 +1,54 @@
+// Fixed stars: a small catalogue of the stars used in horary, precessed to the chart date
+
+import type { FixedStar, Planet } from '../types.ts'
+import { precessEclipticFromJ2000 } from './coordinates.ts'
+import { normalizeDegrees } from './angles.ts'
+import { nutation } from './nutation.ts'
+
+interface CatalogueStar {
+  name: string;
+  longitude: number; // J2000 ecliptic longitude, degrees
+  latitude: number; // J2000 ecliptic latitude, degrees
+  magnitude: number;
+  nature: Planet[]; // Ptolemy's planetary natures
+}
+
+export const FIXED_STAR_CATALOGUE: readonly CatalogueStar[] = [
+  { name: 'Algol', longitude: 56.17, latitude: 22.43, magnitude: 2.1, nature: ['Saturn', 'Jupiter'] },
+  { name: 'Alcyone', longitude: 60.0, latitude: 4.05, magnitude: 2.9, nature: ['Moon', 'Mars'] },
+  { name: 'Aldebaran', longitude: 69.79, latitude: -5.47, magnitude: 0.85, nature: ['Mars'] },
+  { name: 'Rigel', longitude: 76.83, latitude: -31.12, magnitude: 0.12, nature: ['Jupiter', 'Saturn'] },
+  { name: 'Betelgeuse', longitude: 88.79, latitude: -16.03, magnitude: 0.5, nature: ['Mars', 'Mercury'] },
+  { name: 'Sirius', longitude: 104.08, latitude: -39.61, magnitude: -1.46, nature: ['Jupiter', 'Mars'] },
+  { name: 'Castor', longitude: 110.23, latitude: 10.09, magnitude: 1.6, nature: ['Mercury'] },
+  { name: 'Pollux', longitude: 113.22, latitude: 6.68, magnitude: 1.14, nature: ['Mars'] },
+  { name: 'Procyon', longitude: 115.79, latitude: -16.02, magnitude: 0.34, nature: ['Mercury', 'Mars'] },
+  { name: 'Regulus', longitude: 149.83, latitude: 0.47, magnitude: 1.35, nature: ['Mars', 'Jupiter'] },
+  { name: 'Denebola', longitude: 171.62, latitude: 12.27, magnitude: 2.1, nature: ['Saturn', 'Venus'] },
+  { name: 'Vindemiatrix', longitude: 189.94, latitude: 16.21, magnitude: 2.8, nature: ['Saturn', 'Mercury'] },
+  { name: 'Spica', longitude: 203.84, latitude: -2.05, magnitude: 0.97, nature: ['Venus', 'Mars'] },
+  { name: 'Arcturus', longitude: 204.23, latitude: 30.73, magnitude: -0.05, nature: ['Mars', 'Jupiter'] },
+  { name: 'Antares', longitude: 249.76, latitude: -4.57, magnitude: 1.0, nature: ['Mars', 'Jupiter'] },
+  { name: 'Vega', longitude: 285.32, latitude: 61.73, magnitude: 0.03, nature: ['Venus', 'Mercury'] },
+  { name: 'Altair', longitude: 301.79, latitude: 29.3, magnitude: 0.77, nature: ['Mars', 'Jupiter'] },
+  { name: 'Deneb Algedi', longitude: 323.55, latitude: -2.6, magnitude: 2.9, nature: ['Saturn', 'Jupiter'] },
+  { name: 'Fomalhaut', longitude: 333.87, latitude: -21.13, magnitude: 1.16, nature: ['Venus', 'Mercury'] },
+  { name: 'Achernar', longitude: 345.32, latitude: -59.38, magnitude: 0.46, nature: ['Jupiter'] },
+  { name: 'Markab', longitude: 353.49, latitude: 19.41, magnitude: 2.5, nature: ['Mars', 'Mercury'] },
+  { name: 'Scheat', longitude: 359.37, latitude: 31.13, magnitude: 2.4, nature: ['Mars', 'Mercury'] },
+]
+
+// Apparent positions of the catalogue stars for a Julian Ephemeris Day; proper motion is ignored
+export function fixedStarPositionsTT(jdTT: number): FixedStar[] {
+  const nutationInLongitude = nutation(jdTT).longitude
+  return FIXED_STAR_CATALOGUE.map(star => {
+    const ofDate = precessEclipticFromJ2000(star.longitude, star.latitude, jdTT)
+    return {
+      name: star.name,
+      longitude: normalizeDegrees(ofDate.longitude + nutationInLongitude),
+      latitude: ofDate.latitude,
+      magnitude: star.magnitude,
+      nature: star.nature,
+    }
+  })
+}
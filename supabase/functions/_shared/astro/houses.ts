@@ -0,0 +1,225 @@
+// Angles and house cusps
+
+import type { HousePosition, HouseSystem, Location } from '../types.ts'
+import { RAD_TO_DEG, atan2Deg, cosDeg, normalizeDegrees, sinDeg, tanDeg } from './angles.ts'
+import { nutation, trueObliquity } from './nutation.ts'
+import { J2000, julianCenturies, julianDayTT } from './time.ts'
+import { signOf } from './zodiac.ts'
+
+export interface ChartAngles {
+  ascendant: number;
+  midheaven: number;
+  ramc: number; // right ascension of the midheaven (local apparent sidereal time), degrees
+  obliquity: number; // true obliquity of the ecliptic, degrees
+}
+
+export interface HouseCusps {
+  angles: ChartAngles;
+  cusps: number[]; // twelve cusp longitudes, cusps[0] is the 1st house
+  system: HouseSystem; // system actually used
+  fallbackFrom?: HouseSystem; // set when the requested system could not be drawn
+}
+
+// Placidus is undefined once parts of the ecliptic never rise or set. Beyond this latitude,
+// or if the semi-arc iteration fails to converge, we fall back to Porphyry, which only needs
+// the Ascendant and Midheaven (the same fallback Swiss Ephemeris uses).
+export const PLACIDUS_FALLBACK: HouseSystem = 'porphyry'
+const PLACIDUS_ITERATIONS = 50
+const PLACIDUS_TOLERANCE = 1e-7
+
+// Greenwich apparent sidereal time in degrees (Meeus eq. 12.4 plus the equation of the equinoxes)
+export function apparentSiderealTime(jdUT: number): number {
+  const T = julianCenturies(jdUT)
+  const mean = 280.46061837 + 360.98564736629 * (jdUT - J2000) + 0.000387933 * T * T - T ** 3 / 38710000
+  const jdTT = julianDayTT(jdUT)
+  return normalizeDegrees(mean + nutation(jdTT).longitude * cosDeg(trueObliquity(jdTT)))
+}
+
+// Ecliptic longitude where a house circle with the given pole meets the ecliptic,
+// `offset` degrees of right ascension past the MC
+function cuspFromPole(ramc: number, offset: number, pole: number, obliquity: number): number {
+  const ra = ramc + offset
+  return atan2Deg(sinDeg(ra), cosDeg(ra) * cosDeg(obliquity) - tanDeg(pole) * sinDeg(obliquity))
+}
+
+// Ecliptic longitude of the point with the given right ascension
+function longitudeFromRightAscension(ra: number, obliquity: number): number {
+  return atan2Deg(sinDeg(ra), cosDeg(ra) * cosDeg(obliquity))
+}
+
+// Diurnal semi-arc of an ecliptic point, in degrees; NaN if it never rises or never sets
+function diurnalSemiArc(longitude: number, latitude: number, obliquity: number): number {
+  const declination = Math.asin(sinDeg(obliquity) * sinDeg(longitude)) * RAD_TO_DEG
+  return Math.acos(-tanDeg(latitude) * tanDeg(declination)) * RAD_TO_DEG
+}
+
+export function chartAngles(jdUT: number, location: Location): ChartAngles {
+  const obliquity = trueObliquity(julianDayTT(jdUT))
+  const ramc = normalizeDegrees(apparentSiderealTime(jdUT) + location.lon)
+  return {
+    ascendant: cuspFromPole(ramc, 90, location.lat, obliquity),
+    midheaven: cuspFromPole(ramc, 0, 0, obliquity),
+    ramc,
+    obliquity,
+  }
+}
+
+// Complete the opposite six cusps from the 1st-6th
+function withOpposites(firstSix: number[]): number[] {
+  return [...firstSix, ...firstSix.map(c => normalizeDegrees(c + 180))]
+}
+
+// Regiomontanus: the celestial equator is divided into equal 30° arcs from the meridian,
+// and each cusp lies on the great circle through those points and the north/south points
+function regiomontanus(angles: ChartAngles, latitude: number): number[] {
+  const { ramc, obliquity } = angles
+
+  // The 1st cusp is 90° of right ascension past the MC, the 2nd 120°, and so on
+  return Array.from({ length: 12 }, (_, i) => {
+    const offset = 90 + i * 30
+    const pole = Math.atan(tanDeg(latitude) * sinDeg(offset)) * RAD_TO_DEG
+    return cuspFromPole(ramc, offset, pole, obliquity)
+  })
+}
+
+// Placidus: each cusp is the ecliptic point that has covered a third (or two thirds)
+// of its own semi-arc since culminating or anti-culminating. Returns null when undefined.
+function placidus(angles: ChartAngles, latitude: number): number[] | null {
+  const { ramc, obliquity } = angles
+
+  // fraction of the diurnal semi-arc past the MC (11th, 12th) or of the
+  // nocturnal semi-arc before the IC (2nd, 3rd)
+  const solve = (fraction: number, nocturnal: boolean): number | null => {
+    let longitude = longitudeFromRightAscension(
+      ramc + (nocturnal ? 180 - fraction * 90 : fraction * 90),
+      obliquity
+    )
+    for (let i = 0; i < PLACIDUS_ITERATIONS; i++) {
+      const dsa = diurnalSemiArc(longitude, latitude, obliquity)
+      if (Number.isNaN(dsa)) return null
+
+      const ra = nocturnal ? ramc + 180 - fraction * (180 - dsa) : ramc + fraction * dsa
+      const next = longitudeFromRightAscension(ra, obliquity)
+      if (Math.abs(normalizeDegrees(next - longitude + 180) - 180) < PLACIDUS_TOLERANCE) {
+        return next
+      }
+      longitude = next
+    }
+    return null
+  }
+
+  const cusps = [
+    solve(1 / 3, false), // 11
+    solve(2 / 3, false), // 12
+    solve(2 / 3, true), // 2
+    solve(1 / 3, true), // 3
+  ]
+  if (cusps.some(c => c === null)) return null
+
+  const [h11, h12, h2, h3] = cusps as [number, number, number, number]
+  return withOpposites([
+    angles.ascendant,
+    h2,
+    h3,
+    normalizeDegrees(angles.midheaven + 180),
+    normalizeDegrees(h11 + 180),
+    normalizeDegrees(h12 + 180),
+  ])
+}
+
+// Alcabitius: the semi-arcs of the Ascendant degree are trisected in right ascension
+// and the resulting points projected onto the ecliptic along circles of declination
+function alcabitius(angles: ChartAngles, latitude: number): number[] {
+  const { ramc, obliquity } = angles
+  // At polar latitudes the Ascendant may never set; clamp so the trisection still works
+  const dsa = diurnalSemiArc(angles.ascendant, latitude, obliquity)
+  const diurnal = Number.isNaN(dsa) ? (tanDeg(latitude) * sinDeg(angles.ascendant) > 0 ? 180 : 0) : dsa
+  const nocturnal = 180 - diurnal
+  const cusp = (ra: number) => longitudeFromRightAscension(ra, obliquity)
+
+  return withOpposites([
+    angles.ascendant,
+    cusp(ramc + diurnal + nocturnal / 3),
+    cusp(ramc + diurnal + (2 * nocturnal) / 3),
+    normalizeDegrees(angles.midheaven + 180),
+    normalizeDegrees(cusp(ramc + diurnal / 3) + 180),
+    normalizeDegrees(cusp(ramc + (2 * diurnal) / 3) + 180),
+  ])
+}
+
+// Porphyry: each quadrant between the angles is trisected in ecliptic longitude
+function porphyry(angles: ChartAngles): number[] {
+  const ic = normalizeDegrees(angles.midheaven + 180)
+  const lower = normalizeDegrees(ic - angles.ascendant) / 3
+  // The arc from the IC to the Descendant equals the arc from the MC to the Ascendant
+  const upper = normalizeDegrees(angles.ascendant - angles.midheaven) / 3
+
+  return withOpposites([
+    angles.ascendant,
+    normalizeDegrees(angles.ascendant + lower),
+    normalizeDegrees(angles.ascendant + 2 * lower),
+    ic,
+    normalizeDegrees(ic + upper),
+    normalizeDegrees(ic + 2 * upper),
+  ])
+}
+
+// Equal: 30° houses starting from the Ascendant degree
+function equal(angles: ChartAngles): number[] {
+  return Array.from({ length: 12 }, (_, i) => normalizeDegrees(angles.ascendant + i * 30))
+}
+
+// Whole Sign: the rising sign is the 1st house, the next sign the 2nd, and so on
+function wholeSign(angles: ChartAngles): number[] {
+  const start = Math.floor(angles.ascendant / 30) * 30
+  return Array.from({ length: 12 }, (_, i) => normalizeDegrees(start + i * 30))
+}
+
+export function calculateHouses(jdUT: number, location: Location, system: HouseSystem): HouseCusps {
+  const angles = chartAngles(jdUT, location)
+
+  switch (system) {
+    case 'regiomontanus':
+      return { angles, cusps: regiomontanus(angles, location.lat), system }
+    case 'placidus': {
+      const cusps = placidus(angles, location.lat)
+      return cusps
+        ? { angles, cusps, system }
+        : { angles, cusps: porphyry(angles), system: PLACIDUS_FALLBACK, fallbackFrom: system }
+    }
+    case 'alcabitius':
+      return { angles, cusps: alcabitius(angles, location.lat), system }
+    case 'porphyry':
+      return { angles, cusps: porphyry(angles), system }
+    case 'equal':
+      return { angles, cusps: equal(angles), system }
+    case 'whole_sign':
+      return { angles, cusps: wholeSign(angles), system }
+  }
+}
+
+// House (1-12) containing an ecliptic longitude
+export function houseOf(longitude: number, cusps: number[]): number {
+  for (let i = 0; i < 12; i++) {
+    const start = cusps[i] as number
+    const end = cusps[(i + 1) % 12] as number
+    const width = normalizeDegrees(end - start)
+    const offset = normalizeDegrees(longitude - start)
+    if (offset < width) return i + 1
+  }
+  // Degenerate cusps (all equal): fall back to the nearest preceding cusp
+  let best = 1
+  let bestDistance = Infinity
+  cusps.forEach((cusp, i) => {
+    const distance = normalizeDegrees(longitude - cusp)
+    if (distance < bestDistance) {
+      bestDistance = distance
+      best = i + 1
+    }
+  })
+  return best
+}
+
+export function toHousePositions(cusps: number[]): HousePosition[] {
+  return cusps.map((cusp, i) => ({ number: i + 1, cusp, sign: signOf(cusp) }))
+}
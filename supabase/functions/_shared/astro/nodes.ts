@@ -0,0 +1,52 @@
+// Lunar nodes: where the Moon's orbit crosses the ecliptic (Meeus, Astronomical Algorithms ch. 47)
+
+import type { LunarNode } from '../types.ts'
+import { normalizeDegrees, sinDeg } from './angles.ts'
+import { houseOf } from './houses.ts'
+import { nutation } from './nutation.ts'
+import { julianCenturies } from './time.ts'
+import { zodiacPosition } from './zodiac.ts'
+
+export interface NodeLongitudes {
+  mean: number; // mean North Node, degrees
+  true: number; // with the main periodic terms of the node's oscillation
+}
+
+// Longitudes of the North Node, apparent (with nutation) like the planets; the South Node is opposite
+export function lunarNodesTT(jdTT: number): NodeLongitudes {
+  const T = julianCenturies(jdTT)
+
+  const mean = 125.0445479 - 1934.1362891 * T + 0.0020754 * T ** 2 + T ** 3 / 467441 - T ** 4 / 60616000
+  const elongation = 297.8501921 + 445267.1114034 * T - 0.0018819 * T ** 2 + T ** 3 / 545868
+  const sunAnomaly = 357.5291092 + 35999.0502909 * T - 0.0001536 * T ** 2
+  const moonAnomaly = 134.9633964 + 477198.8675055 * T + 0.0087414 * T ** 2 + T ** 3 / 69699
+  const latitudeArgument = 93.272095 + 483202.0175233 * T - 0.0036539 * T ** 2 - T ** 3 / 3526000
+
+  const correction = -1.4979 * sinDeg(2 * (elongation - latitudeArgument)) -
+    0.15 * sinDeg(sunAnomaly) -
+    0.1226 * sinDeg(2 * elongation) +
+    0.1176 * sinDeg(2 * latitudeArgument) -
+    0.0801 * sinDeg(2 * (moonAnomaly - latitudeArgument))
+
+  const nutationInLongitude = nutation(jdTT).longitude
+  return {
+    mean: normalizeDegrees(mean + nutationInLongitude),
+    true: normalizeDegrees(mean + correction + nutationInLongitude),
+  }
+}
+
+// Both nodes of each kind placed in the houses, North then South
+export function toLunarNodes(longitudes: NodeLongitudes, cusps: number[]): LunarNode[] {
+  return (['mean', 'true'] as const).flatMap(kind => {
+    const north = longitudes[kind]
+    return ([['North Node', north], ['South Node', normalizeDegrees(north + 180)]] as const).map(
+      ([name, longitude]) => ({
+        name,
+        kind,
+        longitude,
+        ...zodiacPosition(longitude),
+        house: houseOf(longitude, cusps),
+      })
+    )
+  })
+}
@@ -0,0 +1,39 @@
+// Nutation and obliquity of the ecliptic (Meeus, Astronomical Algorithms ch. 22)
+
+import { ARCSEC_TO_DEG, cosDeg, normalizeDegrees, sinDeg } from './angles.ts'
+import { julianCenturies } from './time.ts'
+
+export interface Nutation {
+  longitude: number; // Δψ in degrees
+  obliquity: number; // Δε in degrees
+}
+
+// Low-precision series, good to 0.5" in Δψ and 0.1" in Δε
+export function nutation(jdTT: number): Nutation {
+  const T = julianCenturies(jdTT)
+  const omega = normalizeDegrees(125.04452 - 1934.136261 * T + 0.0020708 * T * T + T ** 3 / 450000)
+  const sunMean = normalizeDegrees(280.4665 + 36000.7698 * T)
+  const moonMean = normalizeDegrees(218.3165 + 481267.8813 * T)
+
+  const longitude = -17.2 * sinDeg(omega) - 1.32 * sinDeg(2 * sunMean) -
+    0.23 * sinDeg(2 * moonMean) + 0.21 * sinDeg(2 * omega)
+  const obliquity = 9.2 * cosDeg(omega) + 0.57 * cosDeg(2 * sunMean) +
+    0.1 * cosDeg(2 * moonMean) - 0.09 * cosDeg(2 * omega)
+
+  return {
+    longitude: longitude * ARCSEC_TO_DEG,
+    obliquity: obliquity * ARCSEC_TO_DEG,
+  }
+}
+
+// Mean obliquity of the ecliptic (IAU 1980), in degrees
+export function meanObliquity(jdTT: number): number {
+  const T = julianCenturies(jdTT)
+  const seconds = 21.448 - 46.815 * T - 0.00059 * T * T + 0.001813 * T ** 3
+  return 23 + 26 / 60 + seconds / 3600
+}
+
+// True obliquity (mean obliquity plus nutation in obliquity), in degrees
+export function trueObliquity(jdTT: number): number {
+  return meanObliquity(jdTT) + nutation(jdTT).obliquity
+}
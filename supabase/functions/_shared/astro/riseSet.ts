@@ -0,0 +1,53 @@
+// Sunrise and sunset: when the Sun's upper limb crosses the horizon
+
+import type { Location } from '../types.ts'
+import { RAD_TO_DEG, cosDeg, sinDeg } from './angles.ts'
+import { eclipticToEquatorial } from './coordinates.ts'
+import { apparentLongitudeTT } from './ephemeris.ts'
+import { apparentSiderealTime } from './houses.ts'
+import { trueObliquity } from './nutation.ts'
+import { findRoot } from './search.ts'
+import { julianDayTT } from './time.ts'
+
+// Altitude of the Sun's centre at rising and setting: refraction plus the semi-diameter
+const SUN_HORIZON_ALTITUDE = -0.8333
+// Sampling step when bracketing a rising or setting, in days
+const RISE_SET_STEP_DAYS = 1 / 48
+
+export interface SunEvent {
+  jd: number; // Julian Day (UT)
+  type: 'rise' | 'set';
+}
+
+// The Sun's apparent altitude above the horizon, ignoring its tiny ecliptic latitude
+export function sunAltitude(jdUT: number, location: Location): number {
+  const jdTT = julianDayTT(jdUT)
+  const { rightAscension, declination } = eclipticToEquatorial(
+    apparentLongitudeTT('Sun', jdTT),
+    0,
+    trueObliquity(jdTT)
+  )
+  const hourAngle = apparentSiderealTime(jdUT) + location.lon - rightAscension
+  const sinAltitude = sinDeg(location.lat) * sinDeg(declination) +
+    cosDeg(location.lat) * cosDeg(declination) * cosDeg(hourAngle)
+  return Math.asin(sinAltitude) * RAD_TO_DEG
+}
+
+// Every sunrise and sunset between two instants; empty during polar day or night
+export function findSunEvents(location: Location, from: number, to: number): SunEvent[] {
+  const height = (jd: number) => sunAltitude(jd, location) - SUN_HORIZON_ALTITUDE
+  const events: SunEvent[] = []
+
+  let before = height(from)
+  for (let i = 0; from + i * RISE_SET_STEP_DAYS < to; i++) {
+    const start = from + i * RISE_SET_STEP_DAYS
+    const end = Math.min(start + RISE_SET_STEP_DAYS, to)
+    const after = height(end)
+    if (Math.sign(before) !== Math.sign(after) && after !== 0) {
+      events.push({ jd: findRoot(height, start, end), type: after > 0 ? 'rise' : 'set' })
+    }
+    before = after
+  }
+
+  return events
+}
@@ -0,0 +1,189 @@
+// Ephemeris searches: when two bodies next perfect an aspect, and when a body stations
+
+import { ASPECT_ANGLES, MAJOR_ASPECTS } from '../constants.ts'
+import type { AspectType, Planet, ZodiacSign } from '../types.ts'
+import { angleDifference } from './angles.ts'
+import { apparentLongitudeTT } from './ephemeris.ts'
+import { julianDayTT } from './time.ts'
+import { signIndex, signOf } from './zodiac.ts'
+
+// Bisection steps when refining an event; a one-day bracket narrows to under a second
+const REFINE_ITERATIONS = 20
+
+// Apparent longitude at a Julian Day (UT)
+export type LongitudeAt = (planet: Planet, jdUT: number) => number
+
+// Longitudes are cached by instant, so searches over the same grid share their samples
+export function createLongitudeCache(): LongitudeAt {
+  const cache = new Map<string, number>()
+  return (planet, jdUT) => {
+    const key = `${planet}:${jdUT}`
+    let longitude = cache.get(key)
+    if (longitude === undefined) {
+      longitude = apparentLongitudeTT(planet, julianDayTT(jdUT))
+      cache.set(key, longitude)
+    }
+    return longitude
+  }
+}
+
+export interface AspectEvent {
+  type: AspectType;
+  jd: number; // Julian Day (UT) of exactness
+}
+
+export interface IngressEvent {
+  jd: number;
+  sign: ZodiacSign; // the sign entered
+}
+
+export interface StationEvent {
+  planet: Planet;
+  jd: number;
+  direction: 'retrograde' | 'direct'; // the motion after the station
+}
+
+// Find where f changes sign between a and b, given f(a) and f(b) of opposite signs
+export function findRoot(f: (jd: number) => number, a: number, b: number): number {
+  let [low, high, fLow] = [a, b, f(a)]
+  for (let i = 0; i < REFINE_ITERATIONS; i++) {
+    const mid = (low + high) / 2
+    const fMid = f(mid)
+    if (Math.sign(fMid) === Math.sign(fLow)) {
+      [low, fLow] = [mid, fMid]
+    } else {
+      high = mid
+    }
+  }
+  return (low + high) / 2
+}
+
+// Signed distance of b - a from each exact aspect angle (both sides of the circle)
+function aspectTargets(types: readonly AspectType[]): { type: AspectType; angle: number }[] {
+  return types.flatMap(type => {
+    const angle = ASPECT_ANGLES[type]
+    return angle === 0 || angle === 180 ? [{ type, angle }] : [{ type, angle }, { type, angle: -angle }]
+  })
+}
+
+// Exact aspects between two bodies within one sampling step, earliest first
+function aspectsInStep(
+  offset: (jd: number, angle: number) => number,
+  targets: { type: AspectType; angle: number }[],
+  start: number,
+  end: number
+): AspectEvent[] {
+  const events: AspectEvent[] = []
+  for (const { type, angle } of targets) {
+    const before = offset(start, angle)
+    const after = offset(end, angle)
+    // A jump of more than 90° is the far side of the circle wrapping, not a crossing
+    if (before === 0 || Math.sign(before) === Math.sign(after) || Math.abs(before - after) > 90) continue
+    events.push({ type, jd: findRoot(t => offset(t, angle), start, end) })
+  }
+  return events.sort((x, y) => x.jd - y.jd)
+}
+
+function aspectOffset(longitudeAt: LongitudeAt, a: Planet, b: Planet) {
+  return (jd: number, angle: number) =>
+    angleDifference(angle, angleDifference(longitudeAt(a, jd), longitudeAt(b, jd)))
+}
+
+// First exact aspect between two bodies after `from` and no later than `to`
+export function findAspectPerfection(
+  longitudeAt: LongitudeAt,
+  a: Planet,
+  b: Planet,
+  from: number,
+  to: number,
+  step: number,
+  types: readonly AspectType[] = MAJOR_ASPECTS
+): AspectEvent | null {
+  const targets = aspectTargets(types)
+  const offset = aspectOffset(longitudeAt, a, b)
+
+  for (let i = 0; from + i * step < to; i++) {
+    const start = from + i * step
+    const [first] = aspectsInStep(offset, targets, start, Math.min(start + step, to))
+    if (first) return first
+  }
+
+  return null
+}
+
+// Every exact aspect between two bodies between two instants, earliest first
+export function findAspectPerfections(
+  longitudeAt: LongitudeAt,
+  a: Planet,
+  b: Planet,
+  from: number,
+  to: number,
+  step: number,
+  types: readonly AspectType[] = MAJOR_ASPECTS
+): AspectEvent[] {
+  const targets = aspectTargets(types)
+  const offset = aspectOffset(longitudeAt, a, b)
+  const events: AspectEvent[] = []
+
+  for (let i = 0; from + i * step < to; i++) {
+    const start = from + i * step
+    events.push(...aspectsInStep(offset, targets, start, Math.min(start + step, to)))
+  }
+
+  return events
+}
+
+// Stations (changes of direction) of a body between two instants
+export function findStations(
+  longitudeAt: LongitudeAt,
+  planet: Planet,
+  from: number,
+  to: number,
+  step: number
+): StationEvent[] {
+  if (planet === 'Sun' || planet === 'Moon') return []
+
+  const motion = (jd: number) => angleDifference(longitudeAt(planet, jd), longitudeAt(planet, jd + step))
+  const stations: StationEvent[] = []
+
+  for (let i = 0; from + i * step < to; i++) {
+    const start = from + i * step
+    const end = Math.min(start + step, to)
+    const before = motion(start)
+    const after = motion(end)
+    if (Math.sign(before) === Math.sign(after) || after === 0) continue
+
+    stations.push({
+      planet,
+      jd: findRoot(motion, start, end) + step / 2,
+      direction: after < 0 ? 'retrograde' : 'direct',
+    })
+  }
+
+  return stations
+}
+
+// First sign change of a body after `from` and no later than `to`
+export function findIngress(
+  longitudeAt: LongitudeAt,
+  planet: Planet,
+  from: number,
+  to: number,
+  step: number
+): IngressEvent | null {
+  for (let i = 0; from + i * step < to; i++) {
+    const start = from + i * step
+    const end = Math.min(start + step, to)
+    const before = longitudeAt(planet, start)
+    const after = longitudeAt(planet, end)
+    if (signIndex(before) === signIndex(after)) continue
+
+    // The boundary crossed, whichever way the body is moving
+    const forward = angleDifference(before, after) > 0
+    const boundary = (forward ? signIndex(after) : signIndex(before)) * 30
+    const jd = findRoot(t => angleDifference(boundary, longitudeAt(planet, t)), start, end)
+    return { jd, sign: signOf(after) }
+  }
+
+  return null
+}
@@ -0,0 +1,72 @@
+// Time scales: Julian Day (UT), Delta T and Terrestrial Time
+
+export const J2000 = 2451545.0
+export const DAYS_PER_CENTURY = 36525
+const UNIX_EPOCH_JD = 2440587.5
+const MS_PER_DAY = 86400000
+
+export function julianDayUT(date: Date): number {
+  return date.getTime() / MS_PER_DAY + UNIX_EPOCH_JD
+}
+
+export function dateFromJulianDayUT(jd: number): Date {
+  return new Date(Math.round((jd - UNIX_EPOCH_JD) * MS_PER_DAY))
+}
+
+// Delta T = TT - UT in seconds, from the Espenak & Meeus polynomials
+// (NASA Five Millennium Canon of Solar Eclipses)
+export function deltaT(year: number): number {
+  if (year >= 2005 && year < 2050) {
+    const t = year - 2000
+    return 62.92 + 0.32217 * t + 0.005589 * t * t
+  }
+  if (year >= 1986 && year < 2005) {
+    const t = year - 2000
+    return 63.86 + 0.3345 * t - 0.060374 * t ** 2 + 0.0017275 * t ** 3 +
+      0.000651814 * t ** 4 + 0.00002373599 * t ** 5
+  }
+  if (year >= 1961 && year < 1986) {
+    const t = year - 1975
+    return 45.45 + 1.067 * t - t ** 2 / 260 - t ** 3 / 718
+  }
+  if (year >= 1941 && year < 1961) {
+    const t = year - 1950
+    return 29.07 + 0.407 * t - t ** 2 / 233 + t ** 3 / 2547
+  }
+  if (year >= 1920 && year < 1941) {
+    const t = year - 1920
+    return 21.2 + 0.84493 * t - 0.0761 * t ** 2 + 0.0020936 * t ** 3
+  }
+  if (year >= 1900 && year < 1920) {
+    const t = year - 1900
+    return -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4
+  }
+  if (year >= 1860 && year < 1900) {
+    const t = year - 1860
+    return 7.62 + 0.5737 * t - 0.251754 * t ** 2 + 0.01680668 * t ** 3 -
+      0.0004473624 * t ** 4 + t ** 5 / 233174
+  }
+  if (year >= 1800 && year < 1860) {
+    const t = year - 1800
+    return 13.72 - 0.332447 * t + 0.0068612 * t ** 2 + 0.0041116 * t ** 3 -
+      0.00037436 * t ** 4 + 0.0000121272 * t ** 5 - 0.0000001699 * t ** 6 +
+      0.000000000875 * t ** 7
+  }
+
+  const u = (year - 1820) / 100
+  if (year >= 2050 && year < 2150) {
+    return -20 + 32 * u * u - 0.5628 * (2150 - year)
+  }
+  return -20 + 32 * u * u
+}
+
+// Julian Ephemeris Day (TT) for a Julian Day in UT
+export function julianDayTT(jdUT: number): number {
+  const year = 2000 + (jdUT - J2000) / 365.25
+  return jdUT + deltaT(year) / 86400
+}
+
+// Julian centuries since J2000.0
+export function julianCenturies(jd: number): number {
+  return (jd - J2000) / DAYS_PER_CENTURY
+}
@@ -0,0 +1,35 @@
+// VSOP87D evaluation: heliocentric positions of the Earth and the major planets
+
+import { RAD_TO_DEG, normalizeDegrees } from './angles.ts'
+import { J2000 } from './time.ts'
+import type { VsopBody, VsopSeries } from './vsop87Data.ts'
+
+export interface HeliocentricPosition {
+  longitude: number; // degrees, mean ecliptic and equinox of date
+  latitude: number; // degrees
+  radius: number; // AU
+}
+
+function evaluateSeries(series: VsopSeries, tau: number): number {
+  let result = 0
+  let power = 1
+  for (const terms of series) {
+    let sum = 0
+    for (const [a, b, c] of terms) {
+      sum += a * Math.cos(b + c * tau)
+    }
+    result += sum * power
+    power *= tau
+  }
+  return result
+}
+
+// tau is measured in Julian millennia (TT) from J2000.0
+export function heliocentricPosition(body: VsopBody, jdTT: number): HeliocentricPosition {
+  const tau = (jdTT - J2000) / 365250
+  return {
+    longitude: normalizeDegrees(evaluateSeries(body.L, tau) * RAD_TO_DEG),
+    latitude: evaluateSeries(body.B, tau) * RAD_TO_DEG,
+    radius: evaluateSeries(body.R, tau),
+  }
+}
@@ -0,0 +1,1270 @@
+// Truncated VSOP87D series (Bretagnon & Francou, 1988)
+// Heliocentric ecliptic longitude L, latitude B (radians) and radius vector R (AU),
+// referred to the mean ecliptic and equinox of date. Each term [A, B, C] contributes
+// A * cos(B + C * tau) to the series of power tau^n, tau in Julian millennia (TT) from J2000.0.
+// Terms smaller than 1e-6 (scaled by 10^n for the tau^n series, and by the mean distance
+// for R) are dropped, which keeps the error below ~2" between 1900 and 2100.
+
+export type VsopTerm = readonly [number, number, number]
+export type VsopSeries = readonly (readonly VsopTerm[])[]
+
+export interface VsopBody {
+  L: VsopSeries;
+  B: VsopSeries;
+  R: VsopSeries;
+}
+
+export const MERCURY: VsopBody = {
+  L: [
+    [
+      [4.40250710144, 0, 0],
+      [0.40989414976, 1.48302034194, 26087.9031415742],
+      [0.05046294199, 4.4778548954, 52175.8062831484],
+      [0.00855346843, 1.16520322351, 78263.70942472259],
+      [0.00165590362, 4.11969163181, 104351.61256629678],
+      [0.00034561897, 0.77930765817, 130439.51570787099],
+      [0.00007583476, 3.7134840051, 156527.41884944518],
+      [0.0000355974, 1.51202669419, 1109.3785520934],
+      [0.00001726012, 0.35832239908, 182615.3219910194],
+      [0.00001803463, 4.1033317841, 5661.3320491522],
+      [0.00001364682, 4.59918318745, 27197.2816936676],
+      [0.00001589923, 2.99510417815, 25028.521211385],
+      [0.00001017332, 0.8803143904, 31749.2351907264],
+      [0.00000714182, 1.54144865265, 24978.5245894808],
+      [0.00000643759, 5.30266110787, 21535.9496445154],
+      [0.000004042, 3.28228847025, 208703.2251325936],
+      [0.00000352441, 5.24156297101, 20426.571092422],
+      [0.00000343313, 5.76531885335, 955.5997416086],
+      [0.00000339214, 5.86327765, 25558.2121764796],
+      [0.00000451137, 6.04989275289, 51116.4243529592],
+      [0.00000325335, 1.3367433478, 53285.1848352418],
+      [0.00000259587, 0.98732428184, 4551.9534970588],
+      [0.00000345212, 2.79211901539, 15874.6175953632],
+      [0.00000272947, 2.49451163975, 529.6909650946],
+      [0.0000023483, 0.266721189, 11322.6640983044],
+      [0.00000238793, 0.11343953378, 1059.3819301892],
+      [0.00000264336, 3.91705094013, 57837.1383323006],
+      [0.00000216645, 0.65987207348, 13521.7514415914],
+      [0.00000183359, 2.62878670784, 27043.5028831828],
+      [0.00000175965, 4.53636829858, 51066.427731055],
+      [0.00000181629, 2.43413502466, 25661.3049506982],
+      [0.00000208995, 2.09178234008, 47623.8527860896],
+      [0.00000172643, 2.45200164173, 24498.8302462904],
+      [0.00000142316, 3.36003948842, 37410.5672398786],
+      [0.00000137942, 0.29098447849, 10213.285546211],
+      [0.00000118233, 2.78149786369, 77204.32749453338],
+      [0.00000125219, 3.72079804425, 39609.6545831656],
+      [0.00000106422, 4.20572116254, 19804.8272915828],
+    ],
+    [
+      [26088.14706222746, 0, 0],
+      [0.01126007832, 6.21703970996, 26087.9031415742],
+      [0.00303471395, 3.05565472363, 52175.8062831484],
+      [0.00080538452, 6.10454743366, 78263.70942472259],
+      [0.00021245035, 2.83531934452, 104351.61256629678],
+      [0.00005592094, 5.82675673328, 130439.51570787099],
+      [0.00001472233, 2.51845458395, 156527.41884944518],
+    ],
+    [
+      [0.00053049845, 0, 0],
+      [0.00016903658, 4.69072300649, 26087.9031415742],
+    ],
+  ],
+  B: [
+    [
+      [0.11737528962, 1.98357498767, 26087.9031415742],
+      [0.02388076996, 5.03738959685, 52175.8062831484],
+      [0.01222839532, 3.14159265359, 0],
+      [0.0054325181, 1.79644363963, 78263.70942472259],
+      [0.0012977877, 4.83232503961, 104351.61256629678],
+      [0.00031866927, 1.58088495667, 130439.51570787099],
+      [0.00007963301, 4.60972126348, 156527.41884944518],
+      [0.00002014189, 1.35324164694, 182615.3219910194],
+      [0.00000513953, 4.37835409309, 208703.2251325936],
+      [0.00000207674, 4.91772564073, 27197.2816936676],
+      [0.00000208584, 2.02020294153, 24978.5245894808],
+      [0.00000132013, 1.11908492283, 234791.12827416777],
+      [0.00000100454, 5.65684734206, 20426.571092422],
+      [0.00000121395, 1.81271752059, 53285.1848352418],
+    ],
+    [
+      [0.00429151362, 3.50169780393, 26087.9031415742],
+      [0.00146233668, 3.14159265359, 0],
+      [0.00022675295, 0.0151536688, 52175.8062831484],
+      [0.00010894981, 0.48540174006, 78263.70942472259],
+      [0.00006353462, 3.42943919982, 104351.61256629678],
+      [0.00002495743, 0.16051210665, 130439.51570787099],
+    ],
+    [
+      [0.00011830934, 4.79065585784, 26087.9031415742],
+    ],
+  ],
+  R: [
+    [
+      [0.39528271652, 0, 0],
+      [0.07834131817, 6.19233722599, 26087.9031415742],
+      [0.00795525557, 2.95989690096, 52175.8062831484],
+      [0.00121281763, 6.01064153805, 78263.70942472259],
+      [0.00021921969, 2.77820093975, 104351.61256629678],
+      [0.00004354065, 5.82894543257, 130439.51570787099],
+      [0.00000918228, 2.59650562598, 156527.41884944518],
+      [0.00000260033, 3.02817753482, 27197.2816936676],
+      [0.00000289955, 1.42441936951, 25028.521211385],
+      [0.00000201855, 5.6472504035, 182615.3219910194],
+      [0.00000201499, 5.59227724202, 31749.2351907264],
+      [0.0000014198, 6.25264202645, 24978.5245894808],
+      [0.00000100144, 3.73435608689, 21535.9496445154],
+      [7.7561e-7, 3.66972526976, 20426.571092422],
+      [6.3277e-7, 4.29905918105, 25558.2121764796],
+      [6.2951e-7, 4.76588899933, 1059.3819301892],
+      [6.6754e-7, 2.52520309182, 5661.3320491522],
+      [7.55e-7, 4.47428642962, 51116.4243529592],
+      [4.8266e-7, 6.06824478778, 53285.1848352418],
+      [4.5748e-7, 2.41480951648, 208703.2251325936],
+      [4.0815e-7, 2.35882016415, 57837.1383323006],
+      [4.4234e-7, 1.21957314874, 15874.6175953632],
+    ],
+    [
+      [0.00217347739, 4.65617158663, 26087.9031415742],
+      [0.00044141826, 1.42385543975, 52175.8062831484],
+      [0.00010094479, 4.47466326316, 78263.70942472259],
+      [0.00002432804, 1.24226083435, 104351.61256629678],
+      [0.00001624367, 0, 0],
+      [0.00000603996, 4.29303116561, 130439.51570787099],
+    ],
+  ],
+}
+
+export const VENUS: VsopBody = {
+  L: [
+    [
+      [3.17614666774, 0, 0],
+      [0.01353968419, 5.59313319619, 10213.285546211],
+      [0.00089891645, 5.30650048468, 20426.571092422],
+      [0.00005477201, 4.41630652531, 7860.4193924392],
+      [0.00003455732, 2.69964470778, 11790.6290886588],
+      [0.00002372061, 2.99377539568, 3930.2096962196],
+      [0.00001317108, 5.18668219093, 26.2983197998],
+      [0.00001664069, 4.2501893503, 1577.3435424478],
+      [0.00001438322, 4.15745043958, 9683.5945811164],
+      [0.00001200521, 6.15357115319, 30639.856638633],
+      [0.0000076138, 1.9501470212, 529.6909650946],
+      [0.00000707676, 1.06466707214, 775.522611324],
+      [0.00000584836, 3.99839884762, 191.4482661116],
+      [0.00000769314, 0.81629615911, 9437.762934887],
+      [0.00000499915, 4.12340210074, 15720.8387848784],
+      [0.00000326221, 4.59056473097, 10404.7338123226],
+      [0.00000429498, 3.58642859752, 19367.1891622328],
+      [0.00000326967, 5.67736583705, 5507.5532386674],
+      [0.00000231937, 3.16251057072, 9153.9036160218],
+      [0.00000179695, 4.65337915578, 1109.3785520934],
+      [0.00000128263, 4.22604493736, 20.7753954924],
+      [0.00000155464, 5.57043888948, 19651.048481098],
+      [0.00000127907, 0.96209822685, 5661.3320491522],
+      [0.00000105547, 1.53721191253, 801.8209311238],
+    ],
+    [
+      [10213.52943052898, 0, 0],
+      [0.00095707712, 2.46424448979, 10213.285546211],
+      [0.00014444977, 0.51624564679, 20426.571092422],
+    ],
+    [
+      [0.00054127076, 0, 0],
+    ],
+  ],
+  B: [
+    [
+      [0.05923638472, 0.26702775813, 10213.285546211],
+      [0.00040107978, 1.14737178106, 20426.571092422],
+      [0.00032814918, 3.14159265359, 0],
+      [0.00001011392, 1.08946123021, 30639.856638633],
+      [0.00000149458, 6.25390296069, 18073.7049386502],
+      [0.00000137788, 0.86020146523, 1577.3435424478],
+      [0.00000129973, 3.67152483651, 9437.762934887],
+      [0.00000119507, 3.70468812804, 2352.8661537718],
+      [0.00000107971, 4.53903677647, 22003.9146348698],
+    ],
+    [
+      [0.00513347602, 1.80364310797, 10213.285546211],
+      [0.000043801, 3.38615711591, 20426.571092422],
+    ],
+    [
+      [0.00022377665, 3.38509143877, 10213.285546211],
+    ],
+  ],
+  R: [
+    [
+      [0.72334820905, 0, 0],
+      [0.00489824185, 4.02151832268, 10213.285546211],
+      [0.00001658058, 4.90206728012, 20426.571092422],
+      [0.00001632093, 2.84548851892, 7860.4193924392],
+      [0.00001378048, 1.128465906, 11790.6290886588],
+      [0.00000498399, 2.58682187717, 9683.5945811164],
+      [0.00000373958, 1.42314837063, 3930.2096962196],
+      [0.00000263616, 5.5293818592, 9437.762934887],
+      [0.00000237455, 2.55135903978, 15720.8387848784],
+      [0.00000221983, 2.01346776772, 19367.1891622328],
+      [0.00000119467, 3.01975365264, 10404.7338123226],
+      [0.00000125896, 2.72769833559, 1577.3435424478],
+      [7.6178e-7, 1.59577224486, 9153.9036160218],
+      [8.5336e-7, 3.98607953754, 19651.048481098],
+      [7.4347e-7, 4.11957854039, 5507.5532386674],
+    ],
+    [
+      [0.00034551039, 0.89198710598, 10213.285546211],
+    ],
+  ],
+}
+
+export const EARTH: VsopBody = {
+  L: [
+    [
+      [1.75347045673, 0, 0],
+      [0.03341656456, 4.66925680417, 6283.0758499914],
+      [0.00034894275, 4.62610241759, 12566.1516999828],
+      [0.00003417571, 2.82886579606, 3.523118349],
+      [0.00003497056, 2.74411800971, 5753.3848848968],
+      [0.00003135896, 3.62767041758, 77713.7714681205],
+      [0.00002676218, 4.41808351397, 7860.4193924392],
+      [0.00002342687, 6.13516237631, 3930.2096962196],
+      [0.00001273166, 2.03709655772, 529.6909650946],
+      [0.00001324292, 0.74246356352, 11506.7697697936],
+      [0.00000901855, 2.04505443513, 26.2983197998],
+      [0.00001199167, 1.10962944315, 1577.3435424478],
+      [0.00000857223, 3.50849156957, 398.1490034082],
+      [0.00000779786, 1.17882652114, 5223.6939198022],
+      [0.0000099025, 5.23268129594, 5884.9268465832],
+      [0.00000753141, 2.53339053818, 5507.5532386674],
+      [0.00000505264, 4.58292563052, 18849.2275499742],
+      [0.00000492379, 4.20506639861, 775.522611324],
+      [0.00000356655, 2.91954116867, 0.0673103028],
+      [0.00000284125, 1.89869034186, 796.2980068164],
+      [0.0000024281, 0.34481140906, 5486.777843175],
+      [0.00000317087, 5.84901952218, 11790.6290886588],
+      [0.00000271039, 0.31488607649, 10977.078804699],
+      [0.0000020616, 4.80646606059, 2544.3144198834],
+      [0.00000205385, 1.86947813692, 5573.1428014331],
+      [0.00000202261, 2.45767795458, 6069.7767545534],
+      [0.00000126184, 1.0830263021, 20.7753954924],
+      [0.00000155516, 0.83306073807, 213.299095438],
+      [0.00000115132, 0.64544911683, 0.9803210682],
+      [0.00000102851, 0.63599846727, 4694.0029547076],
+      [0.00000101724, 4.26679821365, 7.1135470008],
+      [0.00000132212, 3.41118275555, 2942.4634232916],
+      [0.00000101895, 0.97569221824, 15720.8387848784],
+    ],
+    [
+      [6283.31966747491, 0, 0],
+      [0.00206058863, 2.67823455584, 6283.0758499914],
+      [0.0000430343, 2.63512650414, 12566.1516999828],
+    ],
+    [
+      [0.0005291887, 0, 0],
+    ],
+  ],
+  B: [
+    [
+      [0.0000027962, 3.19870156017, 84334.66158130829],
+      [0.00000101643, 5.42248619256, 5507.5532386674],
+    ],
+  ],
+  R: [
+    [
+      [1.00013988799, 0, 0],
+      [0.01670699626, 3.09846350771, 6283.0758499914],
+      [0.00013956023, 3.0552460962, 12566.1516999828],
+      [0.0000308372, 5.19846674381, 77713.7714681205],
+      [0.00001628461, 1.17387749012, 5753.3848848968],
+      [0.00001575568, 2.84685245825, 7860.4193924392],
+      [0.00000924799, 5.45292234084, 11506.7697697936],
+      [0.00000542444, 4.56409149777, 3930.2096962196],
+      [0.0000047211, 3.66100022149, 5884.9268465832],
+      [0.0000032878, 5.89983646482, 5223.6939198022],
+      [0.00000345983, 0.96368617687, 5507.5532386674],
+      [0.00000306784, 0.29867139512, 5573.1428014331],
+      [0.00000174844, 3.01193636534, 18849.2275499742],
+      [0.00000243189, 4.27349536153, 11790.6290886588],
+      [0.00000211829, 5.84714540314, 1577.3435424478],
+      [0.00000185752, 5.02194447178, 10977.078804699],
+      [0.00000109835, 5.05510636285, 5486.777843175],
+    ],
+    [
+      [0.00103018608, 1.10748969588, 6283.0758499914],
+      [0.00001721238, 1.06442301418, 12566.1516999828],
+    ],
+  ],
+}
+
+export const MARS: VsopBody = {
+  L: [
+    [
+      [6.20347711583, 0, 0],
+      [0.186563681, 5.05037100303, 3340.6124266998],
+      [0.01108216792, 5.40099836958, 6681.2248533996],
+      [0.00091798394, 5.75478745111, 10021.8372800994],
+      [0.00027744987, 5.97049512942, 3.523118349],
+      [0.0001061023, 2.93958524973, 2281.2304965106],
+      [0.00012315897, 0.84956081238, 2810.9214616052],
+      [0.00008926772, 4.15697845939, 0.0172536522],
+      [0.00008715688, 6.11005159792, 13362.4497067992],
+      [0.00006797552, 0.36462243626, 398.1490034082],
+      [0.00007774867, 3.33968655074, 5621.8429232104],
+      [0.00003575079, 1.66186540141, 2544.3144198834],
+      [0.00004161101, 0.2281497533, 2942.4634232916],
+      [0.0000307525, 0.85696597082, 191.4482661116],
+      [0.00002628122, 0.6480614357, 3337.0893083508],
+      [0.00002937543, 6.07893711408, 0.0673103028],
+      [0.0000238942, 5.03896401349, 796.2980068164],
+      [0.00002579842, 0.02996706197, 3344.1355450488],
+      [0.0000152814, 1.14979306228, 6151.533888305],
+      [0.00001798808, 0.65634026844, 529.6909650946],
+      [0.00001264356, 3.62275092231, 5092.1519581158],
+      [0.00001286232, 3.06795924626, 2146.1654164752],
+      [0.00001546408, 2.91579633392, 1751.539531416],
+      [0.00001024907, 3.69334293555, 8962.4553499102],
+      [0.00000891567, 0.1829389909, 16703.062133499],
+      [0.0000085876, 2.40093704204, 2914.0142358238],
+      [0.00000832718, 2.46418591282, 3340.5951730476],
+      [0.00000832724, 4.49495753458, 3340.629680352],
+      [0.00000712899, 3.66336014788, 1059.3819301892],
+      [0.00000748724, 3.82248399468, 155.4203994342],
+      [0.00000723863, 0.67497565801, 3738.761430108],
+      [0.00000635557, 2.92182704275, 8432.7643848156],
+      [0.00000655163, 0.48864075176, 3127.3133312618],
+      [0.00000550472, 3.81001205408, 0.9803210682],
+      [0.00000552746, 4.47478863016, 1748.016413067],
+      [0.00000425972, 0.55365138172, 6283.0758499914],
+      [0.00000415132, 0.49662314774, 213.299095438],
+      [0.00000472164, 3.6254781941, 1194.4470102246],
+      [0.00000306552, 0.38052862973, 6684.7479717486],
+      [0.00000312141, 0.99853322843, 6677.7017350506],
+      [0.00000293199, 4.22131277914, 20.7753954924],
+      [0.00000302377, 4.48618150321, 3532.0606928114],
+      [0.00000274028, 0.54222141841, 3340.545116397],
+      [0.00000281073, 5.88163372945, 1349.8674096588],
+      [0.00000231185, 1.28240685294, 3870.3033917944],
+      [0.000002836, 5.76885494123, 3149.1641605882],
+      [0.00000236114, 5.75504515576, 3333.498879699],
+      [0.00000274035, 0.13372501211, 3340.6797370026],
+      [0.00000299396, 2.78323705697, 6254.6266625236],
+      [0.00000204161, 2.82133266185, 1221.8485663214],
+      [0.00000238857, 5.37155471672, 4136.9104335162],
+      [0.00000188639, 1.49103016486, 9492.1463150048],
+      [0.00000221225, 3.50466672203, 382.8965322232],
+      [0.00000179196, 1.00561112574, 951.7184062506],
+      [0.0000017211, 0.43943041719, 5486.777843175],
+      [0.00000193126, 3.35715137745, 3.5904286518],
+      [0.00000144305, 1.41874193418, 135.0650800354],
+      [0.00000160011, 3.94854735192, 4562.4609930212],
+      [0.00000174068, 2.41360332576, 553.5694028424],
+      [0.00000130993, 4.04491720264, 12303.06777661],
+      [0.00000138245, 4.30145176915, 7.1135470008],
+      [0.00000128062, 1.80665643332, 5088.6288397668],
+      [0.00000139897, 3.32592516164, 2700.7151403858],
+      [0.00000128102, 2.20806651008, 1592.5960136328],
+      [0.00000116945, 3.12805282207, 7903.073419721],
+      [0.00000110375, 1.05195079687, 242.728603974],
+      [0.00000113486, 3.70070798123, 1589.0728952838],
+      [0.0000010009, 3.24343740861, 11773.3768115154],
+      [0.00000104541, 0.78535382076, 8827.3902698748],
+    ],
+    [
+      [3340.85627474342, 0, 0],
+      [0.01458227051, 3.60426053609, 3340.6124266998],
+      [0.00164901343, 3.92631250962, 6681.2248533996],
+      [0.00019963338, 4.2659406103, 10021.8372800994],
+      [0.00003452399, 4.73210386365, 3.523118349],
+      [0.0000248548, 4.61277567318, 13362.4497067992],
+    ],
+    [
+      [0.00058015791, 2.04979463279, 3340.6124266998],
+      [0.00054187645, 0, 0],
+      [0.00013908426, 2.45742359888, 6681.2248533996],
+    ],
+  ],
+  B: [
+    [
+      [0.03197134986, 3.76832042432, 3340.6124266998],
+      [0.00298033234, 4.10616996243, 6681.2248533996],
+      [0.00289104742, 0, 0],
+      [0.00031365538, 4.44651052853, 10021.8372800994],
+      [0.000034841, 4.78812547889, 13362.4497067992],
+      [0.00000442999, 5.65233015876, 3337.0893083508],
+      [0.00000443401, 5.02642620491, 3344.1355450488],
+      [0.00000399109, 5.130568147, 16703.062133499],
+      [0.00000292506, 3.79290644595, 2281.2304965106],
+      [0.00000181982, 6.13648011704, 6151.533888305],
+      [0.00000163159, 4.26399626634, 529.6909650946],
+      [0.00000159678, 2.23194610246, 1059.3819301892],
+      [0.00000139323, 2.41796344238, 8962.4553499102],
+      [0.00000149297, 2.16501209917, 5621.8429232104],
+      [0.00000142686, 1.1821501611, 3340.5951730476],
+      [0.00000142685, 3.2129218082, 3340.629680352],
+    ],
+    [
+      [0.00350068845, 5.36847836211, 3340.6124266998],
+      [0.0001411603, 3.14159265359, 0],
+      [0.00009670755, 5.47877786506, 6681.2248533996],
+      [0.00001471918, 3.20205766795, 10021.8372800994],
+    ],
+    [
+      [0.0001672669, 0.60221392419, 3340.6124266998],
+    ],
+  ],
+  R: [
+    [
+      [1.53033488276, 0, 0],
+      [0.14184953153, 3.47971283519, 3340.6124266998],
+      [0.00660776357, 3.81783442097, 6681.2248533996],
+      [0.00046179117, 4.15595316284, 10021.8372800994],
+      [0.00008109738, 5.55958460165, 2810.9214616052],
+      [0.00007485315, 1.77238998069, 5621.8429232104],
+      [0.00005523193, 1.3643631888, 2281.2304965106],
+      [0.0000382516, 4.49407182408, 13362.4497067992],
+      [0.00002306539, 0.09081742493, 2544.3144198834],
+      [0.00001999399, 5.36059605227, 3337.0893083508],
+      [0.00002484385, 4.92545577893, 2942.4634232916],
+      [0.00001960198, 4.74249386323, 3344.1355450488],
+      [0.00001167115, 2.11261501155, 5092.1519581158],
+      [0.00001102828, 5.0090826416, 398.1490034082],
+      [0.00000899077, 4.40790433994, 529.6909650946],
+      [0.00000992252, 5.83862401067, 6151.533888305],
+      [0.00000807348, 2.10216647104, 1059.3819301892],
+      [0.0000079791, 3.44839026172, 796.2980068164],
+      [0.0000074098, 1.49906336892, 2146.1654164752],
+      [0.0000069234, 2.13378814785, 8962.4553499102],
+      [0.00000633144, 0.89353285018, 3340.5951730476],
+      [0.00000725583, 1.24516913473, 8432.7643848156],
+      [0.0000063314, 2.92430448169, 3340.629680352],
+      [0.00000574352, 0.82896196337, 2914.0142358238],
+      [0.00000526187, 5.38292276228, 3738.761430108],
+      [0.00000629976, 1.28738135858, 1751.539531416],
+      [0.00000472776, 5.19850457873, 3127.3133312618],
+      [0.00000348095, 4.83219198908, 16703.062133499],
+      [0.00000283702, 2.90692294913, 3532.0606928114],
+      [0.00000279552, 5.25749247548, 6283.0758499914],
+      [0.00000233827, 5.10546492529, 5486.777843175],
+      [0.00000219428, 5.58340248784, 191.4482661116],
+      [0.00000269891, 3.76394728622, 5884.9268465832],
+      [0.00000208333, 5.25476080773, 3340.545116397],
+      [0.00000275224, 2.90818883832, 1748.016413067],
+      [0.00000275501, 1.21767967781, 6254.6266625236],
+      [0.00000239133, 2.03669896238, 1194.4470102246],
+      [0.0000022319, 4.19861593779, 3149.1641605882],
+      [0.00000182686, 5.08062683355, 6684.7479717486],
+      [0.00000186213, 5.69871555748, 6677.7017350506],
+      [0.00000175995, 5.95341786369, 3870.3033917944],
+      [0.00000178613, 4.18423025538, 3333.498879699],
+      [0.00000208336, 4.84626442122, 3340.6797370026],
+      [0.00000228128, 3.2552902062, 6872.6731195112],
+      [0.00000163534, 3.79889068111, 4136.9104335162],
+    ],
+    [
+      [0.0110743334, 2.0325052495, 3340.6124266998],
+      [0.00103175886, 2.37071845682, 6681.2248533996],
+      [0.000128772, 0, 0],
+      [0.0001081588, 2.70888093803, 10021.8372800994],
+    ],
+    [
+      [0.00044242247, 0.47930603943, 3340.6124266998],
+    ],
+  ],
+}
+
+export const JUPITER: VsopBody = {
+  L: [
+    [
+      [0.59954691495, 0, 0],
+      [0.09695898711, 5.06191793105, 529.6909650946],
+      [0.00573610145, 1.44406205976, 7.1135470008],
+      [0.0030638918, 5.41734729976, 1059.3819301892],
+      [0.0009717828, 4.14264708819, 632.7837393132],
+      [0.00072903096, 3.64042909255, 522.5774180938],
+      [0.00064263986, 3.41145185203, 103.0927742186],
+      [0.00039806051, 2.29376744855, 419.4846438752],
+      [0.0003885778, 1.2723172486, 316.3918696566],
+      [0.00027964622, 1.78454589485, 536.8045120954],
+      [0.00013589738, 5.7748103159, 1589.0728952838],
+      [0.00008246362, 3.58227961655, 206.1855484372],
+      [0.00008768686, 3.63000324417, 949.1756089698],
+      [0.00007368057, 5.08101125612, 735.8765135318],
+      [0.00006263171, 0.02497643742, 213.299095438],
+      [0.0000611405, 4.51319531666, 1162.4747044078],
+      [0.00004905419, 1.32084631684, 110.2063212194],
+      [0.00005305283, 1.30671236848, 14.2270940016],
+      [0.00005305457, 4.18625053495, 1052.2683831884],
+      [0.00004647249, 4.69958109497, 3.9321532631],
+      [0.00003045009, 4.31675960318, 426.598190876],
+      [0.00002610001, 1.5666759485, 846.0828347512],
+      [0.00002028191, 1.06376547379, 3.1813937377],
+      [0.00001764768, 2.14148077766, 1066.49547719],
+      [0.00001722983, 3.88036008872, 1265.5674786264],
+      [0.00001920959, 0.97168928755, 639.897286314],
+      [0.00001633217, 3.58201089758, 515.463871093],
+      [0.00001431997, 4.29683690269, 625.6701923124],
+      [0.00000973278, 4.09764957065, 95.9792272178],
+      [0.00000884439, 2.43701426123, 412.3710968744],
+      [0.00000732875, 6.08534113239, 838.9692877504],
+      [0.00000731072, 3.80591233956, 1581.959348283],
+      [0.00000691928, 6.13368222939, 2118.7638603784],
+      [0.0000070919, 1.29272573658, 742.9900605326],
+      [0.00000614464, 4.10853496756, 1478.8665740644],
+      [0.00000495224, 3.75567461379, 323.5054166574],
+      [0.00000581902, 4.53967717552, 309.2783226558],
+      [0.00000375657, 4.70299124833, 1368.660252845],
+      [0.00000389864, 4.89716105852, 1692.1656695024],
+      [0.00000341006, 5.71452525783, 533.6231183577],
+      [0.00000330458, 4.74049819491, 0.0481841098],
+      [0.00000440854, 2.95818460943, 454.9093665273],
+      [0.00000417266, 1.03554430161, 2.4476805548],
+      [0.0000024417, 5.220208789, 728.762966531],
+      [0.0000026154, 1.87652461032, 0.9632078465],
+      [0.00000256568, 3.72410724159, 199.0720014364],
+      [0.00000261009, 0.82047246448, 380.12776796],
+      [0.00000220382, 1.65115015995, 543.9180590962],
+      [0.00000201996, 1.80684574186, 1375.7737998458],
+      [0.00000207327, 1.85461666594, 525.7588118315],
+      [0.00000197046, 5.29252149016, 1155.361157407],
+      [0.00000235141, 1.22693908124, 909.8187330546],
+      [0.00000174809, 5.90973505276, 956.2891559706],
+      [0.00000149368, 4.37745104275, 1685.0521225016],
+      [0.00000175184, 3.22634903433, 1898.3512179396],
+      [0.00000175191, 3.72966554761, 942.062061969],
+      [0.00000157909, 4.36483921766, 1795.258443721],
+      [0.00000137871, 1.31797920785, 1169.5882514086],
+      [0.00000117495, 2.5002214089, 1596.1864422846],
+      [0.00000150502, 3.90625022622, 74.7815985673],
+      [0.00000116757, 3.38920921041, 0.5212648618],
+      [0.00000105895, 4.55439798236, 526.5095713569],
+      [0.00000130531, 4.16867945489, 1045.1548361876],
+      [0.00000141445, 3.13568357861, 491.5579294568],
+    ],
+    [
+      [529.93480757497, 0, 0],
+      [0.00489741194, 4.22066689928, 529.6909650946],
+      [0.00228918538, 6.02647464016, 7.1135470008],
+      [0.0002765538, 4.57265956824, 1059.3819301892],
+      [0.00020720943, 5.45938936295, 522.5774180938],
+      [0.00012105732, 0.16985765041, 536.8045120954],
+      [0.00006068051, 4.42419502005, 103.0927742186],
+      [0.00005433924, 3.98478382565, 419.4846438752],
+      [0.00004237795, 5.89009351271, 14.2270940016],
+      [0.00002211854, 5.26771446618, 206.1855484372],
+      [0.00001295769, 5.55132765087, 3.1813937377],
+      [0.00001745919, 4.92669378486, 1589.0728952838],
+      [0.00001163411, 0.51450895328, 3.9321532631],
+      [0.00001007216, 0.46478398551, 735.8765135318],
+      [0.00001173129, 5.8564730435, 1052.2683831884],
+      [0.00001003574, 3.15040301822, 426.598190876],
+      [0.00001098735, 5.30704981594, 515.463871093],
+    ],
+    [
+      [0.00047233598, 4.32148323554, 7.1135470008],
+      [0.00030629053, 2.93021440216, 529.6909650946],
+      [0.0003896555, 0, 0],
+    ],
+  ],
+  B: [
+    [
+      [0.02268615703, 3.55852606718, 529.6909650946],
+      [0.00109971634, 3.90809347389, 1059.3819301892],
+      [0.00110090358, 0, 0],
+      [0.00008101427, 3.60509573368, 522.5774180938],
+      [0.00006043996, 4.25883108794, 1589.0728952838],
+      [0.00006437782, 0.30627121409, 536.8045120954],
+      [0.0000110688, 2.98534421928, 1162.4747044078],
+      [0.00000941651, 2.93619072405, 1052.2683831884],
+      [0.00000894088, 1.75447429921, 7.1135470008],
+      [0.0000076728, 2.1547359406, 632.7837393132],
+      [0.00000944328, 1.67522288396, 426.598190876],
+      [0.0000068422, 3.67808770098, 213.299095438],
+      [0.00000629223, 0.64343282328, 1066.49547719],
+      [0.00000835861, 5.17881973234, 103.0927742186],
+      [0.0000053167, 2.70305954352, 110.2063212194],
+      [0.00000558524, 0.01354830508, 846.0828347512],
+      [0.00000464449, 1.17337249185, 949.1756089698],
+      [0.00000431072, 2.60825000494, 419.4846438752],
+      [0.00000351433, 4.61062990714, 2118.7638603784],
+      [0.00000123148, 3.34968181384, 1692.1656695024],
+      [0.00000115038, 5.04892295442, 316.3918696566],
+      [0.0000013216, 4.7781699067, 742.9900605326],
+      [0.00000103402, 2.31878999565, 1478.8665740644],
+      [0.00000116379, 1.38688232033, 323.5054166574],
+      [0.0000010242, 3.15293785436, 1581.959348283],
+      [0.00000103762, 3.7010383811, 515.463871093],
+    ],
+    [
+      [0.00177351787, 5.70166488486, 529.6909650946],
+      [0.00003230171, 5.7794161934, 1059.3819301892],
+      [0.00003081364, 5.47464296527, 522.5774180938],
+      [0.00002211914, 4.73477480209, 536.8045120954],
+      [0.00001694232, 3.14159265359, 0],
+    ],
+  ],
+  R: [
+    [
+      [5.20887429471, 0, 0],
+      [0.2520932702, 3.49108640015, 529.6909650946],
+      [0.00610599902, 3.84115365602, 1059.3819301892],
+      [0.00282029465, 2.57419879933, 632.7837393132],
+      [0.00187647391, 2.07590380082, 522.5774180938],
+      [0.00086792941, 0.71001090609, 419.4846438752],
+      [0.00072062869, 0.21465694745, 536.8045120954],
+      [0.00065517227, 5.97995850843, 316.3918696566],
+      [0.0002913462, 1.6775924371, 103.0927742186],
+      [0.00030135275, 2.16132058449, 949.1756089698],
+      [0.00023453209, 3.54023147303, 735.8765135318],
+      [0.0002228371, 4.19362773546, 1589.0728952838],
+      [0.0002394734, 0.27457854894, 7.1135470008],
+      [0.000130326, 2.96043055741, 1162.4747044078],
+      [0.00009703346, 1.90669572402, 206.1855484372],
+      [0.00012749004, 2.71550102862, 1052.2683831884],
+      [0.00009161431, 4.41352618935, 213.299095438],
+      [0.00007894539, 2.47907551404, 426.598190876],
+      [0.00007057978, 2.18184753111, 1265.5674786264],
+      [0.00006137755, 6.26417542514, 846.0828347512],
+      [0.00005477093, 5.65729325169, 639.897286314],
+      [0.00003502519, 0.56531297394, 1066.49547719],
+      [0.0000413689, 2.72219979684, 625.6701923124],
+      [0.00004170012, 2.01605033912, 515.463871093],
+      [0.00002499966, 4.55182055941, 838.9692877504],
+      [0.00002616955, 2.00993967129, 1581.959348283],
+      [0.00001911876, 0.85621927419, 412.3710968744],
+      [0.00002127644, 6.1275146175, 742.9900605326],
+      [0.00001610549, 3.08867789275, 1368.660252845],
+      [0.00001479484, 2.68026191372, 1478.8665740644],
+      [0.00001230708, 1.89042979701, 323.5054166574],
+      [0.0000121681, 1.80171561024, 110.2063212194],
+      [0.00000961072, 4.54876989805, 2118.7638603784],
+      [0.00000885708, 4.14785948471, 533.6231183577],
+      [0.000007767, 3.6769695469, 728.762966531],
+      [0.00000998579, 2.8720894011, 309.2783226558],
+      [0.00001014959, 1.38673237666, 454.9093665273],
+      [0.00000727162, 3.98824686402, 1155.361157407],
+      [0.00000655289, 2.79065604219, 1685.0521225016],
+      [0.00000821465, 1.59342534396, 1898.3512179396],
+      [0.00000620798, 4.82284338962, 956.2891559706],
+      [0.00000653981, 3.38150775269, 1692.1656695024],
+      [0.00000812036, 5.94091899141, 909.8187330546],
+      [0.0000056212, 0.08095987241, 543.9180590962],
+      [0.00000542221, 0.28360266386, 525.7588118315],
+      [0.00000614784, 2.27624915604, 942.062061969],
+    ],
+    [
+      [0.01271801596, 2.64937511122, 529.6909650946],
+      [0.00061661771, 3.00076251018, 1059.3819301892],
+      [0.00053443592, 3.89717644226, 522.5774180938],
+      [0.00031185167, 4.88276663526, 536.8045120954],
+      [0.00041390257, 0, 0],
+      [0.0001184719, 2.41329588176, 419.4846438752],
+      [0.0000916636, 4.75979408587, 7.1135470008],
+    ],
+    [
+      [0.00079644833, 1.35865896596, 529.6909650946],
+    ],
+  ],
+}
+
+export const SATURN: VsopBody = {
+  L: [
+    [
+      [0.87401354029, 0, 0],
+      [0.1110765978, 3.96205090194, 213.299095438],
+      [0.01414150958, 4.58581515873, 7.1135470008],
+      [0.00398379386, 0.52112025957, 206.1855484372],
+      [0.00350769223, 3.30329903015, 426.598190876],
+      [0.00206816296, 0.24658366938, 103.0927742186],
+      [0.00079271288, 3.8400707853, 220.4126424388],
+      [0.00023990338, 4.6697693486, 110.2063212194],
+      [0.00016573583, 0.43719123541, 419.4846438752],
+      [0.00014906995, 5.76903283845, 316.3918696566],
+      [0.000158203, 0.9380895376, 632.7837393132],
+      [0.00014609562, 1.56518573691, 3.9321532631],
+      [0.00013160308, 4.44891180176, 14.2270940016],
+      [0.00015053509, 2.71670027883, 639.897286314],
+      [0.00013005305, 5.98119067061, 11.0457002639],
+      [0.00010725066, 3.12939596466, 202.2533951741],
+      [0.00005863207, 0.23657028777, 529.6909650946],
+      [0.00005227771, 4.2078316238, 3.1813937377],
+      [0.00006126308, 1.76328499656, 277.0349937414],
+      [0.00005019658, 3.17787919533, 433.7117378768],
+      [0.00004592541, 0.61976424374, 199.0720014364],
+      [0.00004005862, 2.24479893937, 63.7358983034],
+      [0.00002953815, 0.98280385206, 95.9792272178],
+      [0.00003873696, 3.22282692566, 138.5174968707],
+      [0.00002461172, 2.03163631205, 735.8765135318],
+      [0.0000326949, 0.77491895787, 949.1756089698],
+      [0.00001758143, 3.26580514774, 522.5774180938],
+      [0.00001640183, 5.50504966218, 846.0828347512],
+      [0.00001391336, 4.02331978116, 323.5054166574],
+      [0.00001580641, 4.3726631412, 309.2783226558],
+      [0.00001123515, 2.83726793572, 415.5524906121],
+      [0.00001017258, 3.71698151814, 227.5261894396],
+      [0.00000848643, 3.19149825839, 209.3669421749],
+      [0.00001087237, 4.18343232481, 2.4476805548],
+      [0.00000956752, 0.50740889886, 1265.5674786264],
+      [0.00000789205, 5.00745123149, 0.9632078465],
+      [0.00000686965, 1.74714407827, 1052.2683831884],
+      [0.0000065447, 1.59889331515, 0.0481841098],
+      [0.00000748811, 2.14398149298, 853.196381752],
+      [0.0000063398, 2.29889903023, 412.3710968744],
+      [0.00000743584, 5.25276954625, 224.3447957019],
+      [0.00000852677, 3.42141350697, 175.1660598002],
+      [0.00000579857, 3.09259007048, 74.7815985673],
+      [0.00000624904, 0.97046831256, 210.1177017003],
+      [0.00000529861, 4.44938897119, 117.3198682202],
+      [0.00000542643, 1.51824320514, 9.5612275556],
+      [0.00000474279, 5.47527185987, 742.9900605326],
+      [0.00000448542, 1.28990416161, 127.4717966068],
+      [0.00000546358, 2.12678554211, 350.3321196004],
+      [0.00000478054, 2.96488054338, 137.0330241624],
+      [0.00000354944, 3.0128648303, 838.9692877504],
+      [0.00000451827, 1.04436664241, 490.3340891794],
+      [0.00000347413, 1.53928227764, 340.7708920448],
+      [0.00000343475, 0.24604039134, 0.5212648618],
+      [0.00000309001, 3.49486734909, 216.4804891757],
+      [0.00000322185, 0.96137456104, 203.7378678824],
+      [0.00000372308, 2.27819108625, 217.2312487011],
+      [0.00000321543, 2.57182354537, 647.0108333148],
+      [0.00000330196, 0.24715617844, 1581.959348283],
+      [0.00000249116, 1.47010534421, 1368.660252845],
+      [0.00000286688, 2.37043745859, 351.8165923087],
+      [0.00000220225, 4.20422424873, 200.7689224658],
+      [0.00000277775, 0.40020408926, 211.8146227297],
+      [0.000002045, 6.010822066, 265.9892934775],
+      [0.00000207663, 0.48349820488, 1162.4747044078],
+      [0.00000208655, 1.34516255304, 625.6701923124],
+      [0.00000182454, 5.49122292426, 2.9207613068],
+      [0.00000226609, 4.91003163138, 12.5301729722],
+      [0.00000207659, 1.283022189, 39.3568759152],
+      [0.00000173914, 1.86305806814, 0.7507595254],
+      [0.0000018469, 3.50344404958, 149.5631971346],
+      [0.00000183511, 0.97254952728, 4.192785694],
+      [0.00000146068, 6.23102544071, 195.1398481733],
+      [0.00000164541, 0.4400551752, 5.4166259714],
+      [0.00000147526, 1.53529320509, 5.6290742925],
+      [0.00000139666, 4.29450260069, 21.3406410024],
+      [0.00000131283, 4.06828961903, 10.2949407385],
+      [0.00000117283, 2.67920400584, 1155.361157407],
+      [0.00000149299, 5.73594349789, 52.6901980395],
+      [0.00000122373, 1.97588777199, 4.665866446],
+      [0.00000113747, 5.59427544714, 1059.3819301892],
+      [0.00000102702, 1.19748124058, 1685.0521225016],
+      [0.00000118156, 5.340729339, 554.0699874828],
+      [0.00000109275, 3.43812715686, 536.8045120954],
+      [0.00000110399, 0.1660402409, 1.4844727083],
+      [0.00000124969, 6.27737805832, 1898.3512179396],
+      [0.00000103956, 2.19210363069, 88.865680217],
+      [0.00000112437, 1.10502663534, 191.2076949102],
+      [0.0000010657, 4.01156608514, 956.2891559706],
+      [0.00000100631, 4.96513666539, 269.9214467406],
+    ],
+    [
+      [213.54295595986, 0, 0],
+      [0.01296855005, 1.82820544701, 213.299095438],
+      [0.00564347566, 2.88500136429, 7.1135470008],
+      [0.0009832303, 1.08070061328, 426.598190876],
+      [0.0010767877, 2.27769911872, 206.1855484372],
+      [0.00040254586, 2.0412825709, 220.4126424388],
+      [0.00019941734, 1.27954662736, 103.0927742186],
+      [0.00010511706, 2.748803928, 14.2270940016],
+      [0.00006939233, 0.40493079985, 639.897286314],
+      [0.00004803325, 2.44194097666, 419.4846438752],
+      [0.00004056325, 2.92166618776, 110.2063212194],
+      [0.0000376863, 3.6496563146, 3.9321532631],
+      [0.00003384684, 2.41694251653, 3.1813937377],
+      [0.000033022, 1.26256486715, 433.7117378768],
+      [0.00003071382, 2.3273931775, 199.0720014364],
+      [0.00001953036, 3.563946833, 11.0457002639],
+      [0.00001249348, 2.62803737519, 95.9792272178],
+    ],
+    [
+      [0.00116441181, 1.17987850633, 7.1135470008],
+      [0.00091920844, 0.07425261094, 213.299095438],
+      [0.00090592251, 0, 0],
+      [0.00015276909, 4.06492007503, 206.1855484372],
+      [0.00010631396, 0.25778277414, 220.4126424388],
+      [0.00010604979, 5.40963595885, 426.598190876],
+    ],
+  ],
+  B: [
+    [
+      [0.0433067804, 3.60284428399, 213.299095438],
+      [0.00240348303, 2.8523848939, 426.598190876],
+      [0.00084745939, 0, 0],
+      [0.00030863357, 3.48441504465, 220.4126424388],
+      [0.00034116063, 0.57297307844, 206.1855484372],
+      [0.0001473407, 2.1184659787, 639.897286314],
+      [0.00009916668, 5.79003189405, 419.4846438752],
+      [0.00006993564, 4.73604689179, 7.1135470008],
+      [0.00004807587, 5.43305315602, 316.3918696566],
+      [0.00004788392, 4.9651292742, 110.2063212194],
+      [0.00003432125, 2.73255752123, 433.7117378768],
+      [0.00001506129, 6.01304536144, 103.0927742186],
+      [0.00001060298, 5.63099292414, 529.6909650946],
+      [0.00000969071, 5.20434966103, 632.7837393132],
+      [0.0000094205, 1.39646678088, 853.196381752],
+      [0.00000707645, 3.80302329547, 323.5054166574],
+      [0.00000552313, 5.13149109045, 202.2533951741],
+      [0.00000399675, 3.35891413961, 227.5261894396],
+      [0.00000316063, 1.99716764199, 647.0108333148],
+      [0.0000031938, 3.6257155098, 209.3669421749],
+      [0.00000284494, 4.88648481625, 224.3447957019],
+      [0.00000314225, 0.4651027241, 217.2312487011],
+      [0.00000236442, 2.13887472281, 11.0457002639],
+      [0.00000215354, 5.94982610103, 846.0828347512],
+      [0.00000208522, 2.12003893769, 415.5524906121],
+      [0.00000178958, 2.95361514672, 63.7358983034],
+      [0.00000207213, 0.73021462851, 199.0720014364],
+      [0.0000013914, 1.9982199094, 735.8765135318],
+      [0.00000134884, 5.24500819605, 742.9900605326],
+      [0.00000140585, 0.64417620299, 490.3340891794],
+      [0.00000121669, 3.11537140876, 522.5774180938],
+      [0.0000013924, 4.59535168021, 14.2270940016],
+      [0.00000115524, 3.10891547171, 216.4804891757],
+      [0.00000114218, 0.96261442133, 210.1177017003],
+    ],
+    [
+      [0.00397554998, 5.33289992556, 213.299095438],
+      [0.00049478641, 3.14159265359, 0],
+      [0.00018571607, 6.09919206378, 426.598190876],
+      [0.00014800587, 2.3058606052, 206.1855484372],
+      [0.00009643981, 1.6967466012, 220.4126424388],
+      [0.00003757161, 1.25429514018, 419.4846438752],
+      [0.00002716647, 5.91166664787, 639.897286314],
+      [0.00001455309, 0.85161616532, 433.7117378768],
+      [0.00001290595, 2.9177085709, 7.1135470008],
+    ],
+    [
+      [0.00020629977, 0.50482422817, 213.299095438],
+    ],
+  ],
+  R: [
+    [
+      [9.55758135801, 0, 0],
+      [0.52921382465, 2.39226219733, 213.299095438],
+      [0.01873679934, 5.23549605091, 206.1855484372],
+      [0.01464663959, 1.64763045468, 426.598190876],
+      [0.00821891059, 5.93520025371, 316.3918696566],
+      [0.00547506899, 5.01532628454, 103.0927742186],
+      [0.00371684449, 2.27114833428, 220.4126424388],
+      [0.00361778433, 3.13904303264, 7.1135470008],
+      [0.00140617548, 5.70406652991, 632.7837393132],
+      [0.00108974737, 3.29313595577, 110.2063212194],
+      [0.00069007015, 5.94099622447, 419.4846438752],
+      [0.0006105335, 0.94037761156, 639.897286314],
+      [0.00048913044, 1.55733388472, 202.2533951741],
+      [0.00034143794, 0.19518550682, 277.0349937414],
+      [0.00032401718, 5.47084606947, 949.1756089698],
+      [0.00020936573, 0.46349163993, 735.8765135318],
+      [0.00020839118, 1.5210259064, 433.7117378768],
+      [0.00020746678, 5.33255667599, 199.0720014364],
+      [0.00015298457, 3.05943652881, 529.6909650946],
+      [0.00014296479, 2.60433537909, 323.5054166574],
+      [0.00011993314, 5.98051421881, 846.0828347512],
+      [0.00011380261, 1.73105746566, 522.5774180938],
+      [0.00012884128, 1.64892310393, 138.5174968707],
+      [0.00007752769, 5.85191318903, 95.9792272178],
+      [0.00009796061, 5.20475863996, 1265.5674786264],
+      [0.00006465967, 0.17733160145, 1052.2683831884],
+      [0.00006770621, 3.00433479284, 14.2270940016],
+      [0.00005850443, 1.45519636076, 415.5524906121],
+      [0.00005307481, 0.5973753405, 63.7358983034],
+      [0.00004695746, 2.14919036956, 227.5261894396],
+      [0.00004043988, 1.64010323863, 209.3669421749],
+      [0.00003688132, 0.7801613317, 412.3710968744],
+      [0.00003376457, 3.69528478828, 224.3447957019],
+      [0.00002885348, 1.38764077631, 838.9692877504],
+      [0.00002976033, 5.68467931117, 210.1177017003],
+      [0.00003419551, 4.94549148887, 1581.959348283],
+      [0.00003460943, 1.85088802878, 175.1660598002],
+      [0.00003400616, 0.55386747515, 350.3321196004],
+      [0.0000250763, 3.53851863255, 742.9900605326],
+      [0.00002448325, 6.18412386316, 1368.660252845],
+      [0.00002406138, 2.96559220267, 117.3198682202],
+      [0.00002881181, 0.17960757891, 853.196381752],
+      [0.00002173959, 0.01508587396, 340.7708920448],
+      [0.00002024483, 5.05411271271, 11.0457002639],
+      [0.00001740254, 2.34657043464, 309.2783226558],
+      [0.00001861397, 5.93361638244, 625.6701923124],
+      [0.00001888436, 0.02968443389, 3.9321532631],
+      [0.00001610859, 1.17302463549, 74.7815985673],
+      [0.00001462631, 1.92588134017, 216.4804891757],
+      [0.00001474547, 5.6767046113, 203.7378678824],
+      [0.00001395109, 5.93669404929, 127.4717966068],
+      [0.00001781165, 0.76314388077, 217.2312487011],
+      [0.00001817186, 5.77713225779, 490.3340891794],
+      [0.00001472392, 1.40064915651, 137.0330241624],
+      [0.00001304089, 0.77235613966, 647.0108333148],
+      [0.00001149773, 5.74021249703, 1162.4747044078],
+      [0.00001126667, 4.46707803791, 265.9892934775],
+      [0.00001277489, 2.98412586423, 1059.3819301892],
+      [0.00001207053, 0.7528593316, 351.8165923087],
+      [0.00001071399, 1.13567265104, 1155.361157407],
+      [0.00001020922, 5.91233512844, 1685.0521225016],
+      [0.00001315042, 5.11202572637, 211.8146227297],
+      [0.00001295553, 4.69184139933, 1898.3512179396],
+      [0.00001099037, 1.81765118601, 149.5631971346],
+      [0.00000998462, 2.63131596867, 200.7689224658],
+      [0.00000985869, 2.25992849742, 956.2891559706],
+    ],
+    [
+      [0.06182981282, 0.25843515034, 213.299095438],
+      [0.00506577574, 0.71114650941, 206.1855484372],
+      [0.00341394136, 5.7963577396, 426.598190876],
+      [0.00188491375, 0.47215719444, 220.4126424388],
+      [0.0018626154, 3.14159265359, 0],
+      [0.00143891176, 1.40744864239, 7.1135470008],
+      [0.00049621111, 6.0174446958, 103.0927742186],
+      [0.00020928189, 5.0924565447, 639.897286314],
+      [0.00019952612, 1.17560125007, 419.4846438752],
+      [0.00018839639, 1.60819563173, 110.2063212194],
+      [0.00012892827, 5.94330258435, 433.7117378768],
+      [0.00013876565, 0.75886204364, 199.0720014364],
+    ],
+    [
+      [0.00436902464, 4.78671673044, 213.299095438],
+    ],
+  ],
+}
+
+export const URANUS: VsopBody = {
+  L: [
+    [
+      [5.48129294299, 0, 0],
+      [0.09260408252, 0.8910642153, 74.7815985673],
+      [0.01504247826, 3.62719262195, 1.4844727083],
+      [0.00365981718, 1.89962189068, 73.297125859],
+      [0.00272328132, 3.35823710524, 149.5631971346],
+      [0.00070328499, 5.39254431993, 63.7358983034],
+      [0.00068892609, 6.09292489045, 76.2660712756],
+      [0.00061998592, 2.26952040469, 2.9689454166],
+      [0.00061950714, 2.85098907565, 11.0457002639],
+      [0.00026468869, 3.14152087888, 71.8126531507],
+      [0.00025710505, 6.11379842935, 454.9093665273],
+      [0.00021078897, 4.36059465144, 148.0787244263],
+      [0.00017818665, 1.74436982544, 36.6485629295],
+      [0.00014613471, 4.73732047977, 3.9321532631],
+      [0.00011162535, 5.82681993692, 224.3447957019],
+      [0.00010997934, 0.48865493179, 138.5174968707],
+      [0.00009527487, 2.95516893093, 35.1640902212],
+      [0.00007545543, 5.23626440666, 109.9456887885],
+      [0.0000422017, 3.23328535514, 70.8494453042],
+      [0.0000405185, 2.27754158724, 151.0476698429],
+      [0.00003354607, 1.06549008887, 4.4534181249],
+      [0.00002926671, 4.62903695486, 9.5612275556],
+      [0.00003490352, 5.48305567292, 146.594251718],
+      [0.00003144093, 4.75199307603, 77.7505439839],
+      [0.0000292241, 5.3523674338, 85.8272988312],
+      [0.0000227279, 4.36600802756, 70.3281804424],
+      [0.00002051209, 1.51773563459, 0.1118745846],
+      [0.00002148599, 0.60745800902, 38.1330356378],
+      [0.00001991726, 4.92437290826, 277.0349937414],
+      [0.00001376208, 2.04281409054, 65.2203710117],
+      [0.0000166691, 3.62744580852, 380.12776796],
+      [0.00001284183, 3.11346336879, 202.2533951741],
+      [0.00001150416, 0.93344454002, 3.1813937377],
+      [0.00001533223, 2.58593414266, 52.6901980395],
+      [0.00001281641, 0.54269869505, 222.8603229936],
+      [0.000013721, 4.19641615561, 111.4301614968],
+      [0.00001220998, 0.19901396193, 108.4612160802],
+      [0.00000946195, 1.19249463066, 127.4717966068],
+      [0.00001150993, 4.17898207045, 33.6796175129],
+      [0.00001244342, 0.91612680579, 2.4476805548],
+      [0.00001072008, 0.23564502877, 62.2514255951],
+      [0.00001090461, 1.77501638912, 12.5301729722],
+      [0.00000707875, 5.18285226584, 213.299095438],
+      [0.00000653401, 0.96586909116, 78.7137518304],
+      [0.00000627562, 0.18210181975, 984.6003316219],
+      [0.00000524495, 2.01276706996, 299.1263942692],
+      [0.0000055937, 3.35776737704, 0.5212648618],
+      [0.00000606827, 5.43209728952, 529.6909650946],
+      [0.00000404891, 5.98689011389, 8.0767548473],
+      [0.00000467211, 0.41484068933, 145.1097790097],
+      [0.00000471288, 1.40664336447, 184.7272873558],
+      [0.00000483219, 2.10553990154, 0.9632078465],
+      [0.00000395614, 5.87039580949, 351.8165923087],
+      [0.00000433532, 5.52142978255, 183.2428146475],
+      [0.00000309885, 5.83301304674, 145.6310438715],
+      [0.00000378609, 2.34975805006, 56.6223513026],
+      [0.00000398996, 0.33810765436, 415.5524906121],
+      [0.00000300379, 5.64353974146, 22.0914005278],
+      [0.00000249229, 4.74617120584, 225.8292684102],
+      [0.00000239334, 2.35045874708, 137.0330241624],
+      [0.00000294172, 5.83916826225, 39.6175083461],
+      [0.0000021648, 4.77847481363, 340.7708920448],
+      [0.00000251792, 1.63696775578, 221.3758502853],
+      [0.00000219621, 1.92212987979, 67.6680515665],
+      [0.00000201963, 1.29693040865, 0.0481841098],
+      [0.00000224097, 0.51574863468, 84.3428261229],
+      [0.00000216549, 6.14211862702, 5.9378908332],
+      [0.00000222588, 2.84309380331, 0.2606324309],
+      [0.00000207828, 5.5802057004, 68.8437077341],
+      [0.00000187474, 1.31924326253, 0.1600586944],
+      [0.00000158028, 0.73811997211, 54.1746707478],
+      [0.00000199146, 0.9563415501, 152.5321425512],
+      [0.00000168648, 5.87874000882, 18.1592472647],
+      [0.000001703, 3.67717520688, 5.4166259714],
+      [0.00000193652, 1.88800122606, 456.3938392356],
+      [0.00000192998, 0.91616058506, 453.424893819],
+      [0.00000181934, 3.53624029238, 79.2350166922],
+      [0.00000173145, 1.53860728054, 160.6088973985],
+      [0.00000164588, 1.42379714838, 106.9767433719],
+      [0.00000171968, 5.67952685533, 219.891377577],
+      [0.00000162792, 3.05029377666, 112.9146342051],
+      [0.00000146653, 1.26300172265, 59.8037450403],
+      [0.00000139453, 5.385977234, 32.1951448046],
+      [0.00000138585, 4.25994786673, 909.8187330546],
+      [0.00000143058, 1.29995487555, 35.4247226521],
+      [0.0000012384, 1.37359990336, 7.1135470008],
+      [0.00000104414, 5.02820888813, 0.7507595254],
+      [0.00000103277, 0.68095301267, 14.977853527],
+      [0.00000110163, 2.02685778976, 554.0699874828],
+      [0.00000109376, 5.70581833286, 77.962992305],
+      [0.00000103562, 1.45770270246, 24.3790223882],
+    ],
+    [
+      [75.02543121646, 0, 0],
+      [0.00154458244, 5.24201658072, 74.7815985673],
+      [0.00024456413, 1.71255705309, 1.4844727083],
+      [0.00009257828, 0.42844639064, 11.0457002639],
+      [0.00008265977, 1.5022003511, 63.7358983034],
+      [0.00007841715, 1.31983607251, 149.5631971346],
+      [0.00003899105, 0.46483574024, 3.9321532631],
+      [0.00002283777, 4.17367533997, 76.2660712756],
+      [0.000019266, 0.53013080152, 2.9689454166],
+      [0.00001232727, 1.58634458237, 70.8494453042],
+    ],
+    [
+      [0.00053033277, 0, 0],
+    ],
+  ],
+  B: [
+    [
+      [0.01346277639, 2.61877810545, 74.7815985673],
+      [0.00062341405, 5.08111175856, 149.5631971346],
+      [0.00061601203, 3.14159265359, 0],
+      [0.00009963744, 1.61603876357, 76.2660712756],
+      [0.00009926151, 0.57630387917, 73.297125859],
+      [0.00003259455, 1.2611938596, 224.3447957019],
+      [0.00002972318, 2.24367035538, 1.4844727083],
+      [0.00002010257, 6.05550401088, 148.0787244263],
+      [0.00001522172, 0.27960386377, 63.7358983034],
+      [0.00000924055, 4.03822927853, 151.0476698429],
+      [0.00000760624, 6.14000431923, 71.8126531507],
+      [0.00000420265, 5.21279984788, 11.0457002639],
+      [0.00000430668, 3.55445034854, 213.299095438],
+      [0.00000436843, 3.38082524317, 529.6909650946],
+      [0.00000522309, 3.3208519477, 138.5174968707],
+      [0.00000434625, 0.34065281858, 77.7505439839],
+      [0.0000046263, 0.74256727574, 85.8272988312],
+      [0.00000232649, 2.25716421383, 222.8603229936],
+      [0.00000215838, 1.5912170494, 38.1330356378],
+      [0.00000244698, 0.78795150326, 2.9689454166],
+      [0.00000179935, 3.72487952673, 299.1263942692],
+      [0.00000174895, 1.23550262213, 146.594251718],
+      [0.00000173667, 1.93654269131, 380.12776796],
+      [0.00000160368, 5.33635436463, 111.4301614968],
+      [0.00000144064, 5.96239326415, 35.1640902212],
+      [0.00000102049, 2.61876256513, 78.7137518304],
+      [0.00000116363, 5.73877190007, 70.8494453042],
+      [0.00000106441, 0.94103112994, 70.3281804424],
+    ],
+    [
+      [0.00206366162, 4.12394311407, 74.7815985673],
+      [0.0000856323, 0.33819986165, 149.5631971346],
+      [0.00001725703, 2.12193159895, 73.297125859],
+      [0.0000136886, 3.06861722047, 76.2660712756],
+      [0.00001374449, 0, 0],
+    ],
+  ],
+  R: [
+    [
+      [19.21264847881, 0, 0],
+      [0.88784984055, 5.60377526994, 74.7815985673],
+      [0.03440835545, 0.32836098991, 73.297125859],
+      [0.02055653495, 1.78295170028, 149.5631971346],
+      [0.00649321851, 4.52247298119, 76.2660712756],
+      [0.00602248144, 3.86003820462, 63.7358983034],
+      [0.00496404171, 1.40139934716, 454.9093665273],
+      [0.00338525522, 1.58002682946, 138.5174968707],
+      [0.00243508222, 1.57086595074, 71.8126531507],
+      [0.00190521915, 1.99809364502, 1.4844727083],
+      [0.00161858251, 2.79137863469, 148.0787244263],
+      [0.00143705902, 1.38368574483, 11.0457002639],
+      [0.00093192359, 0.17437193645, 36.6485629295],
+      [0.00071424265, 4.24509327405, 224.3447957019],
+      [0.00089805842, 3.66105366329, 109.9456887885],
+      [0.00039009624, 1.66971128869, 70.8494453042],
+      [0.00046677322, 1.39976563936, 35.1640902212],
+      [0.00039025681, 3.36234710692, 277.0349937414],
+      [0.0003675516, 3.88648934736, 146.594251718],
+      [0.00030348875, 0.70100446346, 151.0476698429],
+      [0.00029156264, 3.18056174556, 77.7505439839],
+      [0.00020471584, 1.555889615, 202.2533951741],
+      [0.0002562036, 5.25656292802, 380.12776796],
+      [0.00025785805, 3.78537741503, 85.8272988312],
+      [0.00022637152, 0.72519137745, 529.6909650946],
+      [0.00020473163, 2.79639811626, 70.3281804424],
+      [0.00017900561, 0.55455488605, 2.9689454166],
+      [0.00012328151, 5.96039150918, 127.4717966068],
+      [0.00014701566, 4.90434406648, 108.4612160802],
+      [0.00011494701, 0.43774027872, 65.2203710117],
+      [0.00015502809, 5.35405037603, 38.1330356378],
+      [0.00010792699, 1.42104858472, 213.299095438],
+      [0.00011696085, 3.29825599114, 3.9321532631],
+      [0.00011959355, 1.75044072173, 984.6003316219],
+      [0.00012896507, 2.62154018241, 111.4301614968],
+      [0.00011852996, 0.99342814582, 52.6901980395],
+      [0.00009111446, 4.99638600045, 62.2514255951],
+      [0.0000842055, 5.25350716616, 222.8603229936],
+      [0.00007449125, 0.79491905956, 351.8165923087],
+      [0.00008402147, 5.03877516489, 415.5524906121],
+      [0.0000604637, 5.67960948357, 78.7137518304],
+      [0.00005524133, 3.11499484161, 9.5612275556],
+      [0.00007329454, 3.9727752784, 183.2428146475],
+      [0.00005444878, 5.10575635361, 145.1097790097],
+      [0.00005238103, 2.62960141797, 33.6796175129],
+      [0.00004079167, 3.22064788674, 340.7708920448],
+      [0.00003801606, 6.10985558505, 184.7272873558],
+      [0.00003919476, 4.25015288873, 39.6175083461],
+      [0.00002940492, 2.14637460319, 137.0330241624],
+      [0.00003781219, 3.45840272873, 456.3938392356],
+      [0.00002942239, 0.42393808854, 299.1263942692],
+      [0.00003686787, 2.48718116535, 453.424893819],
+      [0.00003101743, 4.14031063896, 219.891377577],
+      [0.00002962641, 0.82977991995, 56.6223513026],
+      [0.00002937799, 3.6765745093, 140.001969579],
+      [0.00002865128, 0.30996903761, 12.5301729722],
+      [0.00002538032, 4.85457831993, 131.4039498699],
+      [0.0000196251, 5.24342224065, 84.3428261229],
+      [0.0000236355, 0.44253328372, 554.0699874828],
+      [0.00001979394, 6.12836181686, 106.9767433719],
+      [0.00002182572, 2.94040431638, 305.3461693927],
+      [0.00001962974, 0.0411473912, 221.3758502853],
+    ],
+    [
+      [0.0147989637, 3.67205705317, 74.7815985673],
+      [0.00071212085, 6.22601006675, 63.7358983034],
+      [0.00068626972, 6.13411265052, 149.5631971346],
+      [0.00020857262, 5.24625494219, 11.0457002639],
+      [0.00021468152, 2.6017670427, 76.2660712756],
+      [0.00024059649, 3.14159265359, 0],
+    ],
+  ],
+}
+
+export const NEPTUNE: VsopBody = {
+  L: [
+    [
+      [5.31188633047, 0, 0],
+      [0.01798475509, 2.9010127305, 38.1330356378],
+      [0.01019727662, 0.4858092366, 1.4844727083],
+      [0.00124531845, 4.83008090682, 36.6485629295],
+      [0.0004206445, 5.41054991607, 2.9689454166],
+      [0.00037714589, 6.09221834946, 35.1640902212],
+      [0.00033784734, 1.24488865578, 76.2660712756],
+      [0.00016482741, 0.00007729261, 491.5579294568],
+      [0.00009198582, 4.93747059924, 39.6175083461],
+      [0.00008994249, 0.27462142569, 175.1660598002],
+      [0.00004216235, 1.98711914364, 73.297125859],
+      [0.00003364818, 1.03590121818, 33.6796175129],
+      [0.000022848, 4.20606932559, 4.4534181249],
+      [0.00001433512, 2.78340432711, 74.7815985673],
+      [0.0000090024, 2.07606702418, 109.9456887885],
+      [0.00000744996, 3.19032530145, 71.8126531507],
+      [0.00000506206, 5.74785370252, 114.3991069134],
+      [0.00000399552, 0.34972342569, 1021.2488945514],
+      [0.00000345195, 3.46186210169, 41.1019810544],
+      [0.00000306338, 0.49684039897, 0.5212648618],
+      [0.00000287322, 4.50523446022, 0.0481841098],
+      [0.00000323004, 2.24815188609, 32.1951448046],
+      [0.00000340323, 3.30369900416, 77.7505439839],
+      [0.00000266605, 4.88932609483, 0.9632078465],
+      [0.00000227079, 1.79713054538, 453.424893819],
+      [0.00000244722, 1.24693337933, 9.5612275556],
+      [0.00000232887, 2.50459795017, 137.0330241624],
+      [0.0000028217, 2.24565579693, 146.594251718],
+      [0.00000251941, 5.78166597292, 388.4651552382],
+      [0.0000015018, 2.99706110414, 5.9378908332],
+      [0.00000170404, 3.3239063065, 108.4612160802],
+      [0.00000151401, 2.1915309428, 33.9402499438],
+      [0.00000148295, 0.85948986145, 111.4301614968],
+      [0.00000118672, 3.67706204305, 2.4476805548],
+      [0.00000101821, 5.70539236951, 0.1118745846],
+      [0.00000103054, 4.40441222, 70.3281804424],
+      [0.00000103305, 0.04078966679, 0.2606324309],
+      [0.000001093, 2.41599378049, 183.2428146475],
+    ],
+    [
+      [38.37687716731, 0, 0],
+      [0.00016604187, 4.86319129565, 1.4844727083],
+      [0.00015807148, 2.27923488532, 38.1330356378],
+      [0.00003334701, 3.6819967602, 76.2660712756],
+      [0.0000130584, 3.67320813491, 2.9689454166],
+    ],
+    [
+      [0.00053892649, 0, 0],
+    ],
+  ],
+  B: [
+    [
+      [0.03088622933, 1.44104372626, 38.1330356378],
+      [0.00027780087, 5.91271882843, 76.2660712756],
+      [0.00027623609, 0, 0],
+      [0.0001535549, 2.52123799481, 36.6485629295],
+      [0.00015448133, 3.50877080888, 39.6175083461],
+      [0.00001999919, 1.50998669505, 74.7815985673],
+      [0.0000196754, 4.37778195768, 1.4844727083],
+      [0.00001015137, 3.21561035875, 35.1640902212],
+      [0.00000605767, 2.80246601405, 73.297125859],
+      [0.00000594878, 2.12892708114, 41.1019810544],
+      [0.00000588805, 3.18655882497, 2.9689454166],
+      [0.0000040183, 4.16883287237, 114.3991069134],
+      [0.00000254333, 3.27120499438, 453.424893819],
+      [0.00000261647, 3.76722704749, 213.299095438],
+      [0.00000279964, 1.68165309699, 77.7505439839],
+      [0.0000020559, 4.25652348864, 529.6909650946],
+      [0.00000140455, 3.52969556376, 137.0330241624],
+    ],
+    [
+      [0.00227279214, 3.8079308987, 38.1330356378],
+      [0.0000180312, 1.97576485377, 76.2660712756],
+      [0.00001385733, 4.82555548018, 36.6485629295],
+      [0.000014333, 3.14159265359, 0],
+      [0.00001073298, 6.08054240712, 39.6175083461],
+    ],
+  ],
+  R: [
+    [
+      [30.07013206102, 0, 0],
+      [0.2706225949, 1.3299945893, 38.1330356378],
+      [0.01691764281, 3.25186138896, 36.6485629295],
+      [0.00807830737, 5.18592836167, 1.4844727083],
+      [0.00537760613, 4.52113902845, 35.1640902212],
+      [0.00495725642, 1.57105654815, 491.5579294568],
+      [0.0027457197, 1.84552256801, 175.1660598002],
+      [0.00135134095, 3.37220607384, 39.6175083461],
+      [0.00121801825, 5.79754444303, 76.2660712756],
+      [0.00100895397, 0.37702748681, 73.297125859],
+      [0.00069791722, 3.79617226928, 2.9689454166],
+      [0.00046687838, 5.74937810094, 33.6796175129],
+      [0.00024593778, 0.50801728204, 109.9456887885],
+      [0.00016939242, 1.59422166991, 71.8126531507],
+      [0.00014229686, 1.07786112902, 74.7815985673],
+      [0.00012011825, 1.92062131635, 1021.2488945514],
+      [0.00008394731, 0.67816895547, 146.594251718],
+      [0.000075718, 1.07149263431, 388.4651552382],
+      [0.00005720852, 2.59059512267, 4.4534181249],
+      [0.00004839672, 1.9068599107, 41.1019810544],
+      [0.00004483492, 2.90573457534, 529.6909650946],
+      [0.00004270202, 3.41343865825, 453.424893819],
+      [0.0000435379, 0.6798566237, 32.1951448046],
+      [0.00004420804, 1.74993796503, 108.4612160802],
+      [0.0000338093, 0.84810683275, 183.2428146475],
+    ],
+    [
+      [0.00236338502, 0.70498011235, 38.1330356378],
+    ],
+  ],
+}
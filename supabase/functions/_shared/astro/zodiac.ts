@@ -0,0 +1,41 @@
+// Zodiac helpers: sign, degree and minute of an ecliptic longitude
+
+import { ZODIAC_SIGNS } from '../constants.ts'
+import type { Modality, ZodiacSign } from '../types.ts'
+import { normalizeDegrees } from './angles.ts'
+
+export interface ZodiacPosition {
+  sign: ZodiacSign;
+  degree: number;
+  minute: number;
+}
+
+export function signIndex(longitude: number): number {
+  return Math.floor(normalizeDegrees(longitude) / 30) % 12
+}
+
+export function signOf(longitude: number): ZodiacSign {
+  return ZODIAC_SIGNS[signIndex(longitude)] as ZodiacSign
+}
+
+// Signs run cardinal, fixed, mutable from Aries
+export function modalityOf(longitude: number): Modality {
+  return (['cardinal', 'fixed', 'mutable'] as const)[signIndex(longitude) % 3] as Modality
+}
+
+// Split a longitude into sign, whole degrees and whole minutes within the sign
+export function zodiacPosition(longitude: number): ZodiacPosition {
+  const totalMinutes = Math.floor(normalizeDegrees(longitude) * 60)
+  const minutesInSign = totalMinutes % (30 * 60)
+  return {
+    sign: ZODIAC_SIGNS[Math.floor(totalMinutes / (30 * 60)) % 12] as ZodiacSign,
+    degree: Math.floor(minutesInSign / 60),
+    minute: minutesInSign % 60,
+  }
+}
+
+// Format a longitude as it is read in a chart, e.g. 18°39' Leo
+export function formatLongitude(longitude: number): string {
+  const { sign, degree, minute } = zodiacPosition(longitude)
+  return `${degree}°${String(minute).padStart(2, '0')}' ${sign}`
+}
@@ -0,0 +1,172 @@
+// Shared constants for Edge Functions
+
+import type {
+  AspectType,
+  AstroDataType,
+  ContactOrbs,
+  ExportFormat,
+  HouseSystem,
+  InterchangeFormat,
+  Location,
+  OrbModel,
+  Planet,
+  SolarOrbs,
+  TermSystem,
+  VoidOfCourseRule,
+  ZodiacSign,
+} from './types.ts'
+
+export const ZODIAC_SIGNS: readonly ZodiacSign[] = [
+  'Aries', 'Taurus', 'Gemini', 'Cancer',
+  'Leo', 'Virgo', 'Libra', 'Scorpio',
+  'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces',
+]
+
+export const PLANETS: readonly Planet[] = [
+  'Sun', 'Moon', 'Mercury', 'Venus', 'Mars',
+  'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto',
+]
+
+// Same default as the frontend (London)
+export const DEFAULT_LOCATION: Location = {
+  lat: 51.5074,
+  lon: -0.1278,
+  city: 'London',
+  country: 'United Kingdom',
+}
+
+export const HOUSE_SYSTEMS: readonly HouseSystem[] = [
+  'regiomontanus', 'placidus', 'alcabitius', 'whole_sign', 'equal', 'porphyry',
+]
+
+export const HOUSE_SYSTEM_LABELS: Record<HouseSystem, string> = {
+  regiomontanus: 'Regiomontanus',
+  placidus: 'Placidus',
+  alcabitius: 'Alcabitius',
+  whole_sign: 'Whole Sign',
+  equal: 'Equal',
+  porphyry: 'Porphyry',
+}
+
+// Regiomontanus is the traditional choice for horary
+export const DEFAULT_HOUSE_SYSTEM: HouseSystem = 'regiomontanus'
+
+export const TERM_SYSTEMS: readonly TermSystem[] = ['egyptian', 'ptolemaic']
+
+export const DEFAULT_TERM_SYSTEM: TermSystem = 'egyptian'
+
+export const VOID_OF_COURSE_RULES: readonly VoidOfCourseRule[] = ['classical', 'modern']
+
+export const DEFAULT_VOID_OF_COURSE_RULE: VoidOfCourseRule = 'classical'
+
+// Limits on the Lots a user may define in their preferences
+export const MAX_CUSTOM_LOTS = 20
+export const MAX_LOT_NAME_LENGTH = 50
+
+export const ASTRO_DATA_TYPES: readonly AstroDataType[] = ['void_of_course', 'planetary_hours', 'all']
+
+export const INTERCHANGE_FORMATS: readonly InterchangeFormat[] = ['aaf', 'astrolog', 'json']
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['svg', 'png', 'pdf', 'aspectarian', ...INTERCHANGE_FORMATS]
+
+// Most charts a single AAF or Astrolog import may cast
+export const MAX_IMPORTED_CHARTS = 50
+
+// Exact angle of each aspect, in degrees
+export const ASPECT_ANGLES: Record<AspectType, number> = {
+  conjunction: 0,
+  semisextile: 30,
+  semisquare: 45,
+  sextile: 60,
+  square: 90,
+  trine: 120,
+  sesquiquadrate: 135,
+  quincunx: 150,
+  opposition: 180,
+}
+
+// The Ptolemaic aspects, the only ones horary judgement counts toward perfection
+export const MAJOR_ASPECTS: readonly AspectType[] = [
+  'conjunction',
+  'sextile',
+  'square',
+  'trine',
+  'opposition',
+]
+
+// Same orbs as DEFAULT_ASPECT_ORBS in the frontend
+export const DEFAULT_ASPECT_ORBS: Record<AspectType, number> = {
+  conjunction: 8,
+  opposition: 8,
+  trine: 6,
+  square: 6,
+  sextile: 4,
+  quincunx: 3,
+  semisextile: 2,
+  semisquare: 2,
+  sesquiquadrate: 2,
+}
+
+export const ORB_MODELS: readonly OrbModel[] = ['per_aspect', 'moiety', 'within_degree']
+
+export const ORB_MODEL_LABELS: Record<OrbModel, string> = {
+  per_aspect: 'fixed orbs per aspect',
+  moiety: "Lilly's planetary moieties",
+  within_degree: 'within one degree',
+}
+
+export const DEFAULT_ORB_MODEL: OrbModel = 'per_aspect'
+
+// Lilly's orbs of the planets (Christian Astrology); two planets are in orb when within
+// the sum of their moieties, half of each orb. Lilly has no orbs for the outer planets,
+// so they take the 5° modern authors usually give them.
+export const PLANET_ORBS: Record<Planet, number> = {
+  Sun: 17,
+  Moon: 12.5,
+  Mercury: 7,
+  Venus: 8,
+  Mars: 7.5,
+  Jupiter: 12,
+  Saturn: 10,
+  Uranus: 5,
+  Neptune: 5,
+  Pluto: 5,
+}
+
+// The orb of every aspect under the 'within_degree' model
+export const WITHIN_DEGREE_ORB = 1
+
+// Mean geocentric daily motion, in degrees per day
+export const MEAN_DAILY_MOTION: Record<Planet, number> = {
+  Sun: 0.9856,
+  Moon: 13.1764,
+  Mercury: 1.3833,
+  Venus: 1.2,
+  Mars: 0.5242,
+  Jupiter: 0.0831,
+  Saturn: 0.0336,
+  Uranus: 0.0117,
+  Neptune: 0.006,
+  Pluto: 0.004,
+}
+
+// Cazimi within 17', combust within 8°30', under the beams within 17°
+export const DEFAULT_SOLAR_ORBS: SolarOrbs = {
+  cazimi: 17 / 60,
+  combust: 8.5,
+  under_beams: 17,
+}
+
+export const MAX_SOLAR_ORB = 30
+
+// A star or antiscion within a degree is the usual reading; wider orbs are allowed up to 5°
+export const DEFAULT_CONTACT_ORBS: ContactOrbs = {
+  fixed_star: 1,
+  antiscia: 1,
+}
+
+export const MAX_CONTACT_ORB = 5
+
+// Same limits as VALIDATION_RULES in the frontend
+export const MIN_QUESTION_LENGTH = 10
+export const MAX_QUESTION_LENGTH = 500
@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict'
+import { calculateChart } from '../astro/chart.ts'
+import { renderAspectarian } from './aspectarian.ts'
+
+const { chart } = calculateChart(new Date('2024-03-20T03:06:00Z'), { lat: 51.5074, lon: -0.1278, city: 'London' })
+
+Deno.test('renderAspectarian lists every planet and aspect of the chart', () => {
+  const text = renderAspectarian(chart)
+  const lines = text.split('\n')
+
+  assert.equal(lines[0], 'Aspectarian for 2024-03-20T03:06:00.000Z')
+  // One grid row per planet after the first
+  assert.equal(lines[3], '         Sun    Moo    Mer    Ven    Mar    Jup    Sat    Ura    Nep')
+  for (const planet of chart.planets.slice(1)) {
+    assert.ok(lines.slice(4, 13).some(line => line.startsWith(planet.name)), planet.name)
+  }
+  assert.ok(chart.aspects.length > 0)
+  for (const aspect of chart.aspects) {
+    assert.ok(text.includes(`${aspect.planet1} ${aspect.type} ${aspect.planet2} (`), aspect.type)
+  }
+})
+
+Deno.test('renderAspectarian says so when nothing is within orb', () => {
+  assert.ok(renderAspectarian({ ...chart, aspects: [] }).trimEnd().endsWith('None within orb'))
+})
@@ -0,0 +1,66 @@
+// Plain-text aspectarian: the grid of aspects between each pair of planets, then the list in orb order
+
+import { formatLongitude } from '../astro/zodiac.ts'
+import { ORB_MODEL_LABELS } from '../constants.ts'
+import { describeAspect } from '../horary/format.ts'
+import type { Aspect, AspectType, ChartData } from '../types.ts'
+
+const ASPECT_ABBREVIATIONS: Record<AspectType, string> = {
+  conjunction: 'Cnj',
+  opposition: 'Opp',
+  trine: 'Tri',
+  square: 'Sqr',
+  sextile: 'Sxt',
+  quincunx: 'Qcx',
+  semisextile: 'SSx',
+  semisquare: 'SSq',
+  sesquiquadrate: 'Ses',
+}
+
+const NAME_WIDTH = 9
+const CELL_WIDTH = 7
+
+// e.g. "Sqr3a": square, 3 whole degrees from exact, applying
+function cell(aspect: Aspect | undefined): string {
+  if (!aspect) return ''
+  const motion = aspect.applying ? 'a' : aspect.separating ? 's' : ''
+  return `${ASPECT_ABBREVIATIONS[aspect.type]}${Math.floor(aspect.orb)}${motion}`
+}
+
+export function renderAspectarian(chart: ChartData): string {
+  const names = chart.planets.map(p => p.name)
+  const byPair = new Map(chart.aspects.map(a => [`${a.planet1}|${a.planet2}`, a]))
+  const between = (a: string, b: string) => byPair.get(`${a}|${b}`) ?? byPair.get(`${b}|${a}`)
+
+  const header = ' '.repeat(NAME_WIDTH) + names.slice(0, -1).map(n => n.slice(0, 3).padEnd(CELL_WIDTH)).join('')
+  const rows = names.slice(1).map((name, i) =>
+    name.padEnd(NAME_WIDTH) +
+      names.slice(0, i + 1).map(other => cell(between(name, other)).padEnd(CELL_WIDTH)).join('')
+  )
+
+  const positions = chart.planets.map(p =>
+    `${p.name.padEnd(NAME_WIDTH)}${formatLongitude(p.longitude).padEnd(16)}` +
+      `${String(p.house).padStart(2)}${p.retrograde ? '  R' : ''}`
+  )
+  const aspects = chart.aspects.length > 0
+    ? chart.aspects.map(a => describeAspect(a))
+    : ['None within orb']
+
+  return [
+    `Aspectarian for ${chart.timestamp}`,
+    `Orbs: ${ORB_MODEL_LABELS[chart.orb_model]}. Cells read aspect, whole degrees of orb, ` +
+      'a(pplying) or s(eparating).',
+    '',
+    header.trimEnd(),
+    ...rows.map(row => row.trimEnd()),
+    '',
+    'Positions',
+    ...positions,
+    `${'Asc'.padEnd(NAME_WIDTH)}${formatLongitude(chart.ascendant)}`,
+    `${'MC'.padEnd(NAME_WIDTH)}${formatLongitude(chart.midheaven)}`,
+    '',
+    'Aspects, closest first',
+    ...aspects,
+    '',
+  ].join('\n')
+}
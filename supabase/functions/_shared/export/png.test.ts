@@ -0,0 +1,19 @@
+import assert from 'node:assert/strict'
+import { calculateChart } from '../astro/chart.ts'
+import { rasterizeSvg } from './png.ts'
+import { renderWheelSvg } from './wheel.ts'
+
+const { chart } = calculateChart(new Date('2024-03-20T03:06:00Z'), { lat: 51.5074, lon: -0.1278, city: 'London' })
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+Deno.test('rasterizeSvg renders the wheel as a PNG of the requested width', async () => {
+  const png = await rasterizeSvg(renderWheelSvg(chart, 600), 300)
+  assert.deepEqual([...png.subarray(0, 8)], PNG_SIGNATURE)
+
+  // The IHDR chunk comes first and holds the width and height
+  const header = new DataView(png.buffer, png.byteOffset, png.byteLength)
+  assert.equal(new TextDecoder().decode(png.subarray(12, 16)), 'IHDR')
+  assert.equal(header.getUint32(16), 300)
+  assert.equal(header.getUint32(20), 300)
+})
@@ -0,0 +1,40 @@
+// SVG to PNG rasterisation with resvg compiled to WebAssembly, so no browser is needed
+
+import { Resvg, initWasm } from '@resvg/resvg-wasm'
+import { WHEEL_FONT_FAMILY } from './wheel.ts'
+
+// The wasm comes from the same package as the bindings above, so the two cannot drift apart;
+// chart-export/deno.json keeps npm packages in node_modules, where it can be read from disk.
+// The Edge Runtime has no system fonts, hence the wheel's own, bundled with the function
+// (static_files in supabase/config.toml).
+const RESVG_WASM = new URL(import.meta.resolve('@resvg/resvg-wasm/index_bg.wasm'))
+const FONT = new URL('./assets/DejaVuSans.ttf', import.meta.url)
+
+// Run a load at most once per instance; a failed load is retried on the next call
+function once<T>(load: () => Promise<T>): () => Promise<T> {
+  let pending: Promise<T> | null = null
+  return () => {
+    pending ??= load().catch(error => {
+      pending = null
+      throw error
+    })
+    return pending
+  }
+}
+
+const loadWasm = once(async () => initWasm(await Deno.readFile(RESVG_WASM)))
+const loadFont = once(() => Deno.readFile(FONT))
+
+export async function rasterizeSvg(svg: string, width: number): Promise<Uint8Array> {
+  const [, font] = await Promise.all([loadWasm(), loadFont()])
+  const resvg = new Resvg(svg, {
+    fitTo: { mode: 'width', value: width },
+    background: '#FFFFFF',
+    font: {
+      fontBuffers: [font],
+      defaultFontFamily: WHEEL_FONT_FAMILY,
+      loadSystemFonts: false,
+    },
+  })
+  return resvg.render().asPng()
+}
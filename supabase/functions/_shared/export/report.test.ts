@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict'
+import { PDFDocument } from 'pdf-lib'
+import { calculateChart } from '../astro/chart.ts'
+import { analyzeChart } from '../horary/analysis.ts'
+import { judgePerfection } from '../horary/perfection.ts'
+import { assignSignificators, classifyByRules } from '../horary/significators.ts'
+import { estimateTiming } from '../horary/timing.ts'
+import { upgradeChartData } from '../schema/chartData.ts'
+import type { ChartData, SavedHoraryQuery } from '../types.ts'
+import { rasterizeSvg } from './png.ts'
+import { renderReportPdf } from './report.ts'
+import { renderWheelSvg } from './wheel.ts'
+
+const QUESTION = 'Will I get the job?'
+const LOCATION = { lat: 51.5074, lon: -0.1278, city: 'London' }
+
+const calculation = calculateChart(new Date('2024-03-20T03:06:00Z'), LOCATION)
+const { chart } = calculation
+
+function savedQuery(chart: ChartData, interpretation: SavedHoraryQuery['interpretation']): SavedHoraryQuery {
+  return {
+    id: '00000000-0000-4000-8000-000000000000',
+    user_id: null,
+    question: QUESTION,
+    location: LOCATION,
+    question_time: chart.timestamp,
+    chart_data: chart,
+    interpretation,
+    ai_interpretation: null,
+  }
+}
+
+async function assertPdf(pdf: Uint8Array) {
+  const text = new TextDecoder('latin1')
+  assert.equal(text.decode(pdf.subarray(0, 5)), '%PDF-')
+  assert.match(text.decode(pdf.subarray(-32)), /%%EOF\s*$/)
+  const doc = await PDFDocument.load(pdf)
+  assert.ok(doc.getPageCount() >= 1)
+}
+
+Deno.test('renderReportPdf writes a PDF of the chart and its judgement', async () => {
+  const classification = classifyByRules(QUESTION)
+  assert.ok(classification)
+  const significators = assignSignificators(classification, chart)
+  const judgement = judgePerfection(calculation, significators)
+  const timing = estimateTiming(chart, judgement)
+  const interpretation = {
+    significators,
+    judgement,
+    timing,
+    significance_factors: analyzeChart(calculation, significators, judgement, timing).significanceFactors,
+  }
+
+  const wheel = await rasterizeSvg(renderWheelSvg(chart), 300)
+  await assertPdf(await renderReportPdf(savedQuery(chart, interpretation), chart, wheel))
+})
+
+Deno.test('renderReportPdf writes a chart saved before schema versions', async () => {
+  // Only what the app stored then; dignities and the accidental fields come back null
+  const { timestamp, location, houses, ascendant, midheaven } = chart
+  const planets = chart.planets.map(({ name, longitude, latitude, sign, degree, minute, house, retrograde }) =>
+    ({ name, longitude, latitude, sign, degree, minute, house, retrograde })
+  )
+  const aspects = chart.aspects.map(({ reception: _, ...aspect }) => aspect)
+  const unversioned = upgradeChartData({ timestamp, location, planets, houses, aspects, ascendant, midheaven })
+
+  const wheel = await rasterizeSvg(renderWheelSvg(unversioned), 300)
+  await assertPdf(await renderReportPdf(savedQuery(unversioned, null), unversioned, wheel))
+})
@@ -0,0 +1,241 @@
+// Multi-page PDF report of a saved horary query: the wheel, tables, strictures, judgement
+// and the AI interpretation
+
+import { type PDFFont, type PDFPage, PDFDocument, StandardFonts, rgb } from 'pdf-lib'
+import { formatArc } from '../astro/angles.ts'
+import { formatLongitude } from '../astro/zodiac.ts'
+import { HOUSE_SYSTEM_LABELS, ORB_MODEL_LABELS } from '../constants.ts'
+import { describeDignity } from '../horary/dignities.ts'
+import { describeReception, describeSolarCondition, formatScore, ordinal } from '../horary/format.ts'
+import type { ChartData, Location, SavedHoraryQuery } from '../types.ts'
+
+// A4 in points
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 50
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN
+const BODY_SIZE = 10
+const LINE_HEIGHT = 14
+const MUTED = rgb(0.42, 0.45, 0.5)
+
+// "City, Country", or the coordinates when the question has no place name
+function placeName(location: Location): string {
+  const name = [location.city, location.country].filter(Boolean).join(', ')
+  return name || `${location.lat.toFixed(4)}, ${location.lon.toFixed(4)}`
+}
+
+// The standard PDF fonts only encode WinAnsi, so anything else (glyphs, the ℞ sign) is replaced
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ'
+function toWinAnsi(text: string): string {
+  return Array.from(text.replace(/℞/g, 'R').replace(/−/g, '-'), c => {
+    const code = c.charCodeAt(0)
+    const encodable = (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) ||
+      WIN_ANSI_EXTRAS.includes(c)
+    return encodable ? c : '?'
+  }).join('')
+}
+
+type Column = { header: string; width: number }
+
+// Writes top to bottom, starting a new page whenever the next block would not fit
+function createLayout(doc: PDFDocument, regular: PDFFont, bold: PDFFont) {
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  const ensure = (height: number) => {
+    if (y - height < MARGIN) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      y = PAGE_HEIGHT - MARGIN
+    }
+  }
+
+  const wrap = (text: string, font: PDFFont, size: number, width: number): string[] => {
+    const lines: string[] = []
+    for (const paragraph of toWinAnsi(text).split('\n')) {
+      let line = ''
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word
+        if (line && font.widthOfTextAtSize(candidate, size) > width) {
+          lines.push(line)
+          line = word
+        } else {
+          line = candidate
+        }
+      }
+      lines.push(line)
+    }
+    return lines
+  }
+
+  const write = (text: string, options: { font?: PDFFont; size?: number; muted?: boolean } = {}) => {
+    const font = options.font ?? regular
+    const size = options.size ?? BODY_SIZE
+    const height = size * 1.4
+    for (const line of wrap(text, font, size, CONTENT_WIDTH)) {
+      ensure(height)
+      page.drawText(line, { x: MARGIN, y: y - size, size, font, color: options.muted ? MUTED : undefined })
+      y -= height
+    }
+  }
+
+  return {
+    title(text: string) {
+      write(text, { font: bold, size: 20 })
+      y -= 6
+    },
+    heading(text: string) {
+      y -= 10
+      ensure(LINE_HEIGHT * 3)
+      write(text, { font: bold, size: 13 })
+      y -= 2
+    },
+    paragraph(text: string, muted = false) {
+      write(text, { muted })
+    },
+    bullets(items: string[]) {
+      for (const item of items) write(`•  ${item}`)
+    },
+    image(image: Awaited<ReturnType<PDFDocument['embedPng']>>, width: number) {
+      const height = (image.height / image.width) * width
+      ensure(height)
+      page.drawImage(image, { x: MARGIN + (CONTENT_WIDTH - width) / 2, y: y - height, width, height })
+      y -= height + 10
+    },
+    table(columns: Column[], rows: string[][]) {
+      const drawRow = (cells: string[], font: PDFFont) => {
+        const wrapped = cells.map((cell, i) => wrap(cell, font, 9, (columns[i]?.width ?? 0) - 6))
+        const height = Math.max(...wrapped.map(lines => lines.length)) * 12 + 4
+        ensure(height)
+        let x = MARGIN
+        wrapped.forEach((lines, i) => {
+          lines.forEach((line, j) => page.drawText(line, { x, y: y - 11 - j * 12, size: 9, font }))
+          x += columns[i]?.width ?? 0
+        })
+        y -= height
+      }
+      drawRow(columns.map(c => c.header), bold)
+      page.drawLine({
+        start: { x: MARGIN, y: y + 2 },
+        end: { x: MARGIN + CONTENT_WIDTH, y: y + 2 },
+        thickness: 0.5,
+        color: MUTED,
+      })
+      for (const row of rows) drawRow(row, regular)
+    },
+  }
+}
+
+export async function renderReportPdf(
+  query: SavedHoraryQuery,
+  chart: ChartData,
+  wheelPng: Uint8Array
+): Promise<Uint8Array> {
+  const interpretation = query.interpretation
+
+  const doc = await PDFDocument.create()
+  doc.setTitle(toWinAnsi(`Horary chart: ${query.question}`))
+  doc.setCreationDate(new Date())
+  const regular = await doc.embedFont(StandardFonts.Helvetica)
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold)
+  const layout = createLayout(doc, regular, bold)
+
+  layout.title('Horary chart')
+  layout.paragraph(`"${query.question}"`)
+  layout.paragraph(`Asked ${query.question_time} at ${placeName(query.location)}`, true)
+  // Charts from schema version 1 recorded no dignities, speeds or accidental scores
+  const { dignities } = chart
+  layout.paragraph(
+    `Ascendant ${formatLongitude(chart.ascendant)}, Midheaven ${formatLongitude(chart.midheaven)}; ` +
+      `${HOUSE_SYSTEM_LABELS[chart.house_system]} houses, ` +
+      (dignities ? `${dignities.term_system} terms, ` : '') +
+      `${ORB_MODEL_LABELS[chart.orb_model]}`,
+    true
+  )
+  layout.image(await doc.embedPng(wheelPng), 420)
+
+  layout.heading('Planetary positions')
+  layout.table(
+    [
+      { header: 'Planet', width: 70 },
+      { header: 'Position', width: 100 },
+      { header: 'House', width: 70 },
+      { header: 'Motion', width: 110 },
+      { header: 'Accidental', width: 145 },
+    ],
+    chart.planets.map(p => [
+      p.name,
+      formatLongitude(p.longitude),
+      `${ordinal(p.house)}${p.house_strength ? ` (${p.house_strength})` : ''}`,
+      [p.retrograde ? 'retrograde' : 'direct', ...(p.swift === null ? [] : [p.swift ? 'swift' : 'slow'])].join(', '),
+      [
+        ...(p.accidental_score === null ? [] : [formatScore(p.accidental_score)]),
+        ...(p.solar_condition && p.solar_condition !== 'free' ? [describeSolarCondition(p.solar_condition)] : []),
+      ].join(', '),
+    ])
+  )
+
+  layout.heading('Aspects')
+  layout.table(
+    [
+      { header: 'Aspect', width: 170 },
+      { header: 'Orb', width: 50 },
+      { header: 'Motion', width: 70 },
+      { header: 'Reception', width: 205 },
+    ],
+    chart.aspects.map(a => [
+      `${a.planet1} ${a.type} ${a.planet2}`,
+      formatArc(a.orb),
+      a.applying ? 'applying' : a.separating ? 'separating' : 'exact',
+      a.reception ? describeReception(a.reception) : '',
+    ])
+  )
+
+  if (dignities) {
+    layout.heading(`Essential dignities (${dignities.day_chart ? 'day' : 'night'} chart)`)
+    layout.table(
+      [
+        { header: 'Planet', width: 70 },
+        { header: 'Sign', width: 75 },
+        { header: 'Dignity', width: 150 },
+        { header: 'Rulers (domicile, exaltation, triplicity, term, face)', width: 200 },
+      ],
+      dignities.planets.map(d => [
+        d.planet,
+        d.sign,
+        describeDignity(d),
+        [d.rulers.domicile, d.rulers.exaltation ?? '-', d.rulers.triplicity, d.rulers.term, d.rulers.face].join(', '),
+      ])
+    )
+  }
+
+  layout.heading('Considerations before judgement')
+  if (chart.strictures.length > 0) {
+    layout.bullets(chart.strictures.map(s => s.message))
+  } else {
+    layout.paragraph('None: the chart is radical and fit to be judged.')
+  }
+
+  layout.heading('Judgement')
+  if (interpretation) {
+    const { significators, judgement, timing } = interpretation
+    layout.bullets([
+      `Querent: ${significators.querent.ruler}, ruler of the 1st house`,
+      `Quesited (${significators.topic}): ${significators.quesited.ruler}, ruler of the ` +
+        `${ordinal(significators.quesited.house)} house`,
+    ])
+    layout.paragraph(judgement.summary)
+    if (timing) layout.paragraph(`Timing: ${timing.reasoning.join('; ')}`)
+    layout.heading('Key factors')
+    layout.bullets(interpretation.significance_factors)
+  } else {
+    layout.paragraph('No judgement was recorded for this question.', true)
+  }
+
+  layout.heading('Interpretation')
+  layout.paragraph(
+    query.ai_interpretation ?? 'No interpretation has been recorded for this question yet.',
+    !query.ai_interpretation
+  )
+
+  return doc.save()
+}
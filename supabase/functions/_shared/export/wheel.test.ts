@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict'
+import { calculateChart } from '../astro/chart.ts'
+import { renderWheelSvg, spreadLongitudes } from './wheel.ts'
+
+const { chart } = calculateChart(new Date('2024-03-20T03:06:00Z'), { lat: 51.5074, lon: -0.1278, city: 'London' })
+
+// Tag names in document order, with a closing tag for every one opened
+function assertBalanced(svg: string) {
+  const open: string[] = []
+  for (const [tag, closing, name, selfClosing] of svg.matchAll(/<(\/?)([a-z]+)[^>]*?(\/?)>/g)) {
+    if (selfClosing) continue
+    if (!closing) {
+      open.push(name ?? '')
+    } else {
+      assert.equal(open.pop(), name, `${tag} closes nothing`)
+    }
+  }
+  assert.deepEqual(open, [], 'unclosed tags')
+}
+
+Deno.test('renderWheelSvg draws a well-formed SVG of the requested size', () => {
+  const svg = renderWheelSvg(chart, 400)
+  assert.match(svg, /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" width="400" height="400" /)
+  assert.ok(svg.trimEnd().endsWith('</svg>'))
+  assertBalanced(svg)
+  assert.match(svg, /<title>Horary chart for 2024-03-20T03:06:00\.000Z<\/title>/)
+})
+
+Deno.test('spreadLongitudes fans crowded glyphs out around their mean', () => {
+  assert.deepEqual(spreadLongitudes([10, 11, 12, 200], 5), [6, 11, 16, 200])
+  // A cluster across 0° Aries wraps round
+  assert.deepEqual(spreadLongitudes([359, 1, 180], 4), [358, 2, 180])
+})
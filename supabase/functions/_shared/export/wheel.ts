@@ -0,0 +1,193 @@
+// Standalone SVG of the chart wheel, drawn the same way as the ChartWheel component in the frontend
+
+import { normalizeDegrees } from '../astro/angles.ts'
+import { ZODIAC_SIGNS } from '../constants.ts'
+import type { AspectType, ChartData, Planet, ZodiacSign } from '../types.ts'
+
+// DejaVu Sans carries the astrological glyphs; it is also the font the PNG is rasterised with
+export const WHEEL_FONT_FAMILY = 'DejaVu Sans'
+
+const SIGN_GLYPHS: Record<ZodiacSign, string> = {
+  Aries: '♈', Taurus: '♉', Gemini: '♊', Cancer: '♋',
+  Leo: '♌', Virgo: '♍', Libra: '♎', Scorpio: '♏',
+  Sagittarius: '♐', Capricorn: '♑', Aquarius: '♒', Pisces: '♓',
+}
+
+const PLANET_GLYPHS: Record<Planet, string> = {
+  Sun: '☉', Moon: '☽', Mercury: '☿', Venus: '♀', Mars: '♂',
+  Jupiter: '♃', Saturn: '♄', Uranus: '♅', Neptune: '♆', Pluto: '♇',
+}
+
+// Same colours as ASPECT_LINE_STYLES in the frontend
+const ASPECT_STYLES: Record<AspectType, { color: string; dash: string }> = {
+  conjunction: { color: '#A855F7', dash: '' },
+  opposition: { color: '#DC2626', dash: '' },
+  square: { color: '#DC2626', dash: '' },
+  trine: { color: '#2563EB', dash: '' },
+  sextile: { color: '#2563EB', dash: '4 2' },
+  quincunx: { color: '#16A34A', dash: '2 2' },
+  semisextile: { color: '#9CA3AF', dash: '2 2' },
+  semisquare: { color: '#F97316', dash: '2 2' },
+  sesquiquadrate: { color: '#F97316', dash: '2 2' },
+}
+
+const STROKE = '#4B5563'
+const RETROGRADE = '#DC2626'
+// Closest two planet glyphs may sit, in degrees of arc
+const MIN_GLYPH_GAP = 8
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`)
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+// Longitudes to draw glyphs at so that neighbours are at least `gap` degrees apart;
+// crowded planets are fanned out evenly around the mean of their cluster
+export function spreadLongitudes(longitudes: number[], minGap: number): number[] {
+  const count = longitudes.length
+  if (count < 2) return [...longitudes]
+  const gap = Math.min(minGap, 360 / count)
+
+  const order = longitudes
+    .map((longitude, index) => ({ longitude: normalizeDegrees(longitude), index }))
+    .sort((a, b) => a.longitude - b.longitude)
+
+  // Cut the circle at its widest empty arc so no cluster straddles the cut
+  let cut = 0
+  let widest = -1
+  order.forEach((entry, i) => {
+    const next = order[(i + 1) % count] as typeof entry
+    const arc = next.longitude - entry.longitude + (i === count - 1 ? 360 : 0)
+    if (arc > widest) {
+      widest = arc
+      cut = (i + 1) % count
+    }
+  })
+  const sequence = [...order.slice(cut), ...order.slice(0, cut)]
+  const first = (sequence[0] as (typeof sequence)[number]).longitude
+  const positions = sequence.map(entry => first + normalizeDegrees(entry.longitude - first))
+
+  const start = (c: { members: number[]; center: number }) => c.center - ((c.members.length - 1) * gap) / 2
+  const end = (c: { members: number[]; center: number }) => c.center + ((c.members.length - 1) * gap) / 2
+
+  let clusters = positions.map(position => ({ members: [position], center: position }))
+  let merged = true
+  while (merged) {
+    merged = false
+    const next: typeof clusters = []
+    for (const cluster of clusters) {
+      const previous = next[next.length - 1]
+      if (previous && start(cluster) - end(previous) < gap) {
+        const members = [...previous.members, ...cluster.members]
+        next[next.length - 1] = { members, center: members.reduce((sum, m) => sum + m, 0) / members.length }
+        merged = true
+      } else {
+        next.push(cluster)
+      }
+    }
+    clusters = next
+  }
+
+  const spread = clusters.flatMap(cluster =>
+    cluster.members.map((_, i) => normalizeDegrees(start(cluster) + i * gap))
+  )
+  const result = new Array<number>(count)
+  sequence.forEach((entry, i) => {
+    result[entry.index] = spread[i] ?? entry.longitude
+  })
+  return result
+}
+
+export function renderWheelSvg(chart: ChartData, size = 600): string {
+  const center = size / 2
+  const outer = center - 4
+  const zodiac = outer - size * 0.07
+  const planetRing = zodiac - size * 0.05
+  const labelRing = zodiac - size * 0.1
+  const aspectRing = size * 0.25
+  const scale = size / 400
+
+  // Ascendant at 9 o'clock, longitudes increasing counter-clockwise
+  const at = (radius: number, longitude: number): Point => {
+    const radians = normalizeDegrees(180 + longitude - chart.ascendant) * Math.PI / 180
+    return { x: round(center + radius * Math.cos(radians)), y: round(center - radius * Math.sin(radians)) }
+  }
+  const line = (from: Point, to: Point, attributes: string) =>
+    `<line x1="${from.x}" y1="${from.y}" x2="${to.x}" y2="${to.y}" ${attributes}/>`
+  const text = (p: Point, content: string, fontSize: number, fill = '#111827') =>
+    `<text x="${p.x}" y="${p.y}" font-size="${round(fontSize * scale)}" fill="${fill}" ` +
+    `text-anchor="middle" dominant-baseline="central">${content}</text>`
+
+  const parts: string[] = [
+    `<rect width="${size}" height="${size}" fill="#FFFFFF"/>`,
+    ...[outer, zodiac, aspectRing].map(r =>
+      `<circle cx="${center}" cy="${center}" r="${round(r)}" fill="none" stroke="${STROKE}"/>`
+    ),
+  ]
+
+  ZODIAC_SIGNS.forEach((sign, i) => {
+    parts.push(
+      line(at(outer, i * 30), at(zodiac, i * 30), `stroke="${STROKE}"`),
+      text(at((outer + zodiac) / 2, i * 30 + 15), SIGN_GLYPHS[sign], 16)
+    )
+  })
+
+  chart.houses.forEach((house, i) => {
+    const angular = house.number % 3 === 1
+    const nextCusp = chart.houses[(i + 1) % chart.houses.length]?.cusp ?? house.cusp
+    const middle = house.cusp + normalizeDegrees(nextCusp - house.cusp) / 2
+    parts.push(
+      line(at(zodiac, house.cusp), at(aspectRing, house.cusp), `stroke="${STROKE}" stroke-width="${angular ? 2 : 1}"`),
+      text(at(aspectRing + 10 * scale, middle), String(house.number), 9, STROKE)
+    )
+  })
+
+  const longitudes = new Map(chart.planets.map(p => [p.name, p.longitude]))
+  for (const aspect of chart.aspects) {
+    const first = longitudes.get(aspect.planet1)
+    const second = longitudes.get(aspect.planet2)
+    if (aspect.type === 'conjunction' || first === undefined || second === undefined) continue
+    const style = ASPECT_STYLES[aspect.type]
+    parts.push(line(
+      at(aspectRing, first),
+      at(aspectRing, second),
+      `stroke="${style.color}" stroke-opacity="0.8"${style.dash ? ` stroke-dasharray="${style.dash}"` : ''}`
+    ))
+  }
+
+  const glyphLongitudes = spreadLongitudes(chart.planets.map(p => p.longitude), MIN_GLYPH_GAP)
+  chart.planets.forEach((planet, i) => {
+    const glyphLongitude = glyphLongitudes[i] ?? planet.longitude
+    const tick = at(zodiac - 6 * scale, planet.longitude)
+    // Degrees above minutes, so labels in a cluster stay as narrow as the glyphs
+    const label = at(labelRing, glyphLongitude)
+    const minutes = escapeXml(`${String(planet.minute).padStart(2, '0')}'`)
+    parts.push(
+      line(at(zodiac, planet.longitude), tick, `stroke="#111827"`),
+      line(tick, at(planetRing + 9 * scale, glyphLongitude), `stroke="${STROKE}" stroke-width="0.5"`),
+      text(at(planetRing, glyphLongitude), PLANET_GLYPHS[planet.name], 20),
+      text({ x: label.x, y: round(label.y - 5 * scale) }, `${planet.degree}°`, 8),
+      text(
+        { x: label.x, y: round(label.y + 5 * scale) },
+        minutes + (planet.retrograde ? `<tspan fill="${RETROGRADE}">℞</tspan>` : ''),
+        7
+      )
+    )
+  })
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" ` +
+      `viewBox="0 0 ${size} ${size}" font-family="${WHEEL_FONT_FAMILY}, sans-serif">`,
+    `<title>${escapeXml(`Horary chart for ${chart.timestamp}`)}</title>`,
+    ...parts,
+    '</svg>',
+  ].join('\n')
+}
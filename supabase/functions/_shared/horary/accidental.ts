@@ -0,0 +1,81 @@
+// Accidental dignities and debilities, scored after William Lilly (Christian Astrology, 1647)
+
+import { angleDifference } from '../astro/angles.ts'
+import type { BodyPosition } from '../astro/ephemeris.ts'
+import { MEAN_DAILY_MOTION } from '../constants.ts'
+import type { HouseStrength, Planet, SolarCondition, SolarOrbs } from '../types.ts'
+
+// Lilly's points for each house, 1st to 12th
+const HOUSE_SCORES = [5, 3, 1, 4, 3, -2, 4, -2, 2, 5, 4, -5]
+
+export const ACCIDENTAL_SCORES = {
+  direct: 4,
+  retrograde: -5,
+  swift: 2,
+  slow: -2,
+} as const
+
+export const SOLAR_CONDITION_SCORES: Record<SolarCondition, number> = {
+  cazimi: 5,
+  combust: -5,
+  under_beams: -4,
+  free: 5,
+}
+
+export interface AccidentalDignity {
+  speed: number;
+  swift: boolean;
+  house_strength: HouseStrength;
+  solar_condition: SolarCondition | null;
+  accidental_score: number;
+}
+
+export function houseStrength(house: number): HouseStrength {
+  // Angular houses are 1, 4, 7 and 10; each is followed by a succedent then a cadent house
+  if (house % 3 === 1) return 'angular'
+  if (house % 3 === 2) return 'succedent'
+  return 'cadent'
+}
+
+// The Sun has no condition relative to itself
+export function solarCondition(
+  planet: Planet,
+  longitude: number,
+  sunLongitude: number,
+  orbs: SolarOrbs
+): SolarCondition | null {
+  if (planet === 'Sun') return null
+
+  const distance = Math.abs(angleDifference(sunLongitude, longitude))
+  if (distance <= orbs.cazimi) return 'cazimi'
+  if (distance <= orbs.combust) return 'combust'
+  if (distance <= orbs.under_beams) return 'under_beams'
+  return 'free'
+}
+
+export function accidentalDignity(
+  planet: Planet,
+  position: BodyPosition,
+  house: number,
+  sunLongitude: number,
+  orbs: SolarOrbs
+): AccidentalDignity {
+  const swift = Math.abs(position.speed) > MEAN_DAILY_MOTION[planet]
+  const condition = solarCondition(planet, position.longitude, sunLongitude, orbs)
+
+  let score = HOUSE_SCORES[house - 1] ?? 0
+  score += swift ? ACCIDENTAL_SCORES.swift : ACCIDENTAL_SCORES.slow
+  // The lights never station, so direct motion earns them nothing
+  if (planet !== 'Sun' && planet !== 'Moon') {
+    score += position.speed < 0 ? ACCIDENTAL_SCORES.retrograde : ACCIDENTAL_SCORES.direct
+  }
+  if (condition) score += SOLAR_CONDITION_SCORES[condition]
+
+  return {
+    speed: position.speed,
+    swift,
+    house_strength: houseStrength(house),
+    solar_condition: condition,
+    accidental_score: score,
+  }
+}
@@ -0,0 +1,201 @@
+// Chart analysis: the factors a horary astrologer looks at first
+
+import { angleDifference, formatArc } from '../astro/angles.ts'
+import type { ChartCalculation } from '../astro/chart.ts'
+import { formatLongitude, signOf } from '../astro/zodiac.ts'
+import { HOUSE_SYSTEM_LABELS } from '../constants.ts'
+import type {
+  Aspect,
+  ChartDignities,
+  Planet,
+  PlanetaryPosition,
+  Judgement,
+  Significators,
+  Timing,
+  ZodiacSign,
+} from '../types.ts'
+import { describeDignity } from './dignities.ts'
+import {
+  describeAntiscialContact,
+  describeAspect,
+  describePlacement,
+  describeSolarCondition,
+  describeStarConjunction,
+  ordinal,
+} from './format.ts'
+import { rulerOf } from './rulerships.ts'
+
+const ANGULAR_HOUSES = [1, 4, 7, 10]
+// Aspects this close are called out on their own
+const CLOSE_ASPECT_ORB = 1
+
+export interface ChartAnalysis {
+  ascendantSign: ZodiacSign;
+  ascendantRuler: Planet;
+  moonPhase: 'waxing' | 'waning';
+  moonNextAspect: Aspect | null;
+  angularPlanets: Planet[];
+  retrogradePlanets: Planet[];
+  significanceFactors: string[];
+}
+
+function findPlanet(planets: PlanetaryPosition[], name: Planet): PlanetaryPosition {
+  const planet = planets.find(p => p.name === name)
+  if (!planet) throw new Error(`${name} missing from chart`)
+  return planet
+}
+
+function dignityOf(dignities: ChartDignities | null, name: Planet): string {
+  const dignity = dignities?.planets.find(d => d.planet === name)
+  return dignity ? `; ${describeDignity(dignity)}` : ''
+}
+
+function applyingAspectsOf(aspects: Aspect[], name: Planet): Aspect[] {
+  return aspects
+    .filter(a => a.applying && (a.planet1 === name || a.planet2 === name))
+    .sort((a, b) => a.orb - b.orb)
+}
+
+export function analyzeChart(
+  { chart, houses }: ChartCalculation,
+  significators?: Significators,
+  judgement?: Judgement,
+  timing?: Timing | null
+): ChartAnalysis {
+  const { planets, aspects, dignities } = chart
+  const ascendantSign = signOf(chart.ascendant)
+  const ascendantRuler = rulerOf(chart.ascendant)
+  const ruler = findPlanet(planets, ascendantRuler)
+  const sun = findPlanet(planets, 'Sun')
+  const moon = findPlanet(planets, 'Moon')
+
+  const elongation = angleDifference(sun.longitude, moon.longitude)
+  const moonPhase = elongation >= 0 ? 'waxing' : 'waning'
+  const moonAspects = applyingAspectsOf(aspects, 'Moon')
+  const moonNextAspect = moonAspects[0] ?? null
+
+  const angularPlanets = planets.filter(p => ANGULAR_HOUSES.includes(p.house)).map(p => p.name)
+  const retrogradePlanets = planets.filter(p => p.retrograde).map(p => p.name)
+
+  const moonRole = significators?.moon === 'quesited'
+    ? 'significator of the quesited'
+    : 'co-significator of the querent'
+
+  const factors: string[] = []
+
+  if (houses.fallbackFrom) {
+    factors.push(
+      `${HOUSE_SYSTEM_LABELS[houses.fallbackFrom]} houses are undefined at latitude ` +
+        `${chart.location.lat.toFixed(2)}°, so ${HOUSE_SYSTEM_LABELS[houses.system]} houses were used`
+    )
+  }
+
+  for (const stricture of chart.strictures) {
+    factors.push(`Consideration before judgement: ${stricture.message}`)
+  }
+
+  factors.push(
+    `Ascendant ${formatLongitude(chart.ascendant)}: the querent is signified by ${ascendantRuler}, ruler of ${ascendantSign}`,
+    `Ascendant ruler: ${describePlacement(ruler)}${dignityOf(dignities, ascendantRuler)}`,
+    `Moon (${moonRole}, ${moonPhase}): ${describePlacement(moon)}` +
+      dignityOf(dignities, 'Moon'),
+  )
+
+  if (significators) {
+    const { quesited } = significators
+    const quesitedRuler = findPlanet(planets, quesited.ruler)
+    factors.push(
+      `Quesited, ${significators.topic}: ${ordinal(quesited.house)} house, ruled by ` +
+        `${describePlacement(quesitedRuler)}${dignityOf(dignities, quesited.ruler)}`
+    )
+    if (quesited.co_significators.length > 0) {
+      factors.push(`Quesited co-significators: ${quesited.co_significators.join(', ')}`)
+    }
+  }
+
+  if (judgement) {
+    factors.push(`${judgement.perfects ? 'Perfection' : 'No perfection'}: ${judgement.summary}`)
+  }
+
+  const fortune = chart.lots.find(lot => lot.name === 'Fortune' && !lot.custom)
+  if (fortune) {
+    factors.push(
+      `Part of Fortune: ${formatLongitude(fortune.longitude)}, ${ordinal(fortune.house)} house, ` +
+        `ruled by ${fortune.ruler}`
+    )
+  }
+
+  // Stars and antiscia only matter where they touch a significator or an angle
+  const significatorPlanets = new Set<string>([
+    ascendantRuler,
+    'Moon',
+    ...(significators?.querent.co_significators ?? []),
+    ...(significators ? [significators.quesited.ruler, ...significators.quesited.co_significators] : []),
+  ])
+  const starContacts = chart.fixed_stars.filter(c =>
+    c.point === 'Ascendant' || c.point === 'Midheaven' || significatorPlanets.has(c.point)
+  )
+  if (starContacts.length > 0) {
+    factors.push(`Fixed stars: ${starContacts.map(describeStarConjunction).join('; ')}`)
+  }
+  const antiscia = chart.antiscial_contacts.filter(c =>
+    significatorPlanets.has(c.planet1) || significatorPlanets.has(c.planet2)
+  )
+  if (antiscia.length > 0) {
+    factors.push(`Antiscia: ${antiscia.map(describeAntiscialContact).join('; ')}`)
+  }
+
+  if (timing) {
+    factors.push(`Timing: ${timing.reasoning.join('; ')}`)
+  }
+
+  if (ascendantRuler !== 'Moon') {
+    const rulerAspects = applyingAspectsOf(aspects, ascendantRuler)
+    factors.push(
+      rulerAspects.length > 0
+        ? `Ascendant ruler applies to: ${rulerAspects.map(a => describeAspect(a, ascendantRuler)).join('; ')}`
+        : `Ascendant ruler makes no applying aspects within orb`
+    )
+  }
+
+  factors.push(
+    moonNextAspect
+      ? `Moon's next aspect: ${describeAspect(moonNextAspect, 'Moon')}`
+      : `Moon makes no applying aspects within orb`
+  )
+
+  if (angularPlanets.length > 0) {
+    const list = planets
+      .filter(p => angularPlanets.includes(p.name))
+      .map(p => `${p.name} (${ordinal(p.house)})`)
+    factors.push(`Angular planets: ${list.join(', ')}`)
+  }
+
+  if (retrogradePlanets.length > 0) {
+    factors.push(`Retrograde planets: ${retrogradePlanets.join(', ')}`)
+  }
+
+  const nearSun = planets.flatMap(p =>
+    p.solar_condition && p.solar_condition !== 'free'
+      ? [`${p.name} ${describeSolarCondition(p.solar_condition)}`]
+      : []
+  )
+  if (nearSun.length > 0) {
+    factors.push(`Planets near the Sun: ${nearSun.join(', ')}`)
+  }
+
+  const closeAspects = aspects.filter(a => a.orb < CLOSE_ASPECT_ORB)
+  if (closeAspects.length > 0) {
+    factors.push(`Close aspects (under ${formatArc(CLOSE_ASPECT_ORB)}): ${closeAspects.map(a => describeAspect(a)).join('; ')}`)
+  }
+
+  return {
+    ascendantSign,
+    ascendantRuler,
+    moonPhase,
+    moonNextAspect,
+    angularPlanets,
+    retrogradePlanets,
+    significanceFactors: factors,
+  }
+}
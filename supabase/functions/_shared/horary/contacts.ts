@@ -0,0 +1,71 @@
+// Contacts outside the Ptolemaic aspects: conjunctions to fixed stars and antiscia
+
+import { angleDifference, normalizeDegrees } from '../astro/angles.ts'
+import type {
+  Antiscion,
+  AntiscialContact,
+  ChartPoint,
+  FixedStar,
+  PlanetaryPosition,
+  StarConjunction,
+} from '../types.ts'
+
+// Stars are judged by conjunction in longitude only, to the planets and the angles
+export function findStarConjunctions(
+  points: { name: ChartPoint; longitude: number }[],
+  stars: FixedStar[],
+  orb: number
+): StarConjunction[] {
+  return points.flatMap(point =>
+    stars.flatMap(star => {
+      const distance = Math.abs(angleDifference(star.longitude, point.longitude))
+      if (distance > orb) return []
+      return [{
+        star: star.name,
+        star_longitude: star.longitude,
+        magnitude: star.magnitude,
+        nature: star.nature,
+        point: point.name,
+        orb: distance,
+      }]
+    })
+  ).sort((a, b) => a.orb - b.orb)
+}
+
+// Reflection across 0° Cancer/Capricorn, e.g. 10° Taurus to 20° Leo
+export function antiscionOf(longitude: number): number {
+  return normalizeDegrees(180 - longitude)
+}
+
+// Reflection across 0° Aries/Libra, opposite the antiscion
+export function contraAntiscionOf(longitude: number): number {
+  return normalizeDegrees(360 - longitude)
+}
+
+export function calculateAntiscia(planets: PlanetaryPosition[]): Antiscion[] {
+  return planets.map(p => ({
+    planet: p.name,
+    antiscion: antiscionOf(p.longitude),
+    contra_antiscion: contraAntiscionOf(p.longitude),
+  }))
+}
+
+// A reflects onto B exactly when B reflects onto A, so each pair is checked once
+export function findAntiscialContacts(planets: PlanetaryPosition[], orb: number): AntiscialContact[] {
+  const contacts: AntiscialContact[] = []
+  planets.forEach((first, i) => {
+    for (const second of planets.slice(i + 1)) {
+      const reflections = [
+        ['antiscion', antiscionOf(first.longitude)],
+        ['contra_antiscion', contraAntiscionOf(first.longitude)],
+      ] as const
+      for (const [type, reflected] of reflections) {
+        const distance = Math.abs(angleDifference(reflected, second.longitude))
+        if (distance <= orb) {
+          contacts.push({ planet1: first.name, planet2: second.name, type, orb: distance })
+        }
+      }
+    }
+  })
+  return contacts.sort((a, b) => a.orb - b.orb)
+}
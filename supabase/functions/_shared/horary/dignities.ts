@@ -0,0 +1,178 @@
+// Essential dignities and debilities, scored after William Lilly (Christian Astrology, 1647)
+
+import { signIndex, signOf } from '../astro/zodiac.ts'
+import { ZODIAC_SIGNS } from '../constants.ts'
+import type {
+  ChartDignities,
+  EssentialDignity,
+  Planet,
+  PlanetaryPosition,
+  TermSystem,
+  ZodiacSign,
+} from '../types.ts'
+import { formatScore } from './format.ts'
+import { DOMICILE_RULERS, TRADITIONAL_PLANETS } from './rulerships.ts'
+import { isDayChart } from './sect.ts'
+
+export const DIGNITY_SCORES = {
+  domicile: 5,
+  exaltation: 4,
+  triplicity: 3,
+  term: 2,
+  face: 1,
+  detriment: -5,
+  fall: -4,
+  peregrine: -5,
+} as const
+
+const DIGNITY_KEYS = Object.keys(DIGNITY_SCORES) as (keyof typeof DIGNITY_SCORES)[]
+
+export const EXALTATIONS: Partial<Record<ZodiacSign, Planet>> = {
+  Aries: 'Sun',
+  Taurus: 'Moon',
+  Cancer: 'Jupiter',
+  Virgo: 'Mercury',
+  Libra: 'Saturn',
+  Capricorn: 'Mars',
+  Pisces: 'Venus',
+}
+
+// Lilly's triplicity rulers: Mars rules the water signs by day and by night
+const TRIPLICITY_RULERS: readonly { day: Planet; night: Planet }[] = [
+  { day: 'Sun', night: 'Jupiter' }, // fire
+  { day: 'Venus', night: 'Moon' }, // earth
+  { day: 'Saturn', night: 'Mercury' }, // air
+  { day: 'Mars', night: 'Mars' }, // water
+]
+
+// Each sign's terms as [ruler, end degree] pairs
+type TermTable = Record<ZodiacSign, readonly (readonly [Planet, number])[]>
+
+const EGYPTIAN_TERMS: TermTable = {
+  Aries: [['Jupiter', 6], ['Venus', 12], ['Mercury', 20], ['Mars', 25], ['Saturn', 30]],
+  Taurus: [['Venus', 8], ['Mercury', 14], ['Jupiter', 22], ['Saturn', 27], ['Mars', 30]],
+  Gemini: [['Mercury', 6], ['Jupiter', 12], ['Venus', 17], ['Mars', 24], ['Saturn', 30]],
+  Cancer: [['Mars', 7], ['Venus', 13], ['Mercury', 19], ['Jupiter', 26], ['Saturn', 30]],
+  Leo: [['Jupiter', 6], ['Venus', 11], ['Saturn', 18], ['Mercury', 24], ['Mars', 30]],
+  Virgo: [['Mercury', 7], ['Venus', 17], ['Jupiter', 21], ['Mars', 28], ['Saturn', 30]],
+  Libra: [['Saturn', 6], ['Mercury', 14], ['Jupiter', 21], ['Venus', 28], ['Mars', 30]],
+  Scorpio: [['Mars', 7], ['Venus', 11], ['Mercury', 19], ['Jupiter', 24], ['Saturn', 30]],
+  Sagittarius: [['Jupiter', 12], ['Venus', 17], ['Mercury', 21], ['Saturn', 26], ['Mars', 30]],
+  Capricorn: [['Mercury', 7], ['Jupiter', 14], ['Venus', 22], ['Saturn', 26], ['Mars', 30]],
+  Aquarius: [['Mercury', 7], ['Venus', 13], ['Jupiter', 20], ['Mars', 25], ['Saturn', 30]],
+  Pisces: [['Venus', 12], ['Jupiter', 16], ['Mercury', 19], ['Mars', 28], ['Saturn', 30]],
+}
+
+// As tabulated by Lilly
+const PTOLEMAIC_TERMS: TermTable = {
+  Aries: [['Jupiter', 6], ['Venus', 14], ['Mercury', 21], ['Mars', 26], ['Saturn', 30]],
+  Taurus: [['Venus', 8], ['Mercury', 15], ['Jupiter', 22], ['Saturn', 26], ['Mars', 30]],
+  Gemini: [['Mercury', 7], ['Jupiter', 14], ['Venus', 21], ['Saturn', 25], ['Mars', 30]],
+  Cancer: [['Mars', 6], ['Jupiter', 13], ['Mercury', 20], ['Venus', 27], ['Saturn', 30]],
+  Leo: [['Saturn', 6], ['Mercury', 13], ['Venus', 19], ['Jupiter', 25], ['Mars', 30]],
+  Virgo: [['Mercury', 7], ['Venus', 13], ['Jupiter', 18], ['Saturn', 24], ['Mars', 30]],
+  Libra: [['Saturn', 6], ['Venus', 11], ['Jupiter', 19], ['Mercury', 24], ['Mars', 30]],
+  Scorpio: [['Mars', 6], ['Jupiter', 14], ['Venus', 21], ['Mercury', 27], ['Saturn', 30]],
+  Sagittarius: [['Jupiter', 8], ['Venus', 14], ['Mercury', 19], ['Saturn', 25], ['Mars', 30]],
+  Capricorn: [['Venus', 6], ['Mercury', 12], ['Jupiter', 19], ['Mars', 25], ['Saturn', 30]],
+  Aquarius: [['Saturn', 6], ['Mercury', 12], ['Venus', 20], ['Jupiter', 25], ['Mars', 30]],
+  Pisces: [['Venus', 8], ['Jupiter', 14], ['Mercury', 20], ['Mars', 26], ['Saturn', 30]],
+}
+
+const TERM_TABLES: Record<TermSystem, TermTable> = {
+  egyptian: EGYPTIAN_TERMS,
+  ptolemaic: PTOLEMAIC_TERMS,
+}
+
+// Faces follow the Chaldean order, starting with Mars at 0° Aries
+const CHALDEAN_FROM_MARS: readonly Planet[] = [
+  'Mars', 'Sun', 'Venus', 'Mercury', 'Moon', 'Saturn', 'Jupiter',
+]
+
+function oppositeSign(sign: ZodiacSign): ZodiacSign {
+  return ZODIAC_SIGNS[(ZODIAC_SIGNS.indexOf(sign) + 6) % 12] as ZodiacSign
+}
+
+export function exaltationRuler(sign: ZodiacSign): Planet | null {
+  return EXALTATIONS[sign] ?? null
+}
+
+export function triplicityRuler(sign: ZodiacSign, dayChart: boolean): Planet {
+  const rulers = TRIPLICITY_RULERS[ZODIAC_SIGNS.indexOf(sign) % 4] as { day: Planet; night: Planet }
+  return dayChart ? rulers.day : rulers.night
+}
+
+export function termRuler(longitude: number, system: TermSystem): Planet {
+  const degree = longitude - signIndex(longitude) * 30
+  const terms = TERM_TABLES[system][signOf(longitude)]
+  const term = terms.find(([, end]) => degree < end) ?? terms[terms.length - 1]
+  return (term as readonly [Planet, number])[0]
+}
+
+export function faceRuler(longitude: number): Planet {
+  return CHALDEAN_FROM_MARS[Math.floor(longitude / 10) % 7] as Planet
+}
+
+// Planets holding each dignity at a degree: any body there is received by them
+export function dignityRulers(
+  longitude: number,
+  dayChart: boolean,
+  termSystem: TermSystem
+): EssentialDignity['rulers'] {
+  const sign = signOf(longitude)
+  return {
+    domicile: DOMICILE_RULERS[sign],
+    exaltation: exaltationRuler(sign),
+    triplicity: triplicityRuler(sign, dayChart),
+    term: termRuler(longitude, termSystem),
+    face: faceRuler(longitude),
+  }
+}
+
+export function essentialDignity(
+  planet: Planet,
+  longitude: number,
+  dayChart: boolean,
+  termSystem: TermSystem
+): EssentialDignity {
+  const sign = signOf(longitude)
+  const rulers = dignityRulers(longitude, dayChart, termSystem)
+
+  const domicile = rulers.domicile === planet
+  const exaltation = rulers.exaltation === planet
+  const triplicity = rulers.triplicity === planet
+  const term = rulers.term === planet
+  const face = rulers.face === planet
+  const detriment = DOMICILE_RULERS[oppositeSign(sign)] === planet
+  const fall = EXALTATIONS[oppositeSign(sign)] === planet
+  const peregrine = !domicile && !exaltation && !triplicity && !term && !face
+
+  const flags = { domicile, exaltation, triplicity, term, face, detriment, fall, peregrine }
+  const score = DIGNITY_KEYS.reduce((sum, key) => sum + (flags[key] ? DIGNITY_SCORES[key] : 0), 0)
+
+  return { planet, sign, ...flags, score, rulers }
+}
+
+// Dignities of the seven traditional planets; the outer planets have none in this scheme
+export function calculateDignities(
+  planets: PlanetaryPosition[],
+  ascendant: number,
+  termSystem: TermSystem
+): ChartDignities {
+  const sun = planets.find(p => p.name === 'Sun')
+  const dayChart = sun ? isDayChart(sun.longitude, ascendant) : true
+
+  return {
+    term_system: termSystem,
+    day_chart: dayChart,
+    planets: planets
+      .filter(p => TRADITIONAL_PLANETS.includes(p.name))
+      .map(p => essentialDignity(p.name, p.longitude, dayChart, termSystem)),
+  }
+}
+
+// Short label such as "domicile, term (+7)" or "peregrine (-5)"
+export function describeDignity(dignity: EssentialDignity): string {
+  const labels = DIGNITY_KEYS.filter(key => dignity[key])
+  return `${labels.join(', ')} (${formatScore(dignity.score)})`
+}
@@ -0,0 +1,94 @@
+// Text helpers shared by the horary analysis and prompt builders
+
+import { formatArc } from '../astro/angles.ts'
+import { formatLongitude } from '../astro/zodiac.ts'
+import type {
+  AntiscialContact,
+  Aspect,
+  Planet,
+  PlanetaryPosition,
+  Reception,
+  SolarCondition,
+  StarConjunction,
+} from '../types.ts'
+
+export function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13
+    ? 'th'
+    : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] ?? 'th'
+  return `${n}${suffix}`
+}
+
+// Dignity points with an explicit sign, e.g. "+7" or "-5"
+export function formatScore(score: number): string {
+  return score > 0 ? `+${score}` : `${score}`
+}
+
+const SOLAR_CONDITION_LABELS: Record<SolarCondition, string> = {
+  cazimi: 'cazimi',
+  combust: 'combust',
+  under_beams: 'under the beams',
+  free: 'free of the beams',
+}
+
+export function describeSolarCondition(condition: SolarCondition): string {
+  return SOLAR_CONDITION_LABELS[condition]
+}
+
+// e.g. "Mars in 3°12' Aries, 10th house (angular), retrograde, slow, combust; accidental -4".
+// Charts from schema version 1 recorded no house strength, speed or accidental score.
+export function describePlacement(planet: PlanetaryPosition): string {
+  const details = [
+    `${ordinal(planet.house)} house${planet.house_strength ? ` (${planet.house_strength})` : ''}`,
+    ...(planet.retrograde ? ['retrograde'] : []),
+    ...(planet.swift === null ? [] : [planet.swift ? 'swift' : 'slow']),
+    ...(planet.solar_condition && planet.solar_condition !== 'free'
+      ? [describeSolarCondition(planet.solar_condition)]
+      : []),
+  ]
+  const placement = `${planet.name} in ${formatLongitude(planet.longitude)}, ${details.join(', ')}`
+  return planet.accidental_score === null
+    ? placement
+    : `${placement}; accidental ${formatScore(planet.accidental_score)}`
+}
+
+// e.g. "mutual reception by domicile" or "Jupiter receives Moon by exaltation, term"
+export function describeReception(reception: Reception): string {
+  const [first, second] = reception.planets
+  if (reception.mutual && !reception.mixed) {
+    const shared = reception.first_receives.filter(kind => reception.second_receives.includes(kind))
+    return `mutual reception by ${shared.join(', ')}`
+  }
+
+  const parts = [
+    ...(reception.first_receives.length > 0
+      ? [`${first} receives ${second} by ${reception.first_receives.join(', ')}`]
+      : []),
+    ...(reception.second_receives.length > 0
+      ? [`${second} receives ${first} by ${reception.second_receives.join(', ')}`]
+      : []),
+  ]
+  return `${reception.mixed ? 'mixed reception: ' : ''}${parts.join(' and ')}`
+}
+
+// e.g. "Moon sextile Jupiter (applying, orb 1°20'; Jupiter receives Moon by exaltation)"
+export function describeAspect(aspect: Aspect, from?: Planet): string {
+  const [first, second] = from === aspect.planet2
+    ? [aspect.planet2, aspect.planet1]
+    : [aspect.planet1, aspect.planet2]
+  const motion = aspect.applying ? 'applying' : aspect.separating ? 'separating' : 'exact'
+  const reception = aspect.reception ? `; ${describeReception(aspect.reception)}` : ''
+  return `${first} ${aspect.type} ${second} (${motion}, orb ${formatArc(aspect.orb)}${reception})`
+}
+
+// e.g. "Mars conjunct Regulus (orb 0°12'; nature of Mars and Jupiter)"
+export function describeStarConjunction(conjunction: StarConjunction): string {
+  return `${conjunction.point} conjunct ${conjunction.star} ` +
+    `(orb ${formatArc(conjunction.orb)}; nature of ${conjunction.nature.join(' and ')})`
+}
+
+// e.g. "Venus in antiscion with Saturn (orb 0°40')"
+export function describeAntiscialContact(contact: AntiscialContact): string {
+  const relation = contact.type === 'antiscion' ? 'antiscion' : 'contra-antiscion'
+  return `${contact.planet1} in ${relation} with ${contact.planet2} (orb ${formatArc(contact.orb)})`
+}
@@ -0,0 +1,123 @@
+// Keyword rules mapping question wording to houses, after Lilly and later horary texts.
+// Keywords are regular expression fragments matched against whole, lower-cased words.
+
+import type { Planet } from '../types.ts'
+
+export interface HouseRule {
+  house: number;
+  label: string;
+  keywords: readonly string[];
+  natural?: Planet; // natural significator of the matter, used as a co-significator
+}
+
+// People, counted from whoever they belong to ("my brother" is the 3rd from the querent)
+export const PEOPLE_RULES: readonly HouseRule[] = [
+  { house: 3, label: 'sibling', keywords: ['brothers?', 'sisters?', 'siblings?', 'cousins?', 'neighbou?rs?'] },
+  { house: 4, label: 'father', keywords: ['father', 'dad', 'stepfather'], natural: 'Sun' },
+  { house: 5, label: 'child', keywords: ['child', 'children', 'sons?', 'daughters?', 'kids?', 'lover'] },
+  { house: 6, label: 'employee', keywords: ['employees?', 'servants?', 'tenants?', 'uncles?', 'aunts?'] },
+  {
+    house: 7,
+    label: 'partner',
+    keywords: [
+      'husband', 'wife', 'spouse', 'partner', 'boyfriend', 'girlfriend', 'fianc[eé]e?', 'ex',
+      'opponents?', 'rivals?', 'enemy', 'enemies',
+    ],
+  },
+  { house: 10, label: 'mother', keywords: ['mother', 'mum', 'mom', 'stepmother'], natural: 'Moon' },
+  { house: 10, label: 'employer', keywords: ['boss', 'employer', 'manager'] },
+  { house: 11, label: 'friend', keywords: ['friends?'] },
+]
+
+// Anyone not otherwise signified is given the 7th house
+export const OTHER_PERSON_RULE: HouseRule = {
+  house: 7,
+  label: 'another person',
+  keywords: ['he', 'she', 'they', 'him', 'them', 'his', 'her', 'their'],
+}
+
+// Matters, counted from their owner (the querent unless the question says otherwise)
+export const TOPIC_RULES: readonly HouseRule[] = [
+  {
+    house: 2,
+    label: 'money and possessions',
+    keywords: [
+      'money', 'finances?', 'financial', 'savings', 'income', 'salary', 'wages?',
+      'invest(?:ment|ments|ing)?', 'rings?', 'wallet', 'purse', 'keys', 'phone', 'watch', 'jewel(?:le)?ry',
+      'necklace', 'bracelet', 'earrings?', 'bag', 'lost', 'missing', 'misplaced',
+    ],
+    natural: 'Jupiter',
+  },
+  {
+    house: 3,
+    label: 'communication and short journeys',
+    keywords: ['letters?', 'messages?', 'emails?', 'texts?', 'short trip', 'commute', 'school'],
+    natural: 'Mercury',
+  },
+  {
+    house: 4,
+    label: 'home and property',
+    keywords: [
+      'home', 'house', 'flat', 'apartment', 'property', 'land', 'real estate', 'mov(?:e|ing)',
+      'relocat(?:e|ing|ion)', 'mortgage',
+    ],
+  },
+  {
+    house: 5,
+    label: 'children and pleasure',
+    keywords: ['pregnan(?:t|cy)', 'conceive', 'baby', 'party', 'gambl(?:e|ing)', 'bets?', 'lottery', 'affair'],
+    natural: 'Venus',
+  },
+  {
+    house: 6,
+    label: 'illness and daily work',
+    keywords: [
+      'ill', 'illness', 'sick', 'sickness', 'disease', 'diagnos(?:is|ed)', 'symptoms?', 'recover(?:y)?',
+      'health', 'pets?', 'dog', 'cat', 'colleagues?', 'coworkers?',
+    ],
+  },
+  {
+    house: 7,
+    label: 'marriage, partnership and disputes',
+    keywords: [
+      'marr(?:y|ied|iage)', 'wedding', 'relationship', 'divorce', 'lawsuit', 'court case', 'contract',
+      'deal', 'buyer', 'seller', 'stolen', 'theft', 'thief',
+    ],
+    natural: 'Venus',
+  },
+  {
+    house: 8,
+    label: 'death, inheritance and other people\'s money',
+    keywords: ['death', 'die', 'inherit(?:ance)?', 'will and testament', 'loan', 'taxes', 'insurance', 'surgery'],
+    natural: 'Saturn',
+  },
+  {
+    house: 9,
+    label: 'long journeys, study and religion',
+    keywords: [
+      'travel', 'abroad', 'journey', 'trip', 'visa', 'university', 'college', 'degree', 'exams?', 'studies',
+      'publish(?:ing|ed)?', 'book', 'religion', 'church',
+    ],
+    natural: 'Jupiter',
+  },
+  {
+    house: 10,
+    label: 'career and status',
+    keywords: [
+      'job', 'career', 'promot(?:ed|ion)', 'position', 'interview', 'hired', 'profession', 'reputation',
+      'business', 'award', 'judge', 'verdict',
+    ],
+    natural: 'Sun',
+  },
+  {
+    house: 11,
+    label: 'hopes, friends and groups',
+    keywords: ['hopes?', 'wish(?:es)?', 'club', 'group', 'society'],
+  },
+  {
+    house: 12,
+    label: 'hidden matters and confinement',
+    keywords: ['secret', 'hidden', 'prison', 'jail', 'hospital', 'spy', 'betray(?:al|ed)?', 'curse'],
+    natural: 'Saturn',
+  },
+]
@@ -0,0 +1,17 @@
+// Traditional Lots (Arabic Parts), after Bonatti and Lilly. Each is cast from the Ascendant
+// as Ascendant + add - subtract, with add and subtract swapped by night where the source does.
+
+import type { LotDefinition } from '../types.ts'
+
+export const LOT_CATALOGUE: readonly LotDefinition[] = [
+  { name: 'Fortune', add: 'Moon', subtract: 'Sun', reverse_at_night: true },
+  { name: 'Spirit', add: 'Sun', subtract: 'Moon', reverse_at_night: true },
+  { name: 'Father', add: 'Saturn', subtract: 'Sun', reverse_at_night: true },
+  { name: 'Mother', add: 'Moon', subtract: 'Venus', reverse_at_night: true },
+  { name: 'Brothers', add: 'Jupiter', subtract: 'Saturn', reverse_at_night: false },
+  { name: 'Children', add: 'Saturn', subtract: 'Jupiter', reverse_at_night: true },
+  { name: 'Sickness', add: 'Mars', subtract: 'Saturn', reverse_at_night: true },
+  { name: 'Marriage (men)', add: 'Venus', subtract: 'Saturn', reverse_at_night: false },
+  { name: 'Marriage (women)', add: 'Saturn', subtract: 'Venus', reverse_at_night: false },
+  { name: 'Death', add: 'house_8', subtract: 'Moon', reverse_at_night: false },
+]
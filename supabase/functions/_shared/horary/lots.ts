@@ -0,0 +1,86 @@
+// Lots (Arabic Parts): points cast from the Ascendant by the distance between two others
+
+import { normalizeDegrees } from '../astro/angles.ts'
+import { houseOf } from '../astro/houses.ts'
+import { signOf } from '../astro/zodiac.ts'
+import type { ChartData, Lot, LotDefinition, LotPoint } from '../types.ts'
+import { ordinal } from './format.ts'
+import { LOT_CATALOGUE } from './lotCatalogue.ts'
+import { rulerOf } from './rulerships.ts'
+
+type LotChart = Pick<ChartData, 'ascendant' | 'midheaven' | 'planets' | 'houses'>
+
+const HOUSE_POINT = /^house_(\d+)$/
+
+function catalogueLot(name: 'Fortune' | 'Spirit'): LotDefinition {
+  const definition = LOT_CATALOGUE.find(lot => lot.name === name)
+  if (!definition) throw new Error(`Lot of ${name} missing from catalogue`)
+  return definition
+}
+
+function pointLongitude(point: LotPoint, chart: LotChart, dayChart: boolean): number {
+  if (point === 'Ascendant') return chart.ascendant
+  if (point === 'Midheaven') return chart.midheaven
+  if (point === 'Fortune' || point === 'Spirit') {
+    return castLot(catalogueLot(point), chart, dayChart).longitude
+  }
+
+  const houseNumber = HOUSE_POINT.exec(point)?.[1]
+  if (houseNumber !== undefined) {
+    const house = chart.houses.find(h => h.number === Number(houseNumber))
+    if (!house) throw new Error(`House ${houseNumber} missing from chart`)
+    return house.cusp
+  }
+
+  const planet = chart.planets.find(p => p.name === point)
+  if (!planet) throw new Error(`${point} missing from chart`)
+  return planet.longitude
+}
+
+// e.g. "8th cusp" or "Lot of Fortune"
+function describePoint(point: LotPoint): string {
+  const houseNumber = HOUSE_POINT.exec(point)?.[1]
+  if (houseNumber !== undefined) return `${ordinal(Number(houseNumber))} cusp`
+  return point === 'Fortune' || point === 'Spirit' ? `Lot of ${point}` : point
+}
+
+function castLot(
+  definition: LotDefinition,
+  chart: LotChart,
+  dayChart: boolean
+): { longitude: number; formula: string } {
+  const [add, subtract] = dayChart || !definition.reverse_at_night
+    ? [definition.add, definition.subtract]
+    : [definition.subtract, definition.add]
+
+  const longitude = normalizeDegrees(
+    chart.ascendant + pointLongitude(add, chart, dayChart) - pointLongitude(subtract, chart, dayChart)
+  )
+  return { longitude, formula: `Ascendant + ${describePoint(add)} - ${describePoint(subtract)}` }
+}
+
+// The traditional catalogue, then any Lots the user has defined
+export function calculateLots(
+  chart: LotChart,
+  dayChart: boolean,
+  customLots: readonly LotDefinition[] = []
+): Lot[] {
+  const cusps = chart.houses.map(h => h.cusp)
+  const definitions = [
+    ...LOT_CATALOGUE.map(definition => ({ definition, custom: false })),
+    ...customLots.map(definition => ({ definition, custom: true })),
+  ]
+
+  return definitions.map(({ definition, custom }) => {
+    const { longitude, formula } = castLot(definition, chart, dayChart)
+    return {
+      name: definition.name,
+      longitude,
+      sign: signOf(longitude),
+      house: houseOf(longitude, cusps),
+      ruler: rulerOf(longitude),
+      formula,
+      custom,
+    }
+  })
+}
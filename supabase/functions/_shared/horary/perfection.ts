@@ -0,0 +1,317 @@
+// Perfection: whether and how the significators come together, or what stops them
+
+import { angleDifference, formatArc } from '../astro/angles.ts'
+import type { ChartCalculation } from '../astro/chart.ts'
+import {
+  type AspectEvent,
+  type LongitudeAt,
+  type StationEvent,
+  createLongitudeCache,
+  findAspectPerfection,
+  findStations,
+} from '../astro/search.ts'
+import { dateFromJulianDayUT, julianDayUT } from '../astro/time.ts'
+import { ASPECT_ANGLES, MAJOR_ASPECTS, MEAN_DAILY_MOTION } from '../constants.ts'
+import type {
+  Aspect,
+  Judgement,
+  Obstruction,
+  Perfection,
+  Planet,
+  Significators,
+  Station,
+} from '../types.ts'
+import { TRADITIONAL_PLANETS } from './rulerships.ts'
+
+// How far ahead to look: the time the faster planet takes to cross a sign, capped
+const SEARCH_ARC = 30
+const MAX_SEARCH_DAYS = 400
+const SEARCH_STEP_DAYS = 1
+
+interface SearchContext {
+  longitudeAt: LongitudeAt;
+  jd: number;
+  speeds: Record<Planet, number>;
+  aspects: Aspect[];
+}
+
+function toIso(jd: number): string {
+  return dateFromJulianDayUT(jd).toISOString()
+}
+
+// e.g. "2024-04-02 10:15 UTC"
+function formatTime(jd: number): string {
+  return `${toIso(jd).slice(0, 16).replace('T', ' ')} UTC`
+}
+
+function searchDays(a: Planet, b: Planet): number {
+  return Math.min(MAX_SEARCH_DAYS, SEARCH_ARC / Math.max(MEAN_DAILY_MOTION[a], MEAN_DAILY_MOTION[b]))
+}
+
+function nextPerfection(ctx: SearchContext, a: Planet, b: Planet, until?: number): AspectEvent | null {
+  const to = until ?? ctx.jd + searchDays(a, b)
+  return findAspectPerfection(ctx.longitudeAt, a, b, ctx.jd, to, SEARCH_STEP_DAYS)
+}
+
+// Arc between the two bodies' current separation and the exact aspect
+function degreesToExact(ctx: SearchContext, a: Planet, b: Planet, event: AspectEvent): number {
+  const separation = Math.abs(angleDifference(ctx.longitudeAt(a, ctx.jd), ctx.longitudeAt(b, ctx.jd)))
+  return Math.abs(separation - ASPECT_ANGLES[event.type])
+}
+
+function toStation(event: StationEvent): Station {
+  return { planet: event.planet, at: toIso(event.jd), direction: event.direction }
+}
+
+function speedOf(ctx: SearchContext, planet: Planet): number {
+  return Math.abs(ctx.speeds[planet])
+}
+
+function isMajorAspect(aspect: Aspect, a: Planet, b: Planet): boolean {
+  return MAJOR_ASPECTS.includes(aspect.type) &&
+    ((aspect.planet1 === a && aspect.planet2 === b) || (aspect.planet1 === b && aspect.planet2 === a))
+}
+
+// Within orb and closing in the chart itself
+function isApplying(ctx: SearchContext, a: Planet, b: Planet): boolean {
+  return ctx.aspects.some(x => x.applying && isMajorAspect(x, a, b))
+}
+
+// A third planet already applying to either significator that perfects first: prohibition,
+// or frustration when the significator being applied to runs on to a slower planet of its own
+function findInterference(
+  ctx: SearchContext,
+  applying: Planet,
+  applied: Planet,
+  until: number
+): Obstruction | null {
+  let first: { planet: Planet; significator: Planet; event: AspectEvent } | null = null
+
+  for (const planet of TRADITIONAL_PLANETS) {
+    if (planet === applying || planet === applied) continue
+    for (const significator of [applying, applied]) {
+      if (!isApplying(ctx, planet, significator)) continue
+      const event = nextPerfection(ctx, planet, significator, until)
+      if (event && (!first || event.jd < first.event.jd)) first = { planet, significator, event }
+    }
+  }
+
+  if (!first) return null
+
+  const { planet, significator, event } = first
+  const frustration = significator === applied && speedOf(ctx, applied) > speedOf(ctx, planet)
+  return {
+    kind: frustration ? 'frustration' : 'prohibition',
+    planet,
+    aspect: event.type,
+    at: toIso(event.jd),
+    description: frustration
+      ? `${applied} perfects a ${event.type} with ${planet} first (${formatTime(event.jd)}), ` +
+        `frustrating ${applying}'s application`
+      : `${planet} perfects a ${event.type} with ${significator} first (${formatTime(event.jd)}), ` +
+        `prohibiting the perfection`,
+  }
+}
+
+// At their present speeds the two would perfect, but one stations and turns back first
+function findRefranation(
+  ctx: SearchContext,
+  a: Planet,
+  b: Planet,
+  stations: Station[]
+): Obstruction | null {
+  const station = stations[0]
+  if (!station) return null
+
+  const relativeSpeed = ctx.speeds[b] - ctx.speeds[a]
+  const separation = angleDifference(ctx.longitudeAt(a, ctx.jd), ctx.longitudeAt(b, ctx.jd))
+  const stationJd = julianDayUT(new Date(station.at))
+
+  for (const type of MAJOR_ASPECTS) {
+    for (const angle of [ASPECT_ANGLES[type], -ASPECT_ANGLES[type]]) {
+      const days = -angleDifference(angle, separation) / relativeSpeed
+      if (days > 0 && ctx.jd + days > stationJd && days <= searchDays(a, b)) {
+        return {
+          kind: 'refranation',
+          planet: station.planet,
+          aspect: type,
+          at: station.at,
+          description: `${station.planet} turns ${station.direction} (${formatTime(stationJd)}) before ` +
+            `its ${type} with ${station.planet === a ? b : a} perfects: refranation`,
+        }
+      }
+    }
+  }
+
+  return null
+}
+
+// A faster planet separates from one significator and carries the light to the other
+function findTranslation(ctx: SearchContext, a: Planet, b: Planet): Perfection | null {
+  for (const via of TRADITIONAL_PLANETS) {
+    if (via === a || via === b) continue
+    if (speedOf(ctx, via) <= speedOf(ctx, a) || speedOf(ctx, via) <= speedOf(ctx, b)) continue
+
+    for (const [from, to] of [[a, b], [b, a]] as const) {
+      const separating = ctx.aspects.some(x => x.separating && isMajorAspect(x, via, from))
+      if (!separating || !isApplying(ctx, via, to)) continue
+
+      // The translator's very next perfection must be with the other significator
+      const next = nextPerfection(ctx, via, to)
+      if (!next) continue
+      const interrupted = TRADITIONAL_PLANETS.some(other => {
+        if (other === via || other === to) return false
+        const event = nextPerfection(ctx, via, other, next.jd)
+        return event !== null && event.jd < next.jd
+      })
+      if (interrupted) continue
+
+      return {
+        kind: 'translation',
+        aspect: next.type,
+        planets: [via, to],
+        via,
+        degrees: degreesToExact(ctx, via, to, next),
+        exact_at: toIso(next.jd),
+      }
+    }
+  }
+
+  return null
+}
+
+// Both significators apply to a slower planet, which collects their light
+function findCollection(ctx: SearchContext, a: Planet, b: Planet): Perfection | null {
+  for (const via of TRADITIONAL_PLANETS) {
+    if (via === a || via === b) continue
+    if (speedOf(ctx, via) >= speedOf(ctx, a) || speedOf(ctx, via) >= speedOf(ctx, b)) continue
+    if (!isApplying(ctx, a, via) || !isApplying(ctx, b, via)) continue
+
+    const fromA = nextPerfection(ctx, a, via)
+    const fromB = nextPerfection(ctx, b, via)
+    if (!fromA || !fromB) continue
+
+    const [later, planet] = fromA.jd > fromB.jd ? [fromA, a] : [fromB, b]
+    return {
+      kind: 'collection',
+      aspect: later.type,
+      planets: [planet, via],
+      via,
+      degrees: degreesToExact(ctx, planet, via, later),
+      exact_at: toIso(later.jd),
+    }
+  }
+
+  return null
+}
+
+function describePerfection(perfection: Perfection, a: Planet, b: Planet): string {
+  const [first, second] = perfection.planets
+  const exactAt = julianDayUT(new Date(perfection.exact_at))
+  const when = `${formatArc(perfection.degrees)} from exact, ${formatTime(exactAt)}`
+  switch (perfection.kind) {
+    case 'aspect':
+      return `${first} and ${second} perfect by ${perfection.aspect} (${when})`
+    case 'translation':
+      return `${perfection.via} translates the light between ${a} and ${b}, perfecting its ` +
+        `${perfection.aspect} with ${second} (${when})`
+    case 'collection':
+      return `${perfection.via} collects the light of ${a} and ${b}; the last to perfect is ` +
+        `${first}'s ${perfection.aspect} (${when})`
+  }
+}
+
+// When the two significators are the same planet, the Moon stands in for the querent
+function judgedPair(significators: Significators): [Planet, Planet] | null {
+  const { querent, quesited } = significators
+  if (querent.ruler !== quesited.ruler) return [querent.ruler, quesited.ruler]
+  return quesited.ruler === 'Moon' ? null : ['Moon', quesited.ruler]
+}
+
+export function judgePerfection(
+  { chart, bodies }: ChartCalculation,
+  significators: Significators
+): Judgement {
+  const pair = judgedPair(significators)
+  if (!pair) {
+    return {
+      querent: significators.querent.ruler,
+      quesited: significators.quesited.ruler,
+      perfects: false,
+      perfection: null,
+      obstruction: null,
+      stations: [],
+      summary: `The Moon signifies both querent and quesited, so there is no aspect to perfect`,
+    }
+  }
+
+  const [querent, quesited] = pair
+  const ctx: SearchContext = {
+    longitudeAt: createLongitudeCache(),
+    jd: julianDayUT(new Date(chart.timestamp)),
+    speeds: Object.fromEntries(
+      Object.entries(bodies).map(([name, body]) => [name, body.speed])
+    ) as Record<Planet, number>,
+    aspects: chart.aspects,
+  }
+
+  const direct = nextPerfection(ctx, querent, quesited)
+  const until = direct?.jd ?? ctx.jd + searchDays(querent, quesited)
+  const stations = [querent, quesited]
+    .flatMap(planet => findStations(ctx.longitudeAt, planet, ctx.jd, until, SEARCH_STEP_DAYS))
+    .sort((x, y) => x.jd - y.jd)
+    .map(toStation)
+
+  // The faster significator is the one applying
+  const [applying, applied] = speedOf(ctx, querent) >= speedOf(ctx, quesited)
+    ? [querent, quesited]
+    : [quesited, querent]
+
+  let perfection: Perfection | null = null
+  let obstruction: Obstruction | null = null
+
+  if (direct) {
+    obstruction = findInterference(ctx, applying, applied, direct.jd)
+    if (!obstruction) {
+      perfection = {
+        kind: 'aspect',
+        aspect: direct.type,
+        planets: [applying, applied],
+        via: null,
+        degrees: degreesToExact(ctx, querent, quesited, direct),
+        exact_at: toIso(direct.jd),
+      }
+    }
+  } else {
+    obstruction = findRefranation(ctx, querent, quesited, stations) ?? {
+      kind: 'no_application',
+      planet: null,
+      aspect: null,
+      at: null,
+      description: `${querent} and ${quesited} do not perfect an aspect before ${applying} ` +
+        `moves another ${SEARCH_ARC}°`,
+    }
+  }
+
+  if (!perfection) {
+    perfection = findTranslation(ctx, querent, quesited) ?? findCollection(ctx, querent, quesited)
+  }
+
+  const parts = [
+    ...(obstruction ? [obstruction.description] : []),
+    ...(perfection ? [describePerfection(perfection, querent, quesited)] : []),
+  ]
+  if (perfection?.kind === 'aspect' && stations.length > 0) {
+    parts.push(`${stations.map(s => `${s.planet} turns ${s.direction}`).join(' and ')} before it perfects`)
+  }
+
+  return {
+    querent,
+    quesited,
+    perfects: perfection !== null,
+    perfection,
+    obstruction,
+    stations,
+    summary: parts.join('; '),
+  }
+}
@@ -0,0 +1,79 @@
+// Planetary hours: the day and the night each split into twelve unequal hours,
+// ruled in Chaldean order from the ruler of the day
+
+import { findSunEvents } from '../astro/riseSet.ts'
+import { dateFromJulianDayUT, julianDayUT } from '../astro/time.ts'
+import type { Location, Planet, PlanetaryDay, PlanetaryHour } from '../types.ts'
+
+export const CHALDEAN_ORDER: readonly Planet[] = [
+  'Saturn', 'Jupiter', 'Mars', 'Sun', 'Venus', 'Mercury', 'Moon',
+]
+
+// Rulers of the days of the week, Sunday first
+const DAY_RULERS: readonly Planet[] = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn']
+
+function toIso(jd: number): string {
+  return dateFromJulianDayUT(jd).toISOString()
+}
+
+// Ruler of the nth hour (0-23) counted from sunrise; the first hour belongs to the day ruler
+export function hourRuler(dayRuler: Planet, hourIndex: number): Planet {
+  return CHALDEAN_ORDER[(CHALDEAN_ORDER.indexOf(dayRuler) + hourIndex) % 7] as Planet
+}
+
+// The weekday of a sunrise, reckoned in local mean time at the given longitude
+function dayRulerOf(sunriseJd: number, location: Location): Planet {
+  const localTime = dateFromJulianDayUT(sunriseJd + location.lon / 360)
+  return DAY_RULERS[localTime.getUTCDay()] as Planet
+}
+
+function splitHours(dayRuler: Planet, start: number, end: number, daytime: boolean): PlanetaryHour[] {
+  const length = (end - start) / 12
+  return Array.from({ length: 12 }, (_, i) => {
+    const index = daytime ? i : i + 12
+    return {
+      ruler: hourRuler(dayRuler, index),
+      number: index + 1,
+      daytime,
+      start: toIso(start + i * length),
+      end: toIso(i === 11 ? end : start + (i + 1) * length),
+    }
+  })
+}
+
+// The planetary day (sunrise to the next sunrise) containing an instant;
+// null where the Sun does not rise and set that day
+export function planetaryDayAt(date: Date, location: Location): PlanetaryDay | null {
+  const jd = julianDayUT(date)
+  // Look back far enough to find the sunrise that began the day
+  const events = findSunEvents(location, jd - 1.5, jd + 1.5)
+
+  const riseIndex = events.findLastIndex(e => e.type === 'rise' && e.jd <= jd)
+  const rise = events[riseIndex]
+  const set = events[riseIndex + 1]
+  const nextRise = events[riseIndex + 2]
+  if (!rise || set?.type !== 'set' || nextRise?.type !== 'rise') return null
+
+  const dayRuler = dayRulerOf(rise.jd, location)
+  return {
+    day_ruler: dayRuler,
+    sunrise: toIso(rise.jd),
+    sunset: toIso(set.jd),
+    next_sunrise: toIso(nextRise.jd),
+    hours: [
+      ...splitHours(dayRuler, rise.jd, set.jd, true),
+      ...splitHours(dayRuler, set.jd, nextRise.jd, false),
+    ],
+  }
+}
+
+// The planetary hour at an instant, from the day containing it
+export function planetaryHourIn(day: PlanetaryDay, date: Date): PlanetaryHour | null {
+  const time = date.toISOString()
+  return day.hours.find(hour => hour.start <= time && time < hour.end) ?? null
+}
+
+export function planetaryHourAt(date: Date, location: Location): PlanetaryHour | null {
+  const day = planetaryDayAt(date, location)
+  return day && planetaryHourIn(day, date)
+}
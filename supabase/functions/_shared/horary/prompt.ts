@@ -0,0 +1,120 @@
+// Interpretation prompt handed to the AI astrologer
+
+import { formatArc } from '../astro/angles.ts'
+import { formatLongitude } from '../astro/zodiac.ts'
+import { HOUSE_SYSTEM_LABELS, ORB_MODEL_LABELS } from '../constants.ts'
+import type { ChartData, Location, Significators } from '../types.ts'
+import type { ChartAnalysis } from './analysis.ts'
+import { describeDignity } from './dignities.ts'
+import {
+  describeAntiscialContact,
+  describeAspect,
+  describePlacement,
+  describeReception,
+  describeStarConjunction,
+  ordinal,
+} from './format.ts'
+import { findReception } from './reception.ts'
+
+function describeLocation(location: Location): string {
+  const coordinates = `${location.lat.toFixed(4)}°, ${location.lon.toFixed(4)}°`
+  const name = [location.city, location.country].filter(Boolean).join(', ')
+  return name ? `${name} (${coordinates})` : coordinates
+}
+
+function coSignificators(planets: string[]): string {
+  return planets.length > 0 ? `; co-significators ${planets.join(', ')}` : ''
+}
+
+export function buildInterpretationPrompt(
+  question: string,
+  chart: ChartData,
+  analysis: ChartAnalysis,
+  significators: Significators
+): string {
+  const planets = chart.planets.map(p => `- ${describePlacement(p)}`)
+  const houses = chart.houses.map(h => `- ${ordinal(h.number)}: ${formatLongitude(h.cusp)}`)
+  // Charts from schema version 1 recorded no dignities, nor the sect the Lots were cast by
+  const { dignities } = chart
+  const sect = dignities && (dignities.day_chart ? 'day' : 'night')
+  const essential = dignities
+    ? [
+      `Essential dignities (${sect} chart, ${dignities.term_system} terms):`,
+      ...dignities.planets.map(d => `- ${d.planet} in ${d.sign}: ${describeDignity(d)}`),
+    ]
+    : ['Essential dignities: not recorded']
+  const hour = chart.planetary_hour
+  const { querent, quesited } = significators
+  const reception = findReception(chart, querent.ruler, quesited.ruler)
+  const lots = chart.lots.map(lot =>
+    `- ${lot.name}${lot.custom ? ' (custom)' : ''}: ${formatLongitude(lot.longitude)}, ` +
+      `${ordinal(lot.house)} house, ruled by ${lot.ruler} (${lot.formula})`
+  )
+  const nodes = chart.nodes
+    .filter(node => node.name === 'North Node')
+    .map(node => `- ${node.kind === 'mean' ? 'Mean' : 'True'} North Node: ${formatLongitude(node.longitude)}, ` +
+      `${ordinal(node.house)} house`)
+  const stars = chart.fixed_stars.length > 0
+    ? chart.fixed_stars.map(c => `- ${describeStarConjunction(c)}`)
+    : ['- None within orb']
+  const antiscia = chart.antiscial_contacts.length > 0
+    ? chart.antiscial_contacts.map(c => `- ${describeAntiscialContact(c)}`)
+    : ['- None within orb']
+  const aspects = chart.aspects.length > 0
+    ? chart.aspects.map(a => `- ${describeAspect(a)}`)
+    : ['- None within orb']
+
+  return [
+    'Judge the following horary chart using traditional techniques.',
+    '',
+    `Question: "${question}"`,
+    `Asked at: ${chart.timestamp}`,
+    `Location: ${describeLocation(chart.location)}`,
+    '',
+    `Ascendant: ${formatLongitude(chart.ascendant)}`,
+    `Midheaven: ${formatLongitude(chart.midheaven)}`,
+    ...(hour
+      ? [`Planetary hour: ${ordinal(hour.number)} (${hour.daytime ? 'day' : 'night'}), ruled by ${hour.ruler}`]
+      : []),
+    '',
+    'Planets:',
+    ...planets,
+    '',
+    `House cusps (${HOUSE_SYSTEM_LABELS[chart.house_system]}):`,
+    ...houses,
+    '',
+    ...essential,
+    '',
+    `Aspects (${ORB_MODEL_LABELS[chart.orb_model]}):`,
+    ...aspects,
+    '',
+    'Lunar nodes (the South Node is opposite):',
+    ...nodes,
+    '',
+    `Fixed stars (conjunctions within ${formatArc(chart.contact_orbs.fixed_star)}):`,
+    ...stars,
+    '',
+    `Antiscia (within ${formatArc(chart.contact_orbs.antiscia)}):`,
+    ...antiscia,
+    '',
+    sect ? `Lots (${sect} formulas):` : 'Lots:',
+    ...lots,
+    '',
+    'Significators:',
+    `- Querent: ${querent.ruler}, ruler of the 1st house` + coSignificators(querent.co_significators),
+    `- Quesited, ${significators.topic}: ${quesited.ruler}, ruler of the ` +
+      `${ordinal(quesited.house)} house` + coSignificators(quesited.co_significators),
+    ...significators.explanation.map(e => `- ${e}`),
+    ...(querent.ruler !== quesited.ruler
+      ? [`- Reception between ${querent.ruler} and ${quesited.ruler}: ` +
+          (reception ? describeReception(reception) : 'none')]
+      : []),
+    '',
+    'Key factors:',
+    ...analysis.significanceFactors.map(f => `- ${f}`),
+    '',
+    'Using these significators and the perfection found, give a clear answer with the reasoning ' +
+      'and any timing indications. Weigh any reception: a hard aspect with reception can still ' +
+      'bring the matter to pass.',
+  ].join('\n')
+}
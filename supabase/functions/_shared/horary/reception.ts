@@ -0,0 +1,50 @@
+// Reception: a planet receives another that stands in one of its essential dignities
+
+import type { Aspect, ChartData, ChartDignities, DignityKind, Planet, Reception } from '../types.ts'
+import { dignityRulers } from './dignities.ts'
+
+// Strongest first, as reception is usually quoted
+export const DIGNITY_KINDS: readonly DignityKind[] = ['domicile', 'exaltation', 'triplicity', 'term', 'face']
+
+type ReceptionChart = Pick<ChartData, 'planets' | 'dignities'>
+
+// Dignities of `host` at the degree where `guest` stands
+function receivedBy(
+  chart: ReceptionChart,
+  dignities: ChartDignities,
+  host: Planet,
+  guest: Planet
+): DignityKind[] {
+  const position = chart.planets.find(p => p.name === guest)
+  if (!position) throw new Error(`${guest} missing from chart`)
+
+  const { day_chart: dayChart, term_system: termSystem } = dignities
+  const rulers = dignityRulers(position.longitude, dayChart, termSystem)
+  return DIGNITY_KINDS.filter(kind => rulers[kind] === host)
+}
+
+// Reception in either or both directions; null when neither planet receives the other, or when
+// the chart is from schema version 1 and has no record of its day/night and terms
+export function findReception(chart: ReceptionChart, first: Planet, second: Planet): Reception | null {
+  if (first === second || !chart.dignities) return null
+
+  const firstReceives = receivedBy(chart, chart.dignities, first, second)
+  const secondReceives = receivedBy(chart, chart.dignities, second, first)
+  if (firstReceives.length === 0 && secondReceives.length === 0) return null
+
+  const mutual = firstReceives.length > 0 && secondReceives.length > 0
+  return {
+    planets: [first, second],
+    first_receives: firstReceives,
+    second_receives: secondReceives,
+    mutual,
+    mixed: mutual && !firstReceives.some(kind => secondReceives.includes(kind)),
+  }
+}
+
+export function withReceptions(aspects: Aspect[], chart: ReceptionChart): Aspect[] {
+  return aspects.map(aspect => ({
+    ...aspect,
+    reception: findReception(chart, aspect.planet1, aspect.planet2),
+  }))
+}
@@ -0,0 +1,29 @@
+// Traditional sign rulerships
+
+import type { Planet, ZodiacSign } from '../types.ts'
+import { signOf } from '../astro/zodiac.ts'
+
+// The seven visible planets used by traditional horary
+export const TRADITIONAL_PLANETS: readonly Planet[] = [
+  'Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn',
+]
+
+export const DOMICILE_RULERS: Record<ZodiacSign, Planet> = {
+  Aries: 'Mars',
+  Taurus: 'Venus',
+  Gemini: 'Mercury',
+  Cancer: 'Moon',
+  Leo: 'Sun',
+  Virgo: 'Mercury',
+  Libra: 'Venus',
+  Scorpio: 'Mars',
+  Sagittarius: 'Jupiter',
+  Capricorn: 'Saturn',
+  Aquarius: 'Saturn',
+  Pisces: 'Jupiter',
+}
+
+// Ruler of the sign a longitude falls in
+export function rulerOf(longitude: number): Planet {
+  return DOMICILE_RULERS[signOf(longitude)]
+}
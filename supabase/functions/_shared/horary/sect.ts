@@ -0,0 +1,9 @@
+// Sect: whether a chart is diurnal or nocturnal
+
+import { normalizeDegrees } from '../astro/angles.ts'
+
+// The Sun is above the horizon when it lies in the half of the ecliptic
+// running from the Descendant back up through the Midheaven to the Ascendant
+export function isDayChart(sunLongitude: number, ascendant: number): boolean {
+  return normalizeDegrees(sunLongitude - ascendant) >= 180
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict'
+import { classifyByRules, derivedHouse } from './significators.ts'
+
+Deno.test('classifyByRules: the querent\'s own matters stay in the radical house', () => {
+  const cases: [string, number[]][] = [
+    // I
+    ['Will I get the job?', [10]],
+    ['Will I find my ring before he notices?', [2]],
+    // my
+    ['Did he steal my wallet?', [2]],
+    ['Will she return my keys?', [2]],
+    ['Is my money safe?', [2]],
+    // me
+    ['Will they hire me for the position?', [10]],
+    ['Will she lend me the money?', [2]],
+    // mine
+    ['Did he take mine, the gold watch?', [2]],
+    // will he/she <verb> me: the matter is between the two of them, not the other person's own
+    ['Will he marry me?', [7]],
+    ['Will she divorce me?', [7]],
+    ['Will he stay married to me?', [7]],
+    ['Will she betray me?', [12]],
+  ]
+  for (const [question, derivation] of cases) {
+    assert.deepEqual(classifyByRules(question)?.derivation, derivation, question)
+  }
+})
+
+Deno.test('classifyByRules: other people\'s matters are derived from their houses', () => {
+  const cases: [string, number[]][] = [
+    ['Will my brother\'s wife get the job?', [3, 7, 10]],
+    ['Will his health improve?', [7, 6]],
+    ['Will my mother sell her house?', [10, 4]],
+    // The querent comes after the matter, which is still the other person's
+    ['Did he lose the money I lent him?', [7, 2]],
+    // Another person comes between the querent and the matter
+    ['Will they tell me about his job?', [7, 10]],
+    ['Will my sister get the job?', [3, 10]],
+    // Someone else is the object of the matter
+    ['Will he marry her?', [7, 7]],
+  ]
+  for (const [question, derivation] of cases) {
+    assert.deepEqual(classifyByRules(question)?.derivation, derivation, question)
+  }
+})
+
+Deno.test('classifyByRules leaves questions with no keyword to the model', () => {
+  assert.equal(classifyByRules('Should I?'), null)
+})
+
+Deno.test('derivedHouse counts each house from the last', () => {
+  assert.equal(derivedHouse([7, 2]), 8)
+  assert.equal(derivedHouse([7, 10]), 4)
+  assert.equal(derivedHouse([3, 7, 10]), 6)
+  assert.equal(derivedHouse([10]), 10)
+})
@@ -0,0 +1,292 @@
+// Significator assignment: which houses and planets stand for the querent and the quesited
+
+import { formatLongitude } from '../astro/zodiac.ts'
+import { requestJsonCompletion } from '../openai.ts'
+import type {
+  ChartData,
+  ClassificationMethod,
+  HousePosition,
+  Planet,
+  Significator,
+  Significators,
+} from '../types.ts'
+import { ordinal } from './format.ts'
+import { type HouseRule, OTHER_PERSON_RULE, PEOPLE_RULES, TOPIC_RULES } from './houseTopics.ts'
+import { rulerOf } from './rulerships.ts'
+
+// Longest chain accepted from the model, e.g. "my mother's friend's child"
+const MAX_DERIVATION = 4
+
+// The quesited's house, before any planets are looked at
+export interface HouseClassification {
+  derivation: number[];
+  topic: string;
+  natural?: Planet;
+  method: ClassificationMethod;
+  explanation: string[];
+}
+
+interface Match {
+  term: string;
+  rule: HouseRule;
+  start: number;
+  end: number;
+}
+
+// A person mentioned in the question, e.g. "my brother's spouse"
+interface Mention {
+  people: Match[];
+  possessive: boolean; // "my brother's ...": whatever follows belongs to the last person
+  start: number;
+  end: number;
+}
+
+function wordPattern(keywords: readonly string[]): string {
+  return `(?<![a-z])(?:${keywords.join('|')})(?![a-z])`
+}
+
+const PERSON = PEOPLE_RULES.flatMap(rule => rule.keywords).join('|')
+const CHAIN_PATTERN = new RegExp(
+  `(?<![a-z])(?:my|our)\\s+((?:(?:${PERSON})'s?\\s+)*(?:${PERSON}))('s?)?(?![a-z])`,
+  'g'
+)
+const PRONOUN_PATTERN = new RegExp(wordPattern(OTHER_PERSON_RULE.keywords), 'g')
+const QUERENT_PATTERN = /(?<![a-z])(?:i|me|my|mine|myself)(?![a-z])/g
+// The querent as the object of the matter, e.g. "will he marry me"
+const QUERENT_OBJECT_PATTERN = /(?<![a-z])(?:me|myself)(?![a-z])/g
+
+function personRule(term: string): HouseRule {
+  return PEOPLE_RULES.find(rule => new RegExp(`^(?:${rule.keywords.join('|')})$`).test(term)) ??
+    OTHER_PERSON_RULE
+}
+
+function findTopics(text: string): Match[] {
+  return TOPIC_RULES
+    .flatMap(rule =>
+      [...text.matchAll(new RegExp(wordPattern(rule.keywords), 'g'))].map(m => ({
+        term: m[0],
+        rule,
+        start: m.index,
+        end: m.index + m[0].length,
+      }))
+    )
+    .sort((a, b) => a.start - b.start)
+}
+
+function findMentions(text: string, topics: Match[]): Mention[] {
+  const chains = [...text.matchAll(CHAIN_PATTERN)].map(m => {
+    const chain = m[1] ?? ''
+    const chainStart = m.index + m[0].indexOf(chain)
+    let offset = chainStart
+    const people = chain.split(/'s?\s+/).map(term => {
+      const start = text.indexOf(term, offset)
+      offset = start + term.length
+      return { term, rule: personRule(term), start, end: offset }
+    })
+    return { people, possessive: Boolean(m[2]), start: m.index, end: m.index + m[0].length }
+  })
+
+  // his/their always own what follows; her only when a matter comes straight after it
+  const pronouns = [...text.matchAll(PRONOUN_PATTERN)]
+    .filter(m => !chains.some(c => m.index >= c.start && m.index < c.end))
+    .map(m => {
+      const end = m.index + m[0].length
+      const possessive = m[0] === 'his' || m[0] === 'their' ||
+        (m[0] === 'her' && topics.some(t => t.start === end + 1))
+      const person = { term: m[0], rule: OTHER_PERSON_RULE, start: m.index, end }
+      return { people: [person], possessive, start: m.index, end }
+    })
+
+  return [...chains, ...pronouns].sort((a, b) => a.start - b.start)
+}
+
+// Where the querent speaks of themself; "my" at the head of a chain belongs to that mention
+function findQuerent(text: string, mentions: Mention[], pattern = QUERENT_PATTERN): number[] {
+  return [...text.matchAll(pattern)]
+    .map(m => m.index)
+    .filter(index => !mentions.some(m => index >= m.start && index < m.end))
+}
+
+// Whether another person is mentioned strictly between two points of the question
+function mentionBetween(mentions: Mention[], from: number, to: number): boolean {
+  return mentions.some(m => m.start > from && m.start < to)
+}
+
+// Radix house reached by counting each house in turn from the last, starting at the 1st
+export function derivedHouse(derivation: number[]): number {
+  return derivation.reduce((house, step) => ((house + step - 2) % 12) + 1, 1)
+}
+
+function explainSteps(steps: Match[]): string[] {
+  let house = 1
+  return steps.map(({ term, rule }) => {
+    const from = house
+    house = derivedHouse([from, rule.house])
+    return from === 1
+      ? `"${term}" (${rule.label}) is the ${ordinal(rule.house)} house`
+      : `"${term}" (${rule.label}) is the ${ordinal(rule.house)} from the ${ordinal(from)}, ` +
+        `which is the ${ordinal(house)} house of the chart`
+  })
+}
+
+function possessive(term: string): string {
+  return term.endsWith('s') ? `${term}'` : `${term}'s`
+}
+
+// e.g. "brother's partner" or "husband's career and status (job)"
+function describeTopic(people: Match[], topic: Match | null): string {
+  const names = people.map(p => (p.rule === OTHER_PERSON_RULE ? 'the other person' : p.term))
+  if (!topic) return names.map((name, i) => (i < names.length - 1 ? possessive(name) : name)).join(' ')
+  const matter = `${topic.rule.label} (${topic.term})`
+  return [...names.map(possessive), matter].join(' ')
+}
+
+function fromMatches(people: Match[], topic: Match | null): HouseClassification {
+  const steps = topic ? [...people, topic] : people
+  const last = steps[steps.length - 1]
+  return {
+    derivation: steps.map(s => s.rule.house),
+    topic: describeTopic(people, topic),
+    natural: last?.rule.natural,
+    method: 'rules',
+    explanation: explainSteps(steps),
+  }
+}
+
+// Keyword rules. The first person or matter mentioned decides the quesited: a matter
+// after a person belongs to that person unless the querent asked about themself first, the
+// querent comes between them ("did he steal my wallet", "will they hire me for the job"), or
+// the matter is done to the querent ("will he marry me").
+export function classifyByRules(question: string): HouseClassification | null {
+  const text = question.toLowerCase().replace(/[‘’]/g, "'")
+  const topics = findTopics(text)
+  const mentions = findMentions(text, topics)
+  const freeTopics = topics.filter(t => !mentions.some(m => t.start < m.end && t.end > m.start))
+
+  const mention = mentions[0]
+  if (!mention) {
+    const topic = freeTopics[0]
+    return topic ? fromMatches([], topic) : null
+  }
+
+  const querent = findQuerent(text, mentions)
+  if (!mention.possessive && querent.some(index => index < mention.start)) {
+    const earlierTopic = freeTopics.find(t => t.start < mention.start)
+    return fromMatches(earlierTopic ? [] : mention.people, earlierTopic ?? null)
+  }
+
+  const ownedTopic = freeTopics.find(t => t.start >= mention.end)
+  // The querent's own matter, or one shared with the querent, stays in the radical house
+  if (ownedTopic && (
+    querent.some(index =>
+      index >= mention.end && index < ownedTopic.start && !mentionBetween(mentions, index, ownedTopic.start)
+    ) ||
+    findQuerent(text, mentions, QUERENT_OBJECT_PATTERN).some(index =>
+      index >= ownedTopic.end && !mentionBetween(mentions, ownedTopic.end, index)
+    )
+  )) {
+    return fromMatches([], ownedTopic)
+  }
+  return fromMatches(mention.people, ownedTopic ?? null)
+}
+
+const CLASSIFIER_PROMPT = [
+  'You assign horary astrology questions to houses using traditional rules (William Lilly).',
+  'Reply with a JSON object: {"derivation": number[], "topic": string, "reasoning": string}.',
+  '"derivation" lists the houses counted in turn from the querent\'s 1st house: "will I get the job" ' +
+    'is [10], "my brother\'s spouse" is [3, 7] and "my husband\'s health" is [7, 6].',
+  '"topic" names the quesited in a few words; "reasoning" explains the choice in one sentence.',
+].join('\n')
+
+function isDerivation(value: unknown): value is number[] {
+  return Array.isArray(value) &&
+    value.length > 0 &&
+    value.length <= MAX_DERIVATION &&
+    value.every(house => Number.isInteger(house) && house >= 1 && house <= 12)
+}
+
+async function classifyWithModel(question: string): Promise<HouseClassification | null> {
+  const result = await requestJsonCompletion(CLASSIFIER_PROMPT, question)
+  if (!result || !isDerivation(result.derivation)) return null
+
+  const reasoning = typeof result.reasoning === 'string' ? result.reasoning : ''
+  return {
+    derivation: result.derivation,
+    topic: typeof result.topic === 'string' ? result.topic : 'the matter asked about',
+    method: 'llm',
+    explanation: [
+      'No keyword rule matched, so the question was classified by the language model',
+      ...(reasoning ? [reasoning] : []),
+    ],
+  }
+}
+
+// Rules first, then the language model, then the 7th house for any matter not otherwise signified
+export async function classifyQuestion(question: string): Promise<HouseClassification> {
+  const classification = classifyByRules(question) ?? await classifyWithModel(question)
+  if (classification) return classification
+
+  return {
+    derivation: [7],
+    topic: 'the matter asked about',
+    method: 'default',
+    explanation: [
+      'No keyword rule matched and no model answer was available, so the quesited takes the 7th house',
+    ],
+  }
+}
+
+function findHouse(houses: HousePosition[], number: number): HousePosition {
+  const house = houses.find(h => h.number === number)
+  if (!house) throw new Error(`House ${number} missing from chart`)
+  return house
+}
+
+function significatorOf(chart: ChartData, number: number, extra: Planet[]): Significator {
+  const ruler = rulerOf(findHouse(chart.houses, number).cusp)
+  const occupants = chart.planets.filter(p => p.house === number).map(p => p.name)
+  const coSignificators = [...new Set([...occupants, ...extra])].filter(p => p !== ruler)
+  return { house: number, ruler, co_significators: coSignificators }
+}
+
+export function assignSignificators(
+  classification: HouseClassification,
+  chart: ChartData
+): Significators {
+  const quesitedHouse = derivedHouse(classification.derivation)
+  const natural = classification.natural ? [classification.natural] : []
+  const quesited = significatorOf(chart, quesitedHouse, natural)
+
+  // The Moon is the querent's co-significator unless she rules the quesited
+  const moon = quesited.ruler === 'Moon' && quesitedHouse !== 1 ? 'quesited' : 'querent'
+  const querent = significatorOf(chart, 1, moon === 'querent' ? ['Moon'] : [])
+
+  const quesitedCusp = findHouse(chart.houses, quesitedHouse).cusp
+  const explanation = [
+    ...classification.explanation,
+    `The querent is the 1st house (${formatLongitude(chart.ascendant)}), ruled by ${querent.ruler}`,
+    `The quesited, ${classification.topic}, is the ${ordinal(quesitedHouse)} house ` +
+      `(${formatLongitude(quesitedCusp)}), ruled by ${quesited.ruler}`,
+    moon === 'querent'
+      ? 'The Moon is co-significator of the querent'
+      : 'The Moon rules the quesited house, so she signifies the quesited rather than the querent',
+  ]
+
+  if (quesitedHouse === 1) {
+    explanation.push('The derivation returns to the 1st house, so the quesited is signified with the querent')
+  } else if (quesited.ruler === querent.ruler) {
+    explanation.push(
+      `${querent.ruler} rules both houses, so the Moon and the co-significators carry more weight`
+    )
+  }
+
+  return {
+    querent,
+    quesited,
+    topic: classification.topic,
+    derivation: classification.derivation,
+    moon,
+    method: classification.method,
+    explanation,
+  }
+}
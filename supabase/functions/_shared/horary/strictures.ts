@@ -0,0 +1,104 @@
+// Considerations before judgement: signs that a chart may not be radical (fit to be judged)
+
+import { formatLongitude, signOf } from '../astro/zodiac.ts'
+import { ZODIAC_SIGNS } from '../constants.ts'
+import type { ChartData, Planet, Stricture, ZodiacSign } from '../types.ts'
+import { exaltationRuler, triplicityRuler } from './dignities.ts'
+import { ordinal } from './format.ts'
+import { DOMICILE_RULERS, rulerOf } from './rulerships.ts'
+
+const EARLY_ASCENDANT_DEGREES = 3
+const LATE_ASCENDANT_DEGREES = 27
+// 15° Libra to 15° Scorpio
+const VIA_COMBUSTA: readonly [number, number] = [195, 225]
+
+// Elements by the planets' natures, numbered as the signs cycle from Aries (fire, earth, air, water); Mercury is convertible and takes none
+const PLANET_ELEMENTS: Partial<Record<Planet, number>> = {
+  Sun: 0, // hot and dry: fire
+  Mars: 0,
+  Saturn: 1, // cold and dry: earth
+  Jupiter: 2, // hot and moist: air
+  Venus: 3, // cold and moist: water
+  Moon: 3,
+}
+
+// e.g. "2024-04-02 10:15 UTC"
+function formatTime(iso: string): string {
+  return `${iso.slice(0, 16).replace('T', ' ')} UTC`
+}
+
+function planetIn(chart: Omit<ChartData, 'strictures'>, name: Planet) {
+  return chart.planets.find(p => p.name === name)
+}
+
+// The hour ruler agrees when it has dignity in the rising sign or shares its element
+function agreesWithSign(planet: Planet, sign: ZodiacSign): boolean {
+  return DOMICILE_RULERS[sign] === planet ||
+    exaltationRuler(sign) === planet ||
+    triplicityRuler(sign, true) === planet ||
+    triplicityRuler(sign, false) === planet ||
+    PLANET_ELEMENTS[planet] === ZODIAC_SIGNS.indexOf(sign) % 4
+}
+
+export function checkStrictures(chart: Omit<ChartData, 'strictures'>): Stricture[] {
+  const strictures: Stricture[] = []
+  const ascendantDegree = chart.ascendant % 30
+
+  if (ascendantDegree < EARLY_ASCENDANT_DEGREES) {
+    strictures.push({
+      kind: 'early_ascendant',
+      message: `Ascendant ${formatLongitude(chart.ascendant)} is under ${EARLY_ASCENDANT_DEGREES}°: ` +
+        'the question may be premature, or the matter not yet formed',
+    })
+  } else if (ascendantDegree > LATE_ASCENDANT_DEGREES) {
+    strictures.push({
+      kind: 'late_ascendant',
+      message: `Ascendant ${formatLongitude(chart.ascendant)} is over ${LATE_ASCENDANT_DEGREES}°: ` +
+        'the matter may already be decided, or too late to change',
+    })
+  }
+
+  const voidMoon = chart.void_of_course
+  if (voidMoon?.is_void) {
+    strictures.push({
+      kind: 'void_of_course_moon',
+      message: `The Moon is void of course until she enters ${voidMoon.next_sign} ` +
+        `(${formatTime(voidMoon.void_until)}): nothing may come of the matter`,
+    })
+  }
+
+  const moon = planetIn(chart, 'Moon')
+  if (moon && moon.longitude >= VIA_COMBUSTA[0] && moon.longitude < VIA_COMBUSTA[1]) {
+    strictures.push({
+      kind: 'via_combusta',
+      message: `The Moon is in the Via Combusta (${formatLongitude(moon.longitude)}): ` +
+        'the matter is unsettled, or the querent anxious',
+    })
+  }
+
+  const saturn = planetIn(chart, 'Saturn')
+  if (saturn?.house === 1) {
+    strictures.push({
+      kind: 'saturn_in_first',
+      message: 'Saturn is in the 1st house: the querent may be troubled, or the question not sincere',
+    })
+  } else if (saturn?.house === 7) {
+    strictures.push({
+      kind: 'saturn_in_seventh',
+      message: "Saturn is in the 7th house: the astrologer's judgement may be impaired",
+    })
+  }
+
+  const hour = chart.planetary_hour
+  const ascendantSign = signOf(chart.ascendant)
+  const ascendantRuler = rulerOf(chart.ascendant)
+  if (hour && hour.ruler !== ascendantRuler && !agreesWithSign(hour.ruler, ascendantSign)) {
+    strictures.push({
+      kind: 'hour_ruler_disagrees',
+      message: `The ${ordinal(hour.number)} planetary hour is ruled by ${hour.ruler}, which does not ` +
+        `agree with ${ascendantSign} rising or its ruler ${ascendantRuler}: the chart may not be radical`,
+    })
+  }
+
+  return strictures
+}
@@ -0,0 +1,118 @@
+// Timing: the degrees still to perfection read as days, weeks, months or years,
+// set against the date the aspect actually perfects in the ephemeris
+
+import { formatArc } from '../astro/angles.ts'
+import { modalityOf } from '../astro/zodiac.ts'
+import type {
+  ChartData,
+  HouseStrength,
+  Judgement,
+  Modality,
+  Planet,
+  TimeUnit,
+  Timing,
+  TimingEstimate,
+} from '../types.ts'
+import { houseStrength } from './accidental.ts'
+
+const DAY_MS = 86_400_000
+
+// Each step along either scale slows the unit: an angular, cardinal significator counts
+// days, while a cadent or fixed one stretches toward months and years
+const TIME_UNITS: readonly TimeUnit[] = ['days', 'weeks', 'months', 'years']
+const MODALITY_STEPS: Record<Modality, number> = { cardinal: 0, mutable: 1, fixed: 2 }
+const HOUSE_STEPS: Record<HouseStrength, number> = { angular: 0, succedent: 1, cadent: 2 }
+
+const UNIT_DAYS: Record<TimeUnit, number> = {
+  days: 1,
+  weeks: 7,
+  months: 30.44,
+  years: 365.25,
+}
+
+const UNIT_LABELS: Record<TimeUnit, string> = {
+  days: 'a day',
+  weeks: 'a week',
+  months: 'a month',
+  years: 'a year',
+}
+
+function timeUnit(modality: Modality, strength: HouseStrength): TimeUnit {
+  const step = Math.min(TIME_UNITS.length - 1, MODALITY_STEPS[modality] + HOUSE_STEPS[strength])
+  return TIME_UNITS[step] as TimeUnit
+}
+
+function addDays(from: Date, days: number): string {
+  return new Date(from.getTime() + days * DAY_MS).toISOString()
+}
+
+// e.g. "2024-04-02"
+function formatDate(iso: string): string {
+  return iso.slice(0, 10)
+}
+
+// e.g. "4.2 weeks"
+function formatAmount(degrees: number, unit: TimeUnit): string {
+  return `${Math.round(degrees * 10) / 10} ${unit}`
+}
+
+function estimate(chart: ChartData, planet: Planet, degrees: number): TimingEstimate {
+  const position = chart.planets.find(p => p.name === planet)
+  if (!position) throw new Error(`${planet} missing from chart`)
+
+  const modality = modalityOf(position.longitude)
+  // Charts from schema version 1 did not record it, but it follows from the house
+  const strength = position.house_strength ?? houseStrength(position.house)
+  const unit = timeUnit(modality, strength)
+  return {
+    planet,
+    modality,
+    house_strength: strength,
+    unit,
+    date: addDays(new Date(chart.timestamp), degrees * UNIT_DAYS[unit]),
+  }
+}
+
+// Timing from the perfecting aspect, read first from the applying planet's sign and house and
+// then from the other planet's; null when nothing perfects
+export function estimateTiming(chart: ChartData, judgement: Judgement): Timing | null {
+  const { perfection } = judgement
+  if (!perfection) return null
+
+  const { degrees, planets } = perfection
+  const estimates = planets.map(planet => estimate(chart, planet, degrees))
+  const dates = estimates.map(e => e.date).sort()
+  const earliest = dates[0] ?? perfection.exact_at
+  const latest = dates[dates.length - 1] ?? perfection.exact_at
+
+  const askedAt = new Date(chart.timestamp).getTime()
+  const daysToExact = (new Date(perfection.exact_at).getTime() - askedAt) / DAY_MS
+  const comparison = perfection.exact_at < earliest
+    ? 'sooner than the symbolic estimate'
+    : perfection.exact_at > latest
+      ? 'later than the symbolic estimate'
+      : 'within the symbolic range'
+
+  const [first, second] = estimates
+  const reasoning = [
+    `${formatArc(degrees)} to perfection by ${perfection.aspect}`,
+    ...estimates.map(e =>
+      e === second && first && e.unit === first.unit
+        ? `${e.planet} is in a ${e.modality} sign and ${e.house_strength} house, giving the same reading`
+        : `${e.planet}${e === first ? ', the applying planet,' : ''} is in a ${e.modality} sign and ` +
+          `${e.house_strength} house, so each degree is ${UNIT_LABELS[e.unit]}: about ` +
+          `${formatAmount(degrees, e.unit)} (${formatDate(e.date)})`
+    ),
+    `The aspect is exact in the ephemeris on ${formatDate(perfection.exact_at)}, ` +
+      `${formatAmount(daysToExact, 'days')} after the question, ${comparison}`,
+  ]
+
+  return {
+    degrees,
+    estimates,
+    earliest,
+    latest,
+    perfects_at: perfection.exact_at,
+    reasoning,
+  }
+}
@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict'
+import { normalizeDegrees } from '../astro/angles.ts'
+import type { LongitudeAt } from '../astro/search.ts'
+import { dateFromJulianDayUT } from '../astro/time.ts'
+import type { Planet, VoidOfCourseRule } from '../types.ts'
+import { voidOfCourse } from './voidOfCourse.ts'
+
+const JD = 2460000.5
+const MOON_SPEED = 13
+
+// The Moon at 25° Aries; she leaves for Taurus 5/13 of a day later
+const MOON_AT = 25
+const INGRESS = JD + (30 - MOON_AT) / MOON_SPEED
+
+// Stationary, and all at earlier degrees of their signs than the Moon, so none is still ahead of her
+const BASE: Record<Exclude<Planet, 'Moon'>, [number, number]> = {
+  Sun: [280, 0], // 10° Capricorn
+  Mercury: [262, 0], // 22° Sagittarius, the last aspect: a trine
+  Venus: [305, 0], // 5° Aquarius
+  Mars: [198, 0], // 18° Libra
+  Jupiter: [43, 0], // 13° Taurus
+  Saturn: [336, 0], // 6° Pisces
+  Uranus: [51, 0], // 21° Taurus
+  Neptune: [350, 0], // 20° Pisces
+  Pluto: [301, 0], // 1° Aquarius
+}
+
+// Longitude and daily motion at JD
+type Placements = Partial<Record<Planet, [number, number]>>
+
+function linearMotion(placements: Placements): LongitudeAt {
+  const all: Placements = { ...BASE, Moon: [MOON_AT, MOON_SPEED], ...placements }
+  return (planet, jd) => {
+    const [longitude, speed] = all[planet] ?? [0, 0]
+    return normalizeDegrees(longitude + speed * (jd - JD))
+  }
+}
+
+const cases: {
+  name: string;
+  placements: Placements;
+  rule: VoidOfCourseRule;
+  isVoid: boolean;
+  next: [Planet, string] | null;
+}[] = [
+  {
+    name: 'no aspect left before the end of the sign',
+    placements: {},
+    rule: 'classical',
+    isVoid: true,
+    next: null,
+  },
+  {
+    // Venus at 29.5° Gemini, direct: the Moon catches her at 0.1° Taurus
+    name: 'an aspect that perfects just after the ingress',
+    placements: { Venus: [89.5, 1.5] },
+    rule: 'classical',
+    isVoid: true,
+    next: null,
+  },
+  {
+    // Venus at 29.5° Gemini, retrograde: she comes back to meet the Moon at 27.8° Aries
+    name: 'a retrograde planet that perfects in the present sign',
+    placements: { Venus: [89.5, -1.5] },
+    rule: 'classical',
+    isVoid: false,
+    next: ['Venus', 'sextile'],
+  },
+  {
+    // Uranus at 27° Gemini is the only planet still ahead of the Moon
+    name: 'an outer planet, under the classical rule',
+    placements: { Uranus: [87, 0] },
+    rule: 'classical',
+    isVoid: true,
+    next: null,
+  },
+  {
+    name: 'an outer planet, under the modern rule',
+    placements: { Uranus: [87, 0] },
+    rule: 'modern',
+    isVoid: false,
+    next: ['Uranus', 'sextile'],
+  },
+]
+
+for (const { name, placements, rule, isVoid, next } of cases) {
+  Deno.test(`voidOfCourse: ${name}`, () => {
+    const result = voidOfCourse(linearMotion(placements), JD, rule)
+
+    assert.equal(result.rule, rule)
+    assert.equal(result.is_void, isVoid)
+    assert.deepEqual(result.next_aspect && [result.next_aspect.planet, result.next_aspect.aspect], next)
+    assert.equal(result.next_sign, 'Taurus')
+    assert.ok(Math.abs(Date.parse(result.void_until) - dateFromJulianDayUT(INGRESS).getTime()) < 1000)
+
+    // A void Moon's void period began with the last aspect she made, her trine to Mercury
+    if (isVoid) {
+      assert.equal(result.last_aspect?.planet, 'Mercury')
+      assert.equal(result.last_aspect?.aspect, 'trine')
+      assert.equal(result.void_from, result.last_aspect?.at)
+    }
+  })
+}
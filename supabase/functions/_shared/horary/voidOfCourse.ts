@@ -0,0 +1,73 @@
+// Void-of-course Moon: the Moon perfects no further aspect before she leaves her sign
+
+import { angleDifference } from '../astro/angles.ts'
+import {
+  type AspectEvent,
+  type LongitudeAt,
+  findAspectPerfections,
+  findIngress,
+  findRoot,
+} from '../astro/search.ts'
+import { dateFromJulianDayUT } from '../astro/time.ts'
+import { signIndex } from '../astro/zodiac.ts'
+import { PLANETS } from '../constants.ts'
+import type { MoonAspect, Planet, VoidOfCourse, VoidOfCourseRule } from '../types.ts'
+import { TRADITIONAL_PLANETS } from './rulerships.ts'
+
+// The Moon always crosses a sign in under three days
+const MOON_SIGN_DAYS = 3
+const MOON_STEP_DAYS = 0.25
+
+const ASPECTED_PLANETS: Record<VoidOfCourseRule, readonly Planet[]> = {
+  classical: TRADITIONAL_PLANETS,
+  modern: PLANETS,
+}
+
+function toIso(jd: number): string {
+  return dateFromJulianDayUT(jd).toISOString()
+}
+
+function toMoonAspect(event: AspectEvent & { planet: Planet }): MoonAspect {
+  return { planet: event.planet, aspect: event.type, at: toIso(event.jd) }
+}
+
+// When the Moon entered her present sign; she is never retrograde, so the boundary
+// behind her was crossed exactly once in the last few days
+function moonSignEntry(longitudeAt: LongitudeAt, jd: number): number {
+  const boundary = signIndex(longitudeAt('Moon', jd)) * 30
+  return findRoot(t => angleDifference(boundary, longitudeAt('Moon', t)), jd - MOON_SIGN_DAYS, jd)
+}
+
+// The Moon's aspects in her present sign, from her entry into it to her entry into the next.
+// She is void from her last aspect until she leaves the sign; when she has an aspect still
+// to perfect, void_from is the moment her void period will begin.
+export function voidOfCourse(
+  longitudeAt: LongitudeAt,
+  jd: number,
+  rule: VoidOfCourseRule
+): VoidOfCourse {
+  const ingress = findIngress(longitudeAt, 'Moon', jd, jd + MOON_SIGN_DAYS, MOON_STEP_DAYS)
+  if (!ingress) throw new Error('Moon ingress not found')
+  const entry = moonSignEntry(longitudeAt, jd)
+
+  const events = ASPECTED_PLANETS[rule]
+    .filter(planet => planet !== 'Moon')
+    .flatMap(planet =>
+      findAspectPerfections(longitudeAt, 'Moon', planet, entry, ingress.jd, MOON_STEP_DAYS)
+        .map(event => ({ ...event, planet }))
+    )
+    .sort((a, b) => a.jd - b.jd)
+
+  const last = events[events.length - 1]
+  const next = events.find(event => event.jd > jd)
+
+  return {
+    rule,
+    is_void: next === undefined,
+    void_from: toIso(last?.jd ?? entry),
+    void_until: toIso(ingress.jd),
+    last_aspect: last ? toMoonAspect(last) : null,
+    next_aspect: next ? toMoonAspect(next) : null,
+    next_sign: ingress.sign,
+  }
+}
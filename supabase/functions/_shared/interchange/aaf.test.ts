@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict'
+import type { ChartRecord } from '../types.ts'
+import { formatAaf, parseAaf } from './aaf.ts'
+
+function assertRecord(actual: ChartRecord | undefined, expected: ChartRecord) {
+  assert.ok(actual)
+  const { location, ...rest } = actual
+  const { location: expectedLocation, ...expectedRest } = expected
+  assert.deepEqual(rest, expectedRest)
+  assert.ok(Math.abs(location.lat - expectedLocation.lat) < 1e-9, `latitude ${location.lat}`)
+  assert.ok(Math.abs(location.lon - expectedLocation.lon) < 1e-9, `longitude ${location.lon}`)
+  assert.equal(location.city, expectedLocation.city)
+  assert.equal(location.country, expectedLocation.country)
+}
+
+Deno.test('parseAaf reads back what formatAaf writes', () => {
+  // Coordinates on whole arcminutes, which is as precisely as AAF records them
+  const records: ChartRecord[] = [
+    {
+      name: 'Lost ring',
+      timestamp: '2024-03-20T03:06:45.000Z',
+      location: { lat: 51 + 30 / 60, lon: -7 / 60, city: 'London', country: 'United Kingdom' },
+    },
+    {
+      name: 'Journey',
+      timestamp: '1999-12-31T23:59:00.000Z',
+      location: { lat: -(33 + 52 / 60), lon: 151 + 13 / 60 },
+    },
+  ]
+
+  const parsed = parseAaf(formatAaf(records))
+  assert.equal(parsed.length, records.length)
+  records.forEach((record, i) => assertRecord(parsed[i], record))
+})
+
+Deno.test('parseAaf reads an Astrodienst export', () => {
+  const text = [
+    '#: AAF Format (Astrodienst)',
+    '#A93:Gates,Bill,m,28.10.1955g,22:00,Seattle (King County),WA (US)',
+    '#B93:2435409.75000,47n36,122w20,8hw00,0',
+    '#COM:Rodden rating AA',
+  ].join('\r\n')
+
+  assertRecord(parseAaf(text)[0], {
+    name: 'Bill Gates',
+    timestamp: '1955-10-29T06:00:00.000Z',
+    location: { lat: 47.6, lon: -(122 + 20 / 60), city: 'Seattle (King County)', country: 'WA (US)' },
+  })
+})
+
+Deno.test('parseAaf converts the local time by the zone when there is no Julian Day', () => {
+  const cases: [string, string, string][] = [
+    ['28.10.1955g', '0hE00', '1955-10-28T22:00:00.000Z'],
+    ['28.10.1955', '1h30e', '1955-10-28T20:30:00.000Z'],
+    ['28.10.1955', '1hE00', '1955-10-28T21:00:00.000Z'],
+    ['28.10.1955', '8hW00', '1955-10-29T06:00:00.000Z'],
+    ['28.10.1955', '0h40e', '1955-10-28T21:20:00.000Z'],
+  ]
+  for (const [date, zone, timestamp] of cases) {
+    const [record] = parseAaf(`#A93:*,*,*,${date},22:00,*,*\n#B93:*,47n36,122w20,${zone},0\n`)
+    assert.equal(record?.timestamp, timestamp, zone)
+    assert.equal(record?.name, 'Imported chart')
+  }
+})
+
+Deno.test('parseAaf rejects malformed files', () => {
+  const a93 = '#A93:Gates,Bill,m,28.10.1955,22:00,Seattle,US'
+  const b93 = '#B93:2435409.75,47n36,122w20,8hw00,0'
+  const cases: [string, RegExp][] = [
+    [b93, /line 1: #B93 without a preceding #A93/],
+    [a93, /line 1: #A93 without a following #B93/],
+    [`#A93:Gates,Bill,m,28.10.1955\n${b93}`, /line 1: #A93 needs 7 fields/],
+    [`${a93}\n#B93:2435409.75,47n36`, /line 2: #B93 needs at least 4 fields/],
+    [`${a93}\n#B93:2435409.75,47x36,122w20,8hw00,0`, /cannot read coordinate "47x36"/],
+    [`${a93}\n#B93:*,47n36,122w20,8 hours,0`, /cannot read time zone "8 hours"/],
+    ['#A93:Gates,Bill,m,1955-10-28,22:00,Seattle,US\n#B93:*,47n36,122w20,8hw00,0', /line 1: cannot read date/],
+  ]
+  for (const [text, message] of cases) {
+    assert.throws(() => parseAaf(text), { name: 'ValidationError', message })
+  }
+})
@@ -0,0 +1,130 @@
+// Astrodienst Astrological Exchange Format (AAF): a #A93 line with the name, local date and time
+// and place, then a #B93 line with the Julian Day (UT), coordinates and time zone
+
+import { dateFromJulianDayUT, julianDayUT } from '../astro/time.ts'
+import type { ChartRecord, Location } from '../types.ts'
+import { ValidationError } from '../validation.ts'
+
+const UNKNOWN = '*'
+
+// AAF separates fields with commas, so they cannot appear inside one
+function field(value: string | undefined): string {
+  const text = value?.replace(/[,\s]+/g, ' ').trim()
+  return text || UNKNOWN
+}
+
+function known(value: string | undefined): string | undefined {
+  const text = value?.trim()
+  return text && text !== UNKNOWN ? text : undefined
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+// e.g. 51n30 or 0w07, to the nearest arcminute as the format records them
+function formatCoordinate(value: number, positive: string, negative: string): string {
+  const totalMinutes = Math.round(Math.abs(value) * 60)
+  return `${Math.floor(totalMinutes / 60)}${value < 0 ? negative : positive}${pad(totalMinutes % 60)}`
+}
+
+function parseCoordinate(text: string, positive: string, negative: string, line: number): number {
+  const match = new RegExp(`^(\\d{1,3})([${positive}${negative}])(\\d{1,2})(?::(\\d{1,2}))?$`, 'i')
+    .exec(text.trim())
+  if (!match) throw new ValidationError(`AAF line ${line}: cannot read coordinate "${text}"`)
+  const [, degrees, direction, minutes, seconds] = match
+  const value = Number(degrees) + Number(minutes) / 60 + Number(seconds ?? 0) / 3600
+  return direction?.toLowerCase() === negative ? -value : value
+}
+
+// Zone as hours and minutes east of Greenwich, e.g. 1hE00, 5hW00 or 0h40e; returns minutes
+function parseZone(text: string, line: number): number {
+  const match = /^(\d{1,2})h(?:([ew])(\d{2})?|(\d{2})([ew])(\d{2})?)$/i.exec(text.trim())
+  if (!match) throw new ValidationError(`AAF line ${line}: cannot read time zone "${text}"`)
+  const [, hours, firstDirection, firstMinutes, minutes, secondDirection] = match
+  const direction = (firstDirection ?? secondDirection ?? 'e').toLowerCase()
+  const offset = Number(hours) * 60 + Number(firstMinutes ?? minutes ?? 0)
+  return direction === 'w' ? -offset : offset
+}
+
+// Local clock time in the file to UTC; Astrodienst marks Gregorian dates with a g, e.g. 28.10.1955g
+function parseLocalTime(date: string, time: string, zoneMinutes: number, line: number): Date {
+  const dateMatch = /^(\d{1,2})\.(\d{1,2})\.(-?\d{1,4})g?$/i.exec(date.trim())
+  const timeMatch = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(time.trim())
+  if (!dateMatch || !timeMatch) {
+    throw new ValidationError(`AAF line ${line}: cannot read date and time "${date} ${time}"`)
+  }
+  const [, day, month, year] = dateMatch
+  const [, hours, minutes, seconds] = timeMatch
+  const utc = new Date(0)
+  utc.setUTCFullYear(Number(year), Number(month) - 1, Number(day))
+  utc.setUTCHours(Number(hours), Number(minutes) - zoneMinutes, Number(seconds ?? 0), 0)
+  return utc
+}
+
+// Charts are written in UT (zone 0hE00); the Julian Day keeps the time to a fraction of a second
+export function formatAaf(records: ChartRecord[]): string {
+  const lines = records.flatMap(record => {
+    const date = new Date(record.timestamp)
+    const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}` +
+      (date.getUTCSeconds() ? `:${pad(date.getUTCSeconds())}` : '')
+    return [
+      `#A93:${field(record.name)},${UNKNOWN},${UNKNOWN},` +
+        `${pad(date.getUTCDate())}.${pad(date.getUTCMonth() + 1)}.${date.getUTCFullYear()},${time},` +
+        `${field(record.location.city)},${field(record.location.country)}`,
+      `#B93:${julianDayUT(date).toFixed(6)},${formatCoordinate(record.location.lat, 'n', 's')},` +
+        `${formatCoordinate(record.location.lon, 'e', 'w')},0hE00,0`,
+    ]
+  })
+  return [...lines, ''].join('\n')
+}
+
+// Every #A93/#B93 pair in the file; comments (#COM) and other records are skipped
+export function parseAaf(text: string): ChartRecord[] {
+  const records: ChartRecord[] = []
+  let pending: { fields: string[]; line: number } | null = null
+
+  for (const [index, raw] of text.split(/\r?\n/).entries()) {
+    const line = index + 1
+    const match = /^#([AB])93:(.*)$/i.exec(raw.trim())
+    if (!match) continue
+    const [, kind, rest] = match
+    const fields = (rest ?? '').split(',')
+
+    if (kind?.toUpperCase() === 'A') {
+      if (fields.length < 7) throw new ValidationError(`AAF line ${line}: #A93 needs 7 fields`)
+      pending = { fields, line }
+      continue
+    }
+
+    if (!pending) throw new ValidationError(`AAF line ${line}: #B93 without a preceding #A93`)
+    if (fields.length < 4) throw new ValidationError(`AAF line ${line}: #B93 needs at least 4 fields`)
+    const [surname, firstName, , date = '', time = '', place, country] = pending.fields
+    const [julianDay = '', latitude = '', longitude = '', zone = ''] = fields
+
+    const jd = Number(julianDay)
+    // Files record times to the second, so the Julian Day's rounding error is dropped
+    const moment = known(julianDay) && Number.isFinite(jd)
+      ? new Date(Math.round(dateFromJulianDayUT(jd).getTime() / 1000) * 1000)
+      : parseLocalTime(date, time, parseZone(zone, line), pending.line)
+
+    const location: Location = {
+      lat: parseCoordinate(latitude, 'n', 's', line),
+      lon: parseCoordinate(longitude, 'e', 'w', line),
+    }
+    const city = known(place)
+    const countryName = known(country)
+    if (city) location.city = city
+    if (countryName) location.country = countryName
+
+    records.push({
+      name: [known(firstName), known(surname)].filter(Boolean).join(' ') || 'Imported chart',
+      timestamp: moment.toISOString(),
+      location,
+    })
+    pending = null
+  }
+
+  if (pending) throw new ValidationError(`AAF line ${pending.line}: #A93 without a following #B93`)
+  return records
+}
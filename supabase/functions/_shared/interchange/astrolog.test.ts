@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict'
+import type { ChartRecord } from '../types.ts'
+import { formatAstrolog, parseAstrolog } from './astrolog.ts'
+
+function assertRecord(actual: ChartRecord, expected: ChartRecord) {
+  const { location, ...rest } = actual
+  const { location: expectedLocation, ...expectedRest } = expected
+  assert.deepEqual(rest, expectedRest)
+  assert.ok(Math.abs(location.lat - expectedLocation.lat) < 1e-9, `latitude ${location.lat}`)
+  assert.ok(Math.abs(location.lon - expectedLocation.lon) < 1e-9, `longitude ${location.lon}`)
+  assert.equal(location.city, expectedLocation.city)
+  assert.equal(location.country, expectedLocation.country)
+}
+
+Deno.test('parseAstrolog reads back what formatAstrolog writes', () => {
+  // Coordinates on whole arcseconds, which is as precisely as Astrolog files record them
+  const record: ChartRecord = {
+    name: 'Will the "offer" come?',
+    timestamp: '2024-03-20T03:06:45.000Z',
+    location: {
+      lat: -(33 + 52 / 60 + 4 / 3600),
+      lon: 151 + 12 / 60 + 36 / 3600,
+      city: 'Sydney',
+      country: 'Australia',
+    },
+    house_system: 'regiomontanus',
+  }
+
+  // Double quotes in the name are written as single ones
+  assertRecord(parseAstrolog(formatAstrolog(record, 'regiomontanus')), {
+    ...record,
+    name: "Will the 'offer' come?",
+  })
+
+  const { house_system: _, ...withoutHouses } = record
+  const parsed = parseAstrolog(formatAstrolog({ ...withoutHouses, name: 'Journey' }))
+  assert.equal(parsed.house_system, undefined)
+  assert.equal(parsed.name, 'Journey')
+})
+
+Deno.test('parseAstrolog reads an Astrolog chart file', () => {
+  const text = [
+    '@0102  ; Astrolog chart info.',
+    '/qb 10 28 1955  10:00pm ST 8:00W 122W20:00  47N36:00',
+    '/zi "Bill Gates" "Seattle, WA"',
+    '/c 0',
+    '',
+  ].join('\r\n')
+
+  assertRecord(parseAstrolog(text), {
+    name: 'Bill Gates',
+    timestamp: '1955-10-29T06:00:00.000Z',
+    location: { lat: 47.6, lon: -(122 + 20 / 60), city: 'Seattle', country: 'WA' },
+    house_system: 'placidus',
+  })
+})
+
+Deno.test('parseAstrolog converts local times and coordinates', () => {
+  const cases: [string, string, number, number][] = [
+    // -qa has no daylight field; zones count hours west, so -0:40 is 40 minutes east
+    ['-qa 3 14 1879 11:30 -0:40 10E00 48N24', '1879-03-14T10:50:00.000Z', 48.4, 10],
+    // Decimal longitudes count west as positive
+    ['-qa 3 14 1879 11:30 -0:40 -10 48.4', '1879-03-14T10:50:00.000Z', 48.4, 10],
+    ['-qa 10 28 1955 22:00 8 122.5 47.6', '1955-10-29T06:00:00.000Z', 47.6, -122.5],
+    ['-qb 10 28 1955 10:00pm ST 8 122:30W 47:36N', '1955-10-29T06:00:00.000Z', 47.6, -122.5],
+    ['-qb 7 4 1976 12:00 DT 5:00 74W00 40N43', '1976-07-04T16:00:00.000Z', 40 + 43 / 60, -74],
+    ['-qb 1 1 2000 12:30am ST 0:00 0E00 51N30', '2000-01-01T00:30:00.000Z', 51.5, 0],
+    ['-qb 1 1 2000 12:15PM ST 5E30 0E00 51N30', '2000-01-01T06:45:00.000Z', 51.5, 0],
+  ]
+  for (const [text, timestamp, lat, lon] of cases) {
+    const record = parseAstrolog(text)
+    assert.equal(record.timestamp, timestamp, text)
+    assert.ok(Math.abs(record.location.lat - lat) < 1e-9, `${text}: latitude ${record.location.lat}`)
+    assert.ok(Math.abs(record.location.lon - lon) < 1e-9, `${text}: longitude ${record.location.lon}`)
+    assert.equal(record.name, 'Imported chart')
+  }
+})
+
+Deno.test('parseAstrolog rejects malformed files', () => {
+  const cases: [string, RegExp][] = [
+    ['/zi "Bill Gates" "Seattle, WA"', /has no -qa or -qb chart line/],
+    ['/qb 10 28 1955 10:00pm ST 8:00', /-qb needs 8 values/],
+    ['/qa 10 28 1955 10:00pm 8:00', /-qa needs 7 values/],
+    ['/qb 10 28 1955 10:00pm ST 8:00 122X20 47N36', /cannot read coordinate "122X20"/],
+    ['/qb 10 28 1955 10:00pm ST eight 122W20 47N36', /cannot read time zone "eight"/],
+    ['/qb 10 28 1955 10:00pm maybe 8:00 122W20 47N36', /cannot read daylight saving "maybe"/],
+    ['/qb Oct 28 1955 10:00pm ST 8:00 122W20 47N36', /cannot read date and time/],
+  ]
+  for (const [text, message] of cases) {
+    assert.throws(() => parseAstrolog(text), { name: 'ValidationError', message })
+  }
+})
@@ -0,0 +1,180 @@
+// Astrolog command files (.as), as written by Astrolog's -o switch and read by Astrolog and the
+// programs that exchange charts with it: -qb for the date, time, zone and place, -zi for the
+// name and place name, and -c for the house system
+
+import type { ChartRecord, HouseSystem, Location } from '../types.ts'
+import { ValidationError } from '../validation.ts'
+
+// Astrolog's numbers for the house systems both programs have; Whole Sign's number differs
+// between Astrolog versions, so it is written by name
+const HOUSE_SYSTEM_SWITCHES: Record<HouseSystem, string> = {
+  placidus: '0',
+  equal: '2',
+  regiomontanus: '5',
+  porphyry: '6',
+  alcabitius: '9',
+  whole_sign: 'Whole',
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+// e.g. 0W07:39 or 51N30:26, degrees with the direction letter in place of the first colon
+function formatCoordinate(value: number, positive: string, negative: string): string {
+  const totalSeconds = Math.round(Math.abs(value) * 3600)
+  const degrees = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor(totalSeconds / 60) % 60
+  return `${degrees}${value < 0 ? negative : positive}${pad(minutes)}:${pad(totalSeconds % 60)}`
+}
+
+// Accepts 122W19:55, 122:19:55W, 122W19 and decimals, which Astrolog counts positive west and north
+function parseCoordinate(text: string, positive: string, negative: string, westPositive: boolean): number {
+  // Plain decimals only: Number() would read 10E00 as 10 in exponent notation
+  if (/^[+-]?\d+(\.\d+)?$/.test(text.trim())) return westPositive ? -Number(text) : Number(text)
+
+  const letters = `${positive}${negative}`
+  const match = new RegExp(
+    `^(\\d{1,3})(?:([${letters}])(\\d{1,2})(?::(\\d{1,2}(?:\\.\\d+)?))?|:(\\d{1,2})(?::(\\d{1,2}(?:\\.\\d+)?))?([${letters}]))$`,
+    'i'
+  ).exec(text.trim())
+  if (!match) throw new ValidationError(`Astrolog file: cannot read coordinate "${text}"`)
+  const [, degrees, firstDirection, minutes, seconds, trailingMinutes, trailingSeconds, lastDirection] = match
+  const value = Number(degrees) +
+    Number(minutes ?? trailingMinutes) / 60 +
+    Number(seconds ?? trailingSeconds ?? 0) / 3600
+  return (firstDirection ?? lastDirection)?.toUpperCase() === negative ? -value : value
+}
+
+// Hours as H:MM, a decimal, or with a direction as 8:00W or 5E30 (west positive); returns minutes
+function parseHours(text: string, label: string): number {
+  const match = /^([+-])?(\d{1,2})(?:([EW])(\d{2})|:(\d{2})([EW])?)?$/i.exec(text.trim())
+  const decimal = Number(text)
+  if (match) {
+    const [, sign, hours, firstDirection, firstMinutes, minutes, lastDirection] = match
+    const value = Number(hours) * 60 + Number(firstMinutes ?? minutes ?? 0)
+    const east = sign === '-' || (firstDirection ?? lastDirection)?.toUpperCase() === 'E'
+    return east ? -value : value
+  }
+  if (text.trim() !== '' && Number.isFinite(decimal)) return Math.round(decimal * 60)
+  throw new ValidationError(`Astrolog file: cannot read ${label} "${text}"`)
+}
+
+// Daylight saving as ST, DT or a number of hours
+function parseDaylight(text: string): number {
+  const flag = text.trim().toUpperCase()
+  if (flag === 'ST' || flag === 'N') return 0
+  if (flag === 'DT' || flag === 'Y') return 60
+  return parseHours(text, 'daylight saving')
+}
+
+// Local clock time to UTC; Astrolog zones count hours west of Greenwich, so UT = local + zone
+function parseLocalTime(
+  month: string,
+  day: string,
+  year: string,
+  time: string,
+  zoneMinutes: number,
+  daylightMinutes: number
+): Date {
+  const timeMatch = /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?$/i.exec(time.trim())
+  if (!/^\d{1,2}$/.test(month) || !/^\d{1,2}$/.test(day) || !/^-?\d{1,4}$/.test(year) || !timeMatch) {
+    throw new ValidationError(`Astrolog file: cannot read date and time "${month} ${day} ${year} ${time}"`)
+  }
+  const [, rawHours, minutes, seconds, meridiem] = timeMatch
+  const hours = Number(rawHours) % (meridiem ? 12 : 24) + (meridiem?.toLowerCase() === 'pm' ? 12 : 0)
+  const utc = new Date(0)
+  utc.setUTCFullYear(Number(year), Number(month) - 1, Number(day))
+  utc.setUTCHours(hours, Number(minutes) + zoneMinutes - daylightMinutes, Number(seconds ?? 0), 0)
+  return utc
+}
+
+function houseSystemFromSwitch(value: string): HouseSystem | undefined {
+  const entry = Object.entries(HOUSE_SYSTEM_SWITCHES)
+    .find(([, switchValue]) => switchValue.toLowerCase() === value.toLowerCase())
+  return entry?.[0] as HouseSystem | undefined
+}
+
+// Split into words, keeping quoted strings together and dropping ; comments
+function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  for (const line of text.split(/\r?\n/)) {
+    for (const match of line.matchAll(/"([^"]*)"|(;.*$)|(\S+)/g)) {
+      if (match[2] !== undefined) break
+      tokens.push(match[1] ?? match[3] ?? '')
+    }
+  }
+  return tokens
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/"/g, "'").replace(/[\r\n]+/g, ' ')}"`
+}
+
+// The time is written in UT with zone 0:00, to the second
+export function formatAstrolog(record: ChartRecord, houseSystem?: HouseSystem): string {
+  const date = new Date(record.timestamp)
+  const { lat, lon, city, country } = record.location
+  const place = [city, country].filter(Boolean).join(', ')
+  const lines = [
+    '@0102  ; Astrolog chart info.',
+    `/qb ${date.getUTCMonth() + 1} ${date.getUTCDate()} ${date.getUTCFullYear()} ` +
+      `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} ST 0:00 ` +
+      `${formatCoordinate(lon, 'E', 'W')} ${formatCoordinate(lat, 'N', 'S')}`,
+    `/zi ${quote(record.name)} ${quote(place)}`,
+  ]
+  if (houseSystem) lines.push(`/c ${HOUSE_SYSTEM_SWITCHES[houseSystem]}`)
+  return [...lines, ''].join('\n')
+}
+
+// The chart in an Astrolog file; -qa (no daylight field) and -qb are both read, with - or /
+export function parseAstrolog(text: string): ChartRecord {
+  const tokens = tokenize(text)
+  let moment: Date | null = null
+  let location: Location | null = null
+  let name = ''
+  let place = ''
+  let houseSystem: HouseSystem | undefined
+
+  for (let i = 0; i < tokens.length; i++) {
+    const command = /^[-/=](qa|qb|zi|c)$/i.exec(tokens[i] ?? '')?.[1]?.toLowerCase()
+    if (!command) continue
+
+    if (command === 'qa' || command === 'qb') {
+      const count = command === 'qa' ? 7 : 8
+      const args = tokens.slice(i + 1, i + 1 + count)
+      if (args.length < count) throw new ValidationError(`Astrolog file: -${command} needs ${count} values`)
+      const [month = '', day = '', year = '', time = ''] = args
+      const [daylight, zone = '', longitude = '', latitude = ''] = command === 'qa'
+        ? ['ST', ...args.slice(4)]
+        : args.slice(4)
+      moment = parseLocalTime(month, day, year, time, parseHours(zone, 'time zone'), parseDaylight(daylight ?? 'ST'))
+      location = {
+        lat: parseCoordinate(latitude, 'N', 'S', false),
+        lon: parseCoordinate(longitude, 'E', 'W', true),
+      }
+      i += count
+    } else if (command === 'zi') {
+      name = tokens[i + 1] ?? ''
+      place = tokens[i + 2] ?? ''
+      i += 2
+    } else {
+      houseSystem = houseSystemFromSwitch(tokens[i + 1] ?? '')
+      i += 1
+    }
+  }
+
+  if (!moment || !location) throw new ValidationError('Astrolog file has no -qa or -qb chart line')
+  // "City, Country" as formatAstrolog writes it
+  const [city, ...rest] = place.split(',').map(part => part.trim()).filter(Boolean)
+  if (city) location.city = city
+  if (rest.length > 0) location.country = rest.join(', ')
+
+  const record: ChartRecord = {
+    name: name.trim() || 'Imported chart',
+    timestamp: moment.toISOString(),
+    location,
+  }
+  if (houseSystem) record.house_system = houseSystem
+  return record
+}
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict'
+import { calculateChart } from '../astro/chart.ts'
+import { CHART_DATA_SCHEMA_VERSION } from '../schema/chartData.generated.ts'
+import { formatChartDocument, parseChartDocument } from './json.ts'
+
+const { chart } = calculateChart(new Date('2024-03-20T03:06:00Z'), { lat: 51.5074, lon: -0.1278, city: 'London' })
+
+Deno.test('parseChartDocument reads back what formatChartDocument writes', () => {
+  const parsed = parseChartDocument(formatChartDocument('Lost ring', chart))
+  assert.deepEqual(parsed, { name: 'Lost ring', chart_data: JSON.parse(JSON.stringify(chart)) })
+})
+
+// chart_data as the app stored it before schema versions: no dignities, Moon or accidental fields
+const UNVERSIONED_CHART = {
+  timestamp: '2024-03-20T03:06:00.000Z',
+  location: { lat: 51.5074, lon: -0.1278, city: 'London' },
+  planets: [
+    { name: 'Sun', longitude: 359.9999, latitude: 0.0001, sign: 'Pisces', degree: 29, minute: 59, house: 2, retrograde: false },
+    { name: 'Moon', longitude: 123.8164, latitude: 5.0064, sign: 'Leo', degree: 3, minute: 48, house: 7, retrograde: false },
+    { name: 'Mercury', longitude: 17.4411, latitude: 1.4775, sign: 'Aries', degree: 17, minute: 26, house: 2, retrograde: false },
+    { name: 'Venus', longitude: 340.1715, latitude: -1.29, sign: 'Pisces', degree: 10, minute: 10, house: 2, retrograde: false },
+    { name: 'Mars', longitude: 327.7737, latitude: -1.1734, sign: 'Aquarius', degree: 27, minute: 46, house: 1, retrograde: false },
+    { name: 'Jupiter', longitude: 44.8855, latitude: -0.8525, sign: 'Taurus', degree: 14, minute: 53, house: 3, retrograde: false },
+    { name: 'Saturn', longitude: 342.2256, latitude: -1.6454, sign: 'Pisces', degree: 12, minute: 13, house: 2, retrograde: false },
+    { name: 'Uranus', longitude: 50.2531, latitude: -0.2763, sign: 'Taurus', degree: 20, minute: 15, house: 4, retrograde: false },
+    { name: 'Neptune', longitude: 357.4609, latitude: -1.217, sign: 'Pisces', degree: 27, minute: 27, house: 2, retrograde: false },
+    { name: 'Pluto', longitude: 301.6609, latitude: -2.9112, sign: 'Aquarius', degree: 1, minute: 39, house: 1, retrograde: false },
+  ],
+  houses: [
+    { number: 1, cusp: 281.346, sign: 'Capricorn' },
+    { number: 2, cusp: 329.3789, sign: 'Aquarius' },
+    { number: 3, cusp: 21.4469, sign: 'Aries' },
+    { number: 4, cusp: 46.9826, sign: 'Taurus' },
+    { number: 5, cusp: 62.8122, sign: 'Gemini' },
+    { number: 6, cusp: 78.1458, sign: 'Gemini' },
+    { number: 7, cusp: 101.346, sign: 'Cancer' },
+    { number: 8, cusp: 149.3789, sign: 'Leo' },
+    { number: 9, cusp: 201.4469, sign: 'Libra' },
+    { number: 10, cusp: 226.9826, sign: 'Scorpio' },
+    { number: 11, cusp: 242.8122, sign: 'Sagittarius' },
+    { number: 12, cusp: 258.1458, sign: 'Sagittarius' },
+  ],
+  aspects: [
+    { planet1: 'Sun', planet2: 'Jupiter', type: 'semisquare', orb: 0.1144, exact_degree: 44.8856, applying: false, separating: true },
+    { planet1: 'Sun', planet2: 'Pluto', type: 'sextile', orb: 1.661, exact_degree: 58.339, applying: true, separating: false },
+  ],
+  ascendant: 281.346,
+  midheaven: 226.9826,
+}
+
+Deno.test('parseChartDocument upgrades a chart from before schema versions', () => {
+  const { chart_data: upgraded } = parseChartDocument(JSON.stringify({ name: 'Lost keys', chart_data: UNVERSIONED_CHART }))
+
+  // Everything the chart recorded is kept
+  assert.equal(upgraded.timestamp, UNVERSIONED_CHART.timestamp)
+  assert.deepEqual(upgraded.houses, UNVERSIONED_CHART.houses)
+  assert.equal(upgraded.ascendant, UNVERSIONED_CHART.ascendant)
+
+  // and everything added since takes its default
+  assert.equal(upgraded.schema_version, CHART_DATA_SCHEMA_VERSION)
+  assert.equal(upgraded.house_system, 'regiomontanus')
+  assert.equal(upgraded.dignities, null)
+  assert.equal(upgraded.void_of_course, null)
+  assert.equal(upgraded.planetary_hour, null)
+  assert.deepEqual(upgraded.contact_orbs, { fixed_star: 1, antiscia: 1 })
+  assert.equal(upgraded.orb_model, 'per_aspect')
+  for (const key of ['lots', 'nodes', 'fixed_stars', 'antiscia', 'antiscial_contacts', 'strictures'] as const) {
+    assert.deepEqual(upgraded[key], [], key)
+  }
+  UNVERSIONED_CHART.planets.forEach((planet, i) => {
+    assert.deepEqual(upgraded.planets[i], {
+      ...planet,
+      speed: null,
+      swift: null,
+      house_strength: null,
+      solar_condition: null,
+      accidental_score: null,
+    })
+  })
+  UNVERSIONED_CHART.aspects.forEach((aspect, i) => {
+    assert.deepEqual(upgraded.aspects[i], { ...aspect, reception: null })
+  })
+})
+
+Deno.test('parseChartDocument rejects malformed documents', () => {
+  const cases: [string, RegExp][] = [
+    ['{"name": "Lost ring",', /not valid JSON/],
+    ['[]', /must be a JSON object/],
+    [JSON.stringify({ chart_data: chart }), /needs a name/],
+    [JSON.stringify({ name: 'Lost ring' }), /chart_data must be an object/],
+    [
+      JSON.stringify({ name: 'Lost ring', chart_data: { ...chart, schema_version: CHART_DATA_SCHEMA_VERSION + 1 } }),
+      /uses schema version \d+; this app reads up to/,
+    ],
+    [JSON.stringify({ name: 'Lost ring', chart_data: { ...chart, planets: 'none' } }), /does not match chart schema/],
+  ]
+  for (const [text, message] of cases) {
+    assert.throws(() => parseChartDocument(text), { name: 'ValidationError', message })
+  }
+})
@@ -0,0 +1,38 @@
+// The 'json' interchange format: ChartData wrapped in a document naming its schema
+
+import { CHART_DATA_SCHEMA_ID } from '../schema/chartData.generated.ts'
+import { ChartDataError, upgradeChartData } from '../schema/chartData.ts'
+import type { ChartData, ChartDocument, ImportedChart } from '../types.ts'
+import { ValidationError } from '../validation.ts'
+
+export function formatChartDocument(name: string, chart: ChartData): string {
+  const document: ChartDocument = {
+    $schema: CHART_DATA_SCHEMA_ID,
+    name,
+    chart_data: chart,
+  }
+  return `${JSON.stringify(document, null, 2)}\n`
+}
+
+// Documents written before chart_data carried its own schema_version still read: their
+// chart_data is upgraded like a stored chart
+export function parseChartDocument(text: string): ImportedChart {
+  let document: unknown
+  try {
+    document = JSON.parse(text)
+  } catch {
+    throw new ValidationError('Chart document is not valid JSON')
+  }
+  if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+    throw new ValidationError('Chart document must be a JSON object')
+  }
+
+  const { name, chart_data: chart } = document as Record<string, unknown>
+  if (typeof name !== 'string') throw new ValidationError('Chart document needs a name')
+  try {
+    return { name, chart_data: upgradeChartData(chart, 'chart_data') }
+  } catch (error) {
+    if (error instanceof ChartDataError) throw new ValidationError(`Chart document: ${error.message}`)
+    throw error
+  }
+}
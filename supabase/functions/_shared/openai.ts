@@ -0,0 +1,52 @@
+// Small OpenAI Chat Completions client for structured lookups made by Edge Functions
+
+const CHAT_COMPLETIONS_URL = 'https://api.openai.com/v1/chat/completions'
+const JSON_MODEL = 'gpt-4o-mini'
+const REQUEST_TIMEOUT_MS = 10_000
+
+// Ask for a JSON object; returns null when no API key is set or the call fails,
+// so callers can fall back to their own defaults
+export async function requestJsonCompletion(
+  system: string,
+  user: string
+): Promise<Record<string, unknown> | null> {
+  const apiKey = Deno.env.get('OPENAI_API_KEY')
+  if (!apiKey) return null
+
+  try {
+    const response = await fetch(CHAT_COMPLETIONS_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: JSON_MODEL,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: user },
+        ],
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      console.warn(`OpenAI API error: ${response.status} - ${await response.text()}`)
+      return null
+    }
+
+    const data = await response.json()
+    const content = data?.choices?.[0]?.message?.content
+    if (typeof content !== 'string') return null
+
+    const parsed: unknown = JSON.parse(content)
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      ? parsed as Record<string, unknown>
+      : null
+  } catch (error) {
+    console.warn('OpenAI request failed:', error instanceof Error ? error.message : error)
+    return null
+  }
+}
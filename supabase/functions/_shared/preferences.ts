@@ -0,0 +1,107 @@
+// User preferences stored in users.preferences
+
+import {
+  DEFAULT_CONTACT_ORBS,
+  DEFAULT_HOUSE_SYSTEM,
+  DEFAULT_ORB_MODEL,
+  DEFAULT_SOLAR_ORBS,
+  DEFAULT_TERM_SYSTEM,
+  DEFAULT_VOID_OF_COURSE_RULE,
+} from './constants.ts'
+import type { ServiceClient } from './supabase.ts'
+import type {
+  ContactOrbs,
+  HouseSystem,
+  OrbModel,
+  SolarOrbs,
+  TermSystem,
+  UserPreferences,
+  VoidOfCourseRule,
+} from './types.ts'
+import {
+  isContactOrbs,
+  isHouseSystem,
+  isOrbModel,
+  isSolarOrbs,
+  isTermSystem,
+  isVoidOfCourseRule,
+  parseLotDefinitions,
+} from './validation.ts'
+
+// Load the known preference keys for a user; unknown or malformed values are ignored
+export async function loadUserPreferences(
+  client: ServiceClient,
+  userId: string | null
+): Promise<UserPreferences> {
+  if (!userId) return {}
+
+  const { data, error } = await client
+    .from('users')
+    .select('preferences')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) {
+    // Preferences are optional, so a failed lookup should not fail the request
+    console.warn('Failed to load user preferences:', error.message)
+    return {}
+  }
+
+  const stored = (data?.preferences ?? {}) as Record<string, unknown>
+  const preferences: UserPreferences = {}
+  if (isHouseSystem(stored.house_system)) preferences.house_system = stored.house_system
+  if (isTermSystem(stored.term_system)) preferences.term_system = stored.term_system
+  if (isSolarOrbs(stored.solar_orbs)) preferences.solar_orbs = stored.solar_orbs
+  if (isContactOrbs(stored.contact_orbs)) preferences.contact_orbs = stored.contact_orbs
+  if (isOrbModel(stored.orb_model)) preferences.orb_model = stored.orb_model
+  if (isVoidOfCourseRule(stored.void_of_course_rule)) {
+    preferences.void_of_course_rule = stored.void_of_course_rule
+  }
+  const lots = parseLotDefinitions(stored.lots)
+  if (lots.length > 0) preferences.lots = lots
+  return preferences
+}
+
+// Request option first, then the user's preference, then the default
+export function resolveHouseSystem(
+  requested: HouseSystem | undefined,
+  preferences: UserPreferences
+): HouseSystem {
+  return requested ?? preferences.house_system ?? DEFAULT_HOUSE_SYSTEM
+}
+
+export function resolveTermSystem(
+  requested: TermSystem | undefined,
+  preferences: UserPreferences
+): TermSystem {
+  return requested ?? preferences.term_system ?? DEFAULT_TERM_SYSTEM
+}
+
+export function resolveVoidOfCourseRule(
+  requested: VoidOfCourseRule | undefined,
+  preferences: UserPreferences
+): VoidOfCourseRule {
+  return requested ?? preferences.void_of_course_rule ?? DEFAULT_VOID_OF_COURSE_RULE
+}
+
+export function resolveOrbModel(
+  requested: OrbModel | undefined,
+  preferences: UserPreferences
+): OrbModel {
+  return requested ?? preferences.orb_model ?? DEFAULT_ORB_MODEL
+}
+
+// Orbs are merged key by key, so a request can override just one of them
+export function resolveSolarOrbs(
+  requested: Partial<SolarOrbs> | undefined,
+  preferences: UserPreferences
+): SolarOrbs {
+  return { ...DEFAULT_SOLAR_ORBS, ...preferences.solar_orbs, ...requested }
+}
+
+export function resolveContactOrbs(
+  requested: Partial<ContactOrbs> | undefined,
+  preferences: UserPreferences
+): ContactOrbs {
+  return { ...DEFAULT_CONTACT_ORBS, ...preferences.contact_orbs, ...requested }
+}
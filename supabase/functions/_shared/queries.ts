@@ -0,0 +1,49 @@
+// horary_queries persistence
+
+import { assertChartData, upgradeChartData } from './schema/chartData.ts'
+import type { ServiceClient } from './supabase.ts'
+import type { ChartData, Location, SavedHoraryQuery, StoredInterpretation } from './types.ts'
+
+export interface NewHoraryQuery {
+  userId: string | null;
+  question: string;
+  questionTime: Date;
+  location: Location;
+  chart: ChartData;
+  interpretation: StoredInterpretation;
+}
+
+// Insert a computed chart awaiting interpretation, returning the new query id
+export async function saveHoraryQuery(client: ServiceClient, query: NewHoraryQuery): Promise<string> {
+  assertChartData(query.chart)
+  const { data, error } = await client
+    .from('horary_queries')
+    .insert({
+      user_id: query.userId,
+      question: query.question,
+      chart_data: query.chart,
+      interpretation: query.interpretation,
+      location: query.location,
+      question_time: query.questionTime.toISOString(),
+      status: 'pending',
+    })
+    .select('id')
+    .single()
+
+  if (error) throw new Error(`Failed to save query: ${error.message}`)
+  return data.id
+}
+
+// A saved query by id, or null when there is none; its chart is upgraded to the current schema
+export async function loadHoraryQuery(client: ServiceClient, id: string): Promise<SavedHoraryQuery | null> {
+  const { data, error } = await client
+    .from('horary_queries')
+    .select('id, user_id, question, location, question_time, chart_data, interpretation, ai_interpretation')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load query: ${error.message}`)
+  if (!data) return null
+  const chart = data.chart_data === null ? null : upgradeChartData(data.chart_data)
+  return { ...data, chart_data: chart }
+}
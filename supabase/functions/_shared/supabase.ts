@@ -0,0 +1,30 @@
+// Supabase client for Edge Functions (service role, bypasses RLS)
+
+import { type SupabaseClient, createClient } from '@supabase/supabase-js'
+import type { Database } from './database.generated.ts'
+
+// Typed with the tables the migrations define, so a query on a missing column fails deno check
+export type ServiceClient = SupabaseClient<Database>
+
+export function createServiceClient(): ServiceClient {
+  const url = Deno.env.get('SUPABASE_URL')
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+  if (!url || !serviceKey) {
+    throw new Error('Supabase environment variables not configured')
+  }
+
+  return createClient<Database>(url, serviceKey, {
+    auth: { persistSession: false },
+  })
+}
+
+// Id of the signed-in user behind the request, or null for anonymous calls
+export async function getRequestUserId(req: Request, client: ServiceClient): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) return null
+
+  const { data, error } = await client.auth.getUser(token)
+  if (error || !data.user) return null
+  return data.user.id
+}
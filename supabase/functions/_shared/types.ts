@@ -0,0 +1,272 @@
+// Shared types for Edge Functions
+// These mirror frontend/src/types/astrology.ts and frontend/src/types/api.ts. ChartData and the
+// types it is built from are generated from schema/chart-data.schema.json, for both.
+
+import type {
+  AspectType,
+  ChartData,
+  ContactOrbs,
+  HousePosition,
+  HouseStrength,
+  HouseSystem,
+  Location,
+  OrbModel,
+  Planet,
+  PlanetaryHour,
+  PlanetaryPosition,
+  TermSystem,
+  VoidOfCourse,
+  VoidOfCourseRule,
+} from './schema/chartData.generated.ts'
+
+export type * from './schema/chartData.generated.ts'
+
+export type Modality = 'cardinal' | 'fixed' | 'mutable';
+
+// Distance from the Sun, in degrees, within which each condition applies
+export interface SolarOrbs {
+  cazimi: number;
+  combust: number;
+  under_beams: number;
+}
+
+// Points a Lot can be cast from: planets, angles, house cusps such as 'house_8', or the
+// Lots of Fortune and Spirit, which other Lots are built on
+export type LotPoint = Planet | 'Ascendant' | 'Midheaven' | 'Fortune' | 'Spirit' | `house_${number}`;
+
+// Ascendant + add - subtract; by night the two are swapped when reverse_at_night is set
+export interface LotDefinition {
+  name: string;
+  add: LotPoint;
+  subtract: LotPoint;
+  reverse_at_night: boolean;
+}
+
+// A catalogue star precessed to the chart date
+export interface FixedStar {
+  name: string;
+  longitude: number;
+  latitude: number;
+  magnitude: number;
+  nature: Planet[]; // Ptolemy's planetary natures
+}
+
+// Sunrise to the next sunrise, ruled by the planet of its weekday
+export interface PlanetaryDay {
+  day_ruler: Planet;
+  sunrise: string;
+  sunset: string;
+  next_sunrise: string;
+  hours: PlanetaryHour[];
+}
+
+export type ClassificationMethod = 'rules' | 'llm' | 'default';
+
+export interface Significator {
+  house: number;
+  ruler: Planet;
+  co_significators: Planet[]; // planets in the house, plus any natural significator
+}
+
+export interface Significators {
+  querent: Significator;
+  quesited: Significator;
+  topic: string;
+  derivation: number[]; // houses counted in turn from the 1st, e.g. [3, 7] for "my brother's spouse"
+  moon: 'querent' | 'quesited';
+  method: ClassificationMethod;
+  explanation: string[];
+}
+
+export type PerfectionKind = 'aspect' | 'translation' | 'collection';
+
+export type ObstructionKind = 'prohibition' | 'frustration' | 'refranation' | 'no_application';
+
+export interface Perfection {
+  kind: PerfectionKind;
+  aspect: AspectType;
+  planets: [Planet, Planet]; // the pair whose aspect perfects
+  via: Planet | null; // translating or collecting planet
+  degrees: number; // arc still to close before the aspect is exact
+  exact_at: string;
+}
+
+// Why the significators do not perfect directly
+export interface Obstruction {
+  kind: ObstructionKind;
+  planet: Planet | null; // the interfering or stationing planet
+  aspect: AspectType | null;
+  at: string | null;
+  description: string;
+}
+
+export interface Station {
+  planet: Planet;
+  at: string;
+  direction: 'retrograde' | 'direct'; // motion after the station
+}
+
+export interface Judgement {
+  querent: Planet;
+  quesited: Planet;
+  perfects: boolean;
+  perfection: Perfection | null;
+  obstruction: Obstruction | null;
+  stations: Station[]; // significator stations before perfection, or within the search window
+  summary: string;
+}
+
+export type TimeUnit = 'days' | 'weeks' | 'months' | 'years';
+
+// Degrees to perfection read as units of time, from one significator's sign and house
+export interface TimingEstimate {
+  planet: Planet;
+  modality: Modality;
+  house_strength: HouseStrength;
+  unit: TimeUnit; // each degree to perfection counts as one of these
+  date: string;
+}
+
+export interface Timing {
+  degrees: number;
+  estimates: TimingEstimate[]; // the applying planet first
+  earliest: string;
+  latest: string;
+  perfects_at: string; // when the aspect is exact in the ephemeris
+  reasoning: string[];
+}
+
+// Stored in users.preferences
+export interface UserPreferences {
+  house_system?: HouseSystem;
+  term_system?: TermSystem;
+  solar_orbs?: Partial<SolarOrbs>;
+  void_of_course_rule?: VoidOfCourseRule;
+  lots?: LotDefinition[]; // cast alongside the traditional catalogue
+  contact_orbs?: Partial<ContactOrbs>;
+  orb_model?: OrbModel;
+}
+
+// Request / response bodies
+export interface PlanetaryPositionsRequest {
+  timestamp?: string;
+  location?: {
+    lat: number;
+    lon: number;
+  };
+  house_system?: HouseSystem;
+}
+
+export interface PlanetaryPositionsResponse {
+  timestamp: string;
+  location: {
+    lat: number;
+    lon: number;
+  };
+  planets: PlanetaryPosition[];
+  houses: HousePosition[];
+  ascendant: number;
+  midheaven: number;
+  house_system: HouseSystem;
+}
+
+export interface HoraryChartRequest {
+  question: string;
+  question_time?: string;
+  location?: Location;
+  user_id?: string;
+  house_system?: HouseSystem;
+  term_system?: TermSystem;
+  solar_orbs?: Partial<SolarOrbs>;
+  void_of_course_rule?: VoidOfCourseRule;
+  contact_orbs?: Partial<ContactOrbs>;
+  orb_model?: OrbModel;
+}
+
+export interface HoraryChartResponse {
+  query_id: string;
+  chart_data: ChartData;
+  significators: Significators;
+  judgement: Judgement;
+  timing: Timing | null; // null when the significators do not perfect
+  interpretation_prompt: string;
+  significance_factors: string[];
+}
+
+// What horary-chart stores in horary_queries.interpretation; the AI's reading is kept apart,
+// in horary_queries.ai_interpretation
+export interface StoredInterpretation {
+  significators: Significators;
+  judgement: Judgement;
+  timing: Timing | null;
+  significance_factors: string[];
+}
+
+// A saved horary query, as the export function reads it back
+export interface SavedHoraryQuery {
+  id: string;
+  user_id: string | null;
+  question: string;
+  location: Location;
+  question_time: string;
+  chart_data: ChartData | null;
+  interpretation: StoredInterpretation | null;
+  ai_interpretation: string | null;
+}
+
+// Chart interchange formats: the AAF and Astrolog files desktop software reads, which carry the
+// data a chart is cast from, and the full ChartData as JSON, checked against its published schema
+export type InterchangeFormat = 'aaf' | 'astrolog' | 'json';
+
+export type ExportFormat = 'svg' | 'png' | 'pdf' | 'aspectarian' | InterchangeFormat;
+
+// When and where a chart is cast for, as AAF and Astrolog files record it
+export interface ChartRecord {
+  name: string;
+  timestamp: string; // UTC, ISO 8601
+  location: Location;
+  house_system?: HouseSystem; // Astrolog files may name one
+}
+
+export interface ChartExportRequest {
+  query_id: string;
+  format: ExportFormat;
+}
+
+export interface ChartImportRequest {
+  format: InterchangeFormat;
+  content: string;
+  // Used to cast charts from AAF and Astrolog records; a JSON chart keeps its own settings
+  house_system?: HouseSystem;
+  term_system?: TermSystem;
+  solar_orbs?: Partial<SolarOrbs>;
+  void_of_course_rule?: VoidOfCourseRule;
+  contact_orbs?: Partial<ContactOrbs>;
+  orb_model?: OrbModel;
+}
+
+export interface ImportedChart {
+  name: string;
+  chart_data: ChartData;
+}
+
+export interface ChartImportResponse {
+  charts: ImportedChart[];
+}
+
+export type AstroDataType = 'void_of_course' | 'planetary_hours' | 'all';
+
+export interface AstroDataRequest {
+  data_type: AstroDataType;
+  timestamp?: string;
+  location?: Location;
+  void_of_course_rule?: VoidOfCourseRule;
+}
+
+export interface AstroDataResponse {
+  timestamp: string;
+  location: Location;
+  void_of_course?: VoidOfCourse;
+  planetary_hours?: PlanetaryDay | null; // null during polar day or night
+  planetary_hour?: PlanetaryHour | null;
+}
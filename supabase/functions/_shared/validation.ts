@@ -0,0 +1,271 @@
+// Request validation helpers for Edge Functions
+
+import {
+  ASTRO_DATA_TYPES,
+  DEFAULT_CONTACT_ORBS,
+  DEFAULT_LOCATION,
+  EXPORT_FORMATS,
+  DEFAULT_SOLAR_ORBS,
+  HOUSE_SYSTEMS,
+  INTERCHANGE_FORMATS,
+  MAX_CONTACT_ORB,
+  MAX_CUSTOM_LOTS,
+  MAX_LOT_NAME_LENGTH,
+  MAX_QUESTION_LENGTH,
+  MAX_SOLAR_ORB,
+  MIN_QUESTION_LENGTH,
+  ORB_MODELS,
+  PLANETS,
+  TERM_SYSTEMS,
+  VOID_OF_COURSE_RULES,
+} from './constants.ts'
+import type {
+  AstroDataType,
+  ContactOrbs,
+  ExportFormat,
+  HouseSystem,
+  InterchangeFormat,
+  Location,
+  LotDefinition,
+  LotPoint,
+  OrbModel,
+  SolarOrbs,
+  TermSystem,
+  VoidOfCourseRule,
+} from './types.ts'
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ValidationError'
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Parse an ISO timestamp, defaulting to now when omitted
+export function parseTimestamp(value: unknown, field = 'timestamp'): Date {
+  if (value === undefined || value === null || value === '') {
+    return new Date()
+  }
+  if (typeof value !== 'string') {
+    throw new ValidationError(`${field} must be an ISO 8601 string`)
+  }
+
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`${field} is not a valid date: ${value}`)
+  }
+  return date
+}
+
+// Parse a { lat, lon, city?, country? } location, defaulting to London when omitted
+export function parseLocation(value: unknown, field = 'location'): Location {
+  if (value === undefined || value === null) {
+    return { ...DEFAULT_LOCATION }
+  }
+  if (!isRecord(value)) {
+    throw new ValidationError(`${field} must be an object with lat and lon`)
+  }
+
+  const { lat, lon, city, country } = value
+  if (typeof lat !== 'number' || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+    throw new ValidationError(`${field}.lat must be a number between -90 and 90`)
+  }
+  if (typeof lon !== 'number' || !Number.isFinite(lon) || lon < -180 || lon > 180) {
+    throw new ValidationError(`${field}.lon must be a number between -180 and 180`)
+  }
+
+  const location: Location = { lat, lon }
+  if (typeof city === 'string') location.city = city
+  if (typeof country === 'string') location.country = country
+  return location
+}
+
+export function parseQuestion(value: unknown, field = 'question'): string {
+  if (typeof value !== 'string') {
+    throw new ValidationError(`${field} is required`)
+  }
+
+  const question = value.trim()
+  if (question.length < MIN_QUESTION_LENGTH || question.length > MAX_QUESTION_LENGTH) {
+    throw new ValidationError(
+      `${field} must be between ${MIN_QUESTION_LENGTH} and ${MAX_QUESTION_LENGTH} characters`
+    )
+  }
+  return question
+}
+
+export function isHouseSystem(value: unknown): value is HouseSystem {
+  return typeof value === 'string' && (HOUSE_SYSTEMS as readonly string[]).includes(value)
+}
+
+// Optional house system; undefined means "use the user's preference or the default"
+export function parseHouseSystem(value: unknown, field = 'house_system'): HouseSystem | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  if (!isHouseSystem(value)) {
+    throw new ValidationError(`${field} must be one of: ${HOUSE_SYSTEMS.join(', ')}`)
+  }
+  return value
+}
+
+export function isTermSystem(value: unknown): value is TermSystem {
+  return typeof value === 'string' && (TERM_SYSTEMS as readonly string[]).includes(value)
+}
+
+export function parseTermSystem(value: unknown, field = 'term_system'): TermSystem | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  if (!isTermSystem(value)) {
+    throw new ValidationError(`${field} must be one of: ${TERM_SYSTEMS.join(', ')}`)
+  }
+  return value
+}
+
+export function isSolarOrbs(value: unknown): value is Partial<SolarOrbs> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  return Object.entries(value).every(([key, orb]) =>
+    key in DEFAULT_SOLAR_ORBS && typeof orb === 'number' && orb >= 0 && orb <= MAX_SOLAR_ORB
+  )
+}
+
+// Optional overrides for any of the cazimi, combust and under-the-beams orbs
+export function parseSolarOrbs(value: unknown, field = 'solar_orbs'): Partial<SolarOrbs> | undefined {
+  if (value === undefined || value === null) return undefined
+  if (!isSolarOrbs(value)) {
+    const keys = Object.keys(DEFAULT_SOLAR_ORBS).join(', ')
+    throw new ValidationError(`${field} may only set ${keys} to orbs of 0-${MAX_SOLAR_ORB} degrees`)
+  }
+  return value
+}
+
+export function isContactOrbs(value: unknown): value is Partial<ContactOrbs> {
+  if (!isRecord(value)) return false
+  return Object.entries(value).every(([key, orb]) =>
+    key in DEFAULT_CONTACT_ORBS && typeof orb === 'number' && orb >= 0 && orb <= MAX_CONTACT_ORB
+  )
+}
+
+// Optional overrides for the fixed-star and antiscia orbs
+export function parseContactOrbs(value: unknown, field = 'contact_orbs'): Partial<ContactOrbs> | undefined {
+  if (value === undefined || value === null) return undefined
+  if (!isContactOrbs(value)) {
+    const keys = Object.keys(DEFAULT_CONTACT_ORBS).join(', ')
+    throw new ValidationError(`${field} may only set ${keys} to orbs of 0-${MAX_CONTACT_ORB} degrees`)
+  }
+  return value
+}
+
+export function isOrbModel(value: unknown): value is OrbModel {
+  return typeof value === 'string' && (ORB_MODELS as readonly string[]).includes(value)
+}
+
+export function parseOrbModel(value: unknown, field = 'orb_model'): OrbModel | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  if (!isOrbModel(value)) {
+    throw new ValidationError(`${field} must be one of: ${ORB_MODELS.join(', ')}`)
+  }
+  return value
+}
+
+export function isVoidOfCourseRule(value: unknown): value is VoidOfCourseRule {
+  return typeof value === 'string' && (VOID_OF_COURSE_RULES as readonly string[]).includes(value)
+}
+
+export function parseVoidOfCourseRule(
+  value: unknown,
+  field = 'void_of_course_rule'
+): VoidOfCourseRule | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  if (!isVoidOfCourseRule(value)) {
+    throw new ValidationError(`${field} must be one of: ${VOID_OF_COURSE_RULES.join(', ')}`)
+  }
+  return value
+}
+
+export function parseAstroDataType(value: unknown, field = 'data_type'): AstroDataType {
+  if (typeof value !== 'string' || !(ASTRO_DATA_TYPES as readonly string[]).includes(value)) {
+    throw new ValidationError(`${field} must be one of: ${ASTRO_DATA_TYPES.join(', ')}`)
+  }
+  return value as AstroDataType
+}
+
+export function isLotPoint(value: unknown): value is LotPoint {
+  if (typeof value !== 'string') return false
+  return (PLANETS as readonly string[]).includes(value) ||
+    ['Ascendant', 'Midheaven', 'Fortune', 'Spirit'].includes(value) ||
+    /^house_(?:[1-9]|1[0-2])$/.test(value)
+}
+
+export function isLotDefinition(value: unknown): value is LotDefinition {
+  if (!isRecord(value)) return false
+  const { name, add, subtract, reverse_at_night: reverseAtNight } = value
+  return typeof name === 'string' &&
+    name.trim() !== '' &&
+    name.length <= MAX_LOT_NAME_LENGTH &&
+    isLotPoint(add) &&
+    isLotPoint(subtract) &&
+    add !== subtract &&
+    typeof reverseAtNight === 'boolean'
+}
+
+// User-defined Lots from preferences; malformed entries are dropped rather than rejected
+export function parseLotDefinitions(value: unknown): LotDefinition[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter(isLotDefinition)
+    .slice(0, MAX_CUSTOM_LOTS)
+    .map(lot => ({
+      name: lot.name.trim(),
+      add: lot.add,
+      subtract: lot.subtract,
+      reverse_at_night: lot.reverse_at_night,
+    }))
+}
+
+// Optional UUID such as a user_id
+export function parseOptionalUuid(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  if (typeof value !== 'string' || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
+    throw new ValidationError(`${field} must be a UUID`)
+  }
+  return value
+}
+
+export function parseUuid(value: unknown, field: string): string {
+  const uuid = parseOptionalUuid(value, field)
+  if (!uuid) throw new ValidationError(`${field} is required`)
+  return uuid
+}
+
+export function parseExportFormat(value: unknown, field = 'format'): ExportFormat {
+  if (typeof value !== 'string' || !(EXPORT_FORMATS as readonly string[]).includes(value)) {
+    throw new ValidationError(`${field} must be one of: ${EXPORT_FORMATS.join(', ')}`)
+  }
+  return value as ExportFormat
+}
+
+export function parseInterchangeFormat(value: unknown, field = 'format'): InterchangeFormat {
+  if (typeof value !== 'string' || !(INTERCHANGE_FORMATS as readonly string[]).includes(value)) {
+    throw new ValidationError(`${field} must be one of: ${INTERCHANGE_FORMATS.join(', ')}`)
+  }
+  return value as InterchangeFormat
+}
+
+// Read a JSON body, treating an empty body as {}
+export async function readJsonBody(req: Request): Promise<Record<string, unknown>> {
+  const text = await req.text()
+  if (!text.trim()) return {}
+
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    throw new ValidationError('Request body must be valid JSON')
+  }
+  if (!isRecord(body)) {
+    throw new ValidationError('Request body must be a JSON object')
+  }
+  return body
+}
@@ -0,0 +1,82 @@
+// Setup type definitions for built-in Supabase Runtime APIs
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+
+import { createLongitudeCache } from '../_shared/astro/search.ts'
+import { julianDayUT } from '../_shared/astro/time.ts'
+import { DEFAULT_VOID_OF_COURSE_RULE } from '../_shared/constants.ts'
+import { planetaryDayAt, planetaryHourIn } from '../_shared/horary/planetaryHours.ts'
+import { voidOfCourse } from '../_shared/horary/voidOfCourse.ts'
+import type { AstroDataResponse } from '../_shared/types.ts'
+import {
+  ValidationError,
+  parseAstroDataType,
+  parseLocation,
+  parseTimestamp,
+  parseVoidOfCourseRule,
+  readJsonBody,
+} from '../_shared/validation.ts'
+
+console.log("Astro data function starting...")
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      throw new ValidationError('Use POST with { data_type }')
+    }
+
+    const body = await readJsonBody(req)
+    const dataType = parseAstroDataType(body.data_type)
+    const timestamp = parseTimestamp(body.timestamp)
+    const location = parseLocation(body.location)
+    const voidOfCourseRule = parseVoidOfCourseRule(body.void_of_course_rule) ?? DEFAULT_VOID_OF_COURSE_RULE
+
+    const jd = julianDayUT(timestamp)
+    const data: AstroDataResponse = { timestamp: timestamp.toISOString(), location }
+
+    if (dataType === 'void_of_course' || dataType === 'all') {
+      data.void_of_course = voidOfCourse(createLongitudeCache(), jd, voidOfCourseRule)
+    }
+
+    if (dataType === 'planetary_hours' || dataType === 'all') {
+      const day = planetaryDayAt(timestamp, location)
+      data.planetary_hours = day
+      data.planetary_hour = day && planetaryHourIn(day, timestamp)
+    }
+
+    return new Response(
+      JSON.stringify(data),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error) {
+    const isValidationError = error instanceof ValidationError
+    if (!isValidationError) {
+      console.error('Error calculating astro data:', error)
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        type: isValidationError ? 'validation_error' : 'calculation_error'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: isValidationError ? 400 : 500
+      }
+    )
+  }
+})
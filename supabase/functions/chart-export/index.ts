@@ -0,0 +1,130 @@
+// Setup type definitions for built-in Supabase Runtime APIs
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+
+import { renderAspectarian } from '../_shared/export/aspectarian.ts'
+import { rasterizeSvg } from '../_shared/export/png.ts'
+import { renderReportPdf } from '../_shared/export/report.ts'
+import { renderWheelSvg } from '../_shared/export/wheel.ts'
+import { formatAaf } from '../_shared/interchange/aaf.ts'
+import { formatAstrolog } from '../_shared/interchange/astrolog.ts'
+import { formatChartDocument } from '../_shared/interchange/json.ts'
+import { loadHoraryQuery } from '../_shared/queries.ts'
+import { createServiceClient, getRequestUserId } from '../_shared/supabase.ts'
+import type { ChartData, ChartRecord, ExportFormat, SavedHoraryQuery } from '../_shared/types.ts'
+import {
+  ValidationError,
+  parseExportFormat,
+  parseUuid,
+  readJsonBody,
+} from '../_shared/validation.ts'
+
+console.log("Chart export function starting...")
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'content-disposition',
+}
+
+const WHEEL_SIZE = 600
+const PNG_WIDTH = 1200
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  pdf: 'application/pdf',
+  aspectarian: 'text/plain; charset=utf-8',
+  aaf: 'text/plain; charset=utf-8',
+  astrolog: 'text/plain; charset=utf-8',
+  json: 'application/json',
+}
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  svg: 'svg',
+  png: 'png',
+  pdf: 'pdf',
+  aspectarian: 'txt',
+  aaf: 'aaf',
+  astrolog: 'as',
+  json: 'json',
+}
+
+async function renderExport(
+  query: SavedHoraryQuery,
+  chart: ChartData,
+  format: ExportFormat
+): Promise<string | Uint8Array> {
+  const record: ChartRecord = { name: query.question, timestamp: chart.timestamp, location: chart.location }
+
+  switch (format) {
+    case 'svg':
+      return renderWheelSvg(chart, WHEEL_SIZE)
+    case 'png':
+      return rasterizeSvg(renderWheelSvg(chart, WHEEL_SIZE), PNG_WIDTH)
+    case 'pdf':
+      return renderReportPdf(query, chart, await rasterizeSvg(renderWheelSvg(chart, WHEEL_SIZE), PNG_WIDTH))
+    case 'aspectarian':
+      return renderAspectarian(chart)
+    case 'aaf':
+      return formatAaf([record])
+    case 'astrolog':
+      return formatAstrolog(record, chart.house_system)
+    case 'json':
+      return formatChartDocument(query.question, chart)
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      throw new ValidationError('Use POST with { query_id, format }')
+    }
+
+    const body = await readJsonBody(req)
+    const queryId = parseUuid(body.query_id, 'query_id')
+    const format = parseExportFormat(body.format)
+
+    const supabase = createServiceClient()
+    const query = await loadHoraryQuery(supabase, queryId)
+
+    // A query saved for a user can only be exported by that user
+    const userId = query?.user_id ? await getRequestUserId(req, supabase) : null
+    if (!query?.chart_data || (query.user_id && query.user_id !== userId)) {
+      throw new ValidationError('query_id does not match a saved chart')
+    }
+
+    const content = await renderExport(query, query.chart_data, format)
+
+    return new Response(typeof content === 'string' ? content : new Uint8Array(content), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="horary-${queryId}.${EXTENSIONS[format]}"`,
+      },
+      status: 200
+    })
+
+  } catch (error) {
+    const isValidationError = error instanceof ValidationError
+    if (!isValidationError) {
+      console.error('Error exporting chart:', error)
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        type: isValidationError ? 'validation_error' : 'export_error'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: isValidationError ? 400 : 500
+      }
+    )
+  }
+})
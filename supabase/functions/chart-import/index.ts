@@ -0,0 +1,147 @@
+// Setup type definitions for built-in Supabase Runtime APIs
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+
+import { calculateChart } from '../_shared/astro/chart.ts'
+import { MAX_IMPORTED_CHARTS } from '../_shared/constants.ts'
+import { parseAaf } from '../_shared/interchange/aaf.ts'
+import { parseAstrolog } from '../_shared/interchange/astrolog.ts'
+import { parseChartDocument } from '../_shared/interchange/json.ts'
+import {
+  loadUserPreferences,
+  resolveContactOrbs,
+  resolveHouseSystem,
+  resolveOrbModel,
+  resolveSolarOrbs,
+  resolveTermSystem,
+  resolveVoidOfCourseRule,
+} from '../_shared/preferences.ts'
+import { CHART_DATA_SCHEMA } from '../_shared/schema/chartData.generated.ts'
+import { createServiceClient, getRequestUserId } from '../_shared/supabase.ts'
+import type { ChartImportResponse, ChartRecord } from '../_shared/types.ts'
+import {
+  ValidationError,
+  parseContactOrbs,
+  parseHouseSystem,
+  parseInterchangeFormat,
+  parseLocation,
+  parseOrbModel,
+  parseSolarOrbs,
+  parseTermSystem,
+  parseTimestamp,
+  parseVoidOfCourseRule,
+  readJsonBody,
+} from '../_shared/validation.ts'
+
+console.log("Chart import function starting...")
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  // GET publishes the JSON Schema that 'json' documents are checked against
+  if (req.method === 'GET') {
+    return new Response(
+      JSON.stringify(CHART_DATA_SCHEMA, null, 2),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/schema+json' },
+        status: 200
+      }
+    )
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      throw new ValidationError('Use POST with { format, content }, or GET for the chart JSON Schema')
+    }
+
+    const body = await readJsonBody(req)
+    const format = parseInterchangeFormat(body.format)
+    if (typeof body.content !== 'string' || !body.content.trim()) {
+      throw new ValidationError('content must be the text of the file to import')
+    }
+    const content = body.content
+
+    let data: ChartImportResponse
+    if (format === 'json') {
+      data = { charts: [parseChartDocument(content)] }
+    } else {
+      const records: ChartRecord[] = format === 'aaf' ? parseAaf(content) : [parseAstrolog(content)]
+      if (records.length === 0) {
+        throw new ValidationError('content has no charts in it')
+      }
+      if (records.length > MAX_IMPORTED_CHARTS) {
+        throw new ValidationError(`content has ${records.length} charts; at most ${MAX_IMPORTED_CHARTS} can be imported at once`)
+      }
+
+      const requestedHouseSystem = parseHouseSystem(body.house_system)
+      const requestedTermSystem = parseTermSystem(body.term_system)
+      const requestedSolarOrbs = parseSolarOrbs(body.solar_orbs)
+      const requestedVoidOfCourseRule = parseVoidOfCourseRule(body.void_of_course_rule)
+      const requestedContactOrbs = parseContactOrbs(body.contact_orbs)
+      const requestedOrbModel = parseOrbModel(body.orb_model)
+
+      const supabase = createServiceClient()
+      const userId = await getRequestUserId(req, supabase)
+      const preferences = await loadUserPreferences(supabase, userId)
+      const termSystem = resolveTermSystem(requestedTermSystem, preferences)
+      const solarOrbs = resolveSolarOrbs(requestedSolarOrbs, preferences)
+      const voidOfCourseRule = resolveVoidOfCourseRule(requestedVoidOfCourseRule, preferences)
+      const contactOrbs = resolveContactOrbs(requestedContactOrbs, preferences)
+      const orbModel = resolveOrbModel(requestedOrbModel, preferences)
+
+      // A house system named in the file is kept unless the request asks for another
+      data = {
+        charts: records.map((record, i) => {
+          const field = `content chart ${i + 1}`
+          const calculation = calculateChart(
+            parseTimestamp(record.timestamp, `${field} time`),
+            parseLocation(record.location, `${field} location`),
+            {
+              houseSystem: resolveHouseSystem(requestedHouseSystem ?? record.house_system, preferences),
+              termSystem,
+              solarOrbs,
+              voidOfCourseRule,
+              customLots: preferences.lots,
+              contactOrbs,
+              orbModel,
+            }
+          )
+          return { name: record.name, chart_data: calculation.chart }
+        }),
+      }
+    }
+
+    return new Response(
+      JSON.stringify(data),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error) {
+    const isValidationError = error instanceof ValidationError
+    if (!isValidationError) {
+      console.error('Error importing chart:', error)
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        type: isValidationError ? 'validation_error' : 'import_error'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: isValidationError ? 400 : 500
+      }
+    )
+  }
+})
@@ -0,0 +1,153 @@
+// Setup type definitions for built-in Supabase Runtime APIs
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+
+import { calculateChart } from '../_shared/astro/chart.ts'
+import { analyzeChart } from '../_shared/horary/analysis.ts'
+import { judgePerfection } from '../_shared/horary/perfection.ts'
+import { buildInterpretationPrompt } from '../_shared/horary/prompt.ts'
+import { assignSignificators, classifyQuestion } from '../_shared/horary/significators.ts'
+import { estimateTiming } from '../_shared/horary/timing.ts'
+import {
+  loadUserPreferences,
+  resolveContactOrbs,
+  resolveHouseSystem,
+  resolveOrbModel,
+  resolveSolarOrbs,
+  resolveTermSystem,
+  resolveVoidOfCourseRule,
+} from '../_shared/preferences.ts'
+import { saveHoraryQuery } from '../_shared/queries.ts'
+import { createServiceClient, getRequestUserId } from '../_shared/supabase.ts'
+import type { HoraryChartResponse } from '../_shared/types.ts'
+import {
+  ValidationError,
+  parseContactOrbs,
+  parseHouseSystem,
+  parseLocation,
+  parseOptionalUuid,
+  parseOrbModel,
+  parseQuestion,
+  parseSolarOrbs,
+  parseTermSystem,
+  parseTimestamp,
+  parseVoidOfCourseRule,
+  readJsonBody,
+} from '../_shared/validation.ts'
+
+console.log("Horary chart function starting...")
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      throw new ValidationError('Use POST with { question, question_time, location }')
+    }
+
+    const body = await readJsonBody(req)
+    const question = parseQuestion(body.question)
+    const questionTime = parseTimestamp(body.question_time, 'question_time')
+    const location = parseLocation(body.location)
+    const requestedUserId = parseOptionalUuid(body.user_id, 'user_id')
+    const requestedHouseSystem = parseHouseSystem(body.house_system)
+    const requestedTermSystem = parseTermSystem(body.term_system)
+    const requestedSolarOrbs = parseSolarOrbs(body.solar_orbs)
+    const requestedVoidOfCourseRule = parseVoidOfCourseRule(body.void_of_course_rule)
+    const requestedContactOrbs = parseContactOrbs(body.contact_orbs)
+    const requestedOrbModel = parseOrbModel(body.orb_model)
+
+    const supabase = createServiceClient()
+
+    // Only attach a user to the query when the caller is signed in as that user
+    const userId = await getRequestUserId(req, supabase)
+    if (requestedUserId && requestedUserId !== userId) {
+      throw new ValidationError('user_id does not match the signed-in user')
+    }
+
+    const preferences = await loadUserPreferences(supabase, userId)
+    const houseSystem = resolveHouseSystem(requestedHouseSystem, preferences)
+    const termSystem = resolveTermSystem(requestedTermSystem, preferences)
+    const solarOrbs = resolveSolarOrbs(requestedSolarOrbs, preferences)
+    const voidOfCourseRule = resolveVoidOfCourseRule(requestedVoidOfCourseRule, preferences)
+    const contactOrbs = resolveContactOrbs(requestedContactOrbs, preferences)
+    const orbModel = resolveOrbModel(requestedOrbModel, preferences)
+
+    const calculation = calculateChart(questionTime, location, {
+      houseSystem,
+      termSystem,
+      solarOrbs,
+      voidOfCourseRule,
+      customLots: preferences.lots,
+      contactOrbs,
+      orbModel,
+    })
+    const classification = await classifyQuestion(question)
+    const significators = assignSignificators(classification, calculation.chart)
+    const judgement = judgePerfection(calculation, significators)
+    const timing = estimateTiming(calculation.chart, judgement)
+    const analysis = analyzeChart(calculation, significators, judgement, timing)
+
+    const queryId = await saveHoraryQuery(supabase, {
+      userId,
+      question,
+      questionTime,
+      location,
+      chart: calculation.chart,
+      interpretation: {
+        significators,
+        judgement,
+        timing,
+        significance_factors: analysis.significanceFactors,
+      },
+    })
+
+    const data: HoraryChartResponse = {
+      query_id: queryId,
+      chart_data: calculation.chart,
+      significators,
+      judgement,
+      timing,
+      interpretation_prompt: buildInterpretationPrompt(
+        question,
+        calculation.chart,
+        analysis,
+        significators
+      ),
+      significance_factors: analysis.significanceFactors,
+    }
+
+    return new Response(
+      JSON.stringify(data),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error) {
+    const isValidationError = error instanceof ValidationError
+    if (!isValidationError) {
+      console.error('Error generating horary chart:', error)
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        type: isValidationError ? 'validation_error' : 'chart_generation_error'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: isValidationError ? 400 : 500
+      }
+    )
+  }
+})
@@ -0,0 +1,63 @@
+// Setup type definitions for built-in Supabase Runtime APIs
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+
+import { calculatePlanetaryPositions } from '../_shared/astro/chart.ts'
+import {
+  ValidationError,
+  parseHouseSystem,
+  parseLocation,
+  parseTimestamp,
+  readJsonBody,
+} from '../_shared/validation.ts'
+
+console.log("Planetary positions function starting...")
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // GET returns the current sky over the default location
+    const body = req.method === 'POST' ? await readJsonBody(req) : {}
+
+    const timestamp = parseTimestamp(body.timestamp)
+    const location = parseLocation(body.location)
+    const houseSystem = parseHouseSystem(body.house_system)
+
+    // All positions come from the bundled ephemeris, no network access needed
+    const data = calculatePlanetaryPositions(timestamp, location, { houseSystem })
+
+    return new Response(
+      JSON.stringify(data),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+
+  } catch (error) {
+    const isValidationError = error instanceof ValidationError
+    if (!isValidationError) {
+      console.error('Error calculating planetary positions:', error)
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        type: isValidationError ? 'validation_error' : 'calculation_error'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: isValidationError ? 400 : 500
+      }
+    )
+  }
+})
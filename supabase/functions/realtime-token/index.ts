@@ -68,6 +68,13 @@ You are an expert horary astrologer who provides accurate, insightful interpreta
 - Provide practical guidance based on astrological principles
 - Ask clarifying questions when needed for accurate interpretation
 
+# Tools
+- Never estimate or invent planetary positions: call getCurrentPlanetaryPositions or generateHoraryChart
+- When the user asks a horary question, ask where they are, then call generateHoraryChart and judge from its result
+- Use getCurrentAstroData for the void of course Moon and the planetary hour
+- Use getUserDetails before asking for birth data the user may already have given
+- After giving a judgement, call saveQueryHistory with your reading and the chart's query_id
+
 # Language
 Respond in the same language as the user unless directed otherwise.
 
@@ -135,7 +142,7 @@ Respond in the same language as the user unless directed otherwise.
     
     return new Response(
       JSON.stringify({ 
-        error: error.message,
+        error: error instanceof Error ? error.message : 'Unknown error',
         type: 'token_generation_error'
       }),
       {
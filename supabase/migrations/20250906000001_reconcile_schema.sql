@@ -0,0 +1,54 @@
+-- One model for users and horary_queries, shared by the Edge Functions and the app.
+-- The initial schema and the app disagreed on column names, the shape of a query's location
+-- and the status values, so inserts from the app failed. Existing rows are moved into the
+-- model below; frontend/src/types/database.generated.ts and
+-- supabase/functions/_shared/database.generated.ts are generated from these migrations.
+
+-- users: the profile fields the app reads and writes
+ALTER TABLE users RENAME COLUMN display_name TO full_name;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS birth_date DATE,
+  ADD COLUMN IF NOT EXISTS birth_time TIME,
+  ADD COLUMN IF NOT EXISTS birth_location JSONB, -- Location: {lat, lon, city?, country?}
+  ADD COLUMN IF NOT EXISTS timezone TEXT,
+  ADD COLUMN IF NOT EXISTS zodiac_sign TEXT,
+  ADD COLUMN IF NOT EXISTS preferences JSONB NOT NULL DEFAULT '{}'; -- UserPreferences
+
+-- horary_queries: the moment and place a question was asked, as the API passes them
+ALTER TABLE horary_queries RENAME COLUMN query_datetime TO question_time;
+
+ALTER TABLE horary_queries
+  ADD COLUMN IF NOT EXISTS location JSONB, -- Location: {lat, lon, city?, country?}
+  ADD COLUMN IF NOT EXISTS ai_interpretation TEXT, -- The AI's reading of the chart
+  ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}';
+
+-- location_name was written as "City, Country", or as the coordinates when there was no place
+UPDATE horary_queries SET location = jsonb_strip_nulls(jsonb_build_object(
+  'lat', latitude::DOUBLE PRECISION,
+  'lon', longitude::DOUBLE PRECISION,
+  'city', CASE WHEN location_name !~ '^-?[0-9.]+, -?[0-9.]+$'
+    THEN NULLIF(btrim(split_part(location_name, ',', 1)), '') END,
+  'country', CASE WHEN location_name !~ '^-?[0-9.]+, -?[0-9.]+$' AND strpos(location_name, ',') > 0
+    THEN NULLIF(btrim(substr(location_name, strpos(location_name, ',') + 1)), '') END
+))
+WHERE location IS NULL;
+
+-- interpretation keeps the engine's judgement; the AI's reading moves to its own column
+UPDATE horary_queries
+SET ai_interpretation = interpretation->>'text',
+    interpretation = interpretation - 'text'
+WHERE interpretation ? 'text';
+
+ALTER TABLE horary_queries DROP CONSTRAINT IF EXISTS horary_queries_status_check;
+
+UPDATE horary_queries SET status = 'failed' WHERE status = 'error';
+UPDATE horary_queries SET status = 'pending' WHERE status IS NULL;
+
+ALTER TABLE horary_queries
+  ALTER COLUMN location SET NOT NULL,
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT horary_queries_status_check CHECK (status IN ('pending', 'completed', 'failed')),
+  DROP COLUMN location_name,
+  DROP COLUMN latitude,
+  DROP COLUMN longitude;